@@ -0,0 +1,16 @@
+CREATE TYPE "public"."notification_category" AS ENUM('applications', 'kyc', 'payments', 'marketing', 'job_alerts');--> statement-breakpoint
+CREATE TABLE "notification_preferences" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" bigint NOT NULL,
+	"category" "notification_category" NOT NULL,
+	"email_enabled" boolean DEFAULT true NOT NULL,
+	"in_app_enabled" boolean DEFAULT true NOT NULL,
+	"sms_enabled" boolean DEFAULT false NOT NULL,
+	"whatsapp_enabled" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_notification_preferences_user_id" ON "notification_preferences" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_notification_preferences_user_category" ON "notification_preferences" USING btree ("user_id","category");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."email_template_status" AS ENUM('draft', 'published', 'archived');--> statement-breakpoint
+CREATE TABLE "email_templates" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"version" integer NOT NULL,
+	"locale" text DEFAULT 'en' NOT NULL,
+	"subject" text NOT NULL,
+	"preheader" text,
+	"html" text NOT NULL,
+	"status" "email_template_status" DEFAULT 'draft' NOT NULL,
+	"published_at" timestamp,
+	"published_by" bigint,
+	"created_by" bigint,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_templates" ADD CONSTRAINT "email_templates_published_by_users_id_fk" FOREIGN KEY ("published_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "email_templates" ADD CONSTRAINT "email_templates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_email_templates_name_version" ON "email_templates" USING btree ("name","version");--> statement-breakpoint
+CREATE INDEX "idx_email_templates_name_locale_status" ON "email_templates" USING btree ("name","locale","status");
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TYPE "public"."email_delivery_status" AS ENUM('queued', 'sent', 'retrying', 'failed', 'bounced', 'suppressed');--> statement-breakpoint
+CREATE TYPE "public"."email_suppression_reason" AS ENUM('hard_bounce', 'complaint', 'unsubscribe', 'manual');--> statement-breakpoint
+CREATE TABLE "email_deliveries" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"recipient" text NOT NULL,
+	"template" text NOT NULL,
+	"locale" text,
+	"subject" text,
+	"template_version" integer,
+	"status" "email_delivery_status" DEFAULT 'queued' NOT NULL,
+	"job_id" text,
+	"message_id" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "email_suppressions" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"reason" "email_suppression_reason" NOT NULL,
+	"detail" text,
+	"created_by" bigint,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_suppressions_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "email_suppressions" ADD CONSTRAINT "email_suppressions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_email_deliveries_recipient" ON "email_deliveries" USING btree ("recipient");--> statement-breakpoint
+CREATE INDEX "idx_email_deliveries_status" ON "email_deliveries" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_email_deliveries_template" ON "email_deliveries" USING btree ("template");--> statement-breakpoint
+CREATE INDEX "idx_email_deliveries_created_at" ON "email_deliveries" USING btree ("created_at");
\ No newline at end of file
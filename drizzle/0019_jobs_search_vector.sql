@@ -0,0 +1,23 @@
+-- Full-text search vector for GET /jobs (see src/services/jobSearchService.ts).
+-- Kept up to date by a trigger (array_to_string is not immutable, so a generated
+-- column cannot be used) and deliberately not mapped in the Drizzle schema.
+-- Only this migration creates the column, trigger and index; `drizzle-kit push`
+-- does not (and would drop the column), so databases are set up with db:migrate.
+ALTER TABLE "jobs" ADD COLUMN "search_vector" tsvector;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION jobs_search_vector_update() RETURNS trigger AS $$
+BEGIN
+	NEW.search_vector :=
+		setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+		setweight(to_tsvector('english', coalesce(array_to_string(NEW.skills_required, ' '), '')), 'B') ||
+		setweight(to_tsvector('english', coalesce(NEW.category, '')), 'B') ||
+		setweight(to_tsvector('english', coalesce(NEW.role_summary, '')), 'C') ||
+		setweight(to_tsvector('english', coalesce(NEW.description, '')), 'D');
+	RETURN NEW;
+END
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "jobs_search_vector_trigger"
+	BEFORE INSERT OR UPDATE OF "title", "skills_required", "category", "role_summary", "description"
+	ON "jobs"
+	FOR EACH ROW EXECUTE FUNCTION jobs_search_vector_update();--> statement-breakpoint
+UPDATE "jobs" SET "title" = "title";--> statement-breakpoint
+CREATE INDEX "idx_jobs_search_vector" ON "jobs" USING gin ("search_vector");
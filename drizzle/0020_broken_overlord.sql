@@ -0,0 +1,16 @@
+CREATE TABLE "pincodes" (
+	"pincode" text PRIMARY KEY NOT NULL,
+	"district" text,
+	"state" text,
+	"latitude" double precision NOT NULL,
+	"longitude" double precision NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+CREATE INDEX "idx_pincodes_state" ON "pincodes" USING btree ("state");--> statement-breakpoint
+CREATE INDEX "idx_jobs_coordinates" ON "jobs" USING btree ("latitude","longitude");
\ No newline at end of file
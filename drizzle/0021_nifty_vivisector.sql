@@ -0,0 +1,33 @@
+CREATE TYPE "public"."location_level" AS ENUM('state', 'district', 'city', 'area');--> statement-breakpoint
+CREATE TABLE "locations" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"parent_id" bigint,
+	"level" "location_level" NOT NULL,
+	"name" text NOT NULL,
+	"normalized_name" text NOT NULL,
+	"aliases" text[],
+	"display_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "company_profiles" ADD COLUMN "location_id" bigint;--> statement-breakpoint
+ALTER TABLE "employer_profiles" ADD COLUMN "location_id" bigint;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "location_id" bigint;--> statement-breakpoint
+ALTER TABLE "jobseeker_profiles" ADD COLUMN "location_id" bigint;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "location_id" bigint;--> statement-breakpoint
+ALTER TABLE "locations" ADD CONSTRAINT "locations_parent_id_locations_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."locations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_locations_parent_level_name" ON "locations" USING btree ("parent_id","level","normalized_name");--> statement-breakpoint
+CREATE INDEX "idx_locations_parent_id" ON "locations" USING btree ("parent_id");--> statement-breakpoint
+CREATE INDEX "idx_locations_normalized_name" ON "locations" USING btree ("normalized_name" text_pattern_ops);--> statement-breakpoint
+CREATE INDEX "idx_locations_aliases" ON "locations" USING gin ("aliases");--> statement-breakpoint
+ALTER TABLE "company_profiles" ADD CONSTRAINT "company_profiles_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "employer_profiles" ADD CONSTRAINT "employer_profiles_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "jobseeker_profiles" ADD CONSTRAINT "jobseeker_profiles_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD CONSTRAINT "user_profiles_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_company_profiles_location_id" ON "company_profiles" USING btree ("location_id");--> statement-breakpoint
+CREATE INDEX "idx_employer_profiles_location_id" ON "employer_profiles" USING btree ("location_id");--> statement-breakpoint
+CREATE INDEX "idx_jobs_location_id" ON "jobs" USING btree ("location_id");--> statement-breakpoint
+CREATE INDEX "idx_jobseeker_profiles_location_id" ON "jobseeker_profiles" USING btree ("location_id");--> statement-breakpoint
+CREATE INDEX "idx_user_profiles_location_id" ON "user_profiles" USING btree ("location_id");
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TYPE "public"."job_alert_frequency" AS ENUM('daily', 'weekly', 'off');--> statement-breakpoint
+CREATE TABLE "job_alert_deliveries" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" bigint NOT NULL,
+	"job_id" bigint NOT NULL,
+	"saved_search_id" bigint,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_searches" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"uuid" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" bigint NOT NULL,
+	"name" text NOT NULL,
+	"query" jsonb NOT NULL,
+	"alert_frequency" "job_alert_frequency" DEFAULT 'daily' NOT NULL,
+	"last_alerted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "saved_searches_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+ALTER TABLE "job_alert_deliveries" ADD CONSTRAINT "job_alert_deliveries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_alert_deliveries" ADD CONSTRAINT "job_alert_deliveries_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_alert_deliveries" ADD CONSTRAINT "job_alert_deliveries_saved_search_id_saved_searches_id_fk" FOREIGN KEY ("saved_search_id") REFERENCES "public"."saved_searches"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_job_alert_deliveries_user_job" ON "job_alert_deliveries" USING btree ("user_id","job_id");--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_user_id" ON "saved_searches" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_saved_searches_alert_frequency" ON "saved_searches" USING btree ("alert_frequency");
\ No newline at end of file
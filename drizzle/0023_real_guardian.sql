@@ -0,0 +1,11 @@
+CREATE TABLE "dismissed_jobs" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" bigint NOT NULL,
+	"job_id" bigint NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dismissed_jobs" ADD CONSTRAINT "dismissed_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dismissed_jobs" ADD CONSTRAINT "dismissed_jobs_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_dismissed_jobs_user_job" ON "dismissed_jobs" USING btree ("user_id","job_id");--> statement-breakpoint
+CREATE INDEX "idx_dismissed_jobs_user_id" ON "dismissed_jobs" USING btree ("user_id");
\ No newline at end of file
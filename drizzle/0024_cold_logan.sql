@@ -0,0 +1,4 @@
+ALTER TABLE "applications" ADD COLUMN "screening_score" integer;--> statement-breakpoint
+ALTER TABLE "applications" ADD COLUMN "screening_knockout" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "screening_questions" jsonb;--> statement-breakpoint
+CREATE INDEX "idx_applications_job_screening_score" ON "applications" USING btree ("job_id","screening_score");
\ No newline at end of file
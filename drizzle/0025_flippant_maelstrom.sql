@@ -0,0 +1,19 @@
+CREATE TABLE "application_status_history" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"application_id" bigint NOT NULL,
+	"from_status" "application_status",
+	"to_status" "application_status" NOT NULL,
+	"changed_by" bigint,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "application_status_history" ADD CONSTRAINT "application_status_history_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_status_history" ADD CONSTRAINT "application_status_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_application_status_history_application_id" ON "application_status_history" USING btree ("application_id","created_at");--> statement-breakpoint
+-- Backfill: submission, then the current status for applications that have moved on
+INSERT INTO "application_status_history" ("application_id", "from_status", "to_status", "changed_by", "created_at")
+SELECT "id", NULL, 'pending', "jobseeker_id", "applied_at" FROM "applications";--> statement-breakpoint
+INSERT INTO "application_status_history" ("application_id", "from_status", "to_status", "changed_by", "created_at")
+SELECT "id", 'pending', "status", "status_changed_by", coalesce("status_changed_at", "updated_at")
+FROM "applications" WHERE "status" <> 'pending';
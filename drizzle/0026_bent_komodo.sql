@@ -0,0 +1,27 @@
+CREATE TYPE "public"."interview_mode" AS ENUM('in_person', 'phone', 'video');--> statement-breakpoint
+CREATE TYPE "public"."interview_status" AS ENUM('scheduled', 'confirmed', 'reschedule_requested', 'declined', 'cancelled');--> statement-breakpoint
+CREATE TABLE "interviews" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"uuid" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"application_id" bigint NOT NULL,
+	"scheduled_at" timestamp NOT NULL,
+	"duration_minutes" integer DEFAULT 30 NOT NULL,
+	"mode" "interview_mode" NOT NULL,
+	"location" text,
+	"meeting_url" text,
+	"interviewer_name" text,
+	"notes" text,
+	"status" "interview_status" DEFAULT 'scheduled' NOT NULL,
+	"sequence" integer DEFAULT 0 NOT NULL,
+	"candidate_note" text,
+	"responded_at" timestamp,
+	"created_by" bigint,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "interviews_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+ALTER TABLE "interviews" ADD CONSTRAINT "interviews_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "interviews" ADD CONSTRAINT "interviews_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_interviews_application_id" ON "interviews" USING btree ("application_id");--> statement-breakpoint
+CREATE INDEX "idx_interviews_scheduled_at" ON "interviews" USING btree ("scheduled_at");
\ No newline at end of file
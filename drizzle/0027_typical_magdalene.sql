@@ -0,0 +1,2 @@
+ALTER TABLE "applications" ADD COLUMN "tags" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_applications_tags" ON "applications" USING gin ("tags");
\ No newline at end of file
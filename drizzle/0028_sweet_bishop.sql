@@ -0,0 +1,39 @@
+CREATE TYPE "public"."message_report_reason" AS ENUM('spam', 'harassment', 'scam', 'inappropriate', 'other');--> statement-breakpoint
+CREATE TYPE "public"."message_report_status" AS ENUM('open', 'dismissed', 'actioned');--> statement-breakpoint
+CREATE TABLE "application_messages" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"uuid" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"application_id" bigint NOT NULL,
+	"sender_id" bigint NOT NULL,
+	"body" text NOT NULL,
+	"attachments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"read_at" timestamp,
+	"hidden_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "application_messages_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+CREATE TABLE "message_reports" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"uuid" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" bigint NOT NULL,
+	"reported_by" bigint NOT NULL,
+	"reason" "message_report_reason" NOT NULL,
+	"details" text,
+	"status" "message_report_status" DEFAULT 'open' NOT NULL,
+	"reviewed_by" bigint,
+	"reviewed_at" timestamp,
+	"review_note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "message_reports_uuid_unique" UNIQUE("uuid"),
+	CONSTRAINT "uq_message_reports_message_reporter" UNIQUE("message_id","reported_by")
+);
+--> statement-breakpoint
+ALTER TABLE "application_messages" ADD CONSTRAINT "application_messages_application_id_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_messages" ADD CONSTRAINT "application_messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_message_id_application_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."application_messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_reported_by_users_id_fk" FOREIGN KEY ("reported_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_application_messages_application_id" ON "application_messages" USING btree ("application_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_application_messages_sender_id" ON "application_messages" USING btree ("sender_id");--> statement-breakpoint
+CREATE INDEX "idx_message_reports_status" ON "message_reports" USING btree ("status","created_at");
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * Map existing free-text locations (city/district/area/state) on jobs and
+ * profiles onto the canonical locations table and set their locationId.
+ *
+ * Usage: pnpm run db:map:locations [--create-cities] [--dry-run]
+ *   --create-cities  add unmatched city names as cities under their matched
+ *                    district/state (review the "unmatched" report first)
+ *   --dry-run        report only, do not write
+ *
+ * Rows that already have a locationId are left alone. Re-runnable.
+ */
+import dotenv from "dotenv";
+import { asc, and, eq, gt, isNull } from "drizzle-orm";
+
+// Load env vars before importing database config
+dotenv.config({ path: ".env.local" });
+
+const BATCH_SIZE = 500;
+const REPORT_LIMIT = 30;
+
+async function main() {
+  const createCities = process.argv.includes("--create-cities");
+  const dryRun = process.argv.includes("--dry-run");
+
+  // Dynamic import to ensure env vars are loaded first
+  const { db } = await import("../src/config/database.ts");
+  const { jobs, employerProfiles, companyProfiles, userProfiles, jobseekerProfiles, LocationLevels } =
+    await import("../src/db/index.ts");
+  const { matchLocation, normalizeLocationName, upsertLocation } = await import(
+    "../src/services/locationService.ts"
+  );
+
+  const targets: { name: string; table: any; fields: Record<string, any> }[] = [
+    { name: "jobs", table: jobs, fields: { city: jobs.city, district: jobs.district, area: jobs.area, state: jobs.state } },
+    { name: "employer_profiles", table: employerProfiles, fields: { city: employerProfiles.city, district: employerProfiles.district, state: employerProfiles.state } },
+    { name: "company_profiles", table: companyProfiles, fields: { city: companyProfiles.city, state: companyProfiles.state } },
+    { name: "user_profiles", table: userProfiles, fields: { city: userProfiles.currentCity, district: userProfiles.district, state: userProfiles.state } },
+    { name: "jobseeker_profiles", table: jobseekerProfiles, fields: { city: jobseekerProfiles.city, state: jobseekerProfiles.state } },
+  ];
+
+  // Same strings recur a lot; match each combination once
+  const cache = new Map<string, bigint | null>();
+  const unmatched = new Map<string, number>();
+
+  const resolve = async (names: Record<string, string | null>) => {
+    const key = ["state", "district", "city", "area"].map((level) => normalizeLocationName(names[level] ?? "")).join("|");
+    if (cache.has(key)) return cache.get(key)!;
+
+    let location = await matchLocation(names);
+
+    // Matched only the district/state but a city name was given: optionally add the city
+    if (
+      createCities &&
+      !dryRun &&
+      location &&
+      names.city &&
+      normalizeLocationName(names.city) &&
+      (location.level === LocationLevels.DISTRICT || location.level === LocationLevels.STATE)
+    ) {
+      location = await upsertLocation(LocationLevels.CITY, names.city.trim(), location);
+    }
+
+    const id = location?.id ?? null;
+    cache.set(key, id);
+    return id;
+  };
+
+  try {
+    for (const target of targets) {
+      let lastId = 0n;
+      let scanned = 0;
+      let mapped = 0;
+
+      for (;;) {
+        const rows: any[] = await db
+          .select({ id: target.table.id, ...target.fields })
+          .from(target.table)
+          .where(and(isNull(target.table.locationId), gt(target.table.id, lastId)))
+          .orderBy(asc(target.table.id))
+          .limit(BATCH_SIZE);
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          scanned++;
+          const locationId = await resolve(row);
+
+          if (!locationId) {
+            const label = [row.area, row.city, row.district, row.state].filter(Boolean).join(", ");
+            if (label) unmatched.set(label, (unmatched.get(label) ?? 0) + 1);
+            continue;
+          }
+
+          mapped++;
+          if (!dryRun) {
+            await db.update(target.table).set({ locationId }).where(eq(target.table.id, row.id));
+          }
+        }
+
+        lastId = rows[rows.length - 1].id;
+      }
+
+      console.log(`${target.name}: mapped ${mapped} of ${scanned} rows${dryRun ? " (dry run)" : ""}`);
+    }
+
+    const top = [...unmatched.entries()].sort((a, b) => b[1] - a[1]).slice(0, REPORT_LIMIT);
+    if (top.length > 0) {
+      console.log(`\nMost common unmatched locations (add aliases or use --create-cities):`);
+      for (const [label, count] of top) console.log(`  ${count}\t${label}`);
+    }
+  } catch (error) {
+    console.error("Error mapping locations:", error);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main();
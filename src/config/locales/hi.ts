@@ -0,0 +1,363 @@
+/**
+ * Hindi (hi) catalog
+ */
+
+import type { LocaleCatalog } from "./index.ts";
+
+const hi: LocaleCatalog = {
+	// ============================================
+	// API Messages (English source -> Hindi)
+	// ============================================
+	messages: {
+		// Reason phrases
+		"Bad Request": "अमान्य अनुरोध",
+		"Unauthorized": "अनधिकृत",
+		"Forbidden": "प्रतिबंधित",
+		"Not Found": "नहीं मिला",
+		"Unprocessable Entity": "अप्रक्रियायोग्य अनुरोध",
+		"Conflict": "विरोधाभास",
+		"Too Many Requests": "बहुत अधिक अनुरोध",
+		"Internal Server Error": "सर्वर में आंतरिक त्रुटि",
+		"Validation failed": "सत्यापन विफल रहा",
+
+		// ErrorMessages
+		"Invalid credentials. Please check your email and password.":
+			"अमान्य विवरण। कृपया अपना ईमेल और पासवर्ड जाँचें।",
+		"No account found with this email address.": "इस ईमेल पते से कोई खाता नहीं मिला।",
+		"The password reset link is invalid or has expired.":
+			"पासवर्ड रीसेट लिंक अमान्य है या उसकी अवधि समाप्त हो गई है।",
+		"Your email address has already been verified.": "आपका ईमेल पता पहले ही सत्यापित हो चुका है।",
+		"An account with this email address already exists.": "इस ईमेल पते से एक खाता पहले से मौजूद है।",
+		"The verification code is invalid or has expired.":
+			"सत्यापन कोड अमान्य है या उसकी अवधि समाप्त हो गई है।",
+		"Invalid or expired refresh token.": "रीफ़्रेश टोकन अमान्य है या समाप्त हो गया है।",
+
+		// Auth & account
+		"Authentication required": "प्रमाणीकरण आवश्यक है",
+		"Insufficient permissions": "पर्याप्त अनुमति नहीं है",
+		"User not found": "उपयोगकर्ता नहीं मिला",
+		"User not found. Please register first.": "उपयोगकर्ता नहीं मिला। कृपया पहले पंजीकरण करें।",
+		"No account found with this phone number. Please register first.":
+			"इस फ़ोन नंबर से कोई खाता नहीं मिला। कृपया पहले पंजीकरण करें।",
+		"Please verify your email first": "कृपया पहले अपना ईमेल सत्यापित करें",
+		"Please reset your password to login.": "लॉगिन करने के लिए कृपया अपना पासवर्ड रीसेट करें।",
+		"Your account has been deactivated. Please contact support.":
+			"आपका खाता निष्क्रिय कर दिया गया है। कृपया सहायता टीम से संपर्क करें।",
+		"Your account has been suspended. Please contact support.":
+			"आपका खाता निलंबित कर दिया गया है। कृपया सहायता टीम से संपर्क करें।",
+
+		"An account with this email already exists. Please login instead.":
+			"इस ईमेल से एक खाता पहले से मौजूद है। कृपया लॉगिन करें।",
+		"An account with this phone number already exists. Please login instead.":
+			"इस फ़ोन नंबर से एक खाता पहले से मौजूद है। कृपया लॉगिन करें।",
+
+		// OTP
+		"Invalid OTP. Please try again.": "अमान्य OTP। कृपया पुनः प्रयास करें।",
+		"Invalid or expired OTP. Please request a new one.":
+			"OTP अमान्य है या समाप्त हो गया है। कृपया नया OTP मँगाएँ।",
+		"Too many failed attempts. Please request a new OTP.":
+			"बहुत अधिक असफल प्रयास। कृपया नया OTP मँगाएँ।",
+
+		// Unsubscribe
+		"Invalid or expired unsubscribe link": "सदस्यता रद्द करने का लिंक अमान्य है या समाप्त हो गया है",
+
+		// Profile & KYC
+		"Profile not found": "प्रोफ़ाइल नहीं मिली",
+		"Profile not found. Please create your profile first.":
+			"प्रोफ़ाइल नहीं मिली। कृपया पहले अपनी प्रोफ़ाइल बनाएँ।",
+		"Please complete personal info first": "कृपया पहले व्यक्तिगत जानकारी पूरी करें",
+		"Skill not found": "कौशल नहीं मिला",
+		"This skill already exists in your profile": "यह कौशल आपकी प्रोफ़ाइल में पहले से मौजूद है",
+		"Experience record not found": "अनुभव का रिकॉर्ड नहीं मिला",
+		"Record not found": "रिकॉर्ड नहीं मिला",
+		"KYC already submitted. Please wait for review.":
+			"KYC पहले ही जमा हो चुका है। कृपया समीक्षा की प्रतीक्षा करें।",
+		"Invalid document type": "अमान्य दस्तावेज़ प्रकार",
+		"Consent is required to save community data": "सामुदायिक डेटा सहेजने के लिए सहमति आवश्यक है",
+
+		// Jobs & applications
+		"Job not found": "नौकरी नहीं मिली",
+		"Application not found": "आवेदन नहीं मिला",
+		"You have already applied to this job": "आप इस नौकरी के लिए पहले ही आवेदन कर चुके हैं",
+		"You cannot apply to your own job posting": "आप अपनी ही नौकरी पर आवेदन नहीं कर सकते",
+		"This job is no longer accepting applications": "यह नौकरी अब आवेदन स्वीकार नहीं कर रही है",
+		"This job has reached the maximum number of applications":
+			"इस नौकरी के लिए आवेदनों की अधिकतम सीमा पूरी हो गई है",
+		"Resume is required for this job application": "इस आवेदन के लिए बायोडाटा (रिज़्यूमे) आवश्यक है",
+		"Complete your profile before applying": "आवेदन करने से पहले अपनी प्रोफ़ाइल पूरी करें",
+		"Complete your profile and KYC verification to apply for jobs":
+			"नौकरियों के लिए आवेदन करने हेतु अपनी प्रोफ़ाइल और KYC सत्यापन पूरा करें",
+
+		// Wallet & notifications
+		"Wallet is not active": "वॉलेट सक्रिय नहीं है",
+		"Insufficient balance": "अपर्याप्त शेष राशि",
+		"Marketing consent is required to enable marketing notifications":
+			"मार्केटिंग सूचनाएँ चालू करने के लिए मार्केटिंग सहमति आवश्यक है",
+		"Too many open notification streams": "बहुत अधिक सूचना स्ट्रीम खुली हैं",
+	},
+
+	// ============================================
+	// Zod Validation Messages
+	// ============================================
+	zod: {
+		required: "यह फ़ील्ड आवश्यक है",
+		invalidType: "अमान्य प्रकार, अपेक्षित: {expected}",
+		invalid: "अमान्य मान",
+		stringMin: "कम से कम {minimum} अक्षर होने चाहिए",
+		stringMax: "अधिकतम {maximum} अक्षर हो सकते हैं",
+		numberMin: "मान {minimum} या उससे अधिक होना चाहिए",
+		numberMax: "मान {maximum} या उससे कम होना चाहिए",
+		arrayMin: "कम से कम {minimum} आइटम चुनें",
+		arrayMax: "अधिकतम {maximum} आइटम चुने जा सकते हैं",
+		email: "अमान्य ईमेल पता",
+		url: "अमान्य URL",
+		uuid: "अमान्य पहचानकर्ता",
+		invalidFormat: "अमान्य प्रारूप",
+		invalidEnum: "अमान्य विकल्प। इनमें से चुनें: {options}",
+		invalidDate: "अमान्य तारीख",
+		unrecognizedKeys: "अज्ञात फ़ील्ड: {keys}",
+	},
+
+	// ============================================
+	// Email Layout
+	// ============================================
+	emailLayout: {
+		helpCenter: "सहायता केंद्र",
+		privacyPolicy: "गोपनीयता नीति",
+		termsOfService: "सेवा की शर्तें",
+		needHelp: "सहायता चाहिए? हमसे संपर्क करें:",
+		allRightsReserved: "सर्वाधिकार सुरक्षित।",
+		accountNotice: "आपको यह ईमेल इसलिए मिला है क्योंकि Equalio पर आपका खाता है।",
+		unsubscribe: "सदस्यता समाप्त करें",
+		unsubscribeSuffix: "(गैर-ज़रूरी ईमेल के लिए)।",
+	},
+
+	// ============================================
+	// Email Templates
+	// ============================================
+	emailTemplates: {
+		registration_success: {
+			subject: "Equalio में आपका स्वागत है - अपना ईमेल सत्यापित करें",
+			preheader: "अपना ईमेल सत्यापित करें और नौकरी खोजना शुरू करें।",
+			html: `
+			<h1>Equalio में आपका स्वागत है!</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>पंजीकरण के लिए धन्यवाद। शुरू करने के लिए कृपया अपना ईमेल पता सत्यापित करें।</p>
+			<a href="{{frontendUrl}}/verify-email?token={{verificationToken}}" class="btn">अपना ईमेल सत्यापित करें</a>
+			<div class="info-box">
+				<p>यह लिंक 24 घंटे तक मान्य है।</p>
+			</div>
+		`,
+		},
+		email_verification: {
+			subject: "अपना ईमेल पता सत्यापित करें - Equalio",
+			preheader: "अपना ईमेल पता सत्यापित करें।",
+			html: `
+			<h1>अपना ईमेल सत्यापित करें</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>अपना ईमेल पता सत्यापित करने के लिए नीचे दिए गए बटन पर क्लिक करें।</p>
+			<a href="{{frontendUrl}}/verify-email?token={{verificationToken}}" class="btn">ईमेल पता सत्यापित करें</a>
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">यदि आपने यह अनुरोध नहीं किया है, तो इस ईमेल को अनदेखा करें।</p>
+		`,
+		},
+		kyc_submitted: {
+			subject: "KYC दस्तावेज़ प्राप्त हुए - Equalio",
+			preheader: "आपके दस्तावेज़ समीक्षा में हैं।",
+			html: `
+			<h1>दस्तावेज़ प्राप्त हुए</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>हमें आपके KYC दस्तावेज़ मिल गए हैं। हमारी टीम 24-48 घंटों में इनकी समीक्षा करेगी।</p>
+			<div class="info-box">
+				<p>समीक्षा पूरी होते ही हम आपको सूचित करेंगे।</p>
+			</div>
+		`,
+		},
+		kyc_approved: {
+			subject: "KYC सत्यापन स्वीकृत - Equalio",
+			preheader: "आपका खाता अब पूरी तरह सत्यापित है।",
+			html: `
+			<h1>सत्यापन स्वीकृत!</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<div class="success-box">
+				<p>बधाई हो! आपका KYC सत्यापन स्वीकृत हो गया है और अब आप सभी सुविधाओं का उपयोग कर सकते हैं।</p>
+			</div>
+			<a href="{{frontendUrl}}/dashboard" class="btn">डैशबोर्ड पर जाएँ</a>
+		`,
+		},
+		kyc_rejected: {
+			subject: "KYC सत्यापन पर कार्रवाई आवश्यक - Equalio",
+			preheader: "आपके KYC सत्यापन पर ध्यान देने की आवश्यकता है।",
+			html: `
+			<h1>सत्यापन पर कार्रवाई आवश्यक</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>दुर्भाग्य से हम आपके जमा किए गए दस्तावेज़ों का सत्यापन नहीं कर सके।</p>
+			<div class="error-box">
+				<p><strong>कारण:</strong> {{reason}}</p>
+			</div>
+			<a href="{{frontendUrl}}/kyc" class="btn">दस्तावेज़ फिर से जमा करें</a>
+		`,
+		},
+		kyc_resubmission_requested: {
+			subject: "कृपया KYC दस्तावेज़ फिर से जमा करें - Equalio",
+			preheader: "आपके KYC दस्तावेज़ दोबारा जमा करने की आवश्यकता है।",
+			html: `
+			<h1>दस्तावेज़ दोबारा जमा करें</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>आपके सत्यापन को पूरा करने के लिए हमें अद्यतन दस्तावेज़ों की आवश्यकता है।</p>
+			<div class="warning-box">
+				<p><strong>कारण:</strong> {{reason}}</p>
+			</div>
+			<a href="{{frontendUrl}}/kyc" class="btn">दस्तावेज़ अपलोड करें</a>
+		`,
+		},
+		account_suspended: {
+			subject: "खाता निलंबित - Equalio",
+			preheader: "आपका खाता निलंबित कर दिया गया है।",
+			html: `
+			<h1>खाता निलंबित</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>आपका Equalio खाता हमारी प्रशासन टीम द्वारा निलंबित कर दिया गया है।</p>
+			<div class="warning-box">
+				<p><strong>कारण:</strong> {{reason}}</p>
+			</div>
+			<p>यदि आपको लगता है कि यह गलती से हुआ है, तो कृपया <a href="mailto:{{supportEmail}}" style="color: #4ade80;">{{supportEmail}}</a> पर संपर्क करें।</p>
+		`,
+		},
+		account_deactivated: {
+			subject: "खाता निष्क्रिय - Equalio",
+			preheader: "आपका खाता निष्क्रिय कर दिया गया है।",
+			html: `
+			<h1>खाता निष्क्रिय</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>आपका Equalio खाता हमारी प्रशासन टीम द्वारा निष्क्रिय कर दिया गया है।</p>
+			<div class="warning-box">
+				<p><strong>कारण:</strong> {{reason}}</p>
+			</div>
+			<p>अपील करने के लिए कृपया <a href="mailto:{{supportEmail}}" style="color: #4ade80;">{{supportEmail}}</a> पर संपर्क करें।</p>
+		`,
+		},
+		application_status: {
+			subject: "आवेदन अपडेट: {{status}} - {{jobTitle}}",
+			preheader: "{{jobTitle}} के लिए आपके आवेदन में अपडेट है।",
+			html: `
+			<h1>आवेदन की स्थिति में बदलाव</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>आपके नौकरी आवेदन के बारे में एक अपडेट है।</p>
+			<table class="details-table">
+				<tr>
+					<td>पद</td>
+					<td><strong>{{jobTitle}}</strong></td>
+				</tr>
+				<tr>
+					<td>कंपनी</td>
+					<td>{{companyName}}</td>
+				</tr>
+				<tr>
+					<td>नई स्थिति</td>
+					<td><strong>{{status}}</strong></td>
+				</tr>
+			</table>
+			<a href="{{frontendUrl}}/applications" class="btn btn-secondary">आवेदन का विवरण देखें</a>
+		`,
+		},
+		new_application_received: {
+			subject: "नया आवेदन प्राप्त हुआ: {{jobTitle}}",
+			preheader: "{{jobTitle}} के लिए नया आवेदन",
+			html: `
+			<h1>नया आवेदन प्राप्त हुआ</h1>
+			<p class="greeting">प्रिय {{employerName}},</p>
+			<p>आपकी नौकरी के लिए एक नए उम्मीदवार ने आवेदन किया है।</p>
+			<table class="details-table">
+				<tr>
+					<td>पद</td>
+					<td><strong>{{jobTitle}}</strong></td>
+				</tr>
+				<tr>
+					<td>आवेदक का नाम</td>
+					<td>{{applicantName}}</td>
+				</tr>
+			</table>
+			<a href="{{frontendUrl}}/employer/applications" class="btn">आवेदन की समीक्षा करें</a>
+		`,
+		},
+		payment_success: {
+			subject: "भुगतान की पुष्टि - Equalio",
+			preheader: "₹{{amount}} आपके वॉलेट में सफलतापूर्वक जोड़ दिए गए हैं।",
+			html: `
+			<h1>भुगतान सफल</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>आपका भुगतान सफलतापूर्वक प्राप्त हो गया है।</p>
+			<table class="details-table">
+				<tr>
+					<td>जोड़ी गई राशि</td>
+					<td><strong>₹{{amount}}</strong></td>
+				</tr>
+				<tr>
+					<td>लेनदेन आईडी</td>
+					<td><code style="font-family: monospace; background: #f1f5f9; padding: 2px 6px; border-radius: 4px;">{{transactionId}}</code></td>
+				</tr>
+				<tr>
+					<td>नई शेष राशि</td>
+					<td><strong>₹{{newBalance}}</strong></td>
+				</tr>
+			</table>
+			<a href="{{frontendUrl}}/wallet" class="btn">वॉलेट देखें</a>
+		`,
+		},
+		resume_unlocked: {
+			subject: "एक नियोक्ता ने आपका बायोडाटा देखा - Equalio",
+			preheader: "एक नियोक्ता आपकी प्रोफ़ाइल में रुचि रखता है।",
+			html: `
+			<h1>आपका बायोडाटा देखा गया</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<div class="success-box">
+				<p>एक सत्यापित नियोक्ता ने आपका पूरा बायोडाटा अनलॉक किया है। वे जल्द ही आपसे संपर्क कर सकते हैं।</p>
+			</div>
+			<a href="{{frontendUrl}}/profile" class="btn">अपनी प्रोफ़ाइल अपडेट करें</a>
+		`,
+		},
+		reset_password: {
+			subject: "अपना पासवर्ड रीसेट करें - Equalio",
+			preheader: "पासवर्ड रीसेट का अनुरोध प्राप्त हुआ।",
+			html: `
+			<h1>पासवर्ड रीसेट करें</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>हमें आपके खाते का पासवर्ड रीसेट करने का अनुरोध मिला है।</p>
+			<a href="{{frontendUrl}}/reset-password?code={{code}}" class="btn">पासवर्ड रीसेट करें</a>
+			<div class="warning-box">
+				<p>यदि आपने यह अनुरोध नहीं किया है, तो इस ईमेल को अनदेखा करें। आपका पासवर्ड नहीं बदलेगा।</p>
+			</div>
+		`,
+		},
+		password_changed: {
+			subject: "आपका पासवर्ड बदल दिया गया है - Equalio",
+			preheader: "आपके खाते का पासवर्ड बदल दिया गया है।",
+			html: `
+			<h1>पासवर्ड बदला गया</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>आपके Equalio खाते का पासवर्ड सफलतापूर्वक बदल दिया गया है।</p>
+			<div class="warning-box">
+				<p>यदि यह बदलाव आपने नहीं किया है, तो तुरंत <a href="mailto:{{supportEmail}}">{{supportEmail}}</a> पर संपर्क करें।</p>
+			</div>
+		`,
+		},
+		otp_verification: {
+			subject: "आपका सत्यापन कोड: {{otp}} - Equalio",
+			preheader: "आपका सत्यापन कोड {{otp}} है",
+			html: `
+			<h1>सत्यापन कोड</h1>
+			<p class="greeting">प्रिय {{userName}},</p>
+			<p>सत्यापन ({{purpose}}) के लिए इस कोड का उपयोग करें:</p>
+			<div class="code-box">{{otp}}</div>
+			<div class="warning-box">
+				<p>यह कोड <strong>{{expiryMinutes}} मिनट</strong> में समाप्त हो जाएगा।</p>
+			</div>
+			<div class="security-notice">
+				यह कोड किसी के साथ साझा न करें। Equalio कभी भी फ़ोन या ईमेल पर यह कोड नहीं माँगेगा।
+			</div>
+		`,
+		},
+	},
+};
+
+export default hi;
@@ -0,0 +1,80 @@
+/**
+ * Locale Catalogs
+ * Translations are keyed by the English source string so existing
+ * HTTPError messages and ErrorMessages values translate without call-site changes.
+ * English is the source language and has no catalog.
+ */
+
+import hi from "./hi.ts";
+import ur from "./ur.ts";
+
+export enum SupportedLocales {
+	EN = "en",
+	HI = "hi",
+	UR = "ur",
+}
+
+export type SupportedLocale = SupportedLocales;
+
+export interface ZodMessages {
+	required: string;
+	invalidType: string; // {expected}
+	invalid: string;
+	stringMin: string; // {minimum}
+	stringMax: string; // {maximum}
+	numberMin: string; // {minimum}
+	numberMax: string; // {maximum}
+	arrayMin: string; // {minimum}
+	arrayMax: string; // {maximum}
+	email: string;
+	url: string;
+	uuid: string;
+	invalidFormat: string;
+	invalidEnum: string; // {options}
+	invalidDate: string;
+	unrecognizedKeys: string; // {keys}
+}
+
+export interface EmailLayoutStrings {
+	helpCenter: string;
+	privacyPolicy: string;
+	termsOfService: string;
+	needHelp: string;
+	allRightsReserved: string;
+	accountNotice: string;
+	unsubscribe: string;
+	unsubscribeSuffix: string;
+}
+
+/**
+ * Built-in translation of an email template.
+ * Same format as registry versions: {{variable}} placeholders, body content only.
+ */
+export interface LocalizedEmailTemplate {
+	subject: string;
+	preheader: string;
+	html: string;
+}
+
+export interface LocaleCatalog {
+	messages: Record<string, string>;
+	zod: ZodMessages;
+	emailLayout: EmailLayoutStrings;
+	emailTemplates: Record<string, LocalizedEmailTemplate>;
+}
+
+export const englishEmailLayout: EmailLayoutStrings = {
+	helpCenter: "Help Center",
+	privacyPolicy: "Privacy Policy",
+	termsOfService: "Terms of Service",
+	needHelp: "Need help? Contact us at",
+	allRightsReserved: "All rights reserved.",
+	accountNotice: "You received this email because you have an account with Equalio.",
+	unsubscribe: "Unsubscribe",
+	unsubscribeSuffix: "from non-essential emails.",
+};
+
+export const catalogs: Record<Exclude<SupportedLocale, SupportedLocales.EN>, LocaleCatalog> = {
+	hi,
+	ur,
+};
@@ -0,0 +1,363 @@
+/**
+ * Urdu (ur) catalog - rendered right-to-left in emails
+ */
+
+import type { LocaleCatalog } from "./index.ts";
+
+const ur: LocaleCatalog = {
+	// ============================================
+	// API Messages (English source -> Urdu)
+	// ============================================
+	messages: {
+		// Reason phrases
+		"Bad Request": "غلط درخواست",
+		"Unauthorized": "غیر مجاز",
+		"Forbidden": "ممنوع",
+		"Not Found": "نہیں ملا",
+		"Unprocessable Entity": "ناقابل کارروائی درخواست",
+		"Conflict": "تضاد",
+		"Too Many Requests": "بہت زیادہ درخواستیں",
+		"Internal Server Error": "سرور کی اندرونی خرابی",
+		"Validation failed": "توثیق ناکام ہو گئی",
+
+		// ErrorMessages
+		"Invalid credentials. Please check your email and password.":
+			"غلط تفصیلات۔ براہ کرم اپنا ای میل اور پاس ورڈ چیک کریں۔",
+		"No account found with this email address.": "اس ای میل پتے سے کوئی اکاؤنٹ نہیں ملا۔",
+		"The password reset link is invalid or has expired.":
+			"پاس ورڈ ری سیٹ لنک غلط ہے یا اس کی میعاد ختم ہو چکی ہے۔",
+		"Your email address has already been verified.": "آپ کا ای میل پتہ پہلے ہی تصدیق شدہ ہے۔",
+		"An account with this email address already exists.": "اس ای میل پتے سے ایک اکاؤنٹ پہلے سے موجود ہے۔",
+		"The verification code is invalid or has expired.":
+			"تصدیقی کوڈ غلط ہے یا اس کی میعاد ختم ہو چکی ہے۔",
+		"Invalid or expired refresh token.": "ریفریش ٹوکن غلط ہے یا اس کی میعاد ختم ہو چکی ہے۔",
+
+		// Auth & account
+		"Authentication required": "تصدیق ضروری ہے",
+		"Insufficient permissions": "ناکافی اجازت",
+		"User not found": "صارف نہیں ملا",
+		"User not found. Please register first.": "صارف نہیں ملا۔ براہ کرم پہلے رجسٹر کریں۔",
+		"No account found with this phone number. Please register first.":
+			"اس فون نمبر سے کوئی اکاؤنٹ نہیں ملا۔ براہ کرم پہلے رجسٹر کریں۔",
+		"Please verify your email first": "براہ کرم پہلے اپنے ای میل کی تصدیق کریں",
+		"Please reset your password to login.": "لاگ ان کرنے کے لیے براہ کرم اپنا پاس ورڈ ری سیٹ کریں۔",
+		"Your account has been deactivated. Please contact support.":
+			"آپ کا اکاؤنٹ غیر فعال کر دیا گیا ہے۔ براہ کرم سپورٹ سے رابطہ کریں۔",
+		"Your account has been suspended. Please contact support.":
+			"آپ کا اکاؤنٹ معطل کر دیا گیا ہے۔ براہ کرم سپورٹ سے رابطہ کریں۔",
+
+		"An account with this email already exists. Please login instead.":
+			"اس ای میل سے ایک اکاؤنٹ پہلے سے موجود ہے۔ براہ کرم لاگ ان کریں۔",
+		"An account with this phone number already exists. Please login instead.":
+			"اس فون نمبر سے ایک اکاؤنٹ پہلے سے موجود ہے۔ براہ کرم لاگ ان کریں۔",
+
+		// OTP
+		"Invalid OTP. Please try again.": "غلط OTP۔ براہ کرم دوبارہ کوشش کریں۔",
+		"Invalid or expired OTP. Please request a new one.":
+			"OTP غلط ہے یا اس کی میعاد ختم ہو چکی ہے۔ براہ کرم نیا OTP منگوائیں۔",
+		"Too many failed attempts. Please request a new OTP.":
+			"بہت زیادہ ناکام کوششیں۔ براہ کرم نیا OTP منگوائیں۔",
+
+		// Unsubscribe
+		"Invalid or expired unsubscribe link": "ان سبسکرائب کا لنک غلط ہے یا اس کی میعاد ختم ہو چکی ہے",
+
+		// Profile & KYC
+		"Profile not found": "پروفائل نہیں ملی",
+		"Profile not found. Please create your profile first.":
+			"پروفائل نہیں ملی۔ براہ کرم پہلے اپنی پروفائل بنائیں۔",
+		"Please complete personal info first": "براہ کرم پہلے ذاتی معلومات مکمل کریں",
+		"Skill not found": "مہارت نہیں ملی",
+		"This skill already exists in your profile": "یہ مہارت آپ کی پروفائل میں پہلے سے موجود ہے",
+		"Experience record not found": "تجربے کا ریکارڈ نہیں ملا",
+		"Record not found": "ریکارڈ نہیں ملا",
+		"KYC already submitted. Please wait for review.":
+			"KYC پہلے ہی جمع ہو چکا ہے۔ براہ کرم جائزے کا انتظار کریں۔",
+		"Invalid document type": "دستاویز کی غلط قسم",
+		"Consent is required to save community data": "کمیونٹی ڈیٹا محفوظ کرنے کے لیے رضامندی ضروری ہے",
+
+		// Jobs & applications
+		"Job not found": "نوکری نہیں ملی",
+		"Application not found": "درخواست نہیں ملی",
+		"You have already applied to this job": "آپ اس نوکری کے لیے پہلے ہی درخواست دے چکے ہیں",
+		"You cannot apply to your own job posting": "آپ اپنی ہی نوکری پر درخواست نہیں دے سکتے",
+		"This job is no longer accepting applications": "یہ نوکری اب درخواستیں قبول نہیں کر رہی",
+		"This job has reached the maximum number of applications":
+			"اس نوکری کے لیے درخواستوں کی زیادہ سے زیادہ حد پوری ہو چکی ہے",
+		"Resume is required for this job application": "اس درخواست کے لیے ریزیومے ضروری ہے",
+		"Complete your profile before applying": "درخواست دینے سے پہلے اپنی پروفائل مکمل کریں",
+		"Complete your profile and KYC verification to apply for jobs":
+			"نوکریوں کے لیے درخواست دینے کے لیے اپنی پروفائل اور KYC تصدیق مکمل کریں",
+
+		// Wallet & notifications
+		"Wallet is not active": "والیٹ فعال نہیں ہے",
+		"Insufficient balance": "ناکافی بیلنس",
+		"Marketing consent is required to enable marketing notifications":
+			"مارکیٹنگ اطلاعات فعال کرنے کے لیے مارکیٹنگ رضامندی ضروری ہے",
+		"Too many open notification streams": "بہت زیادہ اطلاعاتی اسٹریمز کھلی ہیں",
+	},
+
+	// ============================================
+	// Zod Validation Messages
+	// ============================================
+	zod: {
+		required: "یہ فیلڈ ضروری ہے",
+		invalidType: "غلط قسم، متوقع: {expected}",
+		invalid: "غلط قدر",
+		stringMin: "کم از کم {minimum} حروف ہونے چاہئیں",
+		stringMax: "زیادہ سے زیادہ {maximum} حروف ہو سکتے ہیں",
+		numberMin: "قدر {minimum} یا اس سے زیادہ ہونی چاہیے",
+		numberMax: "قدر {maximum} یا اس سے کم ہونی چاہیے",
+		arrayMin: "کم از کم {minimum} آئٹم منتخب کریں",
+		arrayMax: "زیادہ سے زیادہ {maximum} آئٹم منتخب کیے جا سکتے ہیں",
+		email: "غلط ای میل پتہ",
+		url: "غلط URL",
+		uuid: "غلط شناخت کنندہ",
+		invalidFormat: "غلط فارمیٹ",
+		invalidEnum: "غلط انتخاب۔ ان میں سے منتخب کریں: {options}",
+		invalidDate: "غلط تاریخ",
+		unrecognizedKeys: "نامعلوم فیلڈز: {keys}",
+	},
+
+	// ============================================
+	// Email Layout
+	// ============================================
+	emailLayout: {
+		helpCenter: "مدد مرکز",
+		privacyPolicy: "رازداری کی پالیسی",
+		termsOfService: "سروس کی شرائط",
+		needHelp: "مدد چاہیے؟ ہم سے رابطہ کریں:",
+		allRightsReserved: "جملہ حقوق محفوظ ہیں۔",
+		accountNotice: "آپ کو یہ ای میل اس لیے موصول ہوئی ہے کیونکہ Equalio پر آپ کا اکاؤنٹ ہے۔",
+		unsubscribe: "سبسکرپشن ختم کریں",
+		unsubscribeSuffix: "(غیر ضروری ای میلز کے لیے)۔",
+	},
+
+	// ============================================
+	// Email Templates
+	// ============================================
+	emailTemplates: {
+		registration_success: {
+			subject: "Equalio میں خوش آمدید - اپنے ای میل کی تصدیق کریں",
+			preheader: "اپنے ای میل کی تصدیق کریں اور نوکری تلاش کرنا شروع کریں۔",
+			html: `
+			<h1>Equalio میں خوش آمدید!</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>رجسٹریشن کا شکریہ۔ شروع کرنے کے لیے براہ کرم اپنے ای میل پتے کی تصدیق کریں۔</p>
+			<a href="{{frontendUrl}}/verify-email?token={{verificationToken}}" class="btn">اپنے ای میل کی تصدیق کریں</a>
+			<div class="info-box">
+				<p>یہ لنک 24 گھنٹے تک کارآمد ہے۔</p>
+			</div>
+		`,
+		},
+		email_verification: {
+			subject: "اپنے ای میل پتے کی تصدیق کریں - Equalio",
+			preheader: "اپنے ای میل پتے کی تصدیق کریں۔",
+			html: `
+			<h1>اپنے ای میل کی تصدیق کریں</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>اپنے ای میل پتے کی تصدیق کے لیے نیچے دیے گئے بٹن پر کلک کریں۔</p>
+			<a href="{{frontendUrl}}/verify-email?token={{verificationToken}}" class="btn">ای میل پتے کی تصدیق کریں</a>
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">اگر آپ نے یہ درخواست نہیں کی تو اس ای میل کو نظر انداز کریں۔</p>
+		`,
+		},
+		kyc_submitted: {
+			subject: "KYC دستاویزات موصول ہو گئیں - Equalio",
+			preheader: "آپ کی دستاویزات زیر جائزہ ہیں۔",
+			html: `
+			<h1>دستاویزات موصول ہو گئیں</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>ہمیں آپ کی KYC دستاویزات موصول ہو گئی ہیں۔ ہماری ٹیم 24 سے 48 گھنٹوں میں ان کا جائزہ لے گی۔</p>
+			<div class="info-box">
+				<p>جائزہ مکمل ہوتے ہی ہم آپ کو مطلع کریں گے۔</p>
+			</div>
+		`,
+		},
+		kyc_approved: {
+			subject: "KYC تصدیق منظور - Equalio",
+			preheader: "آپ کا اکاؤنٹ اب مکمل طور پر تصدیق شدہ ہے۔",
+			html: `
+			<h1>تصدیق منظور!</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<div class="success-box">
+				<p>مبارک ہو! آپ کی KYC تصدیق منظور ہو گئی ہے اور اب آپ تمام سہولیات استعمال کر سکتے ہیں۔</p>
+			</div>
+			<a href="{{frontendUrl}}/dashboard" class="btn">ڈیش بورڈ پر جائیں</a>
+		`,
+		},
+		kyc_rejected: {
+			subject: "KYC تصدیق پر کارروائی درکار ہے - Equalio",
+			preheader: "آپ کی KYC تصدیق پر توجہ درکار ہے۔",
+			html: `
+			<h1>تصدیق پر کارروائی درکار ہے</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>افسوس کہ ہم آپ کی جمع کرائی گئی دستاویزات کی تصدیق نہیں کر سکے۔</p>
+			<div class="error-box">
+				<p><strong>وجہ:</strong> {{reason}}</p>
+			</div>
+			<a href="{{frontendUrl}}/kyc" class="btn">دستاویزات دوبارہ جمع کرائیں</a>
+		`,
+		},
+		kyc_resubmission_requested: {
+			subject: "براہ کرم KYC دستاویزات دوبارہ جمع کرائیں - Equalio",
+			preheader: "آپ کی KYC دستاویزات دوبارہ جمع کرانے کی ضرورت ہے۔",
+			html: `
+			<h1>دستاویزات دوبارہ جمع کرائیں</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>آپ کی تصدیق مکمل کرنے کے لیے ہمیں تازہ دستاویزات درکار ہیں۔</p>
+			<div class="warning-box">
+				<p><strong>وجہ:</strong> {{reason}}</p>
+			</div>
+			<a href="{{frontendUrl}}/kyc" class="btn">دستاویزات اپ لوڈ کریں</a>
+		`,
+		},
+		account_suspended: {
+			subject: "اکاؤنٹ معطل - Equalio",
+			preheader: "آپ کا اکاؤنٹ معطل کر دیا گیا ہے۔",
+			html: `
+			<h1>اکاؤنٹ معطل</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>آپ کا Equalio اکاؤنٹ ہماری انتظامی ٹیم نے معطل کر دیا ہے۔</p>
+			<div class="warning-box">
+				<p><strong>وجہ:</strong> {{reason}}</p>
+			</div>
+			<p>اگر آپ کے خیال میں یہ غلطی سے ہوا ہے تو براہ کرم <a href="mailto:{{supportEmail}}" style="color: #4ade80;">{{supportEmail}}</a> پر رابطہ کریں۔</p>
+		`,
+		},
+		account_deactivated: {
+			subject: "اکاؤنٹ غیر فعال - Equalio",
+			preheader: "آپ کا اکاؤنٹ غیر فعال کر دیا گیا ہے۔",
+			html: `
+			<h1>اکاؤنٹ غیر فعال</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>آپ کا Equalio اکاؤنٹ ہماری انتظامی ٹیم نے غیر فعال کر دیا ہے۔</p>
+			<div class="warning-box">
+				<p><strong>وجہ:</strong> {{reason}}</p>
+			</div>
+			<p>اپیل کے لیے براہ کرم <a href="mailto:{{supportEmail}}" style="color: #4ade80;">{{supportEmail}}</a> پر رابطہ کریں۔</p>
+		`,
+		},
+		application_status: {
+			subject: "درخواست کی تازہ کاری: {{status}} - {{jobTitle}}",
+			preheader: "{{jobTitle}} کے لیے آپ کی درخواست میں تازہ کاری ہے۔",
+			html: `
+			<h1>درخواست کی صورتحال میں تبدیلی</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>آپ کی نوکری کی درخواست کے بارے میں ایک تازہ کاری ہے۔</p>
+			<table class="details-table">
+				<tr>
+					<td>عہدہ</td>
+					<td><strong>{{jobTitle}}</strong></td>
+				</tr>
+				<tr>
+					<td>کمپنی</td>
+					<td>{{companyName}}</td>
+				</tr>
+				<tr>
+					<td>نئی صورتحال</td>
+					<td><strong>{{status}}</strong></td>
+				</tr>
+			</table>
+			<a href="{{frontendUrl}}/applications" class="btn btn-secondary">درخواست کی تفصیلات دیکھیں</a>
+		`,
+		},
+		new_application_received: {
+			subject: "نئی درخواست موصول ہوئی: {{jobTitle}}",
+			preheader: "{{jobTitle}} کے لیے نئی درخواست",
+			html: `
+			<h1>نئی درخواست موصول ہوئی</h1>
+			<p class="greeting">محترم {{employerName}}،</p>
+			<p>آپ کی نوکری کے لیے ایک نئے امیدوار نے درخواست دی ہے۔</p>
+			<table class="details-table">
+				<tr>
+					<td>عہدہ</td>
+					<td><strong>{{jobTitle}}</strong></td>
+				</tr>
+				<tr>
+					<td>درخواست گزار کا نام</td>
+					<td>{{applicantName}}</td>
+				</tr>
+			</table>
+			<a href="{{frontendUrl}}/employer/applications" class="btn">درخواست کا جائزہ لیں</a>
+		`,
+		},
+		payment_success: {
+			subject: "ادائیگی کی تصدیق - Equalio",
+			preheader: "₹{{amount}} آپ کے والیٹ میں کامیابی سے شامل کر دیے گئے ہیں۔",
+			html: `
+			<h1>ادائیگی کامیاب</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>آپ کی ادائیگی کامیابی سے موصول ہو گئی ہے۔</p>
+			<table class="details-table">
+				<tr>
+					<td>شامل کی گئی رقم</td>
+					<td><strong>₹{{amount}}</strong></td>
+				</tr>
+				<tr>
+					<td>ٹرانزیکشن آئی ڈی</td>
+					<td><code style="font-family: monospace; background: #f1f5f9; padding: 2px 6px; border-radius: 4px;">{{transactionId}}</code></td>
+				</tr>
+				<tr>
+					<td>نیا بیلنس</td>
+					<td><strong>₹{{newBalance}}</strong></td>
+				</tr>
+			</table>
+			<a href="{{frontendUrl}}/wallet" class="btn">والیٹ دیکھیں</a>
+		`,
+		},
+		resume_unlocked: {
+			subject: "ایک آجر نے آپ کا ریزیومے دیکھا - Equalio",
+			preheader: "ایک آجر آپ کی پروفائل میں دلچسپی رکھتا ہے۔",
+			html: `
+			<h1>آپ کا ریزیومے دیکھا گیا</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<div class="success-box">
+				<p>ایک تصدیق شدہ آجر نے آپ کا مکمل ریزیومے ان لاک کیا ہے۔ وہ جلد ہی آپ سے رابطہ کر سکتے ہیں۔</p>
+			</div>
+			<a href="{{frontendUrl}}/profile" class="btn">اپنی پروفائل اپ ڈیٹ کریں</a>
+		`,
+		},
+		reset_password: {
+			subject: "اپنا پاس ورڈ ری سیٹ کریں - Equalio",
+			preheader: "پاس ورڈ ری سیٹ کی درخواست موصول ہوئی۔",
+			html: `
+			<h1>پاس ورڈ ری سیٹ کریں</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>ہمیں آپ کے اکاؤنٹ کا پاس ورڈ ری سیٹ کرنے کی درخواست موصول ہوئی ہے۔</p>
+			<a href="{{frontendUrl}}/reset-password?code={{code}}" class="btn">پاس ورڈ ری سیٹ کریں</a>
+			<div class="warning-box">
+				<p>اگر آپ نے یہ درخواست نہیں کی تو اس ای میل کو نظر انداز کریں۔ آپ کا پاس ورڈ تبدیل نہیں ہوگا۔</p>
+			</div>
+		`,
+		},
+		password_changed: {
+			subject: "آپ کا پاس ورڈ تبدیل کر دیا گیا ہے - Equalio",
+			preheader: "آپ کے اکاؤنٹ کا پاس ورڈ تبدیل کر دیا گیا ہے۔",
+			html: `
+			<h1>پاس ورڈ تبدیل ہو گیا</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>آپ کے Equalio اکاؤنٹ کا پاس ورڈ کامیابی سے تبدیل کر دیا گیا ہے۔</p>
+			<div class="warning-box">
+				<p>اگر یہ تبدیلی آپ نے نہیں کی تو فوراً <a href="mailto:{{supportEmail}}">{{supportEmail}}</a> پر رابطہ کریں۔</p>
+			</div>
+		`,
+		},
+		otp_verification: {
+			subject: "آپ کا تصدیقی کوڈ: {{otp}} - Equalio",
+			preheader: "آپ کا تصدیقی کوڈ {{otp}} ہے",
+			html: `
+			<h1>تصدیقی کوڈ</h1>
+			<p class="greeting">محترم {{userName}}،</p>
+			<p>تصدیق ({{purpose}}) کے لیے یہ کوڈ استعمال کریں:</p>
+			<div class="code-box" dir="ltr">{{otp}}</div>
+			<div class="warning-box">
+				<p>یہ کوڈ <strong>{{expiryMinutes}} منٹ</strong> میں ختم ہو جائے گا۔</p>
+			</div>
+			<div class="security-notice">
+				یہ کوڈ کسی کے ساتھ شیئر نہ کریں۔ Equalio کبھی بھی فون یا ای میل پر یہ کوڈ نہیں مانگے گا۔
+			</div>
+		`,
+		},
+	},
+};
+
+export default ur;
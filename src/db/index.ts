@@ -76,6 +76,18 @@ export {
 } from "./schema/userConsents.ts";
 export type { UserConsent, NewUserConsent } from "./schema/userConsents.ts";
 
+// Notification Preferences (category x channel opt-ins)
+export {
+	notificationPreferences,
+	notificationCategoryEnum,
+	NotificationCategories,
+	NotificationChannels,
+} from "./schema/notificationPreferences.ts";
+export type {
+	NotificationPreference,
+	NewNotificationPreference,
+} from "./schema/notificationPreferences.ts";
+
 // ============================================
 // Profile Tables
 // ============================================
@@ -192,8 +204,9 @@ export {
 	ExperienceLevels,
 	locationTypeEnum,
 	LocationTypes,
+	ScreeningQuestionTypes,
 } from "./schema/jobs.ts";
-export type { Job, NewJob } from "./schema/jobs.ts";
+export type { Job, NewJob, ScreeningQuestion } from "./schema/jobs.ts";
 
 // Applications
 export {
@@ -201,7 +214,45 @@ export {
 	applicationStatusEnum,
 	ApplicationStatuses,
 } from "./schema/applications.ts";
-export type { Application, NewApplication } from "./schema/applications.ts";
+export type {
+	Application,
+	NewApplication,
+	ScreeningAnswers,
+} from "./schema/applications.ts";
+
+// Application Status History
+export { applicationStatusHistory } from "./schema/applicationStatusHistory.ts";
+export type {
+	ApplicationStatusHistoryEntry,
+	NewApplicationStatusHistoryEntry,
+} from "./schema/applicationStatusHistory.ts";
+
+// Interviews
+export {
+	interviews,
+	interviewModeEnum,
+	InterviewModes,
+	interviewStatusEnum,
+	InterviewStatuses,
+} from "./schema/interviews.ts";
+export type { Interview, NewInterview } from "./schema/interviews.ts";
+
+// Application Messages
+export {
+	applicationMessages,
+	messageReports,
+	messageReportReasonEnum,
+	MessageReportReasons,
+	messageReportStatusEnum,
+	MessageReportStatuses,
+} from "./schema/applicationMessages.ts";
+export type {
+	ApplicationMessage,
+	NewApplicationMessage,
+	MessageAttachment,
+	MessageReport,
+	NewMessageReport,
+} from "./schema/applicationMessages.ts";
 
 // ============================================
 // Financial Tables
@@ -264,3 +315,71 @@ export type { JobView, NewJobView } from "./schema/jobViews.ts";
 
 export { savedJobs } from "./schema/savedJobs.ts";
 export type { SavedJob, NewSavedJob } from "./schema/savedJobs.ts";
+
+export { dismissedJobs } from "./schema/dismissedJobs.ts";
+export type { DismissedJob, NewDismissedJob } from "./schema/dismissedJobs.ts";
+
+// Notifications (in-app inbox)
+export { notifications } from "./schema/notifications.ts";
+export type { Notification, NewNotification } from "./schema/notifications.ts";
+
+// Email Templates (versioned registry)
+export {
+	emailTemplates,
+	emailTemplateStatusEnum,
+	EmailTemplateStatuses,
+} from "./schema/emailTemplates.ts";
+export type { EmailTemplate, NewEmailTemplate } from "./schema/emailTemplates.ts";
+
+// Notification Digests (batched email summaries)
+export {
+	notificationDigestSettings,
+	notificationDigestItems,
+	digestFrequencyEnum,
+	DigestFrequencies,
+} from "./schema/notificationDigests.ts";
+export type {
+	NotificationDigestSetting,
+	NewNotificationDigestSetting,
+	NotificationDigestItem,
+	NewNotificationDigestItem,
+} from "./schema/notificationDigests.ts";
+
+// Email Deliveries (tracking + suppression list)
+export {
+	emailDeliveries,
+	emailSuppressions,
+	emailDeliveryStatusEnum,
+	emailSuppressionReasonEnum,
+	EmailDeliveryStatuses,
+	EmailSuppressionReasons,
+} from "./schema/emailDeliveries.ts";
+export type {
+	EmailDelivery,
+	NewEmailDelivery,
+	EmailSuppression,
+	NewEmailSuppression,
+} from "./schema/emailDeliveries.ts";
+
+// Pincodes (geocoding for radius search)
+export { pincodes } from "./schema/pincodes.ts";
+export type { Pincode, NewPincode } from "./schema/pincodes.ts";
+
+// Locations (canonical state → district → city → area taxonomy)
+export { locations, locationLevelEnum, LocationLevels } from "./schema/locations.ts";
+export type { Location, NewLocation } from "./schema/locations.ts";
+
+// Saved Searches (job alerts)
+export {
+	savedSearches,
+	jobAlertDeliveries,
+	jobAlertFrequencyEnum,
+	JobAlertFrequencies,
+} from "./schema/savedSearches.ts";
+export type {
+	SavedSearch,
+	NewSavedSearch,
+	SavedSearchQuery,
+	JobAlertDelivery,
+	NewJobAlertDelivery,
+} from "./schema/savedSearches.ts";
@@ -0,0 +1,132 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	jsonb,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+	unique,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+import { applications } from "./applications.ts";
+
+// Files attached to a message (Cloudinary uploads of type message_attachment)
+export interface MessageAttachment {
+	url: string;
+	name: string | null;
+	format: string | null;
+}
+
+// Message report reason enum
+export enum MessageReportReasons {
+	SPAM = "spam",
+	HARASSMENT = "harassment",
+	SCAM = "scam", // Asking for money, fake offers
+	INAPPROPRIATE = "inappropriate",
+	OTHER = "other",
+}
+
+export const messageReportReasonEnum = pgEnum("message_report_reason", [
+	"spam",
+	"harassment",
+	"scam",
+	"inappropriate",
+	"other",
+]);
+
+// Message report status enum
+export enum MessageReportStatuses {
+	OPEN = "open",
+	DISMISSED = "dismissed",
+	ACTIONED = "actioned", // Message removed
+}
+
+export const messageReportStatusEnum = pgEnum("message_report_status", [
+	"open",
+	"dismissed",
+	"actioned",
+]);
+
+/**
+ * APPLICATION_MESSAGES
+ * --------------------
+ * The conversation between the candidate and the employer on one
+ * application. readAt is the read receipt (set when the other participant
+ * opens the thread); hiddenAt is set when moderation removes a message.
+ */
+export const applicationMessages = pgTable(
+	"application_messages",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		uuid: uuid("uuid").defaultRandom().notNull().unique(),
+		applicationId: bigint("application_id", { mode: "bigint" })
+			.notNull()
+			.references(() => applications.id, { onDelete: "cascade" }),
+		senderId: bigint("sender_id", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+
+		body: text("body").notNull(),
+		attachments: jsonb("attachments").$type<MessageAttachment[]>().notNull().default([]),
+
+		readAt: timestamp("read_at", { mode: "date" }),
+		hiddenAt: timestamp("hidden_at", { mode: "date" }),
+
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		applicationIdIdx: index("idx_application_messages_application_id").on(
+			table.applicationId,
+			table.createdAt
+		),
+		senderIdIdx: index("idx_application_messages_sender_id").on(table.senderId),
+	})
+);
+
+export type ApplicationMessage = typeof applicationMessages.$inferSelect;
+export type NewApplicationMessage = typeof applicationMessages.$inferInsert;
+
+/**
+ * MESSAGE_REPORTS
+ * ---------------
+ * Abuse reports on messages, filed by the recipient and reviewed by admins.
+ * One report per message per reporter.
+ */
+export const messageReports = pgTable(
+	"message_reports",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		uuid: uuid("uuid").defaultRandom().notNull().unique(),
+		messageId: bigint("message_id", { mode: "bigint" })
+			.notNull()
+			.references(() => applicationMessages.id, { onDelete: "cascade" }),
+		reportedBy: bigint("reported_by", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+
+		reason: messageReportReasonEnum("reason").notNull(),
+		details: text("details"),
+
+		status: messageReportStatusEnum("status").notNull().default(MessageReportStatuses.OPEN),
+		reviewedBy: bigint("reviewed_by", { mode: "bigint" }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+		reviewedAt: timestamp("reviewed_at", { mode: "date" }),
+		reviewNote: text("review_note"),
+
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		messageReporterUnique: unique("uq_message_reports_message_reporter").on(
+			table.messageId,
+			table.reportedBy
+		),
+		statusIdx: index("idx_message_reports_status").on(table.status, table.createdAt),
+	})
+);
+
+export type MessageReport = typeof messageReports.$inferSelect;
+export type NewMessageReport = typeof messageReports.$inferInsert;
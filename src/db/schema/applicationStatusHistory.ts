@@ -0,0 +1,44 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	pgTable,
+	text,
+	timestamp,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+import { applications, applicationStatusEnum } from "./applications.ts";
+
+/**
+ * APPLICATION_STATUS_HISTORY
+ * --------------------------
+ * One row per application status change, including submission (fromStatus
+ * null). changedBy is null for system changes such as screening knockouts.
+ * Written through applicationStatusService.
+ */
+export const applicationStatusHistory = pgTable(
+	"application_status_history",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		applicationId: bigint("application_id", { mode: "bigint" })
+			.notNull()
+			.references(() => applications.id, { onDelete: "cascade" }),
+		fromStatus: applicationStatusEnum("from_status"),
+		toStatus: applicationStatusEnum("to_status").notNull(),
+		changedBy: bigint("changed_by", { mode: "bigint" }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+		note: text("note"), // Shown to the candidate in their timeline
+
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		applicationIdIdx: index("idx_application_status_history_application_id").on(
+			table.applicationId,
+			table.createdAt
+		),
+	})
+);
+
+export type ApplicationStatusHistoryEntry = typeof applicationStatusHistory.$inferSelect;
+export type NewApplicationStatusHistoryEntry = typeof applicationStatusHistory.$inferInsert;
@@ -1,6 +1,7 @@
 import {
 	bigint,
 	bigserial,
+	boolean,
 	decimal,
 	index,
 	integer,
@@ -15,6 +16,9 @@ import {
 import { users } from "./users.ts";
 import { jobs } from "./jobs.ts";
 
+// Answers keyed by ScreeningQuestion.id
+export type ScreeningAnswers = Record<string, boolean | number | string | string[]>;
+
 // Application status enum
 export enum ApplicationStatuses {
 	PENDING = "pending",
@@ -56,8 +60,10 @@ export const applications = pgTable(
 		expectedSalary: decimal("expected_salary", { precision: 12, scale: 2 }),
 		noticePeriodDays: integer("notice_period_days"),
 
-		// Screening answers (JSONB for flexibility)
-		screeningAnswers: jsonb("screening_answers"),
+		// Screening answers, validated against the job's screeningQuestions
+		screeningAnswers: jsonb("screening_answers").$type<ScreeningAnswers>(),
+		screeningScore: integer("screening_score"), // 0-100, null when the job asks nothing scorable
+		screeningKnockout: boolean("screening_knockout").notNull().default(false), // Auto-rejected on a knockout question
 
 		// Status
 		status: applicationStatusEnum("status")
@@ -72,6 +78,7 @@ export const applications = pgTable(
 		// Notes (employer internal)
 		internalNotes: text("internal_notes"),
 		rating: integer("rating"),
+		tags: text("tags").array().notNull().default([]), // Employer labels, lowercase ("night shift ok")
 
 		// Timestamps
 		appliedAt: timestamp("applied_at", { mode: "date" }).defaultNow().notNull(),
@@ -92,6 +99,11 @@ export const applications = pgTable(
 		jobseekerIdIdx: index("idx_applications_jobseeker_id").on(table.jobseekerId),
 		statusIdx: index("idx_applications_status").on(table.status),
 		deletedAtIdx: index("idx_applications_deleted_at").on(table.deletedAt),
+		jobScreeningScoreIdx: index("idx_applications_job_screening_score").on(
+			table.jobId,
+			table.screeningScore
+		),
+		tagsIdx: index("idx_applications_tags").using("gin", table.tags),
 	})
 );
 
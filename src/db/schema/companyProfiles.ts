@@ -10,6 +10,7 @@ import {
 	timestamp,
 } from "drizzle-orm/pg-core";
 import { users } from "./users.ts";
+import { locations } from "./locations.ts";
 
 // Company type enum
 export enum CompanyTypes {
@@ -70,6 +71,9 @@ export const companyProfiles = pgTable(
 		address: text("address"),
 		city: text("city"),
 		state: text("state"),
+		locationId: bigint("location_id", { mode: "bigint" }).references(() => locations.id, {
+			onDelete: "set null",
+		}), // Canonical location (most specific match), see locationService
 		country: text("country").default("India"),
 		pincode: text("pincode"),
 
@@ -106,6 +110,7 @@ export const companyProfiles = pgTable(
 		cityIdx: index("idx_company_profiles_city").on(table.city),
 		isVerifiedIdx: index("idx_company_profiles_is_verified").on(table.isVerified),
 		deletedAtIdx: index("idx_company_profiles_deleted_at").on(table.deletedAt),
+		locationIdIdx: index("idx_company_profiles_location_id").on(table.locationId),
 	})
 );
 
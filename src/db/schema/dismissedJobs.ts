@@ -0,0 +1,38 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	pgTable,
+	timestamp,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+import { jobs } from "./jobs.ts";
+
+/**
+ * DISMISSED_JOBS
+ * --------------
+ * Jobs a job seeker marked "not interested". Left out of recommendations
+ * and similar jobs.
+ */
+export const dismissedJobs = pgTable(
+	"dismissed_jobs",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		userId: bigint("user_id", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		jobId: bigint("job_id", { mode: "bigint" })
+			.notNull()
+			.references(() => jobs.id, { onDelete: "cascade" }),
+
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		userJobIdx: uniqueIndex("idx_dismissed_jobs_user_job").on(table.userId, table.jobId),
+		userIdIdx: index("idx_dismissed_jobs_user_id").on(table.userId),
+	})
+);
+
+export type DismissedJob = typeof dismissedJobs.$inferSelect;
+export type NewDismissedJob = typeof dismissedJobs.$inferInsert;
@@ -0,0 +1,108 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	integer,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+
+// Email delivery status enum
+export enum EmailDeliveryStatuses {
+	QUEUED = "queued",
+	SENT = "sent",
+	RETRYING = "retrying", // Attempt failed, another is scheduled
+	FAILED = "failed", // Out of attempts
+	BOUNCED = "bounced", // Hard bounce - recipient added to the suppression list
+	SUPPRESSED = "suppressed", // Skipped, recipient is on the suppression list
+}
+
+export const emailDeliveryStatusEnum = pgEnum("email_delivery_status", [
+	"queued",
+	"sent",
+	"retrying",
+	"failed",
+	"bounced",
+	"suppressed",
+]);
+
+// Suppression reason enum
+export enum EmailSuppressionReasons {
+	HARD_BOUNCE = "hard_bounce",
+	COMPLAINT = "complaint",
+	UNSUBSCRIBE = "unsubscribe",
+	MANUAL = "manual",
+}
+
+export const emailSuppressionReasonEnum = pgEnum("email_suppression_reason", [
+	"hard_bounce",
+	"complaint",
+	"unsubscribe",
+	"manual",
+]);
+
+/**
+ * EMAIL_DELIVERIES
+ * ----------------
+ * One row per email handed to the mailer (queued or immediate).
+ * Updated by the sender on every attempt, so support can see why an email never arrived.
+ */
+export const emailDeliveries = pgTable(
+	"email_deliveries",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+
+		// What was sent
+		recipient: text("recipient").notNull(), // Lowercased address
+		template: text("template").notNull(),
+		locale: text("locale"),
+		subject: text("subject"), // Set once rendered
+		templateVersion: integer("template_version"), // Registry version; null = built-in
+
+		// Delivery state
+		status: emailDeliveryStatusEnum("status").notNull().default("queued"),
+		jobId: text("job_id"), // BullMQ job id; null for immediate sends
+		messageId: text("message_id"), // SMTP Message-ID on success
+		attempts: integer("attempts").notNull().default(0),
+		lastError: text("last_error"),
+		sentAt: timestamp("sent_at", { mode: "date" }),
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		recipientIdx: index("idx_email_deliveries_recipient").on(table.recipient),
+		statusIdx: index("idx_email_deliveries_status").on(table.status),
+		templateIdx: index("idx_email_deliveries_template").on(table.template),
+		createdAtIdx: index("idx_email_deliveries_created_at").on(table.createdAt),
+	})
+);
+
+/**
+ * EMAIL_SUPPRESSIONS
+ * ------------------
+ * Addresses we must not email. Hard bounces and complaints block every email;
+ * unsubscribes only block non-essential (non security/account) emails.
+ */
+export const emailSuppressions = pgTable("email_suppressions", {
+	id: bigserial("id", { mode: "bigint" }).primaryKey(),
+	email: text("email").notNull().unique(), // Lowercased address
+	reason: emailSuppressionReasonEnum("reason").notNull(),
+	detail: text("detail"), // e.g. SMTP response for bounces
+	createdBy: bigint("created_by", { mode: "bigint" }).references(() => users.id, {
+		onDelete: "set null",
+	}), // Admin for manual entries
+
+	// Timestamps
+	createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type NewEmailDelivery = typeof emailDeliveries.$inferInsert;
+export type EmailSuppression = typeof emailSuppressions.$inferSelect;
+export type NewEmailSuppression = typeof emailSuppressions.$inferInsert;
@@ -0,0 +1,76 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	integer,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+
+// Template version status enum
+export enum EmailTemplateStatuses {
+	DRAFT = "draft",
+	PUBLISHED = "published",
+	ARCHIVED = "archived",
+}
+
+export const emailTemplateStatusEnum = pgEnum("email_template_status", [
+	"draft",
+	"published",
+	"archived",
+]);
+
+/**
+ * EMAIL_TEMPLATES
+ * ---------------
+ * Versioned, per-locale overrides for the built-in email templates.
+ * Versions are numbered per template name; at most one version per
+ * (name, locale) is published at a time - publishing archives the previous one.
+ * Bodies use {{variable}} placeholders (HTML-escaped) and are wrapped in the base layout.
+ */
+export const emailTemplates = pgTable(
+	"email_templates",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		name: text("name").notNull(), // e.g., "kyc_approved"
+		version: integer("version").notNull(),
+		locale: text("locale").notNull().default("en"),
+
+		// Content
+		subject: text("subject").notNull(),
+		preheader: text("preheader"),
+		html: text("html").notNull(), // Body content only (no <html>/<head>)
+
+		// Lifecycle
+		status: emailTemplateStatusEnum("status").notNull().default("draft"),
+		publishedAt: timestamp("published_at", { mode: "date" }),
+		publishedBy: bigint("published_by", { mode: "bigint" }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+		createdBy: bigint("created_by", { mode: "bigint" }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		nameVersionUnique: uniqueIndex("idx_email_templates_name_version").on(
+			table.name,
+			table.version
+		),
+		nameLocaleStatusIdx: index("idx_email_templates_name_locale_status").on(
+			table.name,
+			table.locale,
+			table.status
+		),
+	})
+);
+
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type NewEmailTemplate = typeof emailTemplates.$inferInsert;
@@ -10,6 +10,7 @@ import {
 	timestamp,
 } from "drizzle-orm/pg-core";
 import { users } from "./users.ts";
+import { locations } from "./locations.ts";
 
 // Company type enum
 export enum CompanyTypes {
@@ -74,6 +75,9 @@ export const employerProfiles = pgTable(
 		city: text("city"),
 		district: text("district"),
 		state: text("state"),
+		locationId: bigint("location_id", { mode: "bigint" }).references(() => locations.id, {
+			onDelete: "set null",
+		}), // Canonical location (most specific match), see locationService
 		country: text("country").default("India"),
 		pincode: text("pincode"),
 		authorizedPersonName: text("authorized_person_name"),
@@ -112,6 +116,7 @@ export const employerProfiles = pgTable(
 			table.isVerified
 		),
 		deletedAtIdx: index("idx_employer_profiles_deleted_at").on(table.deletedAt),
+		locationIdIdx: index("idx_employer_profiles_location_id").on(table.locationId),
 	})
 );
 
@@ -0,0 +1,86 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	integer,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+import { applications } from "./applications.ts";
+
+// Interview mode enum
+export enum InterviewModes {
+	IN_PERSON = "in_person",
+	PHONE = "phone",
+	VIDEO = "video",
+}
+
+export const interviewModeEnum = pgEnum("interview_mode", ["in_person", "phone", "video"]);
+
+// Interview status enum
+export enum InterviewStatuses {
+	SCHEDULED = "scheduled", // Awaiting the candidate's response
+	CONFIRMED = "confirmed",
+	RESCHEDULE_REQUESTED = "reschedule_requested",
+	DECLINED = "declined",
+	CANCELLED = "cancelled",
+}
+
+export const interviewStatusEnum = pgEnum("interview_status", [
+	"scheduled",
+	"confirmed",
+	"reschedule_requested",
+	"declined",
+	"cancelled",
+]);
+
+/**
+ * INTERVIEWS
+ * ----------
+ * Interview slots an employer schedules on an application. `sequence` goes up
+ * on every change so calendar clients replace the earlier invitation and
+ * stale reminder jobs can be told apart (see interviewService).
+ */
+export const interviews = pgTable(
+	"interviews",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		uuid: uuid("uuid").defaultRandom().notNull().unique(),
+		applicationId: bigint("application_id", { mode: "bigint" })
+			.notNull()
+			.references(() => applications.id, { onDelete: "cascade" }),
+
+		// Slot
+		scheduledAt: timestamp("scheduled_at", { mode: "date" }).notNull(),
+		durationMinutes: integer("duration_minutes").notNull().default(30),
+		mode: interviewModeEnum("mode").notNull(),
+		location: text("location"), // Address (in person) or number to call (phone)
+		meetingUrl: text("meeting_url"), // Video link
+		interviewerName: text("interviewer_name"),
+		notes: text("notes"), // Instructions for the candidate
+
+		// Status
+		status: interviewStatusEnum("status").notNull().default(InterviewStatuses.SCHEDULED),
+		sequence: integer("sequence").notNull().default(0),
+		candidateNote: text("candidate_note"), // Reason given when asking to reschedule or declining
+		respondedAt: timestamp("responded_at", { mode: "date" }),
+		createdBy: bigint("created_by", { mode: "bigint" }).references(() => users.id, {
+			onDelete: "set null",
+		}),
+
+		// Standard timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		applicationIdIdx: index("idx_interviews_application_id").on(table.applicationId),
+		scheduledAtIdx: index("idx_interviews_scheduled_at").on(table.scheduledAt),
+	})
+);
+
+export type Interview = typeof interviews.$inferSelect;
+export type NewInterview = typeof interviews.$inferInsert;
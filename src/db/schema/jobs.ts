@@ -3,8 +3,10 @@ import {
 	bigserial,
 	boolean,
 	decimal,
+	doublePrecision,
 	index,
 	integer,
+	jsonb,
 	pgEnum,
 	pgTable,
 	text,
@@ -13,6 +15,7 @@ import {
 	uuid,
 } from "drizzle-orm/pg-core";
 import { users } from "./users.ts";
+import { locations } from "./locations.ts";
 
 // Job status enum
 export enum JobStatuses {
@@ -80,6 +83,31 @@ export const locationTypeEnum = pgEnum("location_type", [
 	"hybrid",
 ]);
 
+// Screening question types
+export enum ScreeningQuestionTypes {
+	YES_NO = "yes_no",
+	NUMERIC = "numeric",
+	SINGLE_CHOICE = "single_choice",
+	MULTI_CHOICE = "multi_choice",
+	SHORT_TEXT = "short_text",
+}
+
+/**
+ * Employer-defined question asked when applying (see screeningService).
+ * expectedAnswer is a boolean (yes/no), a minimum (numeric), one option
+ * (single choice), the options that must all be picked (multi choice) or the
+ * text to match (short text). Knockout questions reject applicants who miss it.
+ */
+export interface ScreeningQuestion {
+	id: string;
+	type: ScreeningQuestionTypes;
+	question: string;
+	required: boolean;
+	options?: string[];
+	knockout: boolean;
+	expectedAnswer?: boolean | number | string | string[];
+}
+
 export const jobs = pgTable(
 	"jobs",
 	{
@@ -113,6 +141,11 @@ export const jobs = pgTable(
 		country: text("country").default("India"),
 		address: text("address"), // Address Line 1
 		addressLine2: text("address_line_2"),
+		latitude: doublePrecision("latitude"), // Resolved from pincode
+		longitude: doublePrecision("longitude"),
+		locationId: bigint("location_id", { mode: "bigint" }).references(() => locations.id, {
+			onDelete: "set null",
+		}), // Canonical location (most specific match), see locationService
 
 		// Compensation
 		salaryMin: decimal("salary_min", { precision: 12, scale: 2 }),
@@ -147,6 +180,7 @@ export const jobs = pgTable(
 		maxApplications: integer("max_applications"),
 		autoCloseOnLimit: boolean("auto_close_on_limit").notNull().default(false),
 		isResumeRequired: boolean("is_resume_required").notNull().default(false),
+		screeningQuestions: jsonb("screening_questions").$type<ScreeningQuestion[]>(),
 
 		// How employer wants to receive responses: platform (apply here), direct (call/WhatsApp only), both, external (third-party URL)
 		howToApply: text("how_to_apply").default("platform").notNull(), // "platform" | "direct" | "both" | "external"
@@ -164,6 +198,11 @@ export const jobs = pgTable(
 		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
 		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
 		deletedAt: timestamp("deleted_at", { mode: "date" }),
+
+		// search_vector (tsvector) is trigger-maintained by migration 0019 and
+		// intentionally unmapped so select() results never carry it; query it
+		// through services/jobSearchService.ts. Only migrations create the
+		// column, trigger and index: set databases up with db:migrate, not db:push.
 	},
 	(table) => ({
 		slugIdx: uniqueIndex("idx_jobs_slug").on(table.slug),
@@ -173,7 +212,9 @@ export const jobs = pgTable(
 		categoryIdx: index("idx_jobs_category").on(table.category),
 		jobTypeIdx: index("idx_jobs_job_type").on(table.jobType),
 		deletedAtIdx: index("idx_jobs_deleted_at").on(table.deletedAt),
+		locationIdIdx: index("idx_jobs_location_id").on(table.locationId),
 		publishedAtIdx: index("idx_jobs_published_at").on(table.publishedAt),
+		coordinatesIdx: index("idx_jobs_coordinates").on(table.latitude, table.longitude),
 	})
 );
 
@@ -12,6 +12,7 @@ import {
 	timestamp,
 } from "drizzle-orm/pg-core";
 import { users } from "./users.ts";
+import { locations } from "./locations.ts";
 
 // Gender enum
 export enum Genders {
@@ -41,6 +42,9 @@ export const jobseekerProfiles = pgTable(
 		address: text("address"),
 		city: text("city"),
 		state: text("state"),
+		locationId: bigint("location_id", { mode: "bigint" }).references(() => locations.id, {
+			onDelete: "set null",
+		}), // Canonical location (most specific match), see locationService
 		country: text("country").default("India"),
 		pincode: text("pincode"),
 
@@ -76,6 +80,7 @@ export const jobseekerProfiles = pgTable(
 			table.isOpenToWork
 		),
 		deletedAtIdx: index("idx_jobseeker_profiles_deleted_at").on(table.deletedAt),
+		locationIdIdx: index("idx_jobseeker_profiles_location_id").on(table.locationId),
 	})
 );
 
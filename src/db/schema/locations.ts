@@ -0,0 +1,70 @@
+import {
+	AnyPgColumn,
+	bigint,
+	bigserial,
+	index,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+// Location level enum (state → district → city → area)
+export enum LocationLevels {
+	STATE = "state",
+	DISTRICT = "district",
+	CITY = "city",
+	AREA = "area",
+}
+
+export const locationLevelEnum = pgEnum("location_level", [
+	"state",
+	"district",
+	"city",
+	"area",
+]);
+
+/**
+ * LOCATIONS
+ * ---------
+ * Canonical place names. Each entry hangs off its parent (a city may sit
+ * directly under a state when its district is unknown). Free-text location
+ * columns on jobs and profiles are matched against normalizedName/aliases and
+ * linked through their optional locationId.
+ */
+export const locations = pgTable(
+	"locations",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		parentId: bigint("parent_id", { mode: "bigint" }).references(
+			(): AnyPgColumn => locations.id,
+			{ onDelete: "cascade" }
+		),
+		level: locationLevelEnum("level").notNull(),
+
+		name: text("name").notNull(), // "Lucknow"
+		normalizedName: text("normalized_name").notNull(), // "lucknow" (see normalizeLocationName)
+		aliases: text("aliases").array(), // Normalized alternate spellings/old names: "lakhnau"
+		displayName: text("display_name").notNull(), // "Lucknow, Uttar Pradesh"
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		parentLevelNameIdx: uniqueIndex("idx_locations_parent_level_name").on(
+			table.parentId,
+			table.level,
+			table.normalizedName
+		),
+		parentIdIdx: index("idx_locations_parent_id").on(table.parentId),
+		normalizedNameIdx: index("idx_locations_normalized_name").on(
+			table.normalizedName.op("text_pattern_ops")
+		),
+		aliasesIdx: index("idx_locations_aliases").using("gin", table.aliases),
+	})
+);
+
+export type Location = typeof locations.$inferSelect;
+export type NewLocation = typeof locations.$inferInsert;
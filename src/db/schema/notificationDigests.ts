@@ -0,0 +1,79 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	jsonb,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+import { notificationCategoryEnum } from "./notificationPreferences.ts";
+
+// Digest frequency enum
+export enum DigestFrequencies {
+	IMMEDIATE = "immediate",
+	DAILY = "daily",
+	WEEKLY = "weekly",
+}
+
+export const digestFrequencyEnum = pgEnum("digest_frequency", ["immediate", "daily", "weekly"]);
+
+/**
+ * NOTIFICATION_DIGEST_SETTINGS
+ * ----------------------------
+ * Per-user email digest frequency. A missing row means "immediate"
+ * (one email per event, the original behaviour).
+ */
+export const notificationDigestSettings = pgTable("notification_digest_settings", {
+	id: bigserial("id", { mode: "bigint" }).primaryKey(),
+	userId: bigint("user_id", { mode: "bigint" })
+		.notNull()
+		.unique()
+		.references(() => users.id, { onDelete: "cascade" }),
+	frequency: digestFrequencyEnum("frequency").notNull().default("immediate"),
+	lastSentAt: timestamp("last_sent_at", { mode: "date" }),
+
+	// Timestamps
+	createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+/**
+ * NOTIFICATION_DIGEST_ITEMS
+ * -------------------------
+ * Email notifications held back for the user's next digest.
+ * sentAt = null means pending; the digest worker stamps it when the summary goes out.
+ */
+export const notificationDigestItems = pgTable(
+	"notification_digest_items",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		userId: bigint("user_id", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		category: notificationCategoryEnum("category").notNull(),
+
+		// Content
+		type: text("type").notNull(), // e.g. "new_application", "application_status"
+		title: text("title").notNull(),
+		message: text("message").notNull(),
+		link: text("link"),
+		metadata: jsonb("metadata"), // e.g. { jobTitle } for grouping in the summary
+
+		// Delivery
+		sentAt: timestamp("sent_at", { mode: "date" }),
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		userSentIdx: index("idx_notification_digest_items_user_sent").on(table.userId, table.sentAt),
+	})
+);
+
+export type NotificationDigestSetting = typeof notificationDigestSettings.$inferSelect;
+export type NewNotificationDigestSetting = typeof notificationDigestSettings.$inferInsert;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+export type NewNotificationDigestItem = typeof notificationDigestItems.$inferInsert;
@@ -0,0 +1,74 @@
+import {
+	bigint,
+	bigserial,
+	boolean,
+	index,
+	pgEnum,
+	pgTable,
+	timestamp,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+
+// Notification category enum
+export enum NotificationCategories {
+	APPLICATIONS = "applications",
+	KYC = "kyc",
+	PAYMENTS = "payments",
+	MARKETING = "marketing",
+	JOB_ALERTS = "job_alerts",
+}
+
+export const notificationCategoryEnum = pgEnum("notification_category", [
+	"applications",
+	"kyc",
+	"payments",
+	"marketing",
+	"job_alerts",
+]);
+
+// Delivery channels (one boolean column each)
+export enum NotificationChannels {
+	EMAIL = "email",
+	IN_APP = "inApp",
+	SMS = "sms",
+	WHATSAPP = "whatsapp",
+}
+
+/**
+ * NOTIFICATION_PREFERENCES
+ * ------------------------
+ * Per-user, per-category channel opt-ins.
+ * A missing row means the category defaults apply (see notificationPreferenceService).
+ * Security/account emails (OTP, password reset, suspension) are not configurable.
+ */
+export const notificationPreferences = pgTable(
+	"notification_preferences",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		userId: bigint("user_id", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		category: notificationCategoryEnum("category").notNull(),
+
+		// Channels
+		emailEnabled: boolean("email_enabled").notNull().default(true),
+		inAppEnabled: boolean("in_app_enabled").notNull().default(true),
+		smsEnabled: boolean("sms_enabled").notNull().default(false),
+		whatsappEnabled: boolean("whatsapp_enabled").notNull().default(false),
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		userIdIdx: index("idx_notification_preferences_user_id").on(table.userId),
+		userCategoryUnique: uniqueIndex("idx_notification_preferences_user_category").on(
+			table.userId,
+			table.category
+		),
+	})
+);
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NewNotificationPreference = typeof notificationPreferences.$inferInsert;
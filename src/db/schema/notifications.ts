@@ -0,0 +1,49 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	jsonb,
+	pgTable,
+	text,
+	timestamp,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+
+/**
+ * NOTIFICATIONS
+ * -------------
+ * In-app notification inbox (bell menu).
+ * Rows are written by the in-app notification worker; readAt = null means unread.
+ */
+export const notifications = pgTable(
+	"notifications",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		uuid: uuid("uuid").defaultRandom().notNull().unique(),
+		userId: bigint("user_id", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+
+		// Content
+		type: text("type").notNull(), // e.g. "application_status", "kyc_approved"
+		title: text("title").notNull(),
+		message: text("message").notNull(),
+		link: text("link"), // Frontend route to open on click
+		metadata: jsonb("metadata"),
+
+		// Read state
+		readAt: timestamp("read_at", { mode: "date" }),
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		userIdIdx: index("idx_notifications_user_id").on(table.userId),
+		userReadIdx: index("idx_notifications_user_read").on(table.userId, table.readAt),
+		createdAtIdx: index("idx_notifications_created_at").on(table.createdAt),
+	})
+);
+
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
@@ -0,0 +1,29 @@
+import { doublePrecision, index, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+/**
+ * PINCODES
+ * --------
+ * Indian postal pincodes with a representative coordinate (mean of the
+ * pincode's post offices). Loaded by `pnpm run db:seed:pincodes` and used to
+ * geocode jobs and profiles for radius search.
+ */
+export const pincodes = pgTable(
+	"pincodes",
+	{
+		pincode: text("pincode").primaryKey(), // 6 digits
+		district: text("district"),
+		state: text("state"),
+		latitude: doublePrecision("latitude").notNull(),
+		longitude: doublePrecision("longitude").notNull(),
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		stateIdx: index("idx_pincodes_state").on(table.state),
+	})
+);
+
+export type Pincode = typeof pincodes.$inferSelect;
+export type NewPincode = typeof pincodes.$inferInsert;
@@ -0,0 +1,104 @@
+import {
+	bigint,
+	bigserial,
+	index,
+	jsonb,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+	uniqueIndex,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.ts";
+import { jobs } from "./jobs.ts";
+
+// Job alert frequency enum
+export enum JobAlertFrequencies {
+	DAILY = "daily",
+	WEEKLY = "weekly",
+	OFF = "off",
+}
+
+export const jobAlertFrequencyEnum = pgEnum("job_alert_frequency", ["daily", "weekly", "off"]);
+
+/**
+ * GET /jobs query parameters kept by a saved search
+ */
+export interface SavedSearchQuery {
+	search?: string;
+	city?: string;
+	jobType?: string;
+	category?: string;
+	locationType?: string;
+	minSalary?: number;
+	maxSalary?: number;
+	minExperience?: number;
+	maxExperience?: number;
+	lat?: number;
+	lng?: number;
+	pincode?: string;
+	radiusKm?: number;
+}
+
+/**
+ * SAVED_SEARCHES
+ * --------------
+ * A job seeker's saved GET /jobs filters. The job alert worker emails jobs
+ * published since lastAlertedAt that match, on the chosen schedule.
+ */
+export const savedSearches = pgTable(
+	"saved_searches",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		uuid: uuid("uuid").defaultRandom().notNull().unique(),
+		userId: bigint("user_id", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+
+		name: text("name").notNull(), // "Welder in Lucknow"
+		query: jsonb("query").$type<SavedSearchQuery>().notNull(),
+		alertFrequency: jobAlertFrequencyEnum("alert_frequency").notNull().default("daily"),
+		lastAlertedAt: timestamp("last_alerted_at", { mode: "date" }), // Jobs published after this are new
+
+		// Timestamps
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		userIdIdx: index("idx_saved_searches_user_id").on(table.userId),
+		alertFrequencyIdx: index("idx_saved_searches_alert_frequency").on(table.alertFrequency),
+	})
+);
+
+/**
+ * JOB_ALERT_DELIVERIES
+ * --------------------
+ * Jobs already sent to a user in a job alert, so a job is alerted at most
+ * once per user even when several saved searches match it.
+ */
+export const jobAlertDeliveries = pgTable(
+	"job_alert_deliveries",
+	{
+		id: bigserial("id", { mode: "bigint" }).primaryKey(),
+		userId: bigint("user_id", { mode: "bigint" })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		jobId: bigint("job_id", { mode: "bigint" })
+			.notNull()
+			.references(() => jobs.id, { onDelete: "cascade" }),
+		savedSearchId: bigint("saved_search_id", { mode: "bigint" }).references(() => savedSearches.id, {
+			onDelete: "set null",
+		}),
+
+		createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+	},
+	(table) => ({
+		userJobIdx: uniqueIndex("idx_job_alert_deliveries_user_job").on(table.userId, table.jobId),
+	})
+);
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type NewSavedSearch = typeof savedSearches.$inferInsert;
+export type JobAlertDelivery = typeof jobAlertDeliveries.$inferSelect;
+export type NewJobAlertDelivery = typeof jobAlertDeliveries.$inferInsert;
@@ -3,6 +3,7 @@ import {
 	bigserial,
 	boolean,
 	date,
+	doublePrecision,
 	index,
 	pgEnum,
 	pgTable,
@@ -10,6 +11,7 @@ import {
 	timestamp,
 } from "drizzle-orm/pg-core";
 import { users } from "./users.ts";
+import { locations } from "./locations.ts";
 
 // Gender enum
 export enum Genders {
@@ -46,6 +48,11 @@ export const userProfiles = pgTable(
 		district: text("district"),
 		state: text("state"),
 		pincode: text("pincode"),
+		latitude: doublePrecision("latitude"), // Resolved from pincode
+		longitude: doublePrecision("longitude"),
+		locationId: bigint("location_id", { mode: "bigint" }).references(() => locations.id, {
+			onDelete: "set null",
+		}), // Canonical location (most specific match), see locationService
 
 		// Language
 		motherTongue: text("mother_tongue"),
@@ -68,6 +75,7 @@ export const userProfiles = pgTable(
 		cityIdx: index("idx_user_profiles_city").on(table.currentCity),
 		stateIdx: index("idx_user_profiles_state").on(table.state),
 		deletedAtIdx: index("idx_user_profiles_deleted_at").on(table.deletedAt),
+		locationIdIdx: index("idx_user_profiles_location_id").on(table.locationId),
 	})
 );
 
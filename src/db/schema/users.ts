@@ -61,6 +61,7 @@ export const users = pgTable(
 		phone: text("phone"), // Required for registration but not used for login
 		whatsappNumber: text("whatsapp_number"), // Optional WhatsApp contact
 		passwordHash: text("password_hash"),
+		locale: text("locale"), // Preferred language ("en", "hi", "ur"); null = Accept-Language / English
 		userType: userTypesEnum("user_type").notNull().default(UserTypes.INDIVIDUAL),
 
 		// Verification Status
@@ -0,0 +1,104 @@
+/**
+ * Location Seed Script
+ * Builds the canonical state → district taxonomy from the pincodes table
+ * (run db:seed:pincodes first) and adds major cities with their common
+ * alternate spellings / former names. Safe to re-run.
+ *
+ * Run with: pnpm run db:seed:locations
+ * Then map existing free-text locations: pnpm run db:map:locations
+ */
+
+import "../../config/loadEnv.ts";
+import { isNotNull, and } from "drizzle-orm";
+import { db } from "../../config/database.ts";
+import { pincodes, Location, LocationLevels } from "../index.ts";
+import { normalizeLocationName, upsertLocation } from "../../services/locationService.ts";
+
+// Former / alternate state names found in addresses and older data sets
+const STATE_ALIASES: Record<string, string[]> = {
+	Delhi: ["NCT of Delhi", "New Delhi"],
+	Odisha: ["Orissa"],
+	Uttarakhand: ["Uttaranchal"],
+	Puducherry: ["Pondicherry"],
+	"Jammu and Kashmir": ["J&K", "Jammu & Kashmir"],
+	"Andaman and Nicobar Islands": ["Andaman & Nicobar Islands"],
+};
+
+// Major cities (placed directly under their state) with former names and common spellings
+const MAJOR_CITIES: { name: string; state: string; aliases: string[] }[] = [
+	{ name: "Mumbai", state: "Maharashtra", aliases: ["Bombay"] },
+	{ name: "Pune", state: "Maharashtra", aliases: ["Poona"] },
+	{ name: "Delhi", state: "Delhi", aliases: ["New Delhi", "Dilli"] },
+	{ name: "Bengaluru", state: "Karnataka", aliases: ["Bangalore"] },
+	{ name: "Mysuru", state: "Karnataka", aliases: ["Mysore"] },
+	{ name: "Chennai", state: "Tamil Nadu", aliases: ["Madras"] },
+	{ name: "Kolkata", state: "West Bengal", aliases: ["Calcutta"] },
+	{ name: "Hyderabad", state: "Telangana", aliases: [] },
+	{ name: "Ahmedabad", state: "Gujarat", aliases: ["Amdavad"] },
+	{ name: "Vadodara", state: "Gujarat", aliases: ["Baroda"] },
+	{ name: "Lucknow", state: "Uttar Pradesh", aliases: ["Lakhnau"] },
+	{ name: "Kanpur", state: "Uttar Pradesh", aliases: ["Cawnpore"] },
+	{ name: "Varanasi", state: "Uttar Pradesh", aliases: ["Banaras", "Benares", "Kashi"] },
+	{ name: "Prayagraj", state: "Uttar Pradesh", aliases: ["Allahabad"] },
+	{ name: "Noida", state: "Uttar Pradesh", aliases: [] },
+	{ name: "Gurugram", state: "Haryana", aliases: ["Gurgaon"] },
+	{ name: "Jaipur", state: "Rajasthan", aliases: [] },
+	{ name: "Patna", state: "Bihar", aliases: [] },
+	{ name: "Bhopal", state: "Madhya Pradesh", aliases: [] },
+	{ name: "Kochi", state: "Kerala", aliases: ["Cochin"] },
+	{ name: "Thiruvananthapuram", state: "Kerala", aliases: ["Trivandrum"] },
+	{ name: "Puducherry", state: "Puducherry", aliases: ["Pondicherry"] },
+];
+
+async function seedLocations() {
+	console.log("🌱 Starting location seed...\n");
+
+	try {
+		console.log("📝 Reading districts from pincodes...");
+		const rows = await db
+			.selectDistinct({ district: pincodes.district, state: pincodes.state })
+			.from(pincodes)
+			.where(and(isNotNull(pincodes.district), isNotNull(pincodes.state)));
+
+		if (rows.length === 0) {
+			console.warn("   ⚠️  pincodes table is empty - run db:seed:pincodes first for districts");
+		}
+
+		const stateAliases = new Map(
+			Object.entries(STATE_ALIASES).map(([name, aliases]) => [normalizeLocationName(name), aliases])
+		);
+		const states = new Map<string, Location>();
+		const getState = async (name: string) => {
+			const key = normalizeLocationName(name);
+			let state = states.get(key);
+			if (!state) {
+				state = await upsertLocation(LocationLevels.STATE, name, null, stateAliases.get(key) ?? []);
+				states.set(key, state);
+			}
+			return state;
+		};
+
+		console.log("📝 Seeding states and districts...");
+		let districtCount = 0;
+		for (const row of rows) {
+			const state = await getState(row.state!);
+			await upsertLocation(LocationLevels.DISTRICT, row.district!, state);
+			districtCount++;
+		}
+		console.log(`   ✅ States: ${states.size}, districts: ${districtCount}`);
+
+		console.log("📝 Seeding major cities...");
+		for (const city of MAJOR_CITIES) {
+			await upsertLocation(LocationLevels.CITY, city.name, await getState(city.state), city.aliases);
+		}
+		console.log(`   ✅ Cities: ${MAJOR_CITIES.length}`);
+
+		console.log("\n🎉 Location seed completed successfully!\n");
+		process.exit(0);
+	} catch (error) {
+		console.error("❌ Location seed failed:", error);
+		process.exit(1);
+	}
+}
+
+seedLocations();
@@ -0,0 +1,184 @@
+/**
+ * Pincode Seed Script
+ * Loads a pincode CSV with latitude/longitude into the pincodes table, then
+ * geocodes existing jobs and user profiles from their pincode.
+ *
+ * The bundled src/db/seeds/data/pincodes.csv has one row per pincode
+ * (~18.9k): coordinates from the pincode-lat-long npm package (ISC),
+ * district/state from indian-pincodes (MIT). The India Post "All India
+ * Pincode Directory" from data.gov.in (one row per post office) can be passed
+ * instead; rows are averaged per pincode either way.
+ *
+ * Expected columns (header row, any order, case-insensitive):
+ *   pincode, district, statename, latitude, longitude
+ *
+ * Run with: pnpm run db:seed:pincodes [path/to/pincodes.csv]
+ * (defaults to the bundled src/db/seeds/data/pincodes.csv)
+ */
+
+import "../../config/loadEnv.ts";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { sql } from "drizzle-orm";
+import { db } from "../../config/database.ts";
+import { pincodes, NewPincode } from "../index.ts";
+
+const DEFAULT_CSV_PATH = path.resolve(
+	path.dirname(fileURLToPath(import.meta.url)),
+	"data/pincodes.csv"
+);
+
+const BATCH_SIZE = 500;
+
+// Rough bounding box of India; the directory has "NA" and swapped/garbage coordinates
+const INDIA_BOUNDS = { minLat: 6, maxLat: 37.5, minLng: 68, maxLng: 97.5 };
+
+/** Split one CSV line, honouring double-quoted fields */
+function parseCsvLine(line: string): string[] {
+	const fields: string[] = [];
+	let current = "";
+	let quoted = false;
+
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				current += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				current += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			fields.push(current.trim());
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	fields.push(current.trim());
+	return fields;
+}
+
+function titleCase(value: string): string {
+	return value.toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/**
+ * One row per pincode: the mean coordinate of its post offices that have valid coordinates
+ */
+function aggregatePincodes(csv: string): NewPincode[] {
+	const lines = csv.split(/\r?\n/).filter((line) => line.trim());
+	const header = parseCsvLine(lines[0]).map((h) => h.toLowerCase());
+	const column = (name: string) => {
+		const index = header.indexOf(name);
+		if (index === -1) throw new Error(`Missing column "${name}" in pincode CSV`);
+		return index;
+	};
+	const cols = {
+		pincode: column("pincode"),
+		district: column("district"),
+		state: column("statename"),
+		latitude: column("latitude"),
+		longitude: column("longitude"),
+	};
+
+	const byPincode = new Map<
+		string,
+		{ district: string; state: string; latSum: number; lngSum: number; count: number }
+	>();
+
+	for (const line of lines.slice(1)) {
+		const fields = parseCsvLine(line);
+		const pincode = fields[cols.pincode];
+		const latitude = parseFloat(fields[cols.latitude]);
+		const longitude = parseFloat(fields[cols.longitude]);
+
+		if (!/^[1-9]\d{5}$/.test(pincode ?? "")) continue;
+		if (
+			!(latitude >= INDIA_BOUNDS.minLat && latitude <= INDIA_BOUNDS.maxLat) ||
+			!(longitude >= INDIA_BOUNDS.minLng && longitude <= INDIA_BOUNDS.maxLng)
+		) {
+			continue;
+		}
+
+		const entry = byPincode.get(pincode) ?? {
+			district: titleCase(fields[cols.district] || ""),
+			state: titleCase(fields[cols.state] || ""),
+			latSum: 0,
+			lngSum: 0,
+			count: 0,
+		};
+		entry.latSum += latitude;
+		entry.lngSum += longitude;
+		entry.count++;
+		byPincode.set(pincode, entry);
+	}
+
+	return [...byPincode.entries()].map(([pincode, entry]) => ({
+		pincode,
+		district: entry.district || null,
+		state: entry.state || null,
+		latitude: entry.latSum / entry.count,
+		longitude: entry.lngSum / entry.count,
+	}));
+}
+
+async function seedPincodes() {
+	console.log("🌱 Starting pincode seed...\n");
+
+	try {
+		const csvPath = process.argv[2] ? path.resolve(process.argv[2]) : DEFAULT_CSV_PATH;
+		if (!fs.existsSync(csvPath)) {
+			throw new Error(
+				`Pincode CSV not found at ${csvPath}. Pass the path to a CSV with pincode, district, statename, latitude and longitude columns.`
+			);
+		}
+
+		console.log(`📝 Reading ${csvPath}...`);
+		const rows = aggregatePincodes(fs.readFileSync(csvPath, "utf8"));
+		console.log(`   ✅ ${rows.length} pincodes with coordinates`);
+
+		console.log("📝 Upserting pincodes...");
+		for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+			await db
+				.insert(pincodes)
+				.values(rows.slice(i, i + BATCH_SIZE))
+				.onConflictDoUpdate({
+					target: pincodes.pincode,
+					set: {
+						district: sql`excluded.district`,
+						state: sql`excluded.state`,
+						latitude: sql`excluded.latitude`,
+						longitude: sql`excluded.longitude`,
+						updatedAt: new Date(),
+					},
+				});
+		}
+
+		console.log("📝 Geocoding jobs and user profiles...");
+		const jobsResult = await db.execute(sql`
+			UPDATE jobs SET latitude = p.latitude, longitude = p.longitude
+			FROM pincodes p
+			WHERE p.pincode = replace(jobs.pincode, ' ', '')
+		`);
+		const profilesResult = await db.execute(sql`
+			UPDATE user_profiles SET latitude = p.latitude, longitude = p.longitude
+			FROM pincodes p
+			WHERE p.pincode = replace(user_profiles.pincode, ' ', '')
+		`);
+		console.log(`   ✅ Jobs: ${jobsResult.count}, user profiles: ${profilesResult.count}`);
+
+		console.log("\n🎉 Pincode seed completed successfully!\n");
+		process.exit(0);
+	} catch (error) {
+		console.error("❌ Pincode seed failed:", error);
+		process.exit(1);
+	}
+}
+
+seedPincodes();
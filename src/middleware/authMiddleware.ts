@@ -6,6 +6,7 @@ import { db } from "../config/database.ts";
 import { HTTPError } from "../config/error.ts";
 import { users, UserTypes } from "../db/index.ts";
 import { TokenType, verifyAccessToken } from "../utils/jwt.ts";
+import { normalizeLocale } from "../utils/i18n.ts";
 
 const authMiddlewareCreator =
 	(userTypesAllowed: UserTypes[] = []) =>
@@ -41,6 +42,7 @@ const authMiddlewareCreator =
 			const result = await db
 				.select({
 					userType: users.userType,
+					locale: users.locale,
 				})
 				.from(users)
 				.where(eq(users.id, userId))
@@ -58,6 +60,7 @@ const authMiddlewareCreator =
 
 			req.userId = userId;
 			req.userType = userType;
+			req.locale = req.locale ?? normalizeLocale(result[0].locale);
 			return next();
 		} catch (error) {
 			console.log("Auth middleware error:", error);
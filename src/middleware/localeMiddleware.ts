@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from "express";
+import { parseAcceptLanguage } from "../utils/i18n.ts";
+
+/**
+ * Resolve the request locale from the Accept-Language header.
+ * authMiddleware falls back to the user's stored locale when no supported
+ * language was requested; handlers default to English.
+ */
+export const localeMiddleware = () => {
+	return (req: Request, res: Response, next: NextFunction) => {
+		req.locale = parseAcceptLanguage(req.headers["accept-language"]);
+
+		// Responses differ by language
+		res.vary("Accept-Language");
+
+		next();
+	};
+};
+
+export default localeMiddleware;
@@ -67,6 +67,34 @@ export const landingPublicRateLimiter = rateLimit({
 	keyGenerator: (req) => (req as any).clientIp || req.ip || "unknown",
 });
 
+// Public job pages and sitemap — crawlers and logged-out visitors (no auth required)
+export const publicPagesRateLimiter = rateLimit({
+	windowMs: 60 * 1000, // 1 minute
+	max: 120, // 120 requests per minute per IP
+	message: {
+		error: "Too many requests",
+		code: "RATE_LIMIT_EXCEEDED",
+		retryAfter: 60,
+	},
+	standardHeaders: true,
+	legacyHeaders: false,
+	keyGenerator: (req) => req.clientIp || req.ip || "unknown",
+});
+
+// Application messages and reports — per user, so must run after authMiddleware
+export const messageRateLimiter = rateLimit({
+	windowMs: 60 * 1000, // 1 minute
+	max: 10, // 10 messages per minute per user
+	message: {
+		error: "You're sending messages too quickly",
+		code: "MESSAGE_RATE_LIMIT",
+		retryAfter: 60,
+	},
+	standardHeaders: true,
+	legacyHeaders: false,
+	keyGenerator: (req) => req.userId?.toString() || req.clientIp || req.ip || "unknown",
+});
+
 // ============================================
 // Security Headers (Helmet)
 // ============================================
@@ -161,6 +189,8 @@ export const corsOptions = {
 	credentials: true,
 	methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
 	allowedHeaders: ["Content-Type", "Authorization", "X-Request-ID", "Idempotency-Key"],
+	// Paging headers of list endpoints that return a bare array (GET /saved-jobs)
+	exposedHeaders: ["X-Total-Count", "X-Has-More", "X-Next-Cursor"],
 };
 
 // ============================================
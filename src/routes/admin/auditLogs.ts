@@ -13,15 +13,30 @@ import { requireAdmin } from "../../middleware/adminMiddleware.ts";
 import { requirePermission } from "../../middleware/rbacMiddleware.ts";
 import { Permissions } from "../../config/permissions.ts";
 import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../utils/pagination.ts";
 
 const router = Router();
 
+const AUDIT_LOG_ORDER = keyset("audit-logs", [
+	sortKey(auditLogs.createdAt, "desc"),
+	sortKey(auditLogs.id, "desc"),
+]);
+
 router.use(authMiddleware());
 router.use(requireAdmin());
 
 /**
  * GET /admin/audit-logs
- * Query audit logs
+ * Query audit logs (newest first)
+ * Query params: action, entityType, userId, startDate, endDate, limit, cursor, offset
  */
 router.get(
 	"/",
@@ -33,12 +48,9 @@ router.get(
 			userId,
 			startDate,
 			endDate,
-			limit: limitStr,
-			offset: offsetStr,
 		} = req.query;
 
-		const limit = Math.min(parseInt(limitStr as string) || 50, 100);
-		const offset = parseInt(offsetStr as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
 		const conditions: any[] = [];
 
@@ -58,7 +70,7 @@ router.get(
 			conditions.push(lte(auditLogs.createdAt, new Date(endDate as string)));
 		}
 
-		const logs = await db
+		const rows = await db
 			.select({
 				id: auditLogs.id,
 				action: auditLogs.action,
@@ -71,26 +83,25 @@ router.get(
 				userId: auditLogs.userId,
 				createdAt: auditLogs.createdAt,
 				userName: users.name,
+				pageCursor: keysetCursorField(AUDIT_LOG_ORDER),
 			})
 			.from(auditLogs)
 			.leftJoin(users, eq(auditLogs.userId, users.id))
-			.where(conditions.length > 0 ? and(...conditions) : undefined)
-			.orderBy(desc(auditLogs.createdAt))
-			.limit(limit)
-			.offset(offset);
+			.where(and(...conditions, keysetCondition(AUDIT_LOG_ORDER, page)))
+			.orderBy(...keysetOrderBy(AUDIT_LOG_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
 
 		const [countResult] = await db
 			.select({ count: sql<number>`count(*)::int` })
 			.from(auditLogs)
 			.where(conditions.length > 0 ? and(...conditions) : undefined);
 
+		const { items: logs, pagination } = paginate(rows, page, countResult?.count || 0);
+
 		return res.status(StatusCodes.OK).json({
 			logs,
-			pagination: {
-				total: countResult?.count || 0,
-				limit,
-				offset,
-			},
+			pagination,
 		});
 	})
 );
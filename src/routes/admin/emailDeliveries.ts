@@ -0,0 +1,233 @@
+/**
+ * Admin Email Delivery Routes
+ * Delivery log for debugging missing emails, and the suppression list
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { and, eq, getTableColumns, gte, lte, sql } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "../../config/database.ts";
+import { emailDeliveries, EmailDeliveryStatuses, EmailSuppressionReasons } from "../../db/index.ts";
+import { HTTPError } from "../../config/error.ts";
+import authMiddleware from "../../middleware/authMiddleware.ts";
+import { requireAdmin } from "../../middleware/adminMiddleware.ts";
+import { requirePermission } from "../../middleware/rbacMiddleware.ts";
+import { Permissions } from "../../config/permissions.ts";
+import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../utils/pagination.ts";
+import { auditCreate, auditDelete } from "../../services/auditService.ts";
+import {
+	getSuppression,
+	listSuppressions,
+	normalizeEmail,
+	removeSuppression,
+	suppressEmail,
+} from "../../services/emailDeliveryService.ts";
+
+const router = Router();
+
+const DELIVERY_ORDER = keyset("admin-email-deliveries", [
+	sortKey(emailDeliveries.createdAt, "desc"),
+	sortKey(emailDeliveries.id, "desc"),
+]);
+
+router.use(authMiddleware());
+router.use(requireAdmin());
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const addSuppressionSchema = z.object({
+	email: z.string().email(),
+	reason: z
+		.enum([
+			EmailSuppressionReasons.MANUAL,
+			EmailSuppressionReasons.COMPLAINT,
+			EmailSuppressionReasons.HARD_BOUNCE,
+		])
+		.optional(),
+	detail: z.string().max(500).optional(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /admin/email-deliveries
+ * Query the delivery log (recipient, status, template, date range).
+ * Filtering by recipient also returns the address's suppression entry, if any.
+ */
+router.get(
+	"/",
+	requirePermission(Permissions.USERS_READ_ALL),
+	expressAsyncHandler(async (req, res) => {
+		const {
+			recipient,
+			status,
+			template,
+			startDate,
+			endDate,
+		} = req.query;
+
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
+
+		const conditions: any[] = [];
+
+		if (recipient) {
+			conditions.push(eq(emailDeliveries.recipient, normalizeEmail(recipient as string)));
+		}
+		if (status && Object.values(EmailDeliveryStatuses).includes(status as EmailDeliveryStatuses)) {
+			conditions.push(eq(emailDeliveries.status, status as any));
+		}
+		if (template) {
+			conditions.push(eq(emailDeliveries.template, template as string));
+		}
+		if (startDate) {
+			conditions.push(gte(emailDeliveries.createdAt, new Date(startDate as string)));
+		}
+		if (endDate) {
+			conditions.push(lte(emailDeliveries.createdAt, new Date(endDate as string)));
+		}
+
+		const rows = await db
+			.select({ ...getTableColumns(emailDeliveries), pageCursor: keysetCursorField(DELIVERY_ORDER) })
+			.from(emailDeliveries)
+			.where(and(...conditions, keysetCondition(DELIVERY_ORDER, page)))
+			.orderBy(...keysetOrderBy(DELIVERY_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(emailDeliveries)
+			.where(conditions.length > 0 ? and(...conditions) : undefined);
+
+		const { items: deliveries, pagination } = paginate(rows, page, countResult?.count || 0);
+
+		return res.status(StatusCodes.OK).json({
+			deliveries,
+			suppression: recipient ? await getSuppression(recipient as string) : undefined,
+			pagination,
+		});
+	})
+);
+
+/**
+ * GET /admin/email-deliveries/suppressions
+ * List suppressed addresses
+ */
+router.get(
+	"/suppressions",
+	requirePermission(Permissions.USERS_READ_ALL),
+	expressAsyncHandler(async (req, res) => {
+		const { search, reason } = req.query;
+
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
+
+		const { suppressions, pagination } = await listSuppressions({
+			search: search as string | undefined,
+			reason: Object.values(EmailSuppressionReasons).includes(reason as EmailSuppressionReasons)
+				? (reason as EmailSuppressionReasons)
+				: undefined,
+			page,
+		});
+
+		return res.status(StatusCodes.OK).json({
+			suppressions,
+			pagination,
+		});
+	})
+);
+
+/**
+ * POST /admin/email-deliveries/suppressions
+ * Manually suppress an address (e.g. a bounce reported outside SMTP)
+ */
+router.post(
+	"/suppressions",
+	requirePermission(Permissions.USERS_UPDATE),
+	expressAsyncHandler(
+		async (data: z.infer<typeof addSuppressionSchema>, req, res) => {
+			const adminId = req.userId!;
+
+			const suppression = await suppressEmail(
+				data.email,
+				data.reason ?? EmailSuppressionReasons.MANUAL,
+				{ detail: data.detail, createdBy: adminId }
+			);
+
+			await auditCreate(
+				"email_suppression",
+				suppression.id,
+				{ email: suppression.email, reason: suppression.reason },
+				{
+					userId: adminId,
+					ipAddress: req.clientIp,
+					userAgent: req.clientUserAgent,
+					requestId: req.requestId,
+				},
+				`Email address suppressed: ${suppression.email}`
+			);
+
+			return res.status(StatusCodes.CREATED).json({
+				message: "Email address suppressed",
+				suppression,
+			});
+		},
+		{
+			validationSchema: addSuppressionSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * DELETE /admin/email-deliveries/suppressions/:email
+ * Remove an address from the suppression list so it receives email again
+ */
+router.delete(
+	"/suppressions/:email",
+	requirePermission(Permissions.USERS_UPDATE),
+	expressAsyncHandler(async (req, res) => {
+		const adminId = req.userId!;
+
+		const removed = await removeSuppression(req.params.email);
+		if (!removed) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.NOT_FOUND,
+				message: "Email address is not suppressed",
+			});
+		}
+
+		await auditDelete(
+			"email_suppression",
+			removed.id,
+			{ email: removed.email, reason: removed.reason, detail: removed.detail },
+			{
+				userId: adminId,
+				ipAddress: req.clientIp,
+				userAgent: req.clientUserAgent,
+				requestId: req.requestId,
+			},
+			`Email address unsuppressed: ${removed.email}`
+		);
+
+		return res.status(StatusCodes.OK).json({
+			message: "Email address removed from the suppression list",
+		});
+	})
+);
+
+export default router;
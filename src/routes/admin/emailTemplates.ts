@@ -0,0 +1,185 @@
+/**
+ * Admin Email Template Routes
+ * Versioned email template registry: list, draft, preview and publish
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+
+import authMiddleware from "../../middleware/authMiddleware.ts";
+import { requireAdmin } from "../../middleware/adminMiddleware.ts";
+import { requirePermission } from "../../middleware/rbacMiddleware.ts";
+import { Permissions } from "../../config/permissions.ts";
+import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import { auditCreate, auditUpdate } from "../../services/auditService.ts";
+import {
+	createTemplateVersion,
+	getTemplateVersions,
+	listEmailTemplates,
+	previewEmailTemplate,
+	publishTemplateVersion,
+} from "../../services/emailTemplateService.ts";
+
+const router = Router();
+
+router.use(authMiddleware());
+router.use(requireAdmin());
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const localeSchema = z
+	.string()
+	.regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Locale must look like 'en' or 'hi-IN'");
+
+const createVersionSchema = z.object({
+	locale: localeSchema.optional(),
+	subject: z.string().min(1).max(200),
+	preheader: z.string().max(200).optional(),
+	html: z.string().min(1).max(100000),
+});
+
+const previewSchema = z.object({
+	version: z.number().int().positive().optional(),
+	locale: localeSchema.optional(),
+	data: z.record(z.any()).optional(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /admin/email-templates
+ * List all templates with their variables and published versions per locale
+ */
+router.get(
+	"/",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(async (req, res) => {
+		const templates = await listEmailTemplates();
+
+		return res.status(StatusCodes.OK).json({ templates });
+	})
+);
+
+/**
+ * GET /admin/email-templates/:name
+ * Template details with every stored version
+ */
+router.get(
+	"/:name",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(async (req, res) => {
+		const template = await getTemplateVersions(req.params.name);
+
+		return res.status(StatusCodes.OK).json(template);
+	})
+);
+
+/**
+ * POST /admin/email-templates/:name/versions
+ * Create a new draft version
+ */
+router.post(
+	"/:name/versions",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(
+		async (data: z.infer<typeof createVersionSchema>, req, res) => {
+			const adminId = req.userId!;
+
+			const template = await createTemplateVersion(req.params.name, data, adminId);
+
+			await auditCreate(
+				"email_template",
+				template.id,
+				{ name: template.name, version: template.version, locale: template.locale },
+				{
+					userId: adminId,
+					ipAddress: req.clientIp,
+					userAgent: req.clientUserAgent,
+					requestId: req.requestId,
+				},
+				`Email template draft created: ${template.name} v${template.version}`
+			);
+
+			return res.status(StatusCodes.CREATED).json({
+				message: "Draft version created",
+				template,
+			});
+		},
+		{
+			validationSchema: createVersionSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * POST /admin/email-templates/:name/preview
+ * Render with sample data (merged with any provided data).
+ * Without a version, previews what would be sent right now.
+ */
+router.post(
+	"/:name/preview",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(
+		async (data: z.infer<typeof previewSchema>, req, res) => {
+			const preview = await previewEmailTemplate(req.params.name, data);
+
+			return res.status(StatusCodes.OK).json({ preview });
+		},
+		{
+			validationSchema: previewSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * POST /admin/email-templates/:name/versions/:version/publish
+ * Publish a version (archives the previously published version for the same locale)
+ */
+router.post(
+	"/:name/versions/:version/publish",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(
+		async (params: { version: number }, req, res) => {
+			const adminId = req.userId!;
+
+			const { template, previousVersion } = await publishTemplateVersion(
+				req.params.name,
+				params.version,
+				adminId
+			);
+
+			await auditUpdate(
+				"email_template",
+				template.id,
+				{ publishedVersion: previousVersion },
+				{ publishedVersion: template.version, locale: template.locale },
+				{
+					userId: adminId,
+					ipAddress: req.clientIp,
+					userAgent: req.clientUserAgent,
+					requestId: req.requestId,
+				},
+				`Email template published: ${template.name} v${template.version} (${template.locale})`
+			);
+
+			return res.status(StatusCodes.OK).json({
+				message: "Template version published",
+				template,
+				previousVersion,
+			});
+		},
+		{
+			validationSchema: z.object({ version: z.coerce.number().int().positive() }),
+			getValue: (req) => req.params,
+		}
+	)
+);
+
+export default router;
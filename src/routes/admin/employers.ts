@@ -5,7 +5,7 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq, and, isNull, desc, sql } from "drizzle-orm";
+import { eq, and, isNull, sql } from "drizzle-orm";
 
 import { db } from "../../config/database.ts";
 import { employerProfiles, users } from "../../db/index.ts";
@@ -14,10 +14,24 @@ import { requireAdmin } from "../../middleware/adminMiddleware.ts";
 import { requirePermission } from "../../middleware/rbacMiddleware.ts";
 import { Permissions } from "../../config/permissions.ts";
 import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../utils/pagination.ts";
 import { auditUpdate } from "../../services/auditService.ts";
 
 const router = Router();
 
+const EMPLOYER_ORDER = keyset("admin-employers", [
+	sortKey(employerProfiles.createdAt, "desc"),
+	sortKey(employerProfiles.id, "desc"),
+]);
+
 router.use(authMiddleware());
 router.use(requireAdmin());
 
@@ -30,10 +44,9 @@ router.get(
 	requirePermission(Permissions.EMPLOYER_PROFILE_READ),
 	expressAsyncHandler(async (req, res) => {
 		const verified = req.query.verified === "true";
-		const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-		const offset = parseInt(req.query.offset as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
-		const employers = await db
+		const rows = await db
 			.select({
 				id: employerProfiles.id,
 				userId: employerProfiles.userId,
@@ -48,18 +61,20 @@ router.get(
 				createdAt: employerProfiles.createdAt,
 				userName: users.name,
 				userEmail: users.email,
+				pageCursor: keysetCursorField(EMPLOYER_ORDER),
 			})
 			.from(employerProfiles)
 			.innerJoin(users, eq(employerProfiles.userId, users.id))
 			.where(
 				and(
 					eq(employerProfiles.isVerified, verified),
-					isNull(employerProfiles.deletedAt)
+					isNull(employerProfiles.deletedAt),
+					keysetCondition(EMPLOYER_ORDER, page)
 				)
 			)
-			.orderBy(desc(employerProfiles.createdAt))
-			.limit(limit)
-			.offset(offset);
+			.orderBy(...keysetOrderBy(EMPLOYER_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
 
 		const [countResult] = await db
 			.select({ count: sql<number>`count(*)::int` })
@@ -71,13 +86,11 @@ router.get(
 				)
 			);
 
+		const { items: employers, pagination } = paginate(rows, page, countResult?.count || 0);
+
 		return res.status(StatusCodes.OK).json({
 			employers,
-			pagination: {
-				total: countResult?.count || 0,
-				limit,
-				offset,
-			},
+			pagination,
 		});
 	})
 );
@@ -5,7 +5,7 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq, and, isNull, desc, sql, or } from "drizzle-orm";
+import { eq, and, isNull, sql, or } from "drizzle-orm";
 
 import { db } from "../../config/database.ts";
 import { jobs, JobStatuses, employerProfiles, users } from "../../db/index.ts";
@@ -14,10 +14,24 @@ import { requireAdmin } from "../../middleware/adminMiddleware.ts";
 import { requirePermission } from "../../middleware/rbacMiddleware.ts";
 import { Permissions } from "../../config/permissions.ts";
 import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../utils/pagination.ts";
 import { auditUpdate } from "../../services/auditService.ts";
 
 const router = Router();
 
+const JOB_ORDER = keyset("admin-jobs", [
+	sortKey(jobs.createdAt, "desc"),
+	sortKey(jobs.id, "desc"),
+]);
+
 router.use(authMiddleware());
 router.use(requireAdmin());
 
@@ -30,15 +44,14 @@ router.get(
 	requirePermission(Permissions.JOBS_MODERATE),
 	expressAsyncHandler(async (req, res) => {
 		const status = req.query.status as string;
-		const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-		const offset = parseInt(req.query.offset as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
 		const conditions = [isNull(jobs.deletedAt)];
 		if (status) {
 			conditions.push(eq(jobs.status, status as any));
 		}
 
-		const jobsList = await db
+		const rows = await db
 			.select({
 				id: jobs.id,
 				uuid: jobs.uuid,
@@ -53,26 +66,25 @@ router.get(
 				createdAt: jobs.createdAt,
 				companyName: employerProfiles.companyName,
 				employerVerified: employerProfiles.isVerified,
+				pageCursor: keysetCursorField(JOB_ORDER),
 			})
 			.from(jobs)
 			.leftJoin(employerProfiles, eq(jobs.employerId, employerProfiles.userId))
-			.where(and(...conditions))
-			.orderBy(desc(jobs.createdAt))
-			.limit(limit)
-			.offset(offset);
+			.where(and(...conditions, keysetCondition(JOB_ORDER, page)))
+			.orderBy(...keysetOrderBy(JOB_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
 
 		const [countResult] = await db
 			.select({ count: sql<number>`count(*)::int` })
 			.from(jobs)
 			.where(and(...conditions));
 
+		const { items: jobsList, pagination } = paginate(rows, page, countResult?.count || 0);
+
 		return res.status(StatusCodes.OK).json({
 			jobs: jobsList,
-			pagination: {
-				total: countResult?.count || 0,
-				limit,
-				offset,
-			},
+			pagination,
 		});
 	})
 );
@@ -6,7 +6,7 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq, and, isNull, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, isNull, sql, inArray } from "drizzle-orm";
 
 import { db } from "../../config/database.ts";
 import {
@@ -23,11 +23,31 @@ import { requireAdmin } from "../../middleware/adminMiddleware.ts";
 import { requirePermission } from "../../middleware/rbacMiddleware.ts";
 import { Permissions } from "../../config/permissions.ts";
 import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../utils/pagination.ts";
 import { auditUpdate, auditApprove, auditReject } from "../../services/auditService.ts";
-import { sendEmail } from "../../services/notificationService.ts";
+import { notifyKycStatusChange } from "../../services/notificationService.ts";
 
 const router = Router();
 
+const KYC_RECORD_ORDER = keyset("admin-kyc", [
+	sortKey(kycRecords.createdAt, "desc"),
+	sortKey(kycRecords.id, "desc"),
+]);
+
+// Oldest submission first; users without a timestamp last
+const PENDING_USER_ORDER = keyset("admin-kyc-pending", [
+	sortKey(sql`coalesce(${users.verificationSubmittedAt}, 'infinity'::timestamp)`, "asc"),
+	sortKey(users.id, "asc"),
+]);
+
 router.use(authMiddleware());
 router.use(requireAdmin());
 
@@ -40,10 +60,9 @@ router.get(
 	requirePermission(Permissions.KYC_READ_ALL),
 	expressAsyncHandler(async (req, res) => {
 		const status = (req.query.status as string) || "pending";
-		const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-		const offset = parseInt(req.query.offset as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
-		const records = await db
+		const rows = await db
 			.select({
 				id: kycRecords.id,
 				userId: kycRecords.userId,
@@ -60,18 +79,20 @@ router.get(
 				userPhone: users.phone,
 				userType: users.userType,
 				userVerificationStatus: users.verificationStatus,
+				pageCursor: keysetCursorField(KYC_RECORD_ORDER),
 			})
 			.from(kycRecords)
 			.innerJoin(users, eq(kycRecords.userId, users.id))
 			.where(
 				and(
 					eq(kycRecords.status, status as any),
-					isNull(kycRecords.deletedAt)
+					isNull(kycRecords.deletedAt),
+					keysetCondition(KYC_RECORD_ORDER, page)
 				)
 			)
-			.orderBy(desc(kycRecords.createdAt))
-			.limit(limit)
-			.offset(offset);
+			.orderBy(...keysetOrderBy(KYC_RECORD_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
 
 		const [countResult] = await db
 			.select({ count: sql<number>`count(*)::int` })
@@ -83,13 +104,11 @@ router.get(
 				)
 			);
 
+		const { items: records, pagination } = paginate(rows, page, countResult?.count || 0);
+
 		return res.status(StatusCodes.OK).json({
 			records,
-			pagination: {
-				total: countResult?.count || 0,
-				limit,
-				offset,
-			},
+			pagination,
 		});
 	})
 );
@@ -102,11 +121,10 @@ router.get(
 	"/pending",
 	requirePermission(Permissions.KYC_READ_ALL),
 	expressAsyncHandler(async (req, res) => {
-		const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-		const offset = parseInt(req.query.offset as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
 		// Get users with SUBMITTED or UNDER_REVIEW status
-		const pendingUsers = await db
+		const rows = await db
 			.select({
 				id: users.id,
 				name: users.name,
@@ -115,6 +133,7 @@ router.get(
 				userType: users.userType,
 				verificationStatus: users.verificationStatus,
 				verificationSubmittedAt: users.verificationSubmittedAt,
+				pageCursor: keysetCursorField(PENDING_USER_ORDER),
 			})
 			.from(users)
 			.where(
@@ -123,12 +142,28 @@ router.get(
 						VerificationStatuses.SUBMITTED,
 						VerificationStatuses.UNDER_REVIEW,
 					]),
-					isNull(users.deletedAt)
+					isNull(users.deletedAt),
+					keysetCondition(PENDING_USER_ORDER, page)
 				)
 			)
-			.orderBy(users.verificationSubmittedAt)
-			.limit(limit)
-			.offset(offset);
+			.orderBy(...keysetOrderBy(PENDING_USER_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(users)
+			.where(
+				and(
+					inArray(users.verificationStatus, [
+						VerificationStatuses.SUBMITTED,
+						VerificationStatuses.UNDER_REVIEW,
+					]),
+					isNull(users.deletedAt)
+				)
+			);
+
+		const { items: pendingUsers, pagination } = paginate(rows, page, countResult?.count || 0);
 
 		// Get documents for each user
 		const usersWithDocs = await Promise.all(
@@ -154,26 +189,9 @@ router.get(
 			})
 		);
 
-		const [countResult] = await db
-			.select({ count: sql<number>`count(*)::int` })
-			.from(users)
-			.where(
-				and(
-					inArray(users.verificationStatus, [
-						VerificationStatuses.SUBMITTED,
-						VerificationStatuses.UNDER_REVIEW,
-					]),
-					isNull(users.deletedAt)
-				)
-			);
-
 		return res.status(StatusCodes.OK).json({
 			users: usersWithDocs,
-			pagination: {
-				total: countResult?.count || 0,
-				limit,
-				offset,
-			},
+			pagination,
 		});
 	})
 );
@@ -321,13 +339,16 @@ router.post(
 			requestId: req.requestId,
 		}, `Approved verification for user ${user.email || userId}`);
 
-		// Send email notification (with userType for template)
-		if (user.email) {
-			await sendEmail(user.email, "kyc_approved", {
-				userName: user.name || user.email.split("@")[0],
-				userType: user.userType,
-			});
-		}
+		// Send email + in-app notification (with userType for template)
+		await notifyKycStatusChange(
+			userId,
+			user.email,
+			"approved",
+			"kyc",
+			undefined,
+			user.name || user.email?.split("@")[0],
+			user.userType
+		);
 
 		return res.status(StatusCodes.OK).json({
 			message: "User verification approved successfully",
@@ -413,13 +434,15 @@ router.post(
 				requestId: req.requestId,
 			}, data.reason);
 
-			// Send email notification
-			if (user.email) {
-				await sendEmail(user.email, "kyc_rejected", {
-					userName: user.name || user.email.split("@")[0],
-					reason: data.reason,
-				});
-			}
+			// Send email + in-app notification
+			await notifyKycStatusChange(
+				userId,
+				user.email,
+				"rejected",
+				"kyc",
+				data.reason,
+				user.name || user.email?.split("@")[0]
+			);
 
 			return res.status(StatusCodes.OK).json({
 				message: "User verification rejected",
@@ -496,13 +519,15 @@ router.post(
 				`Requested resubmission for user ${user.email || userId}`
 			);
 
-			// Send email notification
-			if (user.email) {
-				await sendEmail(user.email, "kyc_rejected", {
-					userName: user.name || user.email.split("@")[0],
-					reason: data.reason,
-				});
-			}
+			// Send email + in-app notification
+			await notifyKycStatusChange(
+				userId,
+				user.email,
+				"rejected",
+				"kyc",
+				data.reason,
+				user.name || user.email?.split("@")[0]
+			);
 
 			return res.status(StatusCodes.OK).json({
 				message: "Resubmission requested. User will be notified.",
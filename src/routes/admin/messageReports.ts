@@ -0,0 +1,175 @@
+/**
+ * Admin Message Report Routes
+ * Review queue for abuse reports on application messages
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { and, eq, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+import { db } from "../../config/database.ts";
+import {
+	applicationMessages,
+	MessageReportReasons,
+	messageReports,
+	MessageReportStatuses,
+	users,
+} from "../../db/index.ts";
+import authMiddleware from "../../middleware/authMiddleware.ts";
+import { requireAdmin } from "../../middleware/adminMiddleware.ts";
+import { requirePermission } from "../../middleware/rbacMiddleware.ts";
+import { Permissions } from "../../config/permissions.ts";
+import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../utils/pagination.ts";
+import { auditUpdate } from "../../services/auditService.ts";
+import { resolveMessageReport } from "../../services/applicationMessageService.ts";
+
+const router = Router();
+
+const REPORT_ORDER = keyset("admin-message-reports", [
+	sortKey(messageReports.createdAt, "desc"),
+	sortKey(messageReports.id, "desc"),
+]);
+
+const senders = alias(users, "senders");
+const reporters = alias(users, "reporters");
+
+router.use(authMiddleware());
+router.use(requireAdmin());
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const resolveReportSchema = z.object({
+	decision: z.enum(["dismiss", "remove"]), // remove: hide the message from both participants
+	note: z.string().trim().max(1000).optional(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /admin/message-reports
+ * Reports with the reported message, its sender and the reporter, newest
+ * first. Query params: status (open | dismissed | actioned, default open),
+ * reason, limit (default 50, max 100), cursor
+ */
+router.get(
+	"/",
+	requirePermission(Permissions.USERS_READ_ALL),
+	expressAsyncHandler(async (req, res) => {
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
+		const status = Object.values(MessageReportStatuses).includes(req.query.status as MessageReportStatuses)
+			? (req.query.status as MessageReportStatuses)
+			: MessageReportStatuses.OPEN;
+
+		const conditions = [eq(messageReports.status, status)];
+		if (Object.values(MessageReportReasons).includes(req.query.reason as MessageReportReasons)) {
+			conditions.push(eq(messageReports.reason, req.query.reason as MessageReportReasons));
+		}
+
+		const rows = await db
+			.select({
+				id: messageReports.id,
+				uuid: messageReports.uuid,
+				reason: messageReports.reason,
+				details: messageReports.details,
+				status: messageReports.status,
+				reviewedBy: messageReports.reviewedBy,
+				reviewedAt: messageReports.reviewedAt,
+				reviewNote: messageReports.reviewNote,
+				createdAt: messageReports.createdAt,
+				message: {
+					id: applicationMessages.id,
+					applicationId: applicationMessages.applicationId,
+					body: applicationMessages.body,
+					attachments: applicationMessages.attachments,
+					hiddenAt: applicationMessages.hiddenAt,
+					createdAt: applicationMessages.createdAt,
+				},
+				sender: {
+					id: senders.id,
+					name: senders.name,
+					email: senders.email,
+					userType: senders.userType,
+				},
+				reporter: {
+					id: reporters.id,
+					name: reporters.name,
+					email: reporters.email,
+				},
+				pageCursor: keysetCursorField(REPORT_ORDER),
+			})
+			.from(messageReports)
+			.innerJoin(applicationMessages, eq(applicationMessages.id, messageReports.messageId))
+			.innerJoin(senders, eq(senders.id, applicationMessages.senderId))
+			.innerJoin(reporters, eq(reporters.id, messageReports.reportedBy))
+			.where(and(...conditions, keysetCondition(REPORT_ORDER, page)))
+			.orderBy(...keysetOrderBy(REPORT_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(messageReports)
+			.where(and(...conditions));
+
+		const { items: reports, pagination } = paginate(rows, page, countResult?.count || 0);
+
+		return res.status(StatusCodes.OK).json({ reports, pagination });
+	})
+);
+
+/**
+ * POST /admin/message-reports/:id/resolve
+ * Dismiss an open report, or remove the message (closes every open report
+ * on it)
+ */
+router.post(
+	"/:id/resolve",
+	requirePermission(Permissions.USERS_UPDATE),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const adminId = req.userId!;
+
+			const report = await resolveMessageReport(BigInt(req.params.id), adminId, data.decision, data.note);
+
+			await auditUpdate(
+				"message_report",
+				report.id,
+				{ status: MessageReportStatuses.OPEN },
+				{ status: report.status, decision: data.decision },
+				{
+					userId: adminId,
+					ipAddress: req.clientIp,
+					userAgent: req.clientUserAgent,
+					requestId: req.requestId,
+				},
+				data.decision === "remove" ? "Reported message removed" : "Message report dismissed"
+			);
+
+			return res.status(StatusCodes.OK).json({
+				message: data.decision === "remove" ? "Message removed" : "Report dismissed",
+				report,
+			});
+		},
+		{
+			validationSchema: resolveReportSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+export default router;
@@ -6,7 +6,7 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq, and, isNull, desc, sql, inArray, or, like } from "drizzle-orm";
+import { eq, and, isNull, sql, inArray, or, like } from "drizzle-orm";
 
 import { db } from "../../config/database.ts";
 import { users, UserTypes, employerProfiles } from "../../db/index.ts";
@@ -15,6 +15,15 @@ import { requireAdmin } from "../../middleware/adminMiddleware.ts";
 import { requirePermission } from "../../middleware/rbacMiddleware.ts";
 import { Permissions } from "../../config/permissions.ts";
 import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../utils/pagination.ts";
 import { auditUpdate } from "../../services/auditService.ts";
 import { notifyAccountDeactivated } from "../../services/notificationService.ts";
 
@@ -22,6 +31,11 @@ const router = Router();
 
 const PLATFORM_USER_TYPES = [UserTypes.INDIVIDUAL, UserTypes.EMPLOYER];
 
+const PLATFORM_USER_ORDER = keyset("admin-platform-users", [
+	sortKey(users.createdAt, "desc"),
+	sortKey(users.id, "desc"),
+]);
+
 router.use(authMiddleware());
 router.use(requireAdmin());
 
@@ -34,8 +48,7 @@ router.get(
 	requirePermission(Permissions.USERS_READ_ALL),
 	expressAsyncHandler(async (req, res) => {
 		const userType = (req.query.userType as string) || "all"; // all | individual | employer
-		const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-		const offset = parseInt(req.query.offset as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 		const search = (req.query.search as string)?.trim();
 		const isActive = req.query.isActive; // true | false | undefined (all)
 
@@ -66,7 +79,7 @@ router.get(
 			);
 		}
 
-		const list = await db
+		const rows = await db
 			.select({
 				id: users.id,
 				uuid: users.uuid,
@@ -78,18 +91,21 @@ router.get(
 				isActive: users.isActive,
 				createdAt: users.createdAt,
 				lastLoginAt: users.lastLoginAt,
+				pageCursor: keysetCursorField(PLATFORM_USER_ORDER),
 			})
 			.from(users)
-			.where(and(...conditions))
-			.orderBy(desc(users.createdAt))
-			.limit(limit)
-			.offset(offset);
+			.where(and(...conditions, keysetCondition(PLATFORM_USER_ORDER, page)))
+			.orderBy(...keysetOrderBy(PLATFORM_USER_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
 
 		const [countResult] = await db
 			.select({ count: sql<number>`count(*)::int` })
 			.from(users)
 			.where(and(...conditions));
 
+		const { items: list, pagination } = paginate(rows, page, countResult?.count || 0);
+
 		// Enrich with profile summary (company name for employer, etc.)
 		const enriched = await Promise.all(
 			list.map(async (u) => {
@@ -116,11 +132,7 @@ router.get(
 
 		return res.status(StatusCodes.OK).json({
 			users: enriched,
-			pagination: {
-				total: countResult?.count || 0,
-				limit,
-				offset,
-			},
+			pagination,
 		});
 	})
 );
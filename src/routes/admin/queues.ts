@@ -0,0 +1,292 @@
+/**
+ * Admin Queue Routes
+ * BullMQ console: queue depths, dead-lettered jobs (retry/discard) and pause/resume
+ */
+
+import { Request, Router } from "express";
+import { Job } from "bullmq";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+
+import { HTTPError } from "../../config/error.ts";
+import authMiddleware from "../../middleware/authMiddleware.ts";
+import { requireAdmin } from "../../middleware/adminMiddleware.ts";
+import { requirePermission } from "../../middleware/rbacMiddleware.ts";
+import { Permissions } from "../../config/permissions.ts";
+import expressAsyncHandler from "../../utils/expressAsyncHandler.ts";
+import { auditLog } from "../../services/auditService.ts";
+import { AuditActions } from "../../db/index.ts";
+import {
+	DeadLetterJobData,
+	discardDeadLetterJob,
+	getDeadLetterJobs,
+	getQueueOverview,
+	pauseQueue,
+	QueueName,
+	QueueNames,
+	resumeQueue,
+	retryDeadLetterJob,
+} from "../../services/queueService.ts";
+
+const router = Router();
+
+router.use(authMiddleware());
+router.use(requireAdmin());
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const queueNameSchema = z.enum(Object.values(QueueNames) as [QueueName, ...QueueName[]]);
+
+const deadLetterQuerySchema = z.object({
+	queue: queueNameSchema.optional(),
+	limit: z.coerce.number().int().min(1).max(100).optional(),
+	offset: z.coerce.number().int().min(0).optional(),
+});
+
+const retryAllSchema = z.object({
+	queue: queueNameSchema.optional(),
+});
+
+// ============================================
+// Helpers
+// ============================================
+
+const MAX_BULK_RETRY = 1000;
+
+function toDeadLetterSummary(job: Job<DeadLetterJobData>) {
+	return {
+		id: job.id,
+		queue: job.data.queue,
+		sourceJobId: job.data.jobId,
+		name: job.data.name,
+		data: job.data.data,
+		failedReason: job.data.failedReason,
+		attemptsMade: job.data.attemptsMade,
+		stacktrace: job.data.stacktrace.slice(0, 3),
+		failedAt: job.data.failedAt,
+	};
+}
+
+function auditQueueAction(
+	req: Request,
+	description: string,
+	newValues: Record<string, unknown>
+) {
+	return auditLog({
+		action: AuditActions.UPDATE,
+		entityType: "queue",
+		newValues,
+		description,
+		context: {
+			userId: req.userId,
+			ipAddress: req.clientIp,
+			userAgent: req.clientUserAgent,
+			requestId: req.requestId,
+		},
+	});
+}
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /admin/queues
+ * Job counts per state for every queue (including the dead-letter queue)
+ */
+router.get(
+	"/",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(async (req, res) => {
+		const queues = await getQueueOverview();
+
+		return res.status(StatusCodes.OK).json({ queues });
+	})
+);
+
+/**
+ * GET /admin/queues/dead-letter
+ * Jobs that exhausted their retries (oldest first), optionally for one source queue
+ */
+router.get(
+	"/dead-letter",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(
+		async (query: z.infer<typeof deadLetterQuerySchema>, req, res) => {
+			const limit = query.limit ?? 50;
+			const offset = query.offset ?? 0;
+
+			const { jobs, total } = await getDeadLetterJobs({
+				queue: query.queue,
+				start: offset,
+				limit,
+			});
+
+			return res.status(StatusCodes.OK).json({
+				jobs: jobs.map(toDeadLetterSummary),
+				pagination: {
+					total,
+					limit,
+					offset,
+				},
+			});
+		},
+		{
+			validationSchema: deadLetterQuerySchema,
+			getValue: (req) => req.query,
+		}
+	)
+);
+
+/**
+ * POST /admin/queues/dead-letter/retry
+ * Re-enqueue every dead-lettered job (optionally only one source queue),
+ * e.g. after an SMTP outage is fixed
+ */
+router.post(
+	"/dead-letter/retry",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(
+		async (data: z.infer<typeof retryAllSchema>, req, res) => {
+			const { jobs } = await getDeadLetterJobs({
+				queue: data.queue,
+				start: 0,
+				limit: MAX_BULK_RETRY,
+			});
+
+			let retried = 0;
+			for (const job of jobs) {
+				if (job.id && (await retryDeadLetterJob(job.id))) retried++;
+			}
+
+			await auditQueueAction(req, `Retried ${retried} dead-lettered jobs`, {
+				queue: data.queue ?? "all",
+				retried,
+			});
+
+			return res.status(StatusCodes.OK).json({
+				message: `${retried} jobs re-enqueued`,
+				retried,
+			});
+		},
+		{
+			validationSchema: retryAllSchema,
+			getValue: (req) => req.body ?? {},
+		}
+	)
+);
+
+/**
+ * POST /admin/queues/dead-letter/:jobId/retry
+ * Re-enqueue one dead-lettered job on its source queue
+ */
+router.post(
+	"/dead-letter/:jobId/retry",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(async (req, res) => {
+		const job = await retryDeadLetterJob(req.params.jobId);
+		if (!job) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.NOT_FOUND,
+				message: "Dead-lettered job not found",
+			});
+		}
+
+		await auditQueueAction(req, `Retried dead-lettered job ${req.params.jobId}`, {
+			queue: job.queueName,
+			deadLetterJobId: req.params.jobId,
+			newJobId: job.id,
+		});
+
+		return res.status(StatusCodes.OK).json({
+			message: "Job re-enqueued",
+			queue: job.queueName,
+			jobId: job.id,
+		});
+	})
+);
+
+/**
+ * DELETE /admin/queues/dead-letter/:jobId
+ * Discard a dead-lettered job
+ */
+router.delete(
+	"/dead-letter/:jobId",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(async (req, res) => {
+		const discarded = await discardDeadLetterJob(req.params.jobId);
+		if (!discarded) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.NOT_FOUND,
+				message: "Dead-lettered job not found",
+			});
+		}
+
+		await auditQueueAction(req, `Discarded dead-lettered job ${req.params.jobId}`, {
+			deadLetterJobId: req.params.jobId,
+		});
+
+		return res.status(StatusCodes.OK).json({
+			message: "Job discarded",
+		});
+	})
+);
+
+/**
+ * POST /admin/queues/:name/pause
+ * Stop workers from picking up new jobs on a queue (jobs keep accumulating)
+ */
+router.post(
+	"/:name/pause",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(
+		async (params: { name: QueueName }, req, res) => {
+			if (params.name === QueueNames.DEAD_LETTER) {
+				throw new HTTPError({
+					httpStatus: StatusCodes.BAD_REQUEST,
+					message: "The dead-letter queue cannot be paused",
+				});
+			}
+
+			await pauseQueue(params.name);
+			await auditQueueAction(req, `Paused queue ${params.name}`, { queue: params.name });
+
+			return res.status(StatusCodes.OK).json({
+				message: "Queue paused",
+				queue: params.name,
+			});
+		},
+		{
+			validationSchema: z.object({ name: queueNameSchema }),
+			getValue: (req) => req.params,
+		}
+	)
+);
+
+/**
+ * POST /admin/queues/:name/resume
+ * Resume a paused queue
+ */
+router.post(
+	"/:name/resume",
+	requirePermission(Permissions.ADMIN_SETTINGS),
+	expressAsyncHandler(
+		async (params: { name: QueueName }, req, res) => {
+			await resumeQueue(params.name);
+			await auditQueueAction(req, `Resumed queue ${params.name}`, { queue: params.name });
+
+			return res.status(StatusCodes.OK).json({
+				message: "Queue resumed",
+				queue: params.name,
+			});
+		},
+		{
+			validationSchema: z.object({ name: queueNameSchema }),
+			getValue: (req) => req.params,
+		}
+	)
+);
+
+export default router;
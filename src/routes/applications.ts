@@ -6,15 +6,17 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq, and, isNull, desc } from "drizzle-orm";
+import { eq, and, isNull, sql } from "drizzle-orm";
 
 import { db } from "../config/database.ts";
 import {
 	applications,
 	ApplicationStatuses,
+	applicationStatusHistory,
 	jobs,
 	JobStatuses,
 	jobseekerProfiles,
+	MessageReportReasons,
 	users,
 } from "../db/index.ts";
 import { VerificationStatuses } from "../db/index.ts";
@@ -22,10 +24,38 @@ import { HTTPError } from "../config/error.ts";
 import authMiddleware from "../middleware/authMiddleware.ts";
 import { requirePermission } from "../middleware/rbacMiddleware.ts";
 import { requireVerified } from "../middleware/verificationMiddleware.ts";
+import { messageRateLimiter } from "../middleware/securityMiddleware.ts";
 import { Permissions } from "../config/permissions.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../utils/pagination.ts";
+import {
+	canTransitionApplication,
+	changeApplicationStatus,
+	getApplicationTimeline,
+	submissionStatusHistory,
+} from "../services/applicationStatusService.ts";
+import {
+	getMessageThread,
+	listMessages,
+	MAX_MESSAGE_ATTACHMENTS,
+	MAX_MESSAGE_LENGTH,
+	messageView,
+	reportMessage,
+	sendMessage,
+} from "../services/applicationMessageService.ts";
 import { auditCreate, auditUpdate } from "../services/auditService.ts";
+import { interviewView, listApplicationInterviews, respondToInterview } from "../services/interviewService.ts";
+import { notifyNewApplicationReceived } from "../services/notificationService.ts";
 import { updateProfileCompletion } from "../services/profileService.ts";
+import { scoreScreeningAnswers, validateScreeningAnswers } from "../services/screeningService.ts";
 
 const router = Router();
 
@@ -43,7 +73,33 @@ const applySchema = z.object({
 	coverLetter: z.string().max(2000).optional(),
 	expectedSalary: z.number().positive().optional(),
 	noticePeriodDays: z.number().int().min(0).max(180).optional(),
-	screeningAnswers: z.record(z.any()).optional(),
+	screeningAnswers: z.record(z.unknown()).optional(), // Keyed by question id, checked against the job's questions
+});
+
+const requestRescheduleSchema = z.object({
+	note: z.string().trim().min(1).max(500), // Why, and which times suit instead
+});
+
+const declineInterviewSchema = z.object({
+	note: z.string().trim().max(500).optional(),
+});
+
+const sendMessageSchema = z.object({
+	body: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH),
+	attachments: z
+		.array(
+			z.object({
+				url: z.string().url(), // From POST /upload/sign with uploadType message_attachment
+				name: z.string().trim().max(200).optional(),
+			})
+		)
+		.max(MAX_MESSAGE_ATTACHMENTS)
+		.optional(),
+});
+
+const reportMessageSchema = z.object({
+	reason: z.nativeEnum(MessageReportReasons),
+	details: z.string().trim().max(1000).optional(),
 });
 
 // Same as frontend jobCategoryFormConfig – simple-form jobs allow lower profile completion
@@ -62,13 +118,19 @@ const SIMPLE_JOB_CATEGORIES = [
 	"Beautician & Spa",
 ];
 
+const APPLICATION_ORDER = keyset("applications", [
+	sortKey(applications.appliedAt, "desc"),
+	sortKey(applications.id, "desc"),
+]);
+
 // ============================================
 // Routes
 // ============================================
 
 /**
  * GET /applications
- * List my applications
+ * List my applications (newest first)
+ * Query params: limit (default 50, max 100), cursor (pagination.nextCursor), offset
  */
 router.get(
 	"/",
@@ -76,8 +138,14 @@ router.get(
 	requirePermission(Permissions.APPLICATIONS_READ_OWN),
 	expressAsyncHandler(async (req, res) => {
 		const userId = req.userId!;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
-		const result = await db
+		const conditions = [
+			eq(applications.jobseekerId, userId),
+			isNull(applications.deletedAt),
+		];
+
+		const rows = await db
 			.select({
 				id: applications.id,
 				uuid: applications.uuid,
@@ -101,24 +169,30 @@ router.get(
 					salaryMax: jobs.salaryMax,
 					isResumeRequired: jobs.isResumeRequired,
 				},
+				pageCursor: keysetCursorField(APPLICATION_ORDER),
 			})
 			.from(applications)
 			.innerJoin(jobs, eq(applications.jobId, jobs.id))
-			.where(
-				and(
-					eq(applications.jobseekerId, userId),
-					isNull(applications.deletedAt)
-				)
-			)
-			.orderBy(desc(applications.appliedAt));
+			.where(and(...conditions, keysetCondition(APPLICATION_ORDER, page)))
+			.orderBy(...keysetOrderBy(APPLICATION_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(applications)
+			.where(and(...conditions));
 
-		return res.status(StatusCodes.OK).json({ applications: result });
+		const { items, pagination } = paginate(rows, page, countResult?.count || 0);
+
+		return res.status(StatusCodes.OK).json({ applications: items, pagination });
 	})
 );
 
 /**
  * GET /applications/:id
- * Get single application
+ * Get single application with its status `timeline` (oldest first) and
+ * `interviews` (latest first)
  */
 router.get(
 	"/:id",
@@ -169,13 +243,20 @@ router.get(
 			});
 		}
 
-		return res.status(StatusCodes.OK).json({ application });
+		const timeline = await getApplicationTimeline({ id: application.id, jobseekerId: userId });
+		const interviews = await listApplicationInterviews(application.id);
+
+		return res.status(StatusCodes.OK).json({
+			application: { ...application, timeline, interviews: interviews.map(interviewView) },
+		});
 	})
 );
 
 /**
  * POST /applications
- * Apply to a job
+ * Apply to a job. Screening answers are validated and scored against the
+ * job's questions; missing a knockout question's expected answer rejects the
+ * application straight away.
  */
 router.post(
 	"/",
@@ -198,6 +279,7 @@ router.post(
 					autoCloseOnLimit: jobs.autoCloseOnLimit,
 					isResumeRequired: jobs.isResumeRequired,
 					howToApply: jobs.howToApply,
+					screeningQuestions: jobs.screeningQuestions,
 				})
 				.from(jobs)
 				.where(
@@ -229,6 +311,7 @@ router.post(
 
 			const [currentUser] = await db
 				.select({
+					name: users.name,
 					verificationStatus: users.verificationStatus,
 				})
 				.from(users)
@@ -323,20 +406,40 @@ router.post(
 				});
 			}
 
-			// Create application
-			const [application] = await db
-				.insert(applications)
-				.values({
-					jobId: BigInt(data.jobId),
-					jobseekerId: userId,
-					resumeUrl: finalResumeUrl || null,
-					coverLetter: data.coverLetter || null,
-					expectedSalary: data.expectedSalary?.toString() || null,
-					noticePeriodDays: data.noticePeriodDays || null,
-					screeningAnswers: data.screeningAnswers || null,
-					status: ApplicationStatuses.PENDING,
-				})
-				.returning();
+			const screeningQuestions = job.screeningQuestions ?? [];
+			const screeningAnswers = validateScreeningAnswers(screeningQuestions, data.screeningAnswers);
+			const screening = scoreScreeningAnswers(screeningQuestions, screeningAnswers);
+			const initialStatus = screening.knockout ? ApplicationStatuses.REJECTED : ApplicationStatuses.PENDING;
+
+			// Create application with its first history entries
+			const application = await db.transaction(async (tx) => {
+				const [created] = await tx
+					.insert(applications)
+					.values({
+						jobId: BigInt(data.jobId),
+						jobseekerId: userId,
+						resumeUrl: finalResumeUrl || null,
+						coverLetter: data.coverLetter || null,
+						expectedSalary: data.expectedSalary?.toString() || null,
+						noticePeriodDays: data.noticePeriodDays || null,
+						screeningAnswers: Object.keys(screeningAnswers).length > 0 ? screeningAnswers : null,
+						screeningScore: screening.score,
+						screeningKnockout: screening.knockout,
+						status: initialStatus,
+						statusChangedAt: screening.knockout ? new Date() : null,
+					})
+					.returning();
+
+				await tx
+					.insert(applicationStatusHistory)
+					.values(
+						submissionStatusHistory(
+							created,
+							screening.knockout ? "Did not meet the job's screening requirements" : undefined
+						)
+					);
+				return created;
+			});
 
 			const newCount = (job.applicationsCount ?? 0) + 1;
 			await db
@@ -359,7 +462,8 @@ router.post(
 				{
 					jobId: data.jobId.toString(),
 					jobTitle: job.title,
-					status: ApplicationStatuses.PENDING,
+					status: initialStatus,
+					screeningScore: screening.score,
 				},
 				{
 					userId,
@@ -370,6 +474,21 @@ router.post(
 				`Applied to job: ${job.title}`
 			);
 
+			// Notify the employer (batched into their digest when they have one);
+			// knocked-out applications are included so the job's counts add up
+			const [employer] = await db
+				.select({ email: users.email, name: users.name })
+				.from(users)
+				.where(eq(users.id, job.employerId))
+				.limit(1);
+			await notifyNewApplicationReceived(
+				job.employerId,
+				employer?.email || null,
+				job.title,
+				currentUser.name || "A candidate",
+				employer?.name || undefined
+			);
+
 			return res.status(StatusCodes.CREATED).json({
 				message: "Application submitted successfully",
 				application: {
@@ -418,30 +537,20 @@ router.delete(
 			});
 		}
 
-		// Can only withdraw pending/reviewed applications
-		const withdrawableStatuses = [
-			ApplicationStatuses.PENDING,
-			ApplicationStatuses.REVIEWED,
-			ApplicationStatuses.SHORTLISTED,
-		];
-
-		if (!withdrawableStatuses.includes(application.status as any)) {
+		// Can only withdraw until shortlisted (see APPLICATION_STATUS_TRANSITIONS)
+		if (!canTransitionApplication(application.status as ApplicationStatuses, ApplicationStatuses.WITHDRAWN)) {
 			throw new HTTPError({
 				httpStatus: StatusCodes.BAD_REQUEST,
 				message: `Cannot withdraw application with status: ${application.status}`,
 			});
 		}
 
-		// Update status to withdrawn
-		await db
-			.update(applications)
-			.set({
-				status: ApplicationStatuses.WITHDRAWN,
-				statusChangedAt: new Date(),
-				statusChangedBy: userId,
-				updatedAt: new Date(),
-			})
-			.where(eq(applications.id, applicationId));
+		await changeApplicationStatus({
+			applicationId,
+			from: application.status as ApplicationStatuses,
+			to: ApplicationStatuses.WITHDRAWN,
+			changedBy: userId,
+		});
 
 		// Audit log
 		await auditUpdate(
@@ -464,4 +573,176 @@ router.delete(
 	})
 );
 
+/**
+ * GET /applications/:id/messages
+ * Conversation between the candidate and the employer on this application
+ * (either side may call it), newest first. Marks the other side's messages
+ * as read. Query params: limit (default 50, max 100), cursor
+ */
+router.get(
+	"/:id/messages",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_READ_OWN, Permissions.APPLICATIONS_READ_ALL),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+		const thread = await getMessageThread(BigInt(req.params.id), userId);
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
+
+		const { messages, pagination } = await listMessages(thread, userId, page);
+
+		return res.status(StatusCodes.OK).json({
+			thread: {
+				applicationId: thread.applicationId,
+				jobTitle: thread.jobTitle,
+				companyName: thread.companyName,
+				candidateName: thread.candidateName,
+				role: thread.role,
+			},
+			messages,
+			pagination,
+		});
+	})
+);
+
+/**
+ * POST /applications/:id/messages
+ * Send a message in the application's conversation. Attachments must be
+ * message_attachment uploads by the sender. Closed once the application is
+ * withdrawn.
+ */
+router.post(
+	"/:id/messages",
+	authMiddleware(),
+	messageRateLimiter,
+	requirePermission(Permissions.APPLICATIONS_READ_OWN, Permissions.APPLICATIONS_READ_ALL),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const userId = req.userId!;
+			const thread = await getMessageThread(BigInt(req.params.id), userId);
+
+			const message = await sendMessage(thread, userId, data);
+
+			return res.status(StatusCodes.CREATED).json({
+				message: messageView(message, thread),
+			});
+		},
+		{
+			validationSchema: sendMessageSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * POST /applications/:id/messages/:messageId/report
+ * Report a message from the other side for abuse (reviewed by admins)
+ */
+router.post(
+	"/:id/messages/:messageId/report",
+	authMiddleware(),
+	messageRateLimiter,
+	requirePermission(Permissions.APPLICATIONS_READ_OWN, Permissions.APPLICATIONS_READ_ALL),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const userId = req.userId!;
+			const thread = await getMessageThread(BigInt(req.params.id), userId);
+
+			const report = await reportMessage(thread, userId, req.params.messageId, data);
+
+			await auditCreate(
+				"message_report",
+				report.id,
+				{ messageId: report.messageId, reason: report.reason },
+				{
+					userId,
+					ipAddress: req.clientIp,
+					userAgent: req.clientUserAgent,
+					requestId: req.requestId,
+				},
+				`Message reported: ${report.reason}`
+			);
+
+			return res.status(StatusCodes.CREATED).json({
+				message: "Thanks for letting us know. Our team will review this message.",
+				reportId: report.uuid,
+			});
+		},
+		{
+			validationSchema: reportMessageSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * POST /applications/interviews/:interviewId/confirm
+ * Confirm an upcoming interview (also after asking to reschedule)
+ */
+router.post(
+	"/interviews/:interviewId/confirm",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_READ_OWN),
+	expressAsyncHandler(async (req, res) => {
+		const interview = await respondToInterview(req.userId!, req.params.interviewId, "confirm");
+
+		return res.status(StatusCodes.OK).json({
+			message: "Interview confirmed",
+			interview: interviewView(interview),
+		});
+	})
+);
+
+/**
+ * POST /applications/interviews/:interviewId/reschedule
+ * Ask the employer for a different time; the note is required
+ */
+router.post(
+	"/interviews/:interviewId/reschedule",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_READ_OWN),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const interview = await respondToInterview(
+				req.userId!,
+				req.params.interviewId,
+				"reschedule",
+				data.note
+			);
+
+			return res.status(StatusCodes.OK).json({
+				message: "Reschedule requested",
+				interview: interviewView(interview),
+			});
+		},
+		{
+			validationSchema: requestRescheduleSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * POST /applications/interviews/:interviewId/decline
+ * Decline an upcoming interview (the application itself stays open)
+ */
+router.post(
+	"/interviews/:interviewId/decline",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_READ_OWN),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const interview = await respondToInterview(req.userId!, req.params.interviewId, "decline", data.note);
+
+			return res.status(StatusCodes.OK).json({
+				message: "Interview declined",
+				interview: interviewView(interview),
+			});
+		},
+		{
+			validationSchema: declineInterviewSchema,
+			getValue: (req) => req.body ?? {},
+		}
+	)
+);
+
 export default router;
@@ -12,6 +12,7 @@ import { db } from "../config/database.ts";
 import { users, userEmailVerificationCodes } from "../db/index.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
 import { TOKEN_CONFIG } from "../utils/jwt.ts";
+import { normalizeLocale } from "../utils/i18n.ts";
 import { auditLogin } from "../services/auditService.ts";
 
 // Auth services
@@ -100,7 +101,10 @@ authRouter.post(
 	"/signup",
 	expressAsyncHandler(
 		async (validatedData, req, res) => {
-			const signupService = new SignupService(validatedData);
+			const signupService = new SignupService({
+				...validatedData,
+				locale: validatedData.locale ?? normalizeLocale(req.locale),
+			});
 			const result = await signupService.execute();
 
 			// Send verification email
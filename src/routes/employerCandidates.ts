@@ -0,0 +1,340 @@
+/**
+ * Employer Candidate Routes
+ * Search open-to-work job seekers. Results are masked previews; contact
+ * details and resumes stay behind POST /resume/unlock/:profileId.
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { and, eq, gte, inArray, isNull, like, lte, or, sql } from "drizzle-orm";
+
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import { Permissions } from "../config/permissions.ts";
+import {
+	educationRecords,
+	EducationLevels,
+	jobseekerProfiles,
+	skills,
+	TransactionCategories,
+	transactions,
+	TransactionStatuses,
+	userProfiles,
+	wallets,
+} from "../db/index.ts";
+import authMiddleware from "../middleware/authMiddleware.ts";
+import { requirePermission } from "../middleware/rbacMiddleware.ts";
+import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../utils/pagination.ts";
+import { requireVerifiedEmployer } from "./employerProfile.ts";
+import {
+	DEFAULT_RADIUS_KM,
+	distanceKmSql,
+	GeoPoint,
+	MAX_RADIUS_KM,
+	resolvePincode,
+	withinRadiusSql,
+} from "../services/geoService.ts";
+import {
+	educationLevelsAtLeast,
+	expectedMonthlySalarySql,
+	highestEducationLevel,
+} from "../services/jobRecommendationService.ts";
+
+const router = Router();
+
+// ============================================
+// Config
+// ============================================
+
+const MAX_SKILL_FILTERS = 10;
+
+// Emails and Indian mobile numbers typed into free text (headline)
+const CONTACT_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+|(?:\+?91[\s-]?)?[6-9]\d{4}[\s-]?\d{5}/g;
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const candidateSearchSchema = z
+	.object({
+		skills: z.string().trim().max(500).optional(), // Comma-separated, matches any
+		minExperience: z.coerce.number().int().min(0).max(60).optional(),
+		maxExperience: z.coerce.number().int().min(0).max(60).optional(),
+		city: z.string().trim().min(1).max(100).optional(),
+		lat: z.coerce.number().min(-90).max(90).optional(),
+		lng: z.coerce.number().min(-180).max(180).optional(),
+		pincode: z.string().trim().regex(/^[1-9]\d{5}$/, "Invalid pincode").optional(),
+		radiusKm: z.coerce.number().min(1).max(MAX_RADIUS_KM).optional(),
+		educationLevel: z.nativeEnum(EducationLevels).optional(), // Minimum level
+		maxExpectedSalary: z.coerce.number().positive().optional(), // Per month
+		limit: z.coerce.number().int().min(1).max(50).optional(),
+		cursor: z.string().max(2000).optional(), // pagination.nextCursor
+		offset: z.coerce.number().int().min(0).optional(),
+	})
+	.refine((q) => (q.lat === undefined) === (q.lng === undefined), {
+		message: "lat and lng must be given together",
+		path: ["lat"],
+	});
+
+// ============================================
+// Helpers
+// ============================================
+
+function maskContactDetails(text: string | null): string | null {
+	return text ? text.replace(CONTACT_PATTERN, "[hidden]") : null;
+}
+
+/** "Rahul S." */
+function maskedName(firstName: string, lastName: string): string {
+	const initial = lastName.trim().charAt(0);
+	return initial ? `${firstName.trim()} ${initial.toUpperCase()}.` : firstName.trim();
+}
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /employer/candidates
+ * Open-to-work job seekers as masked previews (first name and last initial,
+ * no contact details, photo or resume). `profileId` is what
+ * POST /resume/unlock/:profileId takes; `isUnlocked` marks profiles this
+ * employer has already paid for.
+ *
+ * Filters: skills (comma-separated, any match; best matches first),
+ * minExperience, maxExperience, city, lat/lng or pincode with radiusKm
+ * (default 25, by distance), educationLevel (minimum), maxExpectedSalary
+ * (per month; seekers without an expectation are included). Paged by limit
+ * (default 20, max 50) and cursor (or offset).
+ */
+router.get(
+	"/",
+	authMiddleware(),
+	requirePermission(Permissions.JOBSEEKER_PROFILE_READ),
+	requireVerifiedEmployer(),
+	expressAsyncHandler(
+		async (query: z.infer<typeof candidateSearchSchema>, req, res) => {
+			const userId = req.userId!;
+			const page = parsePageRequest(query, { defaultLimit: 20, maxLimit: 50 });
+
+			let origin: GeoPoint | null = null;
+			if (query.lat !== undefined && query.lng !== undefined) {
+				origin = { latitude: query.lat, longitude: query.lng };
+			} else if (query.pincode) {
+				origin = await resolvePincode(query.pincode);
+				if (!origin) {
+					throw new HTTPError({
+						httpStatus: StatusCodes.BAD_REQUEST,
+						message: "Unknown pincode",
+					});
+				}
+			}
+
+			const requestedSkills = [
+				...new Set(
+					(query.skills ?? "")
+						.split(",")
+						.map((s) => s.trim().toLowerCase())
+						.filter(Boolean)
+				),
+			].slice(0, MAX_SKILL_FILTERS);
+
+			const conditions = [
+				eq(jobseekerProfiles.isOpenToWork, true),
+				isNull(jobseekerProfiles.deletedAt),
+			];
+
+			// Skills from the profile array and the structured skills rows
+			const matchedSkillCount =
+				requestedSkills.length > 0
+					? sql<number>`(select count(distinct lower(trim(s.name))) from (
+							select unnest(${jobseekerProfiles.skills}) as name
+							union all
+							select ${skills.skillName} from ${skills} where ${skills.userId} = ${jobseekerProfiles.userId}
+						) s where lower(trim(s.name)) in ${requestedSkills})::int`
+					: null;
+			if (matchedSkillCount) {
+				conditions.push(sql`${matchedSkillCount} > 0`);
+			}
+
+			if (query.minExperience !== undefined) {
+				conditions.push(gte(jobseekerProfiles.experienceYears, query.minExperience));
+			}
+			if (query.maxExperience !== undefined) {
+				conditions.push(lte(jobseekerProfiles.experienceYears, query.maxExperience));
+			}
+
+			if (query.city) {
+				const city = `%${query.city.toLowerCase()}%`;
+				conditions.push(
+					or(
+						like(sql`lower(${jobseekerProfiles.city})`, city),
+						like(sql`lower(${userProfiles.currentCity})`, city)
+					)!
+				);
+			}
+
+			const distance = origin ? distanceKmSql(userProfiles.latitude, userProfiles.longitude, origin) : null;
+			if (origin) {
+				conditions.push(
+					withinRadiusSql(userProfiles.latitude, userProfiles.longitude, origin, query.radiusKm ?? DEFAULT_RADIUS_KM)
+				);
+			}
+
+			if (query.educationLevel) {
+				conditions.push(
+					sql`exists (select 1 from ${educationRecords} where ${educationRecords.userId} = ${jobseekerProfiles.userId} and ${educationRecords.level} in ${educationLevelsAtLeast(query.educationLevel)})`
+				);
+			}
+
+			const expectedMonthlySalary = expectedMonthlySalarySql();
+			if (query.maxExpectedSalary !== undefined) {
+				conditions.push(
+					or(
+						isNull(jobseekerProfiles.expectedSalary),
+						sql`${expectedMonthlySalary} <= ${query.maxExpectedSalary}`
+					)!
+				);
+			}
+
+			const order = keyset(
+				["candidates", matchedSkillCount && "skills", distance && "near"].filter(Boolean).join(":"),
+				[
+					...(matchedSkillCount ? [sortKey(matchedSkillCount, "desc")] : []),
+					...(distance ? [sortKey(sql`coalesce(${distance}, 'Infinity'::float8)`, "asc")] : []),
+					sortKey(jobseekerProfiles.profileCompletion, "desc"),
+					sortKey(jobseekerProfiles.updatedAt, "desc"),
+					sortKey(jobseekerProfiles.id, "desc"),
+				]
+			);
+
+			const rows = await db
+				.select({
+					profileId: jobseekerProfiles.id,
+					userId: jobseekerProfiles.userId,
+					firstName: jobseekerProfiles.firstName,
+					lastName: jobseekerProfiles.lastName,
+					headline: jobseekerProfiles.headline,
+					city: jobseekerProfiles.city,
+					state: jobseekerProfiles.state,
+					currentCity: userProfiles.currentCity,
+					currentState: userProfiles.state,
+					skills: jobseekerProfiles.skills,
+					experienceYears: jobseekerProfiles.experienceYears,
+					expectedMonthlySalary,
+					jobTypes: jobseekerProfiles.jobTypes,
+					hasPhoto: sql<boolean>`${jobseekerProfiles.profilePhotoUrl} IS NOT NULL`,
+					hasResume: sql<boolean>`${jobseekerProfiles.resumeUrl} IS NOT NULL`,
+					profileCompletion: jobseekerProfiles.profileCompletion,
+					lastActiveAt: jobseekerProfiles.updatedAt,
+					...(distance ? { distanceKm: distance } : {}),
+					pageCursor: keysetCursorField(order),
+				})
+				.from(jobseekerProfiles)
+				.leftJoin(
+					userProfiles,
+					and(eq(userProfiles.userId, jobseekerProfiles.userId), isNull(userProfiles.deletedAt))
+				)
+				.where(and(...conditions, keysetCondition(order, page)))
+				.orderBy(...keysetOrderBy(order))
+				.limit(page.limit + 1)
+				.offset(page.offset);
+
+			const [countResult] = await db
+				.select({ count: sql<number>`count(*)::int` })
+				.from(jobseekerProfiles)
+				.leftJoin(
+					userProfiles,
+					and(eq(userProfiles.userId, jobseekerProfiles.userId), isNull(userProfiles.deletedAt))
+				)
+				.where(and(...conditions));
+			const { items: pageRows, pagination } = paginate(rows, page, countResult?.count || 0);
+
+			// Structured skills, education and this employer's unlocks for the page
+			const userIds = pageRows.map((r) => r.userId);
+			const profileIds = pageRows.map((r) => r.profileId);
+			const [skillRows, educationRows, unlockRows] =
+				pageRows.length > 0
+					? await Promise.all([
+							db
+								.select({ userId: skills.userId, skillName: skills.skillName })
+								.from(skills)
+								.where(inArray(skills.userId, userIds)),
+							db
+								.select({ userId: educationRecords.userId, level: educationRecords.level })
+								.from(educationRecords)
+								.where(inArray(educationRecords.userId, userIds)),
+							db
+								.selectDistinct({ profileId: transactions.relatedEntityId })
+								.from(transactions)
+								.innerJoin(wallets, eq(transactions.walletId, wallets.id))
+								.where(
+									and(
+										eq(wallets.userId, userId),
+										eq(transactions.category, TransactionCategories.RESUME_UNLOCK),
+										eq(transactions.status, TransactionStatuses.COMPLETED),
+										eq(transactions.relatedEntityType, "jobseeker_profile"),
+										inArray(transactions.relatedEntityId, profileIds)
+									)
+								),
+						])
+					: [[], [], []];
+			const unlocked = new Set(unlockRows.map((r) => r.profileId?.toString()));
+
+			const candidates = pageRows.map((row) => {
+				const candidateSkills = [
+					...new Map(
+						[...(row.skills ?? []), ...skillRows.filter((s) => s.userId === row.userId).map((s) => s.skillName)]
+							.map((name) => name.trim())
+							.filter(Boolean)
+							.map((name) => [name.toLowerCase(), name] as const)
+					).values(),
+				];
+
+				return {
+					profileId: row.profileId,
+					displayName: maskedName(row.firstName, row.lastName),
+					headline: maskContactDetails(row.headline),
+					city: row.currentCity || row.city,
+					state: row.currentState || row.state,
+					skills: candidateSkills,
+					matchedSkills: candidateSkills.filter((s) => requestedSkills.includes(s.toLowerCase())),
+					experienceYears: row.experienceYears,
+					educationLevel: highestEducationLevel(
+						educationRows.filter((e) => e.userId === row.userId).map((e) => e.level as EducationLevels)
+					),
+					expectedMonthlySalary: row.expectedMonthlySalary,
+					jobTypes: row.jobTypes ?? [],
+					hasPhoto: row.hasPhoto,
+					hasResume: row.hasResume,
+					profileCompletion: row.profileCompletion,
+					lastActiveAt: row.lastActiveAt,
+					...(row.distanceKm !== undefined && { distanceKm: row.distanceKm }),
+					isUnlocked: unlocked.has(row.profileId.toString()),
+				};
+			});
+
+			return res.status(StatusCodes.OK).json({
+				candidates,
+				pagination,
+				message: "Contact info requires profile unlock",
+			});
+		},
+		{
+			validationSchema: candidateSearchSchema,
+			getValue: (req) => req.query,
+		}
+	)
+);
+
+export default router;
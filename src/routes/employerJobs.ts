@@ -13,10 +13,13 @@ import { db } from "../config/database.ts";
 import {
 	jobs,
 	JobStatuses,
+	Application,
 	applications,
 	ApplicationStatuses,
 	jobseekerProfiles,
 	employerProfiles,
+	Interview,
+	InterviewModes,
 	users,
 } from "../db/index.ts";
 import { VerificationStatuses } from "../db/index.ts";
@@ -25,11 +28,45 @@ import authMiddleware from "../middleware/authMiddleware.ts";
 import { requirePermission } from "../middleware/rbacMiddleware.ts";
 import { Permissions } from "../config/permissions.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../utils/pagination.ts";
+import { changeApplicationStatus } from "../services/applicationStatusService.ts";
+import {
+	cancelInterview,
+	interviewView,
+	listApplicationInterviews,
+	scheduleInterview,
+	sendInterviewCancellations,
+	updateInterview,
+} from "../services/interviewService.ts";
+import {
+	MAX_BULK_APPLICATIONS,
+	normalizeApplicationTag,
+	runBulkApplicantAction,
+} from "../services/applicantBulkService.ts";
 import { auditCreate, auditUpdate } from "../services/auditService.ts";
 import { requireVerifiedEmployer } from "./employerProfile.ts";
 import { deduct } from "../services/walletService.ts";
+import { coordinatesForPincode } from "../services/geoService.ts";
+import { resolveLocation, withCanonicalNames } from "../services/locationService.ts";
+import {
+	normalizeScreeningQuestions,
+	sameScreeningQuestions,
+	screeningQuestionsSchema,
+} from "../services/screeningService.ts";
+import { publishRealtimeEvent, RealtimeEventTypes } from "../services/queueService.ts";
 import { TransactionCategories } from "../db/index.ts";
-import { notifyProfileViewedByEmployer } from "../services/notificationService.ts";
+import {
+	notifyProfileViewedByEmployer,
+	notifyApplicationStatusChange,
+} from "../services/notificationService.ts";
 
 const router = Router();
 
@@ -48,6 +85,18 @@ const PROMOTION_PRICES_PAISE: Record<string, number> = {
 	highlight: parseInt(process.env.JOB_PROMOTION_HIGHLIGHT_PAISE || "9900", 10), // ₹99
 };
 
+const APPLICANT_ORDER = keyset("applicants", [
+	sortKey(applications.appliedAt, "desc"),
+	sortKey(applications.id, "desc"),
+]);
+
+// Best screening score first; unscored applications last
+const APPLICANT_SCORE_ORDER = keyset("applicants:screeningScore", [
+	sortKey(sql`coalesce(${applications.screeningScore}, -1)`, "desc"),
+	sortKey(applications.appliedAt, "desc"),
+	sortKey(applications.id, "desc"),
+]);
+
 // ============================================
 // Validation Schemas
 // ============================================
@@ -71,6 +120,7 @@ const createJobSchema = z.object({
 	district: z.string().optional(),
 	area: z.string().optional(),
 	state: z.string().optional(),
+	locationId: z.string().regex(/^\d+$/, "Invalid locationId").nullable().optional(), // From /locations/suggest
 	address: z.string().optional(),
 	addressLine2: z.string().optional(),
 	salaryMin: z.number().positive().optional(),
@@ -89,6 +139,7 @@ const createJobSchema = z.object({
 	maxApplications: z.number().int().positive().optional(),
 	autoCloseOnLimit: z.boolean().default(false),
 	isResumeRequired: z.boolean().default(false),
+	screeningQuestions: screeningQuestionsSchema.optional(), // See screeningService
 	status: z.enum(["draft", "active"]).default("draft"),
 	howToApply: z.enum(["platform", "direct", "both", "external"]).default("platform"),
 	externalApplyUrl: z.string().url().optional().or(z.literal("")),
@@ -108,10 +159,66 @@ const updateApplicationStatusSchema = z.object({
 		"hired",
 		"rejected",
 	]),
+	note: z.string().trim().max(500).optional(), // Shown to the candidate in their status timeline
 	internalNotes: z.string().optional(),
 	rating: z.number().int().min(1).max(5).optional(),
 });
 
+const applicationTagSchema = z.string().trim().min(1).max(40);
+
+// Bulk actions target explicit application ids or a filter (not both)
+const bulkApplicantTargetFields = {
+	applicationIds: z.array(z.string().regex(/^\d+$/)).min(1).max(MAX_BULK_APPLICATIONS).optional(),
+	filter: z
+		.object({
+			statuses: z.array(z.nativeEnum(ApplicationStatuses)).optional(),
+			minScreeningScore: z.number().int().min(0).max(100).optional(),
+			knockedOut: z.boolean().optional(),
+			tag: applicationTagSchema.optional(),
+		})
+		.optional(),
+};
+
+const bulkApplicantActionSchema = z
+	.discriminatedUnion("action", [
+		z.object({
+			action: z.literal("status"),
+			...bulkApplicantTargetFields,
+			status: updateApplicationStatusSchema.shape.status,
+			note: z.string().trim().max(500).optional(),
+		}),
+		z.object({
+			action: z.literal("tag"),
+			...bulkApplicantTargetFields,
+			tag: applicationTagSchema,
+		}),
+		z.object({
+			action: z.literal("message"),
+			...bulkApplicantTargetFields,
+			subject: z.string().trim().min(1).max(150),
+			message: z.string().trim().min(1).max(2000), // {{candidateName}}, {{jobTitle}}, {{companyName}} filled per candidate
+		}),
+	])
+	.refine((data) => (data.applicationIds === undefined) !== (data.filter === undefined), {
+		message: "Provide either applicationIds or filter",
+	});
+
+const scheduleInterviewSchema = z.object({
+	scheduledAt: z.string().datetime({ offset: true }),
+	durationMinutes: z.number().int().min(10).max(480).optional(), // Default: 30
+	mode: z.nativeEnum(InterviewModes),
+	location: z.string().trim().max(500).optional(), // Address (in person) or number to call (phone)
+	meetingUrl: z.string().trim().url().max(500).optional(),
+	interviewerName: z.string().trim().max(200).optional(),
+	notes: z.string().trim().max(2000).optional(), // Shown to the candidate
+});
+
+const updateInterviewSchema = scheduleInterviewSchema.partial();
+
+const cancelInterviewSchema = z.object({
+	reason: z.string().trim().max(500).optional(),
+});
+
 // ============================================
 // Auto-Moderation
 // ============================================
@@ -413,6 +520,24 @@ router.post(
 				}
 			}
 
+			const coordinates = await coordinatesForPincode(data.pincode);
+			const location = await resolveLocation({
+				locationId: data.locationId,
+				city: data.city,
+				district: data.district,
+				area: data.area,
+				state: data.state,
+			});
+			const place = withCanonicalNames(
+				{
+					city: data.city || null,
+					district: data.district || null,
+					area: data.area || null,
+					state: data.state || null,
+				},
+				location.names
+			);
+
 			// Create job (base listing)
 			const [job] = await db
 				.insert(jobs)
@@ -430,12 +555,15 @@ router.post(
 					skillsRequired: data.skillsRequired || null,
 					locationType: data.locationType as any,
 					pincode: data.pincode || null,
-					city: data.city || null,
-					district: data.district || null,
-					area: data.area || null,
-					state: data.state || null,
+					city: place.city,
+					district: place.district,
+					area: place.area,
+					state: place.state,
+					locationId: location.locationId,
 					address: data.address || null,
 					addressLine2: data.addressLine2 || null,
+					latitude: coordinates.latitude,
+					longitude: coordinates.longitude,
 					salaryMin: data.salaryMin?.toString() || null,
 					salaryMax: data.salaryMax?.toString() || null,
 					salaryType: data.salaryType || "yearly",
@@ -456,6 +584,9 @@ router.post(
 					maxApplications: data.maxApplications ?? null,
 					autoCloseOnLimit: data.autoCloseOnLimit ?? false,
 					isResumeRequired: data.isResumeRequired ?? false,
+					screeningQuestions: data.screeningQuestions?.length
+						? normalizeScreeningQuestions(data.screeningQuestions)
+						: null,
 					status: data.status as any,
 					howToApply: howToApply as any,
 					externalApplyUrl: howToApply === "external" && data.externalApplyUrl ? (data.externalApplyUrl as string).trim() : null,
@@ -590,13 +721,28 @@ router.patch(
 			if (data.category !== undefined) updateData.category = data.category || null;
 			if (data.skillsRequired !== undefined) updateData.skillsRequired = data.skillsRequired || null;
 			if (data.locationType !== undefined) updateData.locationType = data.locationType;
-			if (data.pincode !== undefined) updateData.pincode = data.pincode || null;
+			if (data.pincode !== undefined) {
+				updateData.pincode = data.pincode || null;
+				Object.assign(updateData, await coordinatesForPincode(data.pincode));
+			}
 			if (data.city !== undefined) updateData.city = data.city || null;
 			if (data.district !== undefined) updateData.district = data.district || null;
 			if (data.area !== undefined) updateData.area = data.area || null;
 			if (data.state !== undefined) updateData.state = data.state || null;
 			if (data.address !== undefined) updateData.address = data.address || null;
 			if (data.addressLine2 !== undefined) updateData.addressLine2 = data.addressLine2 || null;
+			if ([data.locationId, data.city, data.district, data.area, data.state].some((v) => v !== undefined)) {
+				const place = {
+					city: data.city !== undefined ? data.city || null : existing.city,
+					district: data.district !== undefined ? data.district || null : existing.district,
+					area: data.area !== undefined ? data.area || null : existing.area,
+					state: data.state !== undefined ? data.state || null : existing.state,
+				};
+				const location = await resolveLocation({ ...place, locationId: data.locationId });
+				Object.assign(updateData, withCanonicalNames(place, location.names), {
+					locationId: location.locationId,
+				});
+			}
 			if (data.salaryMin !== undefined) updateData.salaryMin = data.salaryMin?.toString() || null;
 			if (data.salaryMax !== undefined) updateData.salaryMax = data.salaryMax?.toString() || null;
 			if (data.salaryType !== undefined) updateData.salaryType = data.salaryType || null;
@@ -619,6 +765,24 @@ router.patch(
 			if (data.maxApplications !== undefined) updateData.maxApplications = data.maxApplications;
 			if (data.autoCloseOnLimit !== undefined) updateData.autoCloseOnLimit = data.autoCloseOnLimit;
 			if (data.isResumeRequired !== undefined) updateData.isResumeRequired = data.isResumeRequired;
+			if (data.screeningQuestions !== undefined) {
+				const screeningQuestions = data.screeningQuestions.length
+					? normalizeScreeningQuestions(data.screeningQuestions)
+					: null;
+
+				// Existing applications were answered and scored against the current questions
+				if (
+					(existing.applicationsCount ?? 0) > 0 &&
+					!sameScreeningQuestions(existing.screeningQuestions, screeningQuestions)
+				) {
+					throw new HTTPError({
+						httpStatus: StatusCodes.CONFLICT,
+						message: "Screening questions cannot be changed after candidates have applied",
+						reason: { applicationsCount: existing.applicationsCount },
+					});
+				}
+				updateData.screeningQuestions = screeningQuestions;
+			}
 			if (data.howToApply !== undefined) {
 				updateData.howToApply = data.howToApply;
 				if (data.howToApply !== "external") updateData.externalApplyUrl = null;
@@ -841,7 +1005,10 @@ router.delete(
 
 /**
  * GET /employer/jobs/:id/applicants
- * List applicants for a job
+ * List applicants for a job (newest first)
+ * Query params: sort (appliedAt | screeningScore), minScreeningScore (0-100),
+ * knockedOut (true | false), tag, limit (default 50, max 100),
+ * cursor (pagination.nextCursor), offset
  */
 router.get(
 	"/:id/applicants",
@@ -850,10 +1017,18 @@ router.get(
 	expressAsyncHandler(async (req, res) => {
 		const userId = req.userId!;
 		const jobId = BigInt(req.params.id);
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
+		const order = req.query.sort === "screeningScore" ? APPLICANT_SCORE_ORDER : APPLICANT_ORDER;
+		const minScreeningScore = parseInt(req.query.minScreeningScore as string);
 
 		// Verify ownership
 		const [job] = await db
-			.select({ id: jobs.id, title: jobs.title, isResumeRequired: jobs.isResumeRequired })
+			.select({
+				id: jobs.id,
+				title: jobs.title,
+				isResumeRequired: jobs.isResumeRequired,
+				screeningQuestions: jobs.screeningQuestions,
+			})
 			.from(jobs)
 			.where(
 				and(
@@ -870,8 +1045,22 @@ router.get(
 			});
 		}
 
+		const conditions = [
+			eq(applications.jobId, jobId),
+			isNull(applications.deletedAt),
+		];
+		if (!isNaN(minScreeningScore)) {
+			conditions.push(gte(applications.screeningScore, minScreeningScore));
+		}
+		if (req.query.knockedOut === "true" || req.query.knockedOut === "false") {
+			conditions.push(eq(applications.screeningKnockout, req.query.knockedOut === "true"));
+		}
+		if (typeof req.query.tag === "string" && req.query.tag.trim()) {
+			conditions.push(sql`${normalizeApplicationTag(req.query.tag)} = any(${applications.tags})`);
+		}
+
 		// Get applicants with profile info
-		const applicants = await db
+		const rows = await db
 			.select({
 				id: applications.id,
 				uuid: applications.uuid,
@@ -881,6 +1070,10 @@ router.get(
 				noticePeriodDays: applications.noticePeriodDays,
 				rating: applications.rating,
 				internalNotes: applications.internalNotes,
+				tags: applications.tags,
+				screeningAnswers: applications.screeningAnswers,
+				screeningScore: applications.screeningScore,
+				screeningKnockout: applications.screeningKnockout,
 				appliedAt: applications.appliedAt,
 				viewedAt: applications.viewedAt,
 				// Fallback display name from users table
@@ -907,6 +1100,7 @@ router.get(
 					phone: users.phone,
 					whatsappNumber: users.whatsappNumber,
 				},
+				pageCursor: keysetCursorField(order),
 			})
 			.from(applications)
 			.innerJoin(
@@ -917,24 +1111,88 @@ router.get(
 				users,
 				eq(applications.jobseekerId, users.id)
 			)
-			.where(
-				and(
-					eq(applications.jobId, jobId),
-					isNull(applications.deletedAt)
-				)
+			.where(and(...conditions, keysetCondition(order, page)))
+			.orderBy(...keysetOrderBy(order))
+			.limit(page.limit + 1)
+			.offset(page.offset);
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(applications)
+			.innerJoin(
+				jobseekerProfiles,
+				eq(applications.jobseekerId, jobseekerProfiles.userId)
 			)
-			.orderBy(desc(applications.appliedAt));
+			.where(and(...conditions));
+
+		const { items: applicants, pagination } = paginate(rows, page, countResult?.count || 0);
 
 		return res.status(StatusCodes.OK).json({
-			job: { id: job.id, title: job.title, isResumeRequired: job.isResumeRequired },
+			job: {
+				id: job.id,
+				title: job.title,
+				isResumeRequired: job.isResumeRequired,
+				screeningQuestions: job.screeningQuestions,
+			},
 			applicants,
+			pagination,
 		});
 	})
 );
 
+/**
+ * POST /employer/jobs/:id/applicants/bulk
+ * Change status, add a tag, or send a message (posted to each application's
+ * conversation) to many applicants at once.
+ * Body: action ("status" | "tag" | "message") with its fields, and either
+ * applicationIds or filter (statuses, minScreeningScore, knockedOut, tag);
+ * up to 500 applications. Applies in one transaction with one audit entry
+ * per application; applications the action does not apply to come back in
+ * `skipped` with the reason.
+ */
+router.post(
+	"/:id/applicants/bulk",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_UPDATE_STATUS),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const userId = req.userId!;
+			const target = data.applicationIds
+				? { applicationIds: data.applicationIds.map((id) => BigInt(id)) }
+				: { filter: data.filter! };
+
+			const result = await runBulkApplicantAction(
+				userId,
+				BigInt(req.params.id),
+				target,
+				data.action === "status"
+					? { action: "status", status: data.status as ApplicationStatuses, note: data.note }
+					: data.action === "tag"
+						? { action: "tag", tag: data.tag }
+						: { action: "message", subject: data.subject, message: data.message },
+				{
+					userId,
+					ipAddress: req.clientIp,
+					userAgent: req.clientUserAgent,
+					requestId: req.requestId,
+				}
+			);
+
+			return res.status(StatusCodes.OK).json({
+				message: `${data.action === "message" ? "Message sent to" : "Updated"} ${result.applied} of ${result.matched} applications`,
+				...result,
+			});
+		},
+		{
+			validationSchema: bulkApplicantActionSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
 /**
  * POST /employer/jobs/applications/:id/view
- * Mark application as viewed (employer opened candidate profile). Sets status to REVIEWED, viewedAt, notifies candidate.
+ * Mark application as viewed (employer opened candidate profile). Sets viewedAt, moves a PENDING application to REVIEWED, notifies candidate.
  */
 router.post(
 	"/applications/:id/view",
@@ -990,16 +1248,21 @@ router.post(
 		}
 
 		const now = new Date();
-		await db
-			.update(applications)
-			.set({
-				viewedAt: now,
-				status: ApplicationStatuses.REVIEWED,
-				statusChangedAt: now,
-				statusChangedBy: userId,
-				updatedAt: now,
-			})
-			.where(eq(applications.id, applicationId));
+		const isFirstReview = app.status === ApplicationStatuses.PENDING;
+		if (isFirstReview) {
+			await changeApplicationStatus({
+				applicationId,
+				from: ApplicationStatuses.PENDING,
+				to: ApplicationStatuses.REVIEWED,
+				changedBy: userId,
+				set: { viewedAt: now },
+			});
+		} else {
+			await db
+				.update(applications)
+				.set({ viewedAt: now, updatedAt: now })
+				.where(eq(applications.id, applicationId));
+		}
 
 		const [company] = await db
 			.select({ companyName: employerProfiles.companyName })
@@ -1011,6 +1274,17 @@ router.post(
 			.from(users)
 			.where(eq(users.id, app.jobseekerId))
 			.limit(1);
+		if (isFirstReview) {
+			await publishRealtimeEvent(app.jobseekerId, RealtimeEventTypes.APPLICATION_STATUS, {
+				applicationId: app.id,
+				jobId: app.jobId,
+				jobTitle: app.jobTitle,
+				status: ApplicationStatuses.REVIEWED,
+				previousStatus: app.status,
+				changedAt: now,
+			});
+		}
+
 		// Only notify if this is the first time viewing
 		if (!app.viewedAt && jobseekerUser?.email) {
 			await notifyProfileViewedByEmployer(
@@ -1031,7 +1305,9 @@ router.post(
 
 /**
  * PATCH /employer/jobs/applications/:id/status
- * Update application status
+ * Update application status along APPLICATION_STATUS_TRANSITIONS (400 for
+ * a move the graph does not allow). Re-sending the current status only
+ * updates internalNotes / rating.
  */
 router.patch(
 	"/applications/:id/status",
@@ -1048,7 +1324,9 @@ router.patch(
 					id: applications.id,
 					status: applications.status,
 					jobId: applications.jobId,
+					jobseekerId: applications.jobseekerId,
 					jobEmployerId: jobs.employerId,
+					jobTitle: jobs.title,
 				})
 				.from(applications)
 				.innerJoin(jobs, eq(applications.jobId, jobs.id))
@@ -1074,22 +1352,33 @@ router.patch(
 				});
 			}
 
-			// Update status
-			const [updated] = await db
-				.update(applications)
-				.set({
-					status: data.status as any,
-					statusChangedAt: new Date(),
-					statusChangedBy: userId,
-					internalNotes: data.internalNotes || null,
-					rating: data.rating || null,
-					viewedAt: application.status === ApplicationStatuses.PENDING
-						? new Date()
-						: undefined,
-					updatedAt: new Date(),
-				})
-				.where(eq(applications.id, applicationId))
-				.returning();
+			const employerFields = {
+				internalNotes: data.internalNotes || null,
+				rating: data.rating || null,
+			};
+
+			// Update status (with a history entry) or just the employer's notes
+			let updated: Application;
+			let cancelledInterviews: Interview[] = [];
+			if (application.status !== data.status) {
+				({ application: updated, cancelledInterviews } = await changeApplicationStatus({
+					applicationId,
+					from: application.status as ApplicationStatuses,
+					to: data.status as ApplicationStatuses,
+					changedBy: userId,
+					note: data.note,
+					set: {
+						...employerFields,
+						...(application.status === ApplicationStatuses.PENDING && { viewedAt: new Date() }),
+					},
+				}));
+			} else {
+				[updated] = await db
+					.update(applications)
+					.set({ ...employerFields, updatedAt: new Date() })
+					.where(eq(applications.id, applicationId))
+					.returning();
+			}
 
 			// Audit log
 			await auditUpdate(
@@ -1106,6 +1395,38 @@ router.patch(
 				`Application status changed to ${data.status}`
 			);
 
+			// Notify candidate (email + in-app + live stream) only when the status actually changed
+			if (application.status !== data.status) {
+				await publishRealtimeEvent(application.jobseekerId, RealtimeEventTypes.APPLICATION_STATUS, {
+					applicationId: application.id,
+					jobId: application.jobId,
+					jobTitle: application.jobTitle,
+					status: data.status,
+					previousStatus: application.status,
+					changedAt: updated.statusChangedAt,
+				});
+				await sendInterviewCancellations(cancelledInterviews);
+
+				const [company] = await db
+					.select({ companyName: employerProfiles.companyName })
+					.from(employerProfiles)
+					.where(eq(employerProfiles.userId, userId))
+					.limit(1);
+				const [jobseekerUser] = await db
+					.select({ email: users.email, name: users.name })
+					.from(users)
+					.where(eq(users.id, application.jobseekerId))
+					.limit(1);
+				await notifyApplicationStatusChange(
+					application.jobseekerId,
+					jobseekerUser?.email || null,
+					application.jobTitle,
+					company?.companyName || "A company",
+					data.status,
+					jobseekerUser?.name || undefined
+				);
+			}
+
 			return res.status(StatusCodes.OK).json({
 				message: "Application status updated",
 				application: updated,
@@ -1118,4 +1439,140 @@ router.patch(
 	)
 );
 
+// ============================================
+// Interviews
+// ============================================
+
+/**
+ * GET /employer/jobs/applications/:id/interviews
+ * Interviews scheduled on an application, latest first
+ */
+router.get(
+	"/applications/:id/interviews",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_READ_ALL),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+		const applicationId = BigInt(req.params.id);
+
+		const [application] = await db
+			.select({ id: applications.id })
+			.from(applications)
+			.innerJoin(jobs, eq(applications.jobId, jobs.id))
+			.where(
+				and(
+					eq(applications.id, applicationId),
+					eq(jobs.employerId, userId),
+					isNull(applications.deletedAt)
+				)
+			)
+			.limit(1);
+
+		if (!application) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.NOT_FOUND,
+				message: "Application not found",
+			});
+		}
+
+		const interviews = await listApplicationInterviews(applicationId);
+
+		return res.status(StatusCodes.OK).json({
+			interviews: interviews.map(interviewView),
+		});
+	})
+);
+
+/**
+ * POST /employer/jobs/applications/:id/interviews
+ * Schedule an interview. Moves the application to INTERVIEW and emails the
+ * candidate an invitation with a calendar (.ics) attachment; reminders go out
+ * 24h and 2h before. In-person interviews need a location, video a meetingUrl.
+ */
+router.post(
+	"/applications/:id/interviews",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_UPDATE_STATUS),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const interview = await scheduleInterview(req.userId!, BigInt(req.params.id), {
+				scheduledAt: new Date(data.scheduledAt),
+				durationMinutes: data.durationMinutes ?? 30,
+				mode: data.mode,
+				location: data.location || null,
+				meetingUrl: data.meetingUrl || null,
+				interviewerName: data.interviewerName || null,
+				notes: data.notes || null,
+			});
+
+			return res.status(StatusCodes.CREATED).json({
+				message: "Interview scheduled",
+				interview: interviewView(interview),
+			});
+		},
+		{
+			validationSchema: scheduleInterviewSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * PATCH /employer/jobs/interviews/:interviewId
+ * Reschedule or edit an open interview. The candidate gets an updated invite
+ * and has to confirm again.
+ */
+router.patch(
+	"/interviews/:interviewId",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_UPDATE_STATUS),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const interview = await updateInterview(req.userId!, req.params.interviewId, {
+				...(data.scheduledAt !== undefined && { scheduledAt: new Date(data.scheduledAt) }),
+				...(data.durationMinutes !== undefined && { durationMinutes: data.durationMinutes }),
+				...(data.mode !== undefined && { mode: data.mode }),
+				...(data.location !== undefined && { location: data.location || null }),
+				...(data.meetingUrl !== undefined && { meetingUrl: data.meetingUrl || null }),
+				...(data.interviewerName !== undefined && { interviewerName: data.interviewerName || null }),
+				...(data.notes !== undefined && { notes: data.notes || null }),
+			});
+
+			return res.status(StatusCodes.OK).json({
+				message: "Interview updated",
+				interview: interviewView(interview),
+			});
+		},
+		{
+			validationSchema: updateInterviewSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * POST /employer/jobs/interviews/:interviewId/cancel
+ * Cancel an open interview; the candidate is emailed a calendar cancellation.
+ * The application status is left as is.
+ */
+router.post(
+	"/interviews/:interviewId/cancel",
+	authMiddleware(),
+	requirePermission(Permissions.APPLICATIONS_UPDATE_STATUS),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const interview = await cancelInterview(req.userId!, req.params.interviewId, data.reason);
+
+			return res.status(StatusCodes.OK).json({
+				message: "Interview cancelled",
+				interview: interviewView(interview),
+			});
+		},
+		{
+			validationSchema: cancelInterviewSchema,
+			getValue: (req) => req.body ?? {},
+		}
+	)
+);
+
 export default router;
@@ -15,6 +15,7 @@ import { requirePermission } from "../middleware/rbacMiddleware.ts";
 import { Permissions } from "../config/permissions.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
 import { auditCreate, auditUpdate } from "../services/auditService.ts";
+import { resolveLocation, withCanonicalNames } from "../services/locationService.ts";
 import {
 	signUploadParams,
 	UploadTypes,
@@ -45,6 +46,7 @@ const createProfileSchema = z.object({
 	city: z.string().optional(),
 	district: z.string().optional(),
 	state: z.string().optional(),
+	locationId: z.string().regex(/^\d+$/, "Invalid locationId").nullable().optional(), // From /locations/suggest
 	country: z.string().default("India"),
 	pincode: z.string().optional(),
 	description: z.string().max(2000).optional(),
@@ -136,6 +138,17 @@ router.post(
 				});
 			}
 
+			const location = await resolveLocation({
+				locationId: data.locationId,
+				city: data.city,
+				district: data.district,
+				state: data.state,
+			});
+			const place = withCanonicalNames(
+				{ city: data.city || null, district: data.district || null, state: data.state || null },
+				location.names
+			);
+
 			// Create profile
 			const [profile] = await db
 				.insert(employerProfiles)
@@ -156,9 +169,10 @@ router.post(
 					showCallToApplicants: data.showCallToApplicants ?? true,
 					showWhatsAppToApplicants: data.showWhatsAppToApplicants ?? true,
 					address: data.address || null,
-					city: data.city || null,
-					district: data.district || null,
-					state: data.state || null,
+					city: place.city,
+					district: place.district,
+					state: place.state,
+					locationId: location.locationId,
 					country: data.country,
 					pincode: data.pincode || null,
 					description: data.description || null,
@@ -243,6 +257,17 @@ router.patch(
 			if (data.city !== undefined) updateData.city = data.city || null;
 			if (data.district !== undefined) updateData.district = data.district || null;
 			if (data.state !== undefined) updateData.state = data.state || null;
+			if ([data.locationId, data.city, data.district, data.state].some((v) => v !== undefined)) {
+				const place = {
+					city: data.city !== undefined ? data.city || null : existing.city,
+					district: data.district !== undefined ? data.district || null : existing.district,
+					state: data.state !== undefined ? data.state || null : existing.state,
+				};
+				const location = await resolveLocation({ ...place, locationId: data.locationId });
+				Object.assign(updateData, withCanonicalNames(place, location.names), {
+					locationId: location.locationId,
+				});
+			}
 			if (data.country) updateData.country = data.country;
 			if (data.pincode !== undefined) updateData.pincode = data.pincode || null;
 			if (data.description !== undefined) updateData.description = data.description || null;
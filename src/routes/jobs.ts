@@ -8,17 +8,57 @@ import { z } from "zod";
 
 import { db } from "../config/database.ts";
 import { Permissions } from "../config/permissions.ts";
-import { jobs, JobStatuses, JobTypes, employerProfiles, applications, jobViews, savedJobs, jobseekerProfiles, userProfiles } from "../db/index.ts";
+import { jobs, JobStatuses, JobTypes, employerProfiles, applications, jobViews, savedJobs, dismissedJobs, jobseekerProfiles, userProfiles } from "../db/index.ts";
 import authMiddleware from "../middleware/authMiddleware.ts";
 import { requirePermission, attachPermissions } from "../middleware/rbacMiddleware.ts";
 import { requireVerified } from "../middleware/verificationMiddleware.ts";
 import { landingPublicRateLimiter } from "../middleware/securityMiddleware.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
 import { auditCreate } from "../services/auditService.ts";
-import { eq, and, isNull, desc, sql, or, like, gte, lte, inArray } from "drizzle-orm";
+import {
+	formatSearchHighlight,
+	getJobFacets,
+	JobFacets,
+	jobFilterConditions,
+	jobListSortKeys,
+	jobSearchSelectFields,
+} from "../services/jobSearchService.ts";
+import {
+	AREA_RADIUS_KM,
+	DEFAULT_RADIUS_KM,
+	distanceKmSql,
+	GeoPoint,
+	MAX_RADIUS_KM,
+	resolvePincode,
+	withinRadiusSql,
+} from "../services/geoService.ts";
+import {
+	loadSeekerProfile,
+	rankJobs,
+	RECOMMENDATION_POOL_SIZE,
+	recommendationCandidateCondition,
+	recommendationSelectFields,
+	similarityScoreSql,
+	similarJobCondition,
+	SimilarJobSource,
+	summarizeSeekerProfile,
+} from "../services/jobRecommendationService.ts";
+import { publicScreeningQuestions } from "../services/screeningService.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	Pagination,
+	parsePageRequest,
+} from "../utils/pagination.ts";
+import { eq, and, isNull, desc, sql, or, like, inArray } from "drizzle-orm";
 
 const router = Router();
 
+const DEFAULT_SIMILAR_JOBS = 6;
+
 // ============================================
 // Validation Schemas
 // ============================================
@@ -70,6 +110,75 @@ const jobSelectFields = (userId: bigint) => ({
 	isSaved: sql<boolean>`CASE WHEN ${savedJobs.id} IS NOT NULL THEN true ELSE false END`,
 });
 
+// ============================================
+// Helper: Look up a job by UUID, numeric ID or slug
+// ============================================
+const jobLookupCondition = (paramId: string) => {
+	const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+	const idRegex = /^\d+$/;
+
+	if (uuidRegex.test(paramId)) {
+		return and(eq(jobs.uuid, paramId), isNull(jobs.deletedAt));
+	} else if (idRegex.test(paramId)) {
+		return and(eq(jobs.id, BigInt(paramId)), isNull(jobs.deletedAt));
+	}
+	return and(eq(jobs.slug, paramId), isNull(jobs.deletedAt));
+};
+
+// Jobs the user marked "not interested" (POST /jobs/:id/dismiss)
+const notDismissed = (userId: bigint) =>
+	sql`not exists (select 1 from ${dismissedJobs} where ${dismissedJobs.userId} = ${userId} and ${dismissedJobs.jobId} = ${jobs.id})`;
+
+const similarJobFields = {
+	id: jobs.id,
+	employerId: jobs.employerId,
+	jobType: jobs.jobType,
+	category: jobs.category,
+	skillsRequired: jobs.skillsRequired,
+	locationType: jobs.locationType,
+	city: jobs.city,
+	latitude: jobs.latitude,
+	longitude: jobs.longitude,
+};
+
+/**
+ * Most similar active jobs from other employers, leaving out jobs the user
+ * applied to or dismissed
+ */
+async function findSimilarJobs(source: SimilarJobSource, userId: bigint, limit: number) {
+	const similarity = similarityScoreSql(source);
+
+	const result = await db
+		.select(jobSelectFields(userId))
+		.from(jobs)
+		.leftJoin(
+			applications,
+			and(
+				eq(applications.jobId, jobs.id),
+				eq(applications.jobseekerId, userId),
+				isNull(applications.deletedAt)
+			)
+		)
+		.leftJoin(
+			savedJobs,
+			and(
+				eq(savedJobs.jobId, jobs.id),
+				eq(savedJobs.userId, userId)
+			)
+		)
+		.where(
+			and(
+				similarJobCondition(source),
+				isNull(applications.id),
+				notDismissed(userId)
+			)
+		)
+		.orderBy(desc(similarity), desc(jobs.publishedAt))
+		.limit(limit);
+
+	return buildResponse(result, { total: result.length, limit, offset: 0, hasMore: false }, "similar", null).jobs;
+}
+
 // ============================================
 // Public routes (no auth)
 // ============================================
@@ -207,12 +316,30 @@ router.get(
  *  Tier 1 — "preferred_match":  user's preferred city + preferred jobType(s)
  *  Tier 2 — "area_match":       user's city/state (no jobType filter) — if Tier 1 empty
  *  Tier 3 — "all_jobs":         no location filter — if Tier 2 empty
+ * When the profile pincode is geocoded, "city" means within DEFAULT_RADIUS_KM and
+ * "city/state" within AREA_RADIUS_KM (closest first); jobs without coordinates
+ * still match on city/state name.
  *
  * When explicit filters are passed via query params, smart auto-filter is skipped
  * and normal filter logic applies (so the user has full control).
  *
+ * `search` is a full-text, prefix-matching search over title, skills, category,
+ * role summary and description. Results are ordered by relevance (featured/urgent
+ * jobs get a boost) and carry `searchRank` plus HTML-safe `highlights` (<mark>).
+ *
+ * `facets` (counts per city, jobType, category, locationType, minSalary and
+ * maxExperience, each given the other active filters) are returned unless
+ * facets=false, e.g. when loading further pages.
+ *
+ * `lat`/`lng` (or a `pincode`) with `radiusKm` (default 25, max 200) restrict
+ * results to that radius, ordered by distance, and add `distanceKm`.
+ *
+ * Pass `pagination.nextCursor` back as `cursor` for the next page (offset
+ * still works, but shifts when jobs are published mid-scroll).
+ *
  * Query params: search, city, jobType, category, minSalary, maxSalary,
- *               minExperience, maxExperience, locationType, limit, offset
+ *               minExperience, maxExperience, locationType, lat, lng, pincode,
+ *               radiusKm, facets, limit, cursor, offset
  */
 router.get(
 	"/",
@@ -231,19 +358,40 @@ router.get(
 			minExperience,
 			maxExperience,
 			locationType,
-			limit: limitParam,
-			offset: offsetParam,
+			lat,
+			lng,
+			pincode,
+			radiusKm: radiusParam,
+			facets,
 		} = req.query;
 
-		const limit = Math.min(parseInt(limitParam as string) || 20, 100);
-		const offset = parseInt(offsetParam as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 20, maxLimit: 100 });
+		const includeFacets = facets !== "false";
+
+		// ── Radius search origin (coordinates take precedence over pincode) ──
+		let origin: GeoPoint | null = null;
+		if (lat !== undefined || lng !== undefined) {
+			const latitude = parseFloat(lat as string);
+			const longitude = parseFloat(lng as string);
+			if (!(latitude >= -90 && latitude <= 90) || !(longitude >= -180 && longitude <= 180)) {
+				return res.status(StatusCodes.BAD_REQUEST).json({ error: "Invalid lat/lng" });
+			}
+			origin = { latitude, longitude };
+		} else if (pincode && typeof pincode === "string") {
+			origin = await resolvePincode(pincode);
+			if (!origin) {
+				return res.status(StatusCodes.BAD_REQUEST).json({ error: "Unknown pincode" });
+			}
+		}
+		const radiusKm = Math.min(Math.max(parseFloat(radiusParam as string) || DEFAULT_RADIUS_KM, 1), MAX_RADIUS_KM);
 
 		// Determine if the user passed explicit location/type filters
-		const hasExplicitFilters = !!(city || jobType || search || category || locationType);
+		const hasExplicitFilters = !!(city || jobType || search || category || locationType || origin);
 
 		// ── Fetch user profile for smart matching (only when no explicit filters) ──
 		let userCity: string | null = null;
 		let userState: string | null = null;
+		let userPoint: GeoPoint | null = null;
 		let userJobTypes: string[] = [];
 		let userPreferredLocations: string[] = [];
 		let userSkills: string[] = [];
@@ -255,6 +403,8 @@ router.get(
 					currentCity: userProfiles.currentCity,
 					district: userProfiles.district,
 					state: userProfiles.state,
+					latitude: userProfiles.latitude,
+					longitude: userProfiles.longitude,
 				})
 				.from(userProfiles)
 				.where(and(eq(userProfiles.userId, userId), isNull(userProfiles.deletedAt)))
@@ -263,12 +413,16 @@ router.get(
 			if (userProfile) {
 				userCity = userProfile.currentCity || null;
 				userState = userProfile.state || null;
+				if (userProfile.latitude !== null && userProfile.longitude !== null) {
+					userPoint = { latitude: userProfile.latitude, longitude: userProfile.longitude };
+				}
 			} else {
 				// Fall back to legacy jobseeker profile
 				const [legacyProfile] = await db
 					.select({
 						city: jobseekerProfiles.city,
 						state: jobseekerProfiles.state,
+						pincode: jobseekerProfiles.pincode,
 						jobTypes: jobseekerProfiles.jobTypes,
 						preferredLocations: jobseekerProfiles.preferredLocations,
 						skills: jobseekerProfiles.skills,
@@ -280,6 +434,7 @@ router.get(
 				if (legacyProfile) {
 					userCity = legacyProfile.city || null;
 					userState = legacyProfile.state || null;
+					userPoint = await resolvePincode(legacyProfile.pincode);
 					userJobTypes = legacyProfile.jobTypes || [];
 					userPreferredLocations = legacyProfile.preferredLocations || [];
 					userSkills = legacyProfile.skills || [];
@@ -294,55 +449,53 @@ router.get(
 		];
 
 		// ── Apply explicit search/filter from query params ──
-		const filterConditions: any[] = [...baseConditions];
-
-		if (search && typeof search === "string") {
-			filterConditions.push(
-				or(
-					like(sql`lower(${jobs.title})`, `%${search.toLowerCase()}%`),
-					like(sql`lower(${jobs.description})`, `%${search.toLowerCase()}%`),
-					like(sql`lower(${jobs.category})`, `%${search.toLowerCase()}%`)
-				)
-			);
-		}
-		if (city && typeof city === "string") {
-			filterConditions.push(like(sql`lower(${jobs.city})`, `%${city.toLowerCase()}%`));
-		}
-		if (jobType && typeof jobType === "string") {
-			filterConditions.push(eq(jobs.jobType, jobType as any));
-		}
-		if (category && typeof category === "string") {
-			filterConditions.push(eq(jobs.category, category));
-		}
-		if (locationType && typeof locationType === "string") {
-			filterConditions.push(eq(jobs.locationType, locationType as any));
-		}
-		if (minSalary) {
-			const min = parseFloat(minSalary as string);
-			filterConditions.push(gte(jobs.salaryMin, min.toString()));
-		}
-		if (maxSalary) {
-			const max = parseFloat(maxSalary as string);
-			filterConditions.push(lte(jobs.salaryMax, max.toString()));
-		}
-		if (minExperience !== undefined) {
-			const min = parseInt(minExperience as string, 10);
-			filterConditions.push(gte(jobs.minExperienceYears, min));
-		}
-		if (maxExperience !== undefined) {
-			const max = parseInt(maxExperience as string, 10);
-			filterConditions.push(
-				or(
-					lte(jobs.maxExperienceYears, max),
-					isNull(jobs.maxExperienceYears)
-				)
-			);
-		}
+		const {
+			searchQuery,
+			conditions: filterOnlyConditions,
+			facetConditions,
+		} = jobFilterConditions(
+			{
+				search: typeof search === "string" ? search : undefined,
+				city: typeof city === "string" ? city : undefined,
+				jobType: typeof jobType === "string" ? jobType : undefined,
+				category: typeof category === "string" ? category : undefined,
+				locationType: typeof locationType === "string" ? locationType : undefined,
+				minSalary: minSalary ? parseFloat(minSalary as string) : undefined,
+				maxSalary: maxSalary ? parseFloat(maxSalary as string) : undefined,
+				minExperience: minExperience !== undefined ? parseInt(minExperience as string, 10) : undefined,
+				maxExperience: maxExperience !== undefined ? parseInt(maxExperience as string, 10) : undefined,
+			},
+			origin ? { origin, radiusKm } : null
+		);
+		const otherConditions: any[] = [...baseConditions, ...filterOnlyConditions];
+
+		const filterConditions: any[] = [...otherConditions, ...Object.values(facetConditions)];
+
+		// Facets describe what the filters can narrow down to, so smart matching
+		// (which applies no explicit filters) counts over all active jobs
+		const loadFacets = () =>
+			includeFacets
+				? hasExplicitFilters
+					? getJobFacets(otherConditions, facetConditions)
+					: getJobFacets(baseConditions, {})
+				: Promise.resolve(undefined);
 
 		// ── Helper to join and query ──
-		const queryWithConditions = async (conditions: any[]) => {
-			const result = await db
-				.select(jobSelectFields(userId))
+		// `from` orders by distance (closest first) and adds distanceKm. `total`
+		// ignores the cursor, so a tier keeps serving later pages.
+		const queryWithConditions = async (conditions: any[], from: GeoPoint | null = null) => {
+			const distance = from ? distanceKmSql(jobs.latitude, jobs.longitude, from) : null;
+			const order = keyset(
+				["jobs", distance && "near", searchQuery && "search"].filter(Boolean).join(":"),
+				jobListSortKeys(searchQuery, distance)
+			);
+			const rows = await db
+				.select({
+					...jobSelectFields(userId),
+					...(searchQuery ? jobSearchSelectFields(searchQuery) : {}),
+					...(distance ? { distanceKm: distance } : {}),
+					pageCursor: keysetCursorField(order),
+				})
 				.from(jobs)
 				.leftJoin(
 					applications,
@@ -359,22 +512,18 @@ router.get(
 						eq(savedJobs.userId, userId)
 					)
 				)
-				.where(and(...conditions))
-				.orderBy(
-					desc(jobs.isFeatured),
-					desc(jobs.isUrgentHighlight),
-					desc(jobs.promotedAt),
-					desc(jobs.publishedAt)
-				)
-				.limit(limit)
-				.offset(offset);
+				.where(and(...conditions, keysetCondition(order, page)))
+				.orderBy(...keysetOrderBy(order))
+				.limit(page.limit + 1)
+				.offset(page.offset);
 
 			const [countResult] = await db
 				.select({ count: sql<number>`count(*)::int` })
 				.from(jobs)
 				.where(and(...conditions));
 
-			return { result, total: countResult?.count || 0 };
+			const total = countResult?.count || 0;
+			return { ...paginate(rows, page, total), total };
 		};
 
 		// ── Smart matching (only when no explicit filters) ──
@@ -388,13 +537,17 @@ router.get(
 
 		if (!hasExplicitFilters) {
 			// Tier 1: Preferred city + preferred job types
-			if (userCity || userJobTypes.length > 0 || userPreferredLocations.length > 0) {
+			if (userPoint || userCity || userJobTypes.length > 0 || userPreferredLocations.length > 0) {
 				const tier1Conditions = [...baseConditions];
 
-				// Location: preferred city OR preferred locations
+				// Location: nearby (or, without coordinates, preferred city) OR preferred locations
 				const locationOptions: any[] = [];
+				if (userPoint) {
+					locationOptions.push(withinRadiusSql(jobs.latitude, jobs.longitude, userPoint, DEFAULT_RADIUS_KM));
+				}
 				if (userCity) {
-					locationOptions.push(like(sql`lower(${jobs.city})`, `%${userCity.toLowerCase()}%`));
+					const cityMatch = like(sql`lower(${jobs.city})`, `%${userCity.toLowerCase()}%`);
+					locationOptions.push(userPoint ? and(isNull(jobs.latitude), cityMatch) : cityMatch);
 				}
 				for (const loc of userPreferredLocations) {
 					locationOptions.push(like(sql`lower(${jobs.city})`, `%${loc.toLowerCase()}%`));
@@ -409,21 +562,21 @@ router.get(
 					tier1Conditions.push(inArray(jobs.jobType, userJobTypes as any[]));
 				}
 
-				const { result, total } = await queryWithConditions(tier1Conditions);
+				const { items, pagination, total } = await queryWithConditions(tier1Conditions, userPoint);
 
-				if (result.length > 0) {
+				if (total > 0) {
 					matchMode = "preferred_match";
 					preferenceProfile = {
 						city: userCity,
 						state: userState,
 						jobTypes: userJobTypes,
 					};
-					return res.status(StatusCodes.OK).json(buildResponse(result, { total, limit, offset }, matchMode, preferenceProfile));
+					return res.status(StatusCodes.OK).json(buildResponse(items, pagination, matchMode, preferenceProfile, await loadFacets()));
 				}
 			}
 
-			// Tier 2: Same city/state, no job type restriction
-			if (userCity || userState) {
+			// Tier 2: Same area (or city/state), no job type restriction
+			if (userPoint || userCity || userState) {
 				const tier2Conditions = [...baseConditions];
 				const locationOrs: any[] = [];
 				if (userCity) {
@@ -432,20 +585,25 @@ router.get(
 				if (userState) {
 					locationOrs.push(like(sql`lower(${jobs.state})`, `%${userState.toLowerCase()}%`));
 				}
-				if (locationOrs.length > 0) {
+				if (userPoint) {
+					const nameMatch = locationOrs.length > 0 ? [and(isNull(jobs.latitude), or(...locationOrs))] : [];
+					tier2Conditions.push(
+						or(withinRadiusSql(jobs.latitude, jobs.longitude, userPoint, AREA_RADIUS_KM), ...nameMatch)!
+					);
+				} else if (locationOrs.length > 0) {
 					tier2Conditions.push(or(...locationOrs)!);
 				}
 
-				const { result, total } = await queryWithConditions(tier2Conditions);
+				const { items, pagination, total } = await queryWithConditions(tier2Conditions, userPoint);
 
-				if (result.length > 0) {
+				if (total > 0) {
 					matchMode = "area_match";
 					preferenceProfile = {
 						city: userCity,
 						state: userState,
 						jobTypes: [],
 					};
-					return res.status(StatusCodes.OK).json(buildResponse(result, { total, limit, offset }, matchMode, preferenceProfile));
+					return res.status(StatusCodes.OK).json(buildResponse(items, pagination, matchMode, preferenceProfile, await loadFacets()));
 				}
 			}
 
@@ -455,24 +613,31 @@ router.get(
 		}
 
 		// ── Final query (filtered or Tier 3 fallback) ──
-		const { result, total } = await queryWithConditions(finalConditions);
+		const { items, pagination } = await queryWithConditions(finalConditions, origin);
 
-		return res.status(StatusCodes.OK).json(buildResponse(result, { total, limit, offset }, matchMode, preferenceProfile));
+		return res.status(StatusCodes.OK).json(buildResponse(items, pagination, matchMode, preferenceProfile, await loadFacets()));
 	})
 );
 
 // ── Response builder ──
 function buildResponse(
 	result: any[],
-	pagination: { total: number; limit: number; offset: number },
+	pagination: Omit<Pagination, "nextCursor"> & { nextCursor?: string | null },
 	matchMode: string,
-	preferenceProfile: any
+	preferenceProfile: any,
+	facets?: JobFacets
 ) {
 	return {
-		jobs: result.map((j) => ({
+		jobs: result.map(({ titleHighlight, snippetHighlight, ...j }) => ({
 			...j,
 			hasApplied: j.hasApplied,
 			isSaved: j.isSaved,
+			...(titleHighlight !== undefined && {
+				highlights: {
+					title: formatSearchHighlight(titleHighlight),
+					snippet: formatSearchHighlight(snippetHighlight),
+				},
+			}),
 			badges: [
 				j.isFeatured && "Featured",
 				j.isUrgentHighlight && "Urgent",
@@ -481,14 +646,10 @@ function buildResponse(
 					: null,
 			].filter(Boolean),
 		})),
-		pagination: {
-			total: pagination.total,
-			limit: pagination.limit,
-			offset: pagination.offset,
-			hasMore: pagination.offset + result.length < pagination.total,
-		},
+		pagination,
 		matchMode,
 		preferenceProfile,
+		...(facets && { facets }),
 	};
 }
 
@@ -643,11 +804,85 @@ router.get(
 	})
 );
 
+/**
+ * GET /jobs/recommended
+ * Active jobs ranked by how well they match the job seeker: skills (with
+ * proficiency and years), experience and past job titles, education, expected
+ * salary and location. Each job carries a 0-100 `matchScore` and `reasons`
+ * ("Matches 4 of 5 required skills"); jobs already applied to or dismissed
+ * are left out.
+ * `basedOn` lists the profile data used and the sections still missing.
+ *
+ * Query params: limit (default 20, max 50), offset
+ */
+router.get(
+	"/recommended",
+	authMiddleware(),
+	requireVerified(),
+	requirePermission(Permissions.JOBS_READ),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+		const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+		const offset = parseInt(req.query.offset as string) || 0;
+
+		const profile = await loadSeekerProfile(userId);
+
+		const candidates = await db
+			.select({
+				...jobSelectFields(userId),
+				...recommendationSelectFields,
+			})
+			.from(jobs)
+			.leftJoin(
+				applications,
+				and(
+					eq(applications.jobId, jobs.id),
+					eq(applications.jobseekerId, userId),
+					isNull(applications.deletedAt)
+				)
+			)
+			.leftJoin(
+				savedJobs,
+				and(
+					eq(savedJobs.jobId, jobs.id),
+					eq(savedJobs.userId, userId)
+				)
+			)
+			.where(
+				and(
+					eq(jobs.status, JobStatuses.ACTIVE),
+					isNull(jobs.deletedAt),
+					isNull(applications.id),
+					notDismissed(userId),
+					recommendationCandidateCondition(profile)
+				)
+			)
+			.orderBy(desc(jobs.publishedAt))
+			.limit(RECOMMENDATION_POOL_SIZE);
+
+		const ranked = rankJobs(profile, candidates);
+		const page = ranked
+			.slice(offset, offset + limit)
+			.map(({ educationRequired, latitude, longitude, ...job }) => job);
+
+		return res.status(StatusCodes.OK).json({
+			...buildResponse(
+				page,
+				{ total: ranked.length, limit, offset, hasMore: offset + page.length < ranked.length },
+				"recommended",
+				null
+			),
+			basedOn: summarizeSeekerProfile(profile),
+		});
+	})
+);
+
 /**
  * GET /jobs/:id
  * Get single job details with company info (requires verified user)
  * Tracks job view (increments viewsCount)
  * Supports both ID (numeric) and UUID lookup
+ * Closed or expired listings return 410 with `similarJobs` to show instead
  */
 router.get(
 	"/:id",
@@ -655,21 +890,7 @@ router.get(
 	requireVerified(),
 	requirePermission(Permissions.JOBS_READ),
 	expressAsyncHandler(async (req, res) => {
-		const paramId = req.params.id;
 		const userId = req.userId!;
-		
-		// Check if param is UUID, numeric ID, or slug
-		const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-		const idRegex = /^\d+$/;
-
-		let whereCondition;
-		if (uuidRegex.test(paramId)) {
-			whereCondition = and(eq(jobs.uuid, paramId), isNull(jobs.deletedAt));
-		} else if (idRegex.test(paramId)) {
-			whereCondition = and(eq(jobs.id, BigInt(paramId)), isNull(jobs.deletedAt));
-		} else {
-			whereCondition = and(eq(jobs.slug, paramId), isNull(jobs.deletedAt));
-		}
 
 		const [job] = await db
 			.select({
@@ -720,17 +941,36 @@ router.get(
 				createdAt: jobs.createdAt,
 				employerId: jobs.employerId,
 				isResumeRequired: jobs.isResumeRequired,
+				screeningQuestions: jobs.screeningQuestions,
 				howToApply: jobs.howToApply,
 				externalApplyUrl: jobs.externalApplyUrl,
+				latitude: jobs.latitude,
+				longitude: jobs.longitude,
 			})
 			.from(jobs)
-			.where(whereCondition)
+			.where(jobLookupCondition(req.params.id))
 			.limit(1);
 
 		if (!job) {
 			return res.status(StatusCodes.NOT_FOUND).json({ error: "Job not found" });
 		}
 
+		// Closed listings point the seeker at similar open jobs instead
+		if (job.status === JobStatuses.EXPIRED || job.status === JobStatuses.CLOSED) {
+			return res.status(StatusCodes.GONE).json({
+				error: "This job has closed",
+				code: "JOB_CLOSED",
+				job: {
+					uuid: job.uuid,
+					title: job.title,
+					slug: job.slug,
+					status: job.status,
+					city: job.city,
+				},
+				similarJobs: await findSimilarJobs(job, userId, DEFAULT_SIMILAR_JOBS),
+			});
+		}
+
 		if (job.status !== JobStatuses.ACTIVE) {
 			return res.status(StatusCodes.NOT_FOUND).json({ error: "Job not found" });
 		}
@@ -830,8 +1070,11 @@ router.get(
 			job.promotionType && "Promoted",
 		].filter(Boolean);
 
+		const { latitude, longitude, screeningQuestions, ...jobDetails } = job;
+
 		return res.status(StatusCodes.OK).json({
-			...job,
+			...jobDetails,
+			screeningQuestions: publicScreeningQuestions(screeningQuestions),
 			badges,
 			company,
 			hasApplied: !!hasApplied,
@@ -840,6 +1083,102 @@ router.get(
 	})
 );
 
+/**
+ * GET /jobs/:id/similar
+ * Active jobs from other employers like this one: overlapping required
+ * skills, same category and job type, nearby (same city or area) or remote.
+ * Leaves out jobs the user applied to or dismissed. Works for closed and
+ * expired listings too.
+ *
+ * Query params: limit (default 6, max 20)
+ */
+router.get(
+	"/:id/similar",
+	authMiddleware(),
+	requireVerified(),
+	requirePermission(Permissions.JOBS_READ),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+		const limit = Math.min(parseInt(req.query.limit as string) || DEFAULT_SIMILAR_JOBS, 20);
+
+		const [job] = await db
+			.select(similarJobFields)
+			.from(jobs)
+			.where(jobLookupCondition(req.params.id))
+			.limit(1);
+
+		if (!job) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Job not found" });
+		}
+
+		return res.status(StatusCodes.OK).json({
+			jobs: await findSimilarJobs(job, userId, limit),
+		});
+	})
+);
+
+/**
+ * POST /jobs/:id/dismiss
+ * Mark a job "not interested"; it no longer appears in recommendations or
+ * similar jobs
+ */
+router.post(
+	"/:id/dismiss",
+	authMiddleware(),
+	requireVerified(),
+	requirePermission(Permissions.JOBS_READ),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+
+		const [job] = await db
+			.select({ id: jobs.id })
+			.from(jobs)
+			.where(jobLookupCondition(req.params.id))
+			.limit(1);
+
+		if (!job) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Job not found" });
+		}
+
+		await db
+			.insert(dismissedJobs)
+			.values({ userId, jobId: job.id })
+			.onConflictDoNothing(); // Idempotent
+
+		return res.status(StatusCodes.CREATED).json({ message: "Job dismissed" });
+	})
+);
+
+/**
+ * DELETE /jobs/:id/dismiss
+ * Undo a dismissal
+ */
+router.delete(
+	"/:id/dismiss",
+	authMiddleware(),
+	requireVerified(),
+	requirePermission(Permissions.JOBS_READ),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+
+		const [job] = await db
+			.select({ id: jobs.id })
+			.from(jobs)
+			.where(jobLookupCondition(req.params.id))
+			.limit(1);
+
+		if (!job) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Job not found" });
+		}
+
+		await db
+			.delete(dismissedJobs)
+			.where(and(eq(dismissedJobs.userId, userId), eq(dismissedJobs.jobId, job.id)));
+
+		return res.status(StatusCodes.NO_CONTENT).send();
+	})
+);
+
 /**
  * POST /jobs
  * Create a new job (employer only, requires verification)
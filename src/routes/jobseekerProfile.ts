@@ -15,6 +15,7 @@ import { requirePermission } from "../middleware/rbacMiddleware.ts";
 import { Permissions } from "../config/permissions.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
 import { auditCreate, auditUpdate } from "../services/auditService.ts";
+import { resolveLocation, withCanonicalNames } from "../services/locationService.ts";
 import {
 	generateResumeUploadParams,
 	generateProfilePhotoUploadParams,
@@ -34,6 +35,7 @@ const createProfileSchema = z.object({
 	address: z.string().optional(),
 	city: z.string().optional(),
 	state: z.string().optional(),
+	locationId: z.string().regex(/^\d+$/, "Invalid locationId").nullable().optional(), // From /locations/suggest
 	country: z.string().default("India"),
 	pincode: z.string().optional(),
 	headline: z.string().max(200).optional(),
@@ -114,6 +116,16 @@ router.post(
 			// Calculate profile completion
 			const completion = calculateProfileCompletion(data);
 
+			const location = await resolveLocation({
+				locationId: data.locationId,
+				city: data.city,
+				state: data.state,
+			});
+			const place = withCanonicalNames(
+				{ city: data.city || null, state: data.state || null },
+				location.names
+			);
+
 			// Create profile
 			const [profile] = await db
 				.insert(jobseekerProfiles)
@@ -126,8 +138,9 @@ router.post(
 						: null,
 					gender: data.gender as any,
 					address: data.address || null,
-					city: data.city || null,
-					state: data.state || null,
+					city: place.city,
+					state: place.state,
+					locationId: location.locationId,
 					country: data.country,
 					pincode: data.pincode || null,
 					headline: data.headline || null,
@@ -211,6 +224,16 @@ router.patch(
 			if (data.address !== undefined) updateData.address = data.address || null;
 			if (data.city !== undefined) updateData.city = data.city || null;
 			if (data.state !== undefined) updateData.state = data.state || null;
+			if ([data.locationId, data.city, data.state].some((v) => v !== undefined)) {
+				const place = {
+					city: data.city !== undefined ? data.city || null : existing.city,
+					state: data.state !== undefined ? data.state || null : existing.state,
+				};
+				const location = await resolveLocation({ ...place, locationId: data.locationId });
+				Object.assign(updateData, withCanonicalNames(place, location.names), {
+					locationId: location.locationId,
+				});
+			}
 			if (data.country) updateData.country = data.country;
 			if (data.pincode !== undefined) updateData.pincode = data.pincode || null;
 			if (data.headline !== undefined) updateData.headline = data.headline || null;
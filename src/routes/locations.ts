@@ -0,0 +1,58 @@
+/**
+ * Location Routes
+ * Autocomplete over the canonical location taxonomy (state → district → city → area)
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+
+import authMiddleware from "../middleware/authMiddleware.ts";
+import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import { LocationLevels } from "../db/index.ts";
+import { suggestLocations } from "../services/locationService.ts";
+
+const router = Router();
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const suggestQuerySchema = z.object({
+	q: z.string().trim().min(2, "Type at least 2 characters").max(100),
+	level: z.nativeEnum(LocationLevels).optional(),
+	parentId: z.string().regex(/^\d+$/, "Invalid parentId").optional(),
+	limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /locations/suggest?q=luck
+ * Canonical locations matching a name or alias prefix ("Lakhnau" finds Lucknow).
+ * Optional: level (state|district|city|area), parentId (e.g. areas within a city), limit.
+ * The returned id is what entities store as locationId.
+ */
+router.get(
+	"/suggest",
+	authMiddleware(),
+	expressAsyncHandler(
+		async (query: z.infer<typeof suggestQuerySchema>, req, res) => {
+			const suggestions = await suggestLocations(query.q, {
+				level: query.level,
+				parentId: query.parentId ? BigInt(query.parentId) : undefined,
+				limit: query.limit ?? 10,
+			});
+
+			return res.status(StatusCodes.OK).json({ suggestions });
+		},
+		{
+			validationSchema: suggestQuerySchema,
+			getValue: (req) => req.query,
+		}
+	)
+);
+
+export default router;
@@ -16,6 +16,7 @@ import { getUserPermissions, getUserRoles } from "../services/permissionService.
 import { getUserVerificationStatus } from "../middleware/verificationMiddleware.ts";
 import { getPhoneValidationSchema } from "../config/zodSchemas.ts";
 import { HTTPError } from "../config/error.ts";
+import { SupportedLocale, SupportedLocales } from "../utils/i18n.ts";
 
 const meRouter = Router();
 
@@ -39,6 +40,7 @@ meRouter.get(
 				whatsappNumber: users.whatsappNumber,
 				email: users.email,
 				userType: users.userType,
+				locale: users.locale,
 				verificationStatus: users.verificationStatus,
 				emailVerified: users.emailVerified,
 				phoneVerified: users.phoneVerified,
@@ -115,6 +117,7 @@ meRouter.get(
 				whatsappNumber: user.whatsappNumber,
 				email: user.email,
 				userType: user.userType,
+				locale: user.locale,
 				verificationStatus: user.verificationStatus,
 				emailVerified: user.emailVerified,
 				phoneVerified: user.phoneVerified,
@@ -135,19 +138,23 @@ meRouter.get(
 
 /**
  * PATCH /auth/me
- * Update current user profile (name, phone)
+ * Update current user profile (name, phone, preferred language)
  */
 meRouter.patch(
 	"/",
 	authMiddleware(),
 	expressAsyncHandler(
-		async (validatedData: { name?: string; phone?: string; whatsappNumber?: string }, req, res) => {
+		async (
+			validatedData: { name?: string; phone?: string; whatsappNumber?: string; locale?: SupportedLocale },
+			req,
+			res
+		) => {
 			const userId = req.userId!;
-			const { name, phone, whatsappNumber } = validatedData;
+			const { name, phone, whatsappNumber, locale } = validatedData;
 
-			if (!name && !phone && !whatsappNumber) {
+			if (!name && !phone && !whatsappNumber && !locale) {
 				return res.status(StatusCodes.BAD_REQUEST).json({
-					error: "At least one field (name, phone, whatsappNumber) is required",
+					error: "At least one field (name, phone, whatsappNumber, locale) is required",
 				});
 			}
 
@@ -158,6 +165,7 @@ meRouter.patch(
 			if (name) updateData.name = name;
 			if (phone) updateData.phone = phone;
 			if (whatsappNumber) updateData.whatsappNumber = whatsappNumber;
+			if (locale) updateData.locale = locale;
 
 			try {
 				// Update user
@@ -187,6 +195,7 @@ meRouter.patch(
 				name: z.string().min(2).max(100).optional(),
 				phone: getPhoneValidationSchema("Phone").optional(),
 				whatsappNumber: getPhoneValidationSchema("WhatsApp").optional(),
+				locale: z.nativeEnum(SupportedLocales).optional(),
 			}),
 			getValue: (req) => req.body,
 		}
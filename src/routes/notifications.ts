@@ -0,0 +1,183 @@
+/**
+ * Notifications Routes
+ * In-app notification inbox (bell menu) with read/unread state
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { and, eq, isNull, sql } from "drizzle-orm";
+
+import { db } from "../config/database.ts";
+import { notifications } from "../db/index.ts";
+import authMiddleware from "../middleware/authMiddleware.ts";
+import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../utils/pagination.ts";
+
+const router = Router();
+
+const NOTIFICATION_ORDER = keyset("notifications", [
+	sortKey(notifications.createdAt, "desc"),
+	sortKey(notifications.id, "desc"),
+]);
+
+router.use(authMiddleware());
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /notifications
+ * List notifications for the current user (newest first)
+ * Query params: unreadOnly, limit, cursor (pagination.nextCursor), offset
+ */
+router.get(
+	"/",
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+		const page = parsePageRequest(req.query, { defaultLimit: 20, maxLimit: 100 });
+		const unreadOnly = req.query.unreadOnly === "true";
+
+		const conditions = [eq(notifications.userId, userId)];
+		if (unreadOnly) {
+			conditions.push(isNull(notifications.readAt));
+		}
+
+		const rows = await db
+			.select({
+				id: notifications.id,
+				uuid: notifications.uuid,
+				type: notifications.type,
+				title: notifications.title,
+				message: notifications.message,
+				link: notifications.link,
+				metadata: notifications.metadata,
+				readAt: notifications.readAt,
+				createdAt: notifications.createdAt,
+				pageCursor: keysetCursorField(NOTIFICATION_ORDER),
+			})
+			.from(notifications)
+			.where(and(...conditions, keysetCondition(NOTIFICATION_ORDER, page)))
+			.orderBy(...keysetOrderBy(NOTIFICATION_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(notifications)
+			.where(and(...conditions));
+
+		const { items, pagination } = paginate(rows, page, countResult?.count || 0);
+
+		return res.status(StatusCodes.OK).json({
+			notifications: items.map((n) => ({ ...n, isRead: n.readAt !== null })),
+			pagination,
+		});
+	})
+);
+
+/**
+ * GET /notifications/unread-count
+ * Badge count for the bell icon
+ */
+router.get(
+	"/unread-count",
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(notifications)
+			.where(
+				and(
+					eq(notifications.userId, userId),
+					isNull(notifications.readAt)
+				)
+			);
+
+		return res.status(StatusCodes.OK).json({
+			unreadCount: countResult?.count || 0,
+		});
+	})
+);
+
+/**
+ * POST /notifications/read-all
+ * Mark every unread notification as read
+ */
+router.post(
+	"/read-all",
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+
+		const updated = await db
+			.update(notifications)
+			.set({ readAt: new Date() })
+			.where(
+				and(
+					eq(notifications.userId, userId),
+					isNull(notifications.readAt)
+				)
+			)
+			.returning({ id: notifications.id });
+
+		return res.status(StatusCodes.OK).json({
+			message: "All notifications marked as read",
+			updatedCount: updated.length,
+		});
+	})
+);
+
+/**
+ * PATCH /notifications/:id/read
+ * Mark a single notification as read (idempotent)
+ */
+router.patch(
+	"/:id/read",
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+
+		if (!/^\d+$/.test(req.params.id)) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Notification not found" });
+		}
+		const notificationId = BigInt(req.params.id);
+
+		const [notification] = await db
+			.select({ id: notifications.id, readAt: notifications.readAt })
+			.from(notifications)
+			.where(
+				and(
+					eq(notifications.id, notificationId),
+					eq(notifications.userId, userId)
+				)
+			)
+			.limit(1);
+
+		if (!notification) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Notification not found" });
+		}
+
+		const readAt = notification.readAt ?? new Date();
+		if (!notification.readAt) {
+			await db
+				.update(notifications)
+				.set({ readAt })
+				.where(eq(notifications.id, notificationId));
+		}
+
+		return res.status(StatusCodes.OK).json({
+			message: "Notification marked as read",
+			readAt,
+		});
+	})
+);
+
+export default router;
@@ -19,6 +19,8 @@ import {
 	TokenUserData,
 } from "../utils/jwt.ts";
 import { createOtpToken, verifyOtpToken } from "../services/otpService.ts";
+import { notifyOtpPhone, notifyOtpVerification } from "../services/notificationService.ts";
+import { PhoneChannels } from "../services/channels/index.ts";
 import { getUserPermissions } from "../services/permissionService.ts";
 import { assignRoleToUser } from "../services/permissionService.ts";
 import { RoleNames } from "../config/permissions.ts";
@@ -41,6 +43,8 @@ const SendOtpSchema = z.object({
 	purpose: z
 		.enum(["login", "register", "verify_phone", "verify_email"])
 		.default("login"),
+	// Phone OTPs only
+	channel: z.nativeEnum(PhoneChannels).default(PhoneChannels.SMS),
 }).refine((data) => data.phone || data.email, {
 	message: "Either phone or email is required",
 });
@@ -128,12 +132,22 @@ otpRouter.post(
 			// Create OTP token
 			const { otp, expiresAt } = await createOtpToken(identifier, purpose, isEmail);
 
-			// TODO: Send OTP via SMS/Email service
-			// For development, log the OTP
-			console.log(`[OTP] ${identifier}: ${otp} (expires: ${expiresAt.toISOString()})`);
+			// Deliver by email, SMS or WhatsApp
+			const expiryMinutes = Math.round((expiresAt.getTime() - Date.now()) / 60000);
+			if (isEmail) {
+				await notifyOtpVerification(
+					identifier,
+					otp,
+					purpose.replace("_", " "),
+					undefined,
+					expiryMinutes
+				);
+			} else {
+				await notifyOtpPhone(identifier, otp, data.channel, expiryMinutes);
+			}
 
 			return res.status(StatusCodes.OK).json({
-				message: `OTP sent to ${isEmail ? "email" : "phone"}`,
+				message: `OTP sent to ${isEmail ? "email" : data.channel === PhoneChannels.WHATSAPP ? "WhatsApp" : "phone"}`,
 				expiresAt: expiresAt.toISOString(),
 				// Only include OTP in development for testing
 				...(process.env.NODE_ENV === "development" && { otp }),
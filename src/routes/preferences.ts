@@ -9,9 +9,16 @@ import { z } from "zod";
 import { eq } from "drizzle-orm";
 
 import { db } from "../config/database.ts";
-import { userPreferences } from "../db/index.ts";
+import { userPreferences, NotificationCategories, DigestFrequencies } from "../db/index.ts";
 import authMiddleware from "../middleware/authMiddleware.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import {
+	getNotificationPreferences,
+	hasMarketingConsent,
+	setMarketingConsent,
+	updateNotificationPreferences,
+} from "../services/notificationPreferenceService.ts";
+import { getDigestFrequency, setDigestFrequency } from "../services/notificationDigestService.ts";
 
 const preferencesRouter = Router();
 
@@ -23,6 +30,32 @@ const preferencesSchema = z.object({
 	wantsCommunityPrograms: z.boolean().optional(),
 });
 
+const channelPreferencesSchema = z
+	.object({
+		email: z.boolean().optional(),
+		inApp: z.boolean().optional(),
+		sms: z.boolean().optional(),
+		whatsapp: z.boolean().optional(),
+	})
+	.strict();
+
+const notificationPreferencesSchema = z.object({
+	preferences: z
+		.object({
+			[NotificationCategories.APPLICATIONS]: channelPreferencesSchema.optional(),
+			[NotificationCategories.KYC]: channelPreferencesSchema.optional(),
+			[NotificationCategories.PAYMENTS]: channelPreferencesSchema.optional(),
+			[NotificationCategories.MARKETING]: channelPreferencesSchema.optional(),
+			[NotificationCategories.JOB_ALERTS]: channelPreferencesSchema.optional(),
+		})
+		.strict()
+		.optional(),
+	// Grants/revokes the MARKETING consent in user_consents
+	marketingConsent: z.boolean().optional(),
+	// Batch application/job alert/marketing emails into a daily or weekly summary
+	emailDigest: z.nativeEnum(DigestFrequencies).optional(),
+});
+
 /**
  * GET /preferences
  * Get current user's preferences
@@ -113,4 +146,68 @@ preferencesRouter.post(
 	)
 );
 
+/**
+ * GET /preferences/notifications
+ * Channel opt-ins per notification category (defaults applied), marketing consent state
+ * and email digest frequency
+ */
+preferencesRouter.get(
+	"/notifications",
+	authMiddleware(),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+
+		const [preferences, marketingConsent, emailDigest] = await Promise.all([
+			getNotificationPreferences(userId),
+			hasMarketingConsent(userId),
+			getDigestFrequency(userId),
+		]);
+
+		return res.status(StatusCodes.OK).json({
+			preferences,
+			marketingConsent,
+			emailDigest,
+		});
+	})
+);
+
+/**
+ * PATCH /preferences/notifications
+ * Partially update channel opt-ins and digest frequency; optionally grant/revoke
+ * marketing consent in the same call
+ */
+preferencesRouter.patch(
+	"/notifications",
+	authMiddleware(),
+	expressAsyncHandler(
+		async (data, req, res) => {
+			const userId = req.userId!;
+
+			// Consent first so "grant + enable marketing" works in one request
+			if (data.marketingConsent !== undefined) {
+				await setMarketingConsent(userId, data.marketingConsent);
+			}
+
+			const preferences = data.preferences
+				? await updateNotificationPreferences(userId, data.preferences)
+				: await getNotificationPreferences(userId);
+
+			const emailDigest = data.emailDigest
+				? await setDigestFrequency(userId, data.emailDigest)
+				: await getDigestFrequency(userId);
+
+			return res.status(StatusCodes.OK).json({
+				message: "Notification preferences updated successfully",
+				preferences,
+				marketingConsent: await hasMarketingConsent(userId),
+				emailDigest,
+			});
+		},
+		{
+			validationSchema: notificationPreferencesSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
 export default preferencesRouter;
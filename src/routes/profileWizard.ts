@@ -24,6 +24,8 @@ import { HTTPError } from "../config/error.ts";
 import authMiddleware from "../middleware/authMiddleware.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
 import { updateProfileCompletion } from "../services/profileService.ts";
+import { coordinatesForPincode } from "../services/geoService.ts";
+import { resolveLocation, withCanonicalNames } from "../services/locationService.ts";
 
 const router = Router();
 
@@ -46,6 +48,7 @@ const addressSchema = z.object({
 	district: z.string().optional(),
 	state: z.string().optional(),
 	pincode: z.string().optional(),
+	locationId: z.string().regex(/^\d+$/, "Invalid locationId").nullable().optional(), // From /locations/suggest
 	addressLine1: z.string().optional(),
 	locality: z.string().optional(),
 });
@@ -198,14 +201,28 @@ router.patch(
 				.limit(1);
 
 			if (existing) {
+				const place = {
+					city: data.currentCity !== undefined ? data.currentCity : existing.currentCity,
+					district: data.district !== undefined ? data.district : existing.district,
+					state: data.state !== undefined ? data.state : existing.state,
+				};
+				const location = await resolveLocation({
+					...place,
+					area: data.locality,
+					locationId: data.locationId,
+				});
+				const canonical = withCanonicalNames(place, location.names);
+
 				// Update user profile address fields
 				const [profile] = await db
 					.update(userProfiles)
 					.set({
-						currentCity: data.currentCity !== undefined ? data.currentCity : existing.currentCity,
-						district: data.district !== undefined ? data.district : existing.district,
-						state: data.state !== undefined ? data.state : existing.state,
+						currentCity: canonical.city,
+						district: canonical.district,
+						state: canonical.state,
+						locationId: location.locationId,
 						pincode: data.pincode !== undefined ? data.pincode : existing.pincode,
+						...(data.pincode !== undefined && (await coordinatesForPincode(data.pincode))),
 						profileLastUpdatedAt: new Date(),
 						updatedAt: new Date(),
 					})
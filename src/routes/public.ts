@@ -0,0 +1,106 @@
+/**
+ * Public Routes (no auth)
+ * Indexable job pages and the jobs sitemap for search engines. Only active
+ * jobs, through the safe projection in jobPostingService.
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+import { db } from "../config/database.ts";
+import { employerProfiles, jobs, JobStatuses } from "../db/index.ts";
+import { publicPagesRateLimiter } from "../middleware/securityMiddleware.ts";
+import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import {
+	jobPostingJsonLd,
+	jobSitemapXml,
+	MAX_SITEMAP_URLS,
+	publicJobSelectFields,
+	publicJobUrl,
+	publicSalary,
+} from "../services/jobPostingService.ts";
+
+const router = Router();
+
+router.use(publicPagesRateLimiter);
+
+// ============================================
+// Config
+// ============================================
+
+const JOB_PAGE_CACHE_SECONDS = 300;
+const SITEMAP_CACHE_SECONDS = 3600;
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /public/sitemap.xml
+ * Active job pages, most recently updated first
+ */
+router.get(
+	"/sitemap.xml",
+	expressAsyncHandler(async (_req, res) => {
+		const entries = await db
+			.select({ slug: jobs.slug, lastModified: jobs.updatedAt })
+			.from(jobs)
+			.where(and(eq(jobs.status, JobStatuses.ACTIVE), isNull(jobs.deletedAt)))
+			.orderBy(desc(jobs.updatedAt))
+			.limit(MAX_SITEMAP_URLS);
+
+		// Raw XML for crawlers, not the JSON response envelope
+		(res as any).__skipWrapper = true;
+		res.set("Cache-Control", `public, max-age=${SITEMAP_CACHE_SECONDS}`);
+		return res.status(StatusCodes.OK).type("application/xml").send(jobSitemapXml(entries));
+	})
+);
+
+/**
+ * GET /public/jobs/:slug
+ * Public view of an active job: listing details (salary only when not hidden),
+ * company name and logo (no contact details), the canonical `url` and
+ * schema.org JobPosting `jsonLd` to embed in the page. Closed and expired
+ * jobs return 410 so crawlers drop them.
+ */
+router.get(
+	"/jobs/:slug",
+	expressAsyncHandler(async (req, res) => {
+		const [row] = await db
+			.select({
+				...publicJobSelectFields,
+				company: {
+					companyName: employerProfiles.companyName,
+					brandName: employerProfiles.brandName,
+					logoUrl: employerProfiles.logoUrl,
+					industry: employerProfiles.industry,
+					website: employerProfiles.website,
+					isVerified: employerProfiles.isVerified,
+				},
+			})
+			.from(jobs)
+			.leftJoin(employerProfiles, eq(employerProfiles.userId, jobs.employerId))
+			.where(and(eq(jobs.slug, req.params.slug), isNull(jobs.deletedAt)))
+			.limit(1);
+
+		if (row && (row.status === JobStatuses.EXPIRED || row.status === JobStatuses.CLOSED)) {
+			return res.status(StatusCodes.GONE).json({ error: "This job has closed", code: "JOB_CLOSED" });
+		}
+		if (!row || row.status !== JobStatuses.ACTIVE) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Job not found" });
+		}
+
+		const { company, ...job } = publicSalary(row);
+
+		res.set("Cache-Control", `public, max-age=${JOB_PAGE_CACHE_SECONDS}`);
+		return res.status(StatusCodes.OK).json({
+			...job,
+			company,
+			url: publicJobUrl(job.slug),
+			jsonLd: jobPostingJsonLd(job, company),
+		});
+	})
+);
+
+export default router;
@@ -28,7 +28,8 @@ import {
 } from "../middleware/verificationMiddleware.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
 import { auditCreate, auditUpdate } from "../services/auditService.ts";
-import { sendEmail } from "../services/notificationService.ts";
+import { matchLocation } from "../services/locationService.ts";
+import { notifyKycSubmitted } from "../services/notificationService.ts";
 
 const router = Router();
 
@@ -421,6 +422,8 @@ router.post(
 				.where(eq(jobseekerProfiles.userId, userId))
 				.limit(1);
 
+			const location = await matchLocation({ city: data.city, state: data.state });
+
 			if (existing) {
 				// Update existing profile
 				await db
@@ -433,6 +436,7 @@ router.post(
 						skills: data.skills,
 						city: data.city,
 						state: data.state || null,
+						locationId: location?.id ?? null,
 						headline: data.headline || null,
 						summary: data.summary || null,
 						experienceYears: data.experienceYears || null,
@@ -459,6 +463,7 @@ router.post(
 					skills: data.skills,
 					city: data.city,
 					state: data.state || null,
+					locationId: location?.id ?? null,
 					headline: data.headline || null,
 					summary: data.summary || null,
 					experienceYears: data.experienceYears || null,
@@ -505,6 +510,12 @@ router.post(
 				.where(eq(employerProfiles.userId, userId))
 				.limit(1);
 
+			const location = await matchLocation({
+				city: data.city,
+				district: data.district,
+				state: data.state,
+			});
+
 			// Clean data helper (empty string -> null)
 			const cleanData = {
 				...data,
@@ -534,6 +545,7 @@ router.post(
 						city: data.city,
 						district: cleanData.district,
 						state: data.state,
+						locationId: location?.id ?? null,
 						updatedAt: new Date(),
 						// Optional fields
 						contactPersonName: cleanData.contactPersonName,
@@ -570,6 +582,7 @@ router.post(
 						city: data.city,
 						district: cleanData.district,
 						state: data.state,
+						locationId: location?.id ?? null,
 						country: data.country || "India",
 						// Optional fields
 						brandName: cleanData.brandName,
@@ -739,12 +752,12 @@ router.post(
 				}
 			);
 
-			// Send confirmation email
-			if (user.email) {
-				await sendEmail(user.email, "kyc_submitted", {
-					userName: user.email.split("@")[0],
-				});
-			}
+			// Send confirmation (email + in-app, per notification preferences)
+			await notifyKycSubmitted(
+				userId,
+				user.email,
+				user.email?.split("@")[0] || "User"
+			);
 
 			return res.status(StatusCodes.OK).json({
 				message:
@@ -5,15 +5,29 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { and, eq, isNull, sql } from "drizzle-orm";
 
 import { db } from "../config/database.ts";
 import { savedJobs, jobs, employerProfiles, applications } from "../db/index.ts";
 import authMiddleware from "../middleware/authMiddleware.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../utils/pagination.ts";
 
 const router = Router();
 
+const SAVED_JOB_ORDER = keyset("saved-jobs", [
+	sortKey(savedJobs.createdAt, "desc"),
+	sortKey(savedJobs.id, "desc"),
+]);
+
 // ============================================
 // Internal Helpers
 // ============================================
@@ -41,17 +55,19 @@ const getJobId = async (id: string) => {
 
 /**
  * GET /saved-jobs
- * List all saved jobs for the current user
+ * Saved jobs for the current user, most recently saved first.
+ * Query params: limit (default 50, max 100), cursor, or offset (ignored with
+ * a cursor). The body stays a bare array for existing clients; paging comes
+ * back in the X-Total-Count, X-Has-More and X-Next-Cursor headers.
  */
 router.get(
 	"/",
 	authMiddleware(),
 	expressAsyncHandler(async (req, res) => {
 		const userId = req.userId!;
-		const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-		const offset = parseInt(req.query.offset as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
-		const result = await db
+		const rows = await db
 			.select({
 				id: jobs.id,
 				uuid: jobs.uuid,
@@ -79,6 +95,7 @@ router.get(
 					logoUrl: employerProfiles.logoUrl,
 				},
 				hasApplied: sql<boolean>`CASE WHEN ${applications.id} IS NOT NULL THEN true ELSE false END`,
+				pageCursor: keysetCursorField(SAVED_JOB_ORDER),
 			})
 			.from(savedJobs)
 			.innerJoin(jobs, eq(savedJobs.jobId, jobs.id))
@@ -91,12 +108,24 @@ router.get(
 					isNull(applications.deletedAt)
 				)
 			)
-			.where(eq(savedJobs.userId, userId))
-			.orderBy(desc(savedJobs.createdAt))
-			.limit(limit)
-			.offset(offset);
+			.where(and(eq(savedJobs.userId, userId), keysetCondition(SAVED_JOB_ORDER, page)))
+			.orderBy(...keysetOrderBy(SAVED_JOB_ORDER))
+			.limit(page.limit + 1)
+			.offset(page.offset);
+
+		const [countResult] = await db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(savedJobs)
+			.where(eq(savedJobs.userId, userId));
+
+		const { items, pagination } = paginate(rows, page, countResult?.count || 0);
 
-		return res.status(StatusCodes.OK).json(result);
+		res.set({
+			"X-Total-Count": String(pagination.total),
+			"X-Has-More": String(pagination.hasMore),
+			...(pagination.nextCursor && { "X-Next-Cursor": pagination.nextCursor }),
+		});
+		return res.status(StatusCodes.OK).json(items);
 	})
 );
 
@@ -0,0 +1,184 @@
+/**
+ * Saved Search Routes
+ * Saved GET /jobs filters with scheduled job alerts (see jobAlertService)
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { and, desc, eq, sql } from "drizzle-orm";
+
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import { JobAlertFrequencies, savedSearches } from "../db/index.ts";
+import authMiddleware from "../middleware/authMiddleware.ts";
+import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import { MAX_RADIUS_KM, resolvePincode } from "../services/geoService.ts";
+import { describeSavedSearch, savedSearchLink } from "../services/jobAlertService.ts";
+
+const router = Router();
+
+// ============================================
+// Config
+// ============================================
+
+const MAX_SAVED_SEARCHES = 20;
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+// Same parameters as GET /jobs (minus paging and facets)
+const savedSearchQuerySchema = z
+	.object({
+		search: z.string().trim().min(1).max(200).optional(),
+		city: z.string().trim().min(1).max(100).optional(),
+		jobType: z.enum(["full-time", "part-time", "contract", "internship", "freelance"]).optional(),
+		category: z.string().trim().min(1).max(100).optional(),
+		locationType: z.enum(["onsite", "remote", "hybrid"]).optional(),
+		minSalary: z.number().positive().optional(),
+		maxSalary: z.number().positive().optional(),
+		minExperience: z.number().int().min(0).max(60).optional(),
+		maxExperience: z.number().int().min(0).max(60).optional(),
+		lat: z.number().min(-90).max(90).optional(),
+		lng: z.number().min(-180).max(180).optional(),
+		pincode: z.string().trim().regex(/^[1-9]\d{5}$/, "Invalid pincode").optional(),
+		radiusKm: z.number().min(1).max(MAX_RADIUS_KM).optional(),
+	})
+	.strict()
+	.refine((q) => (q.lat === undefined) === (q.lng === undefined), {
+		message: "lat and lng must be given together",
+		path: ["lat"],
+	})
+	.refine((q) => Object.keys(q).some((key) => key !== "radiusKm"), {
+		message: "Choose at least one filter to save",
+		path: ["search"],
+	});
+
+const createSavedSearchSchema = z.object({
+	name: z.string().trim().min(1).max(100).optional(), // Defaults to a description of the filters
+	query: savedSearchQuerySchema,
+	alertFrequency: z.nativeEnum(JobAlertFrequencies).optional(), // Default: daily
+});
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /saved-searches
+ * The user's saved searches, newest first, each with a `link` to the jobs page
+ */
+router.get(
+	"/",
+	authMiddleware(),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+
+		const result = await db
+			.select({
+				id: savedSearches.uuid,
+				name: savedSearches.name,
+				query: savedSearches.query,
+				alertFrequency: savedSearches.alertFrequency,
+				lastAlertedAt: savedSearches.lastAlertedAt,
+				createdAt: savedSearches.createdAt,
+			})
+			.from(savedSearches)
+			.where(eq(savedSearches.userId, userId))
+			.orderBy(desc(savedSearches.createdAt));
+
+		return res.status(StatusCodes.OK).json({
+			savedSearches: result.map((search) => ({ ...search, link: savedSearchLink(search.query) })),
+		});
+	})
+);
+
+/**
+ * POST /saved-searches
+ * Save GET /jobs filters. Alerts (daily by default, or weekly / off) cover jobs
+ * published after the search is saved.
+ */
+router.post(
+	"/",
+	authMiddleware(),
+	expressAsyncHandler(
+		async (data: z.infer<typeof createSavedSearchSchema>, req, res) => {
+			const userId = req.userId!;
+
+			if (data.query.pincode && data.query.lat === undefined && !(await resolvePincode(data.query.pincode))) {
+				throw new HTTPError({
+					httpStatus: StatusCodes.BAD_REQUEST,
+					message: "Unknown pincode",
+				});
+			}
+
+			const [countResult] = await db
+				.select({ count: sql<number>`count(*)::int` })
+				.from(savedSearches)
+				.where(eq(savedSearches.userId, userId));
+			if ((countResult?.count || 0) >= MAX_SAVED_SEARCHES) {
+				throw new HTTPError({
+					httpStatus: StatusCodes.BAD_REQUEST,
+					message: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`,
+				});
+			}
+
+			const [search] = await db
+				.insert(savedSearches)
+				.values({
+					userId,
+					name: data.name || describeSavedSearch(data.query),
+					query: data.query,
+					alertFrequency: (data.alertFrequency ?? JobAlertFrequencies.DAILY) as any,
+				})
+				.returning();
+
+			return res.status(StatusCodes.CREATED).json({
+				savedSearch: {
+					id: search.uuid,
+					name: search.name,
+					query: search.query,
+					alertFrequency: search.alertFrequency,
+					lastAlertedAt: search.lastAlertedAt,
+					createdAt: search.createdAt,
+					link: savedSearchLink(search.query),
+				},
+			});
+		},
+		{
+			validationSchema: createSavedSearchSchema,
+			getValue: (req) => req.body,
+		}
+	)
+);
+
+/**
+ * DELETE /saved-searches/:id
+ * Delete a saved search (stops its alerts)
+ */
+router.delete(
+	"/:id",
+	authMiddleware(),
+	expressAsyncHandler(async (req, res) => {
+		const userId = req.userId!;
+		const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+		if (!uuidRegex.test(req.params.id)) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Saved search not found" });
+		}
+
+		const [deleted] = await db
+			.delete(savedSearches)
+			.where(and(eq(savedSearches.uuid, req.params.id), eq(savedSearches.userId, userId)))
+			.returning({ id: savedSearches.id });
+
+		if (!deleted) {
+			return res.status(StatusCodes.NOT_FOUND).json({ error: "Saved search not found" });
+		}
+
+		return res.status(StatusCodes.NO_CONTENT).send();
+	})
+);
+
+export default router;
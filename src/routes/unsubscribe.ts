@@ -0,0 +1,55 @@
+/**
+ * Unsubscribe Routes
+ * Public (no login) endpoints behind the signed links in email footers and
+ * RFC 8058 List-Unsubscribe headers
+ */
+
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import { getUnsubscribeScope, unsubscribeByToken } from "../services/unsubscribeService.ts";
+
+const router = Router();
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * GET /unsubscribe/:token
+ * Describe what the link unsubscribes from (for the confirmation page).
+ * Does not change anything - link scanners prefetch GETs.
+ */
+router.get(
+	"/:token",
+	expressAsyncHandler(async (req, res) => {
+		const scope = await getUnsubscribeScope(req.params.token);
+
+		return res.status(StatusCodes.OK).json({
+			email: scope.email,
+			category: scope.category,
+			scope: scope.category ? "category" : "all_non_essential",
+		});
+	})
+);
+
+/**
+ * POST /unsubscribe/:token
+ * Apply the unsubscribe. Also the RFC 8058 one-click target
+ * (mail providers POST "List-Unsubscribe=One-Click"; the body is not needed).
+ */
+router.post(
+	"/:token",
+	expressAsyncHandler(async (req, res) => {
+		const scope = await unsubscribeByToken(req.params.token);
+
+		return res.status(StatusCodes.OK).json({
+			message: "You have been unsubscribed",
+			email: scope.email,
+			category: scope.category,
+		});
+	})
+);
+
+export default router;
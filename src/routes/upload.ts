@@ -30,6 +30,7 @@ const signSchema = z.object({
 		UploadTypes.KYC_DOCUMENT,
 		UploadTypes.PROFILE_PHOTO,
 		UploadTypes.COMPANY_LOGO,
+		UploadTypes.MESSAGE_ATTACHMENT,
 	]),
 });
 
@@ -39,6 +40,7 @@ const confirmSchema = z.object({
 		UploadTypes.KYC_DOCUMENT,
 		UploadTypes.PROFILE_PHOTO,
 		UploadTypes.COMPANY_LOGO,
+		UploadTypes.MESSAGE_ATTACHMENT,
 	]),
 	url: z.string().url(),
 	publicId: z.string().optional(),
@@ -15,6 +15,7 @@ import { requirePermission } from "../middleware/rbacMiddleware.ts";
 import { requireVerified } from "../middleware/verificationMiddleware.ts";
 import { Permissions } from "../config/permissions.ts";
 import expressAsyncHandler from "../utils/expressAsyncHandler.ts";
+import { parsePageRequest } from "../utils/pagination.ts";
 import {
 	getOrCreateWallet,
 	getBalance,
@@ -154,7 +155,8 @@ router.post(
 
 /**
  * GET /wallet/transactions
- * Get transaction history
+ * Get transaction history (newest first)
+ * Query params: limit, cursor (pagination.nextCursor), offset
  */
 router.get(
 	"/transactions",
@@ -162,14 +164,9 @@ router.get(
 	requirePermission(Permissions.TRANSACTIONS_READ_OWN),
 	expressAsyncHandler(async (req, res) => {
 		const userId = req.userId!;
-		const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-		const offset = parseInt(req.query.offset as string) || 0;
+		const page = parsePageRequest(req.query, { defaultLimit: 50, maxLimit: 100 });
 
-		const { transactions, total } = await getTransactionHistory(
-			userId,
-			limit,
-			offset
-		);
+		const { transactions, pagination } = await getTransactionHistory(userId, page);
 
 		return res.status(StatusCodes.OK).json({
 			transactions: transactions.map((t) => ({
@@ -183,12 +180,7 @@ router.get(
 				description: t.description,
 				date: t.createdAt,
 			})),
-			pagination: {
-				total,
-				limit,
-				offset,
-				hasMore: offset + transactions.length < total,
-			},
+			pagination,
 		});
 	})
 );
@@ -17,6 +17,7 @@ import kycRouter from "../routes/kyc.ts";
 import applicationsRouter from "../routes/applications.ts";
 import employerProfileRouter from "../routes/employerProfile.ts";
 import employerJobsRouter from "../routes/employerJobs.ts";
+import employerCandidatesRouter from "../routes/employerCandidates.ts";
 import resumeUnlockRouter from "../routes/resumeUnlock.ts";
 import walletRouter from "../routes/wallet.ts";
 import uploadRouter from "../routes/upload.ts";
@@ -27,6 +28,11 @@ import skillsRouter from "../routes/skills.ts";
 import interestsRouter from "../routes/interests.ts";
 import profileWizardRouter from "../routes/profileWizard.ts";
 import savedJobsRouter from "../routes/savedJobs.ts";
+import savedSearchesRouter from "../routes/savedSearches.ts";
+import notificationsRouter from "../routes/notifications.ts";
+import unsubscribeRouter from "../routes/unsubscribe.ts";
+import locationsRouter from "../routes/locations.ts";
+import publicRouter from "../routes/public.ts";
 
 // Admin routes
 import adminDashboardRouter from "../routes/admin/dashboard.ts";
@@ -38,6 +44,10 @@ import adminAuditLogsRouter from "../routes/admin/auditLogs.ts";
 import adminUsersRouter from "../routes/admin/users.ts";
 import adminPlatformUsersRouter from "../routes/admin/platformUsers.ts";
 import adminAdminUsersRouter from "../routes/admin/adminUsers.ts";
+import adminEmailTemplatesRouter from "../routes/admin/emailTemplates.ts";
+import adminEmailDeliveriesRouter from "../routes/admin/emailDeliveries.ts";
+import adminQueuesRouter from "../routes/admin/queues.ts";
+import adminMessageReportsRouter from "../routes/admin/messageReports.ts";
 
 const port = +(process.env.PORT || "3001");
 
@@ -109,6 +119,10 @@ new Server({
 			path: "/employer/jobs",
 			handlers: [employerJobsRouter],
 		},
+		{
+			path: "/employer/candidates",
+			handlers: [employerCandidatesRouter],
+		},
 		{
 			path: "/resume",
 			handlers: [resumeUnlockRouter],
@@ -158,9 +172,45 @@ new Server({
 			path: "/admin/admin-users",
 			handlers: [adminAdminUsersRouter],
 		},
+		{
+			path: "/admin/email-templates",
+			handlers: [adminEmailTemplatesRouter],
+		},
+		{
+			path: "/admin/email-deliveries",
+			handlers: [adminEmailDeliveriesRouter],
+		},
+		{
+			path: "/admin/queues",
+			handlers: [adminQueuesRouter],
+		},
+		{
+			path: "/admin/message-reports",
+			handlers: [adminMessageReportsRouter],
+		},
 		{
 			path: "/saved-jobs",
 			handlers: [savedJobsRouter],
 		},
+		{
+			path: "/saved-searches",
+			handlers: [savedSearchesRouter],
+		},
+		{
+			path: "/notifications",
+			handlers: [notificationsRouter],
+		},
+		{
+			path: "/unsubscribe",
+			handlers: [unsubscribeRouter],
+		},
+		{
+			path: "/locations",
+			handlers: [locationsRouter],
+		},
+		{
+			path: "/public",
+			handlers: [publicRouter],
+		},
 	],
 });
@@ -5,7 +5,11 @@ import { getReasonPhrase, ReasonPhrases, StatusCodes } from "http-status-codes";
 import morgan from "morgan";
 
 import { HTTPError } from "../config/error.ts";
+import authMiddleware from "../middleware/authMiddleware.ts";
 import requestContext from "../middleware/requestContext.ts";
+import localeMiddleware from "../middleware/localeMiddleware.ts";
+import { initRealtime, openStream } from "../services/realtimeService.ts";
+import { translate } from "../utils/i18n.ts";
 
 const envOrigins = (process.env.CORS_ALLOWED_ORIGINS || "")
 	.split(",")
@@ -83,6 +87,9 @@ export default class Server {
 		// Request context (IP, user agent, request ID)
 		this.app.use(requestContext());
 
+		// Request locale (Accept-Language)
+		this.app.use(localeMiddleware());
+
 		// Request logging
 		this.app.use(
 			morgan(
@@ -124,12 +131,32 @@ export default class Server {
 			res.status(200).send("All good!");
 		});
 
+		// Real-time stream (must be registered before the /notifications router)
+		this.setupRealtimeRoutes();
+
 		// Setup provided routes
 		for (const route of this.routes) {
 			this.app.use(route.path, ...route.handlers);
 		}
 	}
 
+	setupRealtimeRoutes() {
+		initRealtime();
+
+		// Server-Sent Events: notifications, application status changes, wallet balance
+		this.app.get("/notifications/stream", authMiddleware(), (req, res, next) => {
+			const opened = openStream(req.userId!, res);
+			if (!opened) {
+				return next(
+					new HTTPError({
+						httpStatus: StatusCodes.TOO_MANY_REQUESTS,
+						message: "Too many open notification streams",
+					})
+				);
+			}
+		});
+	}
+
 	setupPostRoutesMiddlewares() {
 		// 404 handler
 		this.app.use((req, res, next) => {
@@ -149,14 +176,17 @@ export default class Server {
 					status = err.httpStatus;
 					data = {
 						status: err.httpStatus,
-						error: err.message ? err.message : getReasonPhrase(err.httpStatus),
+						error: translate(
+							err.message ? err.message : getReasonPhrase(err.httpStatus),
+							req.locale
+						),
 						reason: err.reason || null,
 					};
 				} else {
 					status = StatusCodes.INTERNAL_SERVER_ERROR;
 					data = {
 						status: StatusCodes.INTERNAL_SERVER_ERROR,
-						error: ReasonPhrases.INTERNAL_SERVER_ERROR,
+						error: translate(ReasonPhrases.INTERNAL_SERVER_ERROR, req.locale),
 					};
 					console.error("Unhandled error:", err);
 				}
@@ -0,0 +1,374 @@
+/**
+ * Applicant Bulk Service
+ * Bulk actions on a job's applicants: change status (cancelling the upcoming
+ * interviews of applications leaving INTERVIEW), add a tag, or send a
+ * templated message (posted to each application's conversation). Targets are
+ * explicit application ids or a filter. The changes apply in one transaction
+ * (rows locked, so single-application updates cannot interleave), followed by
+ * one audit entry per application and candidate notifications queued in
+ * batches.
+ */
+
+import { and, eq, gte, inArray, isNull, sql, SQL } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import {
+	ApplicationMessage,
+	applicationMessages,
+	applications,
+	ApplicationStatuses,
+	applicationStatusHistory,
+	AuditActions,
+	employerProfiles,
+	Interview,
+	jobs,
+	users,
+} from "../db/index.ts";
+import { messageView } from "./applicationMessageService.ts";
+import { cancelOpenInterviews, canTransitionApplication } from "./applicationStatusService.ts";
+import { AuditContext, AuditLogEntry, auditLogBatch } from "./auditService.ts";
+import { sendInterviewCancellations } from "./interviewService.ts";
+import { notifyApplicationStatusChange, notifyEmployerMessage } from "./notificationService.ts";
+import { publishRealtimeEvent, RealtimeEventTypes } from "./queueService.ts";
+
+// ============================================
+// Config
+// ============================================
+
+export const MAX_BULK_APPLICATIONS = 500;
+export const MAX_TAGS_PER_APPLICATION = 20;
+const NOTIFICATION_BATCH_SIZE = 50;
+
+// Placeholders an employer can use in a bulk message, filled per candidate
+const MESSAGE_PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+const MESSAGE_PLACEHOLDERS = ["candidateName", "jobTitle", "companyName"];
+
+// ============================================
+// Types
+// ============================================
+
+export interface BulkApplicantFilter {
+	statuses?: ApplicationStatuses[];
+	minScreeningScore?: number;
+	knockedOut?: boolean;
+	tag?: string;
+}
+
+export type BulkApplicantTarget = { applicationIds: bigint[] } | { filter: BulkApplicantFilter };
+
+export type BulkApplicantAction =
+	| { action: "status"; status: ApplicationStatuses; note?: string }
+	| { action: "tag"; tag: string }
+	| { action: "message"; subject: string; message: string };
+
+export interface BulkApplicantResult {
+	matched: number;
+	applied: number;
+	skipped: { applicationId: bigint; reason: string }[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Tags are stored lowercase with single spaces so filters match regardless
+ * of how they were typed
+ */
+export function normalizeApplicationTag(tag: string): string {
+	return tag.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function assertMessagePlaceholders(text: string): void {
+	const unknown = [...text.matchAll(MESSAGE_PLACEHOLDER_PATTERN)]
+		.map((match) => match[1])
+		.filter((name) => !MESSAGE_PLACEHOLDERS.includes(name));
+
+	if (unknown.length > 0) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: `Unknown placeholder: {{${unknown[0]}}}`,
+			reason: { unknown: [...new Set(unknown)], allowed: MESSAGE_PLACEHOLDERS },
+		});
+	}
+}
+
+function fillMessage(text: string, values: Record<string, string>): string {
+	return text.replace(MESSAGE_PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? "");
+}
+
+function targetConditions(jobId: bigint, target: BulkApplicantTarget): SQL[] {
+	const conditions = [eq(applications.jobId, jobId), isNull(applications.deletedAt)];
+
+	if ("applicationIds" in target) {
+		conditions.push(inArray(applications.id, target.applicationIds));
+		return conditions;
+	}
+
+	const { statuses, minScreeningScore, knockedOut, tag } = target.filter;
+	if (statuses?.length) conditions.push(inArray(applications.status, statuses));
+	if (minScreeningScore !== undefined) conditions.push(gte(applications.screeningScore, minScreeningScore));
+	if (knockedOut !== undefined) conditions.push(eq(applications.screeningKnockout, knockedOut));
+	if (tag) conditions.push(sql`${normalizeApplicationTag(tag)} = any(${applications.tags})`);
+	return conditions;
+}
+
+/**
+ * Send per-candidate notifications in batches so a large action does not
+ * flood the queue connection. Failures are logged; the changes are committed.
+ */
+async function notifyInBatches<T>(items: T[], notify: (item: T) => Promise<void>): Promise<void> {
+	for (let i = 0; i < items.length; i += NOTIFICATION_BATCH_SIZE) {
+		const results = await Promise.allSettled(items.slice(i, i + NOTIFICATION_BATCH_SIZE).map(notify));
+
+		for (const result of results) {
+			if (result.status === "rejected") {
+				console.error("[ApplicantBulk] Failed to notify candidate:", result.reason);
+			}
+		}
+	}
+}
+
+// ============================================
+// Bulk Action
+// ============================================
+
+/**
+ * Apply one action to the targeted applications of an employer's job.
+ * Applications the action does not apply to (a move the status graph does
+ * not allow, already tagged, withdrawn) are reported in `skipped`; more than
+ * MAX_BULK_APPLICATIONS matches is a 400.
+ */
+export async function runBulkApplicantAction(
+	employerId: bigint,
+	jobId: bigint,
+	target: BulkApplicantTarget,
+	action: BulkApplicantAction,
+	context: AuditContext
+): Promise<BulkApplicantResult> {
+	const [job] = await db
+		.select({ id: jobs.id, title: jobs.title, companyName: employerProfiles.companyName })
+		.from(jobs)
+		.leftJoin(employerProfiles, eq(employerProfiles.userId, jobs.employerId))
+		.where(and(eq(jobs.id, jobId), eq(jobs.employerId, employerId), isNull(jobs.deletedAt)))
+		.limit(1);
+
+	if (!job) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.NOT_FOUND,
+			message: "Job not found",
+		});
+	}
+
+	const tag = action.action === "tag" ? normalizeApplicationTag(action.tag) : null;
+	if (action.action === "message") {
+		assertMessagePlaceholders(action.subject);
+		assertMessagePlaceholders(action.message);
+	}
+
+	const companyName = job.companyName || "A company";
+	const personalize = (text: string, candidateName: string | null) =>
+		fillMessage(text, { candidateName: candidateName || "Applicant", jobTitle: job.title, companyName });
+
+	const now = new Date();
+	const { rows, applied, skipped, messages, cancelledInterviews } = await db.transaction(async (tx) => {
+		const rows = await tx
+			.select({
+				id: applications.id,
+				status: applications.status,
+				tags: applications.tags,
+				jobseekerId: applications.jobseekerId,
+				email: users.email,
+				name: users.name,
+			})
+			.from(applications)
+			.innerJoin(users, eq(users.id, applications.jobseekerId))
+			.where(and(...targetConditions(jobId, target)))
+			.orderBy(applications.id)
+			.limit(MAX_BULK_APPLICATIONS + 1)
+			.for("update", { of: applications });
+
+		if (rows.length > MAX_BULK_APPLICATIONS) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.BAD_REQUEST,
+				message: `More than ${MAX_BULK_APPLICATIONS} applications match. Narrow the filter and try again.`,
+			});
+		}
+
+		const skipped: BulkApplicantResult["skipped"] = [];
+		if ("applicationIds" in target) {
+			const found = new Set(rows.map((row) => row.id));
+			for (const applicationId of new Set(target.applicationIds)) {
+				if (!found.has(applicationId)) skipped.push({ applicationId, reason: "Application not found" });
+			}
+		}
+
+		const skipReason = (row: (typeof rows)[number]): string | null => {
+			const status = row.status as ApplicationStatuses;
+
+			switch (action.action) {
+				case "status":
+					if (status === action.status) return `Already ${status}`;
+					return canTransitionApplication(status, action.status)
+						? null
+						: `Cannot change application status from ${status} to ${action.status}`;
+				case "tag":
+					if (row.tags.includes(tag!)) return "Already tagged";
+					return row.tags.length >= MAX_TAGS_PER_APPLICATION
+						? `Already has ${MAX_TAGS_PER_APPLICATION} tags`
+						: null;
+				case "message":
+					return status === ApplicationStatuses.WITHDRAWN ? "Application was withdrawn" : null;
+			}
+		};
+
+		const applied = rows.filter((row) => {
+			const reason = skipReason(row);
+			if (reason) skipped.push({ applicationId: row.id, reason });
+			return !reason;
+		});
+		const appliedIds = applied.map((row) => row.id);
+
+		let cancelledInterviews: Interview[] = [];
+		if (appliedIds.length > 0 && action.action === "status") {
+			await tx
+				.update(applications)
+				.set({
+					status: action.status,
+					statusChangedAt: now,
+					statusChangedBy: employerId,
+					viewedAt: sql`coalesce(${applications.viewedAt}, ${now})`,
+					...(action.status === ApplicationStatuses.SHORTLISTED && { shortlistedAt: now }),
+					updatedAt: now,
+				})
+				.where(inArray(applications.id, appliedIds));
+
+			await tx.insert(applicationStatusHistory).values(
+				applied.map((row) => ({
+					applicationId: row.id,
+					fromStatus: row.status,
+					toStatus: action.status,
+					changedBy: employerId,
+					note: action.note || null,
+					createdAt: now,
+				}))
+			);
+
+			cancelledInterviews = await cancelOpenInterviews(
+				tx,
+				applied.filter((row) => row.status === ApplicationStatuses.INTERVIEW).map((row) => row.id)
+			);
+		} else if (appliedIds.length > 0 && action.action === "tag") {
+			await tx
+				.update(applications)
+				.set({ tags: sql`array_append(${applications.tags}, ${tag})`, updatedAt: now })
+				.where(inArray(applications.id, appliedIds));
+		}
+
+		// Posted to each conversation (subject as the first line) so the candidate
+		// can read and reply to it there
+		const messages = new Map<bigint, ApplicationMessage>();
+		if (appliedIds.length > 0 && action.action === "message") {
+			const inserted = await tx
+				.insert(applicationMessages)
+				.values(
+					applied.map((row) => ({
+						applicationId: row.id,
+						senderId: employerId,
+						body: `${personalize(action.subject, row.name)}\n\n${personalize(action.message, row.name)}`,
+						createdAt: now,
+					}))
+				)
+				.returning();
+			for (const message of inserted) messages.set(message.applicationId, message);
+		}
+
+		return { rows, applied, skipped, messages, cancelledInterviews };
+	});
+
+	// One audit entry per application
+	const auditEntries: AuditLogEntry[] = applied.map((row) => {
+		switch (action.action) {
+			case "status":
+				return {
+					action: AuditActions.UPDATE,
+					entityType: "application",
+					entityId: row.id,
+					oldValues: { status: row.status },
+					newValues: { status: action.status },
+					description: `Application status changed to ${action.status} (bulk)`,
+					context,
+				};
+			case "tag":
+				return {
+					action: AuditActions.UPDATE,
+					entityType: "application",
+					entityId: row.id,
+					oldValues: { tags: row.tags },
+					newValues: { tags: [...row.tags, tag] },
+					description: `Tag "${tag}" added (bulk)`,
+					context,
+				};
+			case "message":
+				return {
+					action: AuditActions.CREATE,
+					entityType: "application_message",
+					entityId: messages.get(row.id)!.id,
+					newValues: { applicationId: row.id, subject: action.subject },
+					description: "Message sent to applicant (bulk)",
+					context,
+				};
+		}
+	});
+	await auditLogBatch(auditEntries);
+
+	if (action.action === "status") {
+		await notifyInBatches(applied, async (row) => {
+			await publishRealtimeEvent(row.jobseekerId, RealtimeEventTypes.APPLICATION_STATUS, {
+				applicationId: row.id,
+				jobId,
+				jobTitle: job.title,
+				status: action.status,
+				previousStatus: row.status,
+				changedAt: now,
+			});
+			await notifyApplicationStatusChange(
+				row.jobseekerId,
+				row.email,
+				job.title,
+				companyName,
+				action.status,
+				row.name || undefined
+			);
+		});
+		await notifyInBatches(cancelledInterviews, (interview) => sendInterviewCancellations([interview]));
+	} else if (action.action === "message") {
+		await notifyInBatches(applied, async (row) => {
+			await publishRealtimeEvent(row.jobseekerId, RealtimeEventTypes.APPLICATION_MESSAGE, {
+				applicationId: row.id,
+				jobTitle: job.title,
+				senderName: companyName,
+				message: messageView(messages.get(row.id)!, { candidateId: row.jobseekerId, role: "candidate" }),
+			});
+			await notifyEmployerMessage(
+				row.jobseekerId,
+				row.email,
+				{
+					companyName,
+					jobTitle: job.title,
+					subject: personalize(action.subject, row.name),
+					body: personalize(action.message, row.name),
+				},
+				row.name || undefined
+			);
+		});
+	}
+
+	return { matched: rows.length, applied: applied.length, skipped };
+}
+
+export default {
+	normalizeApplicationTag,
+	runBulkApplicantAction,
+};
@@ -0,0 +1,416 @@
+/**
+ * Application Message Service
+ * Conversation threads between a candidate and the employer, scoped to one
+ * application, so they can talk on the platform without exchanging phone
+ * numbers or unlocking the resume. Read receipts, validated attachments and
+ * abuse reports (reviewed through /admin/message-reports).
+ */
+
+import { alias } from "drizzle-orm/pg-core";
+import { and, count, eq, getTableColumns, isNull, ne, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import {
+	ApplicationMessage,
+	applicationMessages,
+	applications,
+	ApplicationStatuses,
+	employerProfiles,
+	jobs,
+	MessageAttachment,
+	MessageReport,
+	MessageReportReasons,
+	messageReports,
+	MessageReportStatuses,
+	users,
+} from "../db/index.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	PageRequest,
+	paginate,
+	sortKey,
+} from "../utils/pagination.ts";
+import { UploadTypes, validateCloudinaryUrl } from "./cloudinaryService.ts";
+import { notifyNewMessage } from "./notificationService.ts";
+import { publishRealtimeEvent, RealtimeEventTypes } from "./queueService.ts";
+
+// ============================================
+// Config
+// ============================================
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_MESSAGE_ATTACHMENTS = 3;
+const PREVIEW_LENGTH = 140;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Newest first; clients scroll back with the cursor
+const MESSAGE_ORDER = keyset("application-messages", [
+	sortKey(applicationMessages.createdAt, "desc"),
+	sortKey(applicationMessages.id, "desc"),
+]);
+
+// ============================================
+// Thread
+// ============================================
+
+export type MessageParticipantRole = "candidate" | "employer";
+
+const candidateUsers = alias(users, "candidate_users");
+const employerUsers = alias(users, "employer_users");
+
+/**
+ * The application's conversation as seen by `userId`: 404 unless they are
+ * its candidate or the employer who owns the job
+ */
+export async function getMessageThread(applicationId: bigint, userId: bigint) {
+	const [thread] = await db
+		.select({
+			applicationId: applications.id,
+			applicationStatus: applications.status,
+			jobTitle: jobs.title,
+			jobDeletedAt: jobs.deletedAt,
+			candidateId: applications.jobseekerId,
+			candidateName: candidateUsers.name,
+			candidateEmail: candidateUsers.email,
+			employerId: jobs.employerId,
+			employerName: employerUsers.name,
+			employerEmail: employerUsers.email,
+			companyName: employerProfiles.companyName,
+		})
+		.from(applications)
+		.innerJoin(jobs, eq(jobs.id, applications.jobId))
+		.innerJoin(candidateUsers, eq(candidateUsers.id, applications.jobseekerId))
+		.innerJoin(employerUsers, eq(employerUsers.id, jobs.employerId))
+		.leftJoin(employerProfiles, eq(employerProfiles.userId, jobs.employerId))
+		.where(and(eq(applications.id, applicationId), isNull(applications.deletedAt)))
+		.limit(1);
+
+	if (!thread || (thread.candidateId !== userId && thread.employerId !== userId)) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.NOT_FOUND,
+			message: "Application not found",
+		});
+	}
+
+	const role: MessageParticipantRole = thread.candidateId === userId ? "candidate" : "employer";
+	return { ...thread, role };
+}
+
+export type MessageThread = Awaited<ReturnType<typeof getMessageThread>>;
+
+/**
+ * Withdrawn applications and removed jobs keep their history but take no
+ * new messages
+ */
+function isThreadOpen(thread: MessageThread): boolean {
+	return thread.applicationStatus !== ApplicationStatuses.WITHDRAWN && thread.jobDeletedAt === null;
+}
+
+/**
+ * Message as returned to a participant (uuid as id; removed messages keep
+ * their place in the thread without their content)
+ */
+export function messageView(message: ApplicationMessage, thread: Pick<MessageThread, "candidateId" | "role">) {
+	const removed = message.hiddenAt !== null;
+
+	return {
+		id: message.uuid,
+		senderRole: message.senderId === thread.candidateId ? "candidate" : "employer",
+		fromMe: (message.senderId === thread.candidateId) === (thread.role === "candidate"),
+		body: removed ? null : message.body,
+		attachments: removed ? [] : message.attachments,
+		removed,
+		readAt: message.readAt,
+		createdAt: message.createdAt,
+	};
+}
+
+// ============================================
+// Read
+// ============================================
+
+/**
+ * A page of the thread, newest first. Opening the thread marks the other
+ * participant's messages as read and tells them (read receipts).
+ */
+export async function listMessages(thread: MessageThread, userId: bigint, page: PageRequest) {
+	const conditions = [eq(applicationMessages.applicationId, thread.applicationId)];
+
+	const rows = await db
+		.select({ ...getTableColumns(applicationMessages), pageCursor: keysetCursorField(MESSAGE_ORDER) })
+		.from(applicationMessages)
+		.where(and(...conditions, keysetCondition(MESSAGE_ORDER, page)))
+		.orderBy(...keysetOrderBy(MESSAGE_ORDER))
+		.limit(page.limit + 1)
+		.offset(page.offset);
+
+	const [countResult] = await db
+		.select({ count: count() })
+		.from(applicationMessages)
+		.where(and(...conditions));
+
+	const readAt = new Date();
+	const read = await db
+		.update(applicationMessages)
+		.set({ readAt })
+		.where(
+			and(
+				eq(applicationMessages.applicationId, thread.applicationId),
+				ne(applicationMessages.senderId, userId),
+				isNull(applicationMessages.readAt)
+			)
+		)
+		.returning({ id: applicationMessages.id });
+
+	if (read.length > 0) {
+		const otherId = thread.role === "candidate" ? thread.employerId : thread.candidateId;
+		await publishRealtimeEvent(otherId, RealtimeEventTypes.MESSAGES_READ, {
+			applicationId: thread.applicationId,
+			readAt,
+		});
+	}
+
+	const readIds = new Set(read.map((message) => message.id));
+	const { items, pagination } = paginate(rows, page, countResult?.count || 0);
+
+	return {
+		messages: items.map((message) =>
+			messageView(readIds.has(message.id) ? { ...message, readAt } : message, thread)
+		),
+		pagination,
+	};
+}
+
+// ============================================
+// Send
+// ============================================
+
+export interface MessageAttachmentInput {
+	url: string;
+	name?: string;
+}
+
+/**
+ * Attachments must be message_attachment uploads made by the sender
+ * (signed upload public ids start with the uploader's user id)
+ */
+function validateAttachments(senderId: bigint, attachments: MessageAttachmentInput[]): MessageAttachment[] {
+	const issues: { url: string; error: string }[] = [];
+	const valid: MessageAttachment[] = [];
+
+	for (const attachment of attachments) {
+		const validation = validateCloudinaryUrl(attachment.url, UploadTypes.MESSAGE_ATTACHMENT);
+
+		if (!validation.valid) {
+			issues.push({ url: attachment.url, error: validation.error || "Invalid attachment" });
+		} else if (!validation.publicId?.startsWith(`${senderId}_`)) {
+			issues.push({ url: attachment.url, error: "Attachment was not uploaded by you" });
+		} else {
+			valid.push({ url: attachment.url, name: attachment.name || null, format: validation.format || null });
+		}
+	}
+
+	if (issues.length > 0) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "Invalid attachment",
+			reason: { attachments: issues },
+		});
+	}
+	return valid;
+}
+
+function preview(body: string): string {
+	const text = body.replace(/\s+/g, " ").trim();
+	return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Post a message to the thread. The recipient gets it live, and a
+ * notification when it is the first one they have not read yet.
+ */
+export async function sendMessage(
+	thread: MessageThread,
+	senderId: bigint,
+	input: { body: string; attachments?: MessageAttachmentInput[] }
+): Promise<ApplicationMessage> {
+	if (!isThreadOpen(thread)) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "This conversation is closed",
+		});
+	}
+
+	const attachments = validateAttachments(senderId, input.attachments ?? []);
+
+	const [message] = await db
+		.insert(applicationMessages)
+		.values({ applicationId: thread.applicationId, senderId, body: input.body, attachments })
+		.returning();
+
+	const toCandidate = thread.role === "employer";
+	const recipientId = toCandidate ? thread.candidateId : thread.employerId;
+	const senderName = toCandidate
+		? thread.companyName || thread.employerName || "The employer"
+		: thread.candidateName || "A candidate";
+
+	await publishRealtimeEvent(recipientId, RealtimeEventTypes.APPLICATION_MESSAGE, {
+		applicationId: thread.applicationId,
+		jobTitle: thread.jobTitle,
+		senderName,
+		message: messageView(message, { ...thread, role: toCandidate ? "candidate" : "employer" }),
+	});
+
+	const [unread] = await db
+		.select({ count: count() })
+		.from(applicationMessages)
+		.where(
+			and(
+				eq(applicationMessages.applicationId, thread.applicationId),
+				eq(applicationMessages.senderId, senderId),
+				isNull(applicationMessages.readAt)
+			)
+		);
+	if (unread?.count === 1) {
+		await notifyNewMessage(
+			recipientId,
+			toCandidate ? thread.candidateEmail : thread.employerEmail,
+			{
+				senderName,
+				jobTitle: thread.jobTitle,
+				preview: preview(input.body),
+				link: toCandidate ? "/applications" : "/employer/applications",
+			},
+			(toCandidate ? thread.candidateName : thread.companyName || thread.employerName) || undefined
+		);
+	}
+
+	return message;
+}
+
+// ============================================
+// Abuse Reports
+// ============================================
+
+/**
+ * Report a message received in the thread. One report per message per
+ * reporter (409 on a repeat).
+ */
+export async function reportMessage(
+	thread: MessageThread,
+	reporterId: bigint,
+	messageUuid: string,
+	input: { reason: MessageReportReasons; details?: string }
+): Promise<MessageReport> {
+	const notFound = new HTTPError({
+		httpStatus: StatusCodes.NOT_FOUND,
+		message: "Message not found",
+	});
+	if (!UUID_REGEX.test(messageUuid)) throw notFound;
+
+	const [message] = await db
+		.select({ id: applicationMessages.id, senderId: applicationMessages.senderId })
+		.from(applicationMessages)
+		.where(
+			and(
+				eq(applicationMessages.uuid, messageUuid),
+				eq(applicationMessages.applicationId, thread.applicationId)
+			)
+		)
+		.limit(1);
+
+	if (!message) throw notFound;
+	if (message.senderId === reporterId) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "You cannot report your own message",
+		});
+	}
+
+	const [report] = await db
+		.insert(messageReports)
+		.values({
+			messageId: message.id,
+			reportedBy: reporterId,
+			reason: input.reason,
+			details: input.details || null,
+		})
+		.onConflictDoNothing()
+		.returning();
+
+	if (!report) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.CONFLICT,
+			message: "You have already reported this message",
+		});
+	}
+	return report;
+}
+
+/**
+ * Close a report. "remove" hides the message from both participants and
+ * closes every open report on it.
+ */
+export async function resolveMessageReport(
+	reportId: bigint,
+	reviewerId: bigint,
+	decision: "dismiss" | "remove",
+	note?: string
+): Promise<MessageReport> {
+	return db.transaction(async (tx) => {
+		const now = new Date();
+		const [report] = await tx
+			.update(messageReports)
+			.set({
+				status: decision === "remove" ? MessageReportStatuses.ACTIONED : MessageReportStatuses.DISMISSED,
+				reviewedBy: reviewerId,
+				reviewedAt: now,
+				reviewNote: note || null,
+			})
+			.where(and(eq(messageReports.id, reportId), eq(messageReports.status, MessageReportStatuses.OPEN)))
+			.returning();
+
+		if (!report) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.NOT_FOUND,
+				message: "Open report not found",
+			});
+		}
+
+		if (decision === "remove") {
+			await tx
+				.update(applicationMessages)
+				.set({ hiddenAt: sql`coalesce(${applicationMessages.hiddenAt}, ${now})` })
+				.where(eq(applicationMessages.id, report.messageId));
+			await tx
+				.update(messageReports)
+				.set({
+					status: MessageReportStatuses.ACTIONED,
+					reviewedBy: reviewerId,
+					reviewedAt: now,
+					reviewNote: note || null,
+				})
+				.where(
+					and(
+						eq(messageReports.messageId, report.messageId),
+						eq(messageReports.status, MessageReportStatuses.OPEN)
+					)
+				);
+		}
+
+		return report;
+	});
+}
+
+export default {
+	getMessageThread,
+	messageView,
+	listMessages,
+	sendMessage,
+	reportMessage,
+	resolveMessageReport,
+};
@@ -0,0 +1,247 @@
+/**
+ * Application Status Service
+ * The application status state machine: which moves are allowed, applying a
+ * move together with its history row (and cancelling the interviews of an
+ * application leaving INTERVIEW), and the candidate-facing timeline
+ */
+
+import { and, asc, eq, gt, inArray, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import {
+	Application,
+	applications,
+	ApplicationStatuses,
+	applicationStatusHistory,
+	Interview,
+	interviews,
+	InterviewStatuses,
+	NewApplicationStatusHistoryEntry,
+} from "../db/index.ts";
+
+// ============================================
+// Transitions
+// ============================================
+
+/**
+ * Allowed next statuses. Hired and withdrawn are terminal; a rejected
+ * application can be reconsidered. Candidates may withdraw until shortlisted.
+ */
+export const APPLICATION_STATUS_TRANSITIONS: Record<ApplicationStatuses, ApplicationStatuses[]> = {
+	[ApplicationStatuses.PENDING]: [
+		ApplicationStatuses.REVIEWED,
+		ApplicationStatuses.SHORTLISTED,
+		ApplicationStatuses.INTERVIEW,
+		ApplicationStatuses.REJECTED,
+		ApplicationStatuses.WITHDRAWN,
+	],
+	[ApplicationStatuses.REVIEWED]: [
+		ApplicationStatuses.SHORTLISTED,
+		ApplicationStatuses.INTERVIEW,
+		ApplicationStatuses.REJECTED,
+		ApplicationStatuses.WITHDRAWN,
+	],
+	[ApplicationStatuses.SHORTLISTED]: [
+		ApplicationStatuses.INTERVIEW,
+		ApplicationStatuses.OFFERED,
+		ApplicationStatuses.REJECTED,
+		ApplicationStatuses.WITHDRAWN,
+	],
+	[ApplicationStatuses.INTERVIEW]: [
+		ApplicationStatuses.SHORTLISTED,
+		ApplicationStatuses.OFFERED,
+		ApplicationStatuses.REJECTED,
+	],
+	[ApplicationStatuses.OFFERED]: [ApplicationStatuses.HIRED, ApplicationStatuses.REJECTED],
+	[ApplicationStatuses.HIRED]: [],
+	[ApplicationStatuses.REJECTED]: [ApplicationStatuses.REVIEWED, ApplicationStatuses.SHORTLISTED],
+	[ApplicationStatuses.WITHDRAWN]: [],
+};
+
+export function canTransitionApplication(from: ApplicationStatuses, to: ApplicationStatuses): boolean {
+	return APPLICATION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertApplicationTransition(from: ApplicationStatuses, to: ApplicationStatuses): void {
+	if (!canTransitionApplication(from, to)) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: `Cannot change application status from ${from} to ${to}`,
+			reason: { from, to, allowed: APPLICATION_STATUS_TRANSITIONS[from] },
+		});
+	}
+}
+
+// Interviews the employer can still change and the candidate can still answer
+export const OPEN_INTERVIEW_STATUSES = [
+	InterviewStatuses.SCHEDULED,
+	InterviewStatuses.CONFIRMED,
+	InterviewStatuses.RESCHEDULE_REQUESTED,
+];
+
+// ============================================
+// Changes
+// ============================================
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ApplicationStatusChange {
+	applicationId: bigint;
+	from: ApplicationStatuses;
+	to: ApplicationStatuses;
+	changedBy: bigint | null; // null for system changes
+	note?: string | null;
+	set?: Partial<Pick<Application, "viewedAt" | "shortlistedAt" | "internalNotes" | "rating">>;
+}
+
+export interface ApplicationStatusChangeResult {
+	application: Application;
+	cancelledInterviews: Interview[]; // Send their CANCEL invites after commit (sendInterviewCancellations)
+}
+
+/**
+ * Cancel the upcoming open interviews of applications that are leaving
+ * INTERVIEW, as part of the transaction that moves them. The sequence goes up
+ * so queued reminders are skipped and the CANCEL invite replaces the entry.
+ */
+export async function cancelOpenInterviews(tx: Transaction, applicationIds: bigint[]): Promise<Interview[]> {
+	if (applicationIds.length === 0) return [];
+
+	const now = new Date();
+	return tx
+		.update(interviews)
+		.set({
+			status: InterviewStatuses.CANCELLED,
+			sequence: sql`${interviews.sequence} + 1`,
+			updatedAt: now,
+		})
+		.where(
+			and(
+				inArray(interviews.applicationId, applicationIds),
+				inArray(interviews.status, OPEN_INTERVIEW_STATUSES),
+				gt(interviews.scheduledAt, now)
+			)
+		)
+		.returning();
+}
+
+/**
+ * Move an application to a new status and record it in the history. Only
+ * applies while the application is still in `from`, so two concurrent
+ * changes cannot both succeed (409 for the loser). Leaving INTERVIEW cancels
+ * the application's upcoming interviews. Pass `tx` to make the change part
+ * of a larger write (it commits or rolls back with it).
+ */
+export async function changeApplicationStatus(
+	change: ApplicationStatusChange,
+	tx?: Transaction
+): Promise<ApplicationStatusChangeResult> {
+	assertApplicationTransition(change.from, change.to);
+
+	const apply = async (tx: Transaction) => {
+		const now = new Date();
+		const [updated] = await tx
+			.update(applications)
+			.set({
+				...change.set,
+				status: change.to,
+				statusChangedAt: now,
+				statusChangedBy: change.changedBy,
+				...(change.to === ApplicationStatuses.SHORTLISTED && { shortlistedAt: now }),
+				updatedAt: now,
+			})
+			.where(and(eq(applications.id, change.applicationId), eq(applications.status, change.from)))
+			.returning();
+
+		if (!updated) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.CONFLICT,
+				message: "Application status has changed. Reload and try again.",
+			});
+		}
+
+		await tx.insert(applicationStatusHistory).values({
+			applicationId: change.applicationId,
+			fromStatus: change.from,
+			toStatus: change.to,
+			changedBy: change.changedBy,
+			note: change.note || null,
+			createdAt: now,
+		});
+
+		const cancelledInterviews =
+			change.from === ApplicationStatuses.INTERVIEW ? await cancelOpenInterviews(tx, [change.applicationId]) : [];
+
+		return { application: updated, cancelledInterviews };
+	};
+
+	return tx ? apply(tx) : db.transaction(apply);
+}
+
+/**
+ * History rows for a new application: the submission and, when screening
+ * knocked it out, the automatic rejection
+ */
+export function submissionStatusHistory(
+	application: Pick<Application, "id" | "jobseekerId" | "status" | "appliedAt">,
+	note?: string
+): NewApplicationStatusHistoryEntry[] {
+	const entries: NewApplicationStatusHistoryEntry[] = [
+		{
+			applicationId: application.id,
+			fromStatus: null,
+			toStatus: ApplicationStatuses.PENDING,
+			changedBy: application.jobseekerId,
+			createdAt: application.appliedAt,
+		},
+	];
+
+	if (application.status !== ApplicationStatuses.PENDING) {
+		entries.push({
+			applicationId: application.id,
+			fromStatus: ApplicationStatuses.PENDING,
+			toStatus: application.status,
+			changedBy: null,
+			note: note || null,
+			createdAt: application.appliedAt,
+		});
+	}
+	return entries;
+}
+
+// ============================================
+// Timeline
+// ============================================
+
+/**
+ * Status history oldest first, for the candidate. Actors are reduced to
+ * candidate / employer / system so employer accounts are not exposed.
+ */
+export async function getApplicationTimeline(application: Pick<Application, "id" | "jobseekerId">) {
+	const entries = await db
+		.select({
+			fromStatus: applicationStatusHistory.fromStatus,
+			toStatus: applicationStatusHistory.toStatus,
+			changedBy: applicationStatusHistory.changedBy,
+			note: applicationStatusHistory.note,
+			changedAt: applicationStatusHistory.createdAt,
+		})
+		.from(applicationStatusHistory)
+		.where(eq(applicationStatusHistory.applicationId, application.id))
+		.orderBy(asc(applicationStatusHistory.createdAt), asc(applicationStatusHistory.id));
+
+	return entries.map(({ changedBy, ...entry }) => ({
+		...entry,
+		actor: changedBy === null ? "system" : changedBy === application.jobseekerId ? "candidate" : "employer",
+	}));
+}
+
+export default {
+	canTransitionApplication,
+	assertApplicationTransition,
+	cancelOpenInterviews,
+	changeApplicationStatus,
+	submissionStatusHistory,
+	getApplicationTimeline,
+};
@@ -46,26 +46,43 @@ export interface AuditLogEntry {
  */
 export async function auditLog(entry: AuditLogEntry): Promise<void> {
 	try {
-		await db.insert(auditLogs).values({
-			userId: entry.context.userId || null,
-			userEmail: entry.context.userEmail || null,
-			userType: entry.context.userType || null,
-			action: entry.action,
-			entityType: entry.entityType,
-			entityId: entry.entityId || null,
-			oldValues: entry.oldValues || null,
-			newValues: entry.newValues || null,
-			description: entry.description || null,
-			ipAddress: entry.context.ipAddress || null,
-			userAgent: entry.context.userAgent || null,
-			requestId: entry.context.requestId || null,
-		});
+		await db.insert(auditLogs).values(auditLogValues(entry));
 	} catch (error) {
 		// Log error but don't throw - audit logging should not break the main flow
 		console.error("[AuditService] Failed to create audit log:", error);
 	}
 }
 
+/**
+ * Create one audit log entry per entity in a single insert (bulk actions)
+ */
+export async function auditLogBatch(entries: AuditLogEntry[]): Promise<void> {
+	if (entries.length === 0) return;
+
+	try {
+		await db.insert(auditLogs).values(entries.map(auditLogValues));
+	} catch (error) {
+		console.error(`[AuditService] Failed to create ${entries.length} audit logs:`, error);
+	}
+}
+
+function auditLogValues(entry: AuditLogEntry) {
+	return {
+		userId: entry.context.userId || null,
+		userEmail: entry.context.userEmail || null,
+		userType: entry.context.userType || null,
+		action: entry.action,
+		entityType: entry.entityType,
+		entityId: entry.entityId || null,
+		oldValues: entry.oldValues || null,
+		newValues: entry.newValues || null,
+		description: entry.description || null,
+		ipAddress: entry.context.ipAddress || null,
+		userAgent: entry.context.userAgent || null,
+		requestId: entry.context.requestId || null,
+	};
+}
+
 /**
  * Create an audit log for entity creation
  */
@@ -209,6 +226,7 @@ export async function auditReject(
 
 export default {
 	auditLog,
+	auditLogBatch,
 	auditCreate,
 	auditUpdate,
 	auditDelete,
@@ -26,6 +26,7 @@ import { Service } from "../index.ts";
 import { hashPassword } from "../../utils/hashingTools.ts";
 import { assignRoleToUser } from "../permissionService.ts";
 import { RoleNames } from "../../config/permissions.ts";
+import { SupportedLocales } from "../../utils/i18n.ts";
 
 export const SignupDataSchema = z.object({
 	name: z.string().min(2, "Name must be at least 2 characters").max(100),
@@ -33,6 +34,7 @@ export const SignupDataSchema = z.object({
 	phone: getPhoneValidationSchema("Phone").optional(),
 	password: passwordValidationSchema,
 	userType: z.enum(["individual", "employer"]),
+	locale: z.nativeEnum(SupportedLocales).optional(), // Defaults to the request's Accept-Language
 });
 
 export type SignupData = z.infer<typeof SignupDataSchema>;
@@ -86,6 +88,7 @@ class SignupService extends Service<SignupData, SignupResult> {
 					phone: this.data.phone,
 					passwordHash: hashedPassword,
 					userType: this.data.userType,
+					locale: this.data.locale ?? null,
 					verificationStatus: VerificationStatuses.DRAFT,
 					emailVerified: false,
 					phoneVerified: false,
@@ -0,0 +1,40 @@
+/**
+ * Console Channel Provider
+ * Development stand-in: logs messages and optionally appends them to
+ * CHANNEL_OUTBOX_FILE (one JSON object per line) instead of sending anything.
+ */
+
+import { appendFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import type { ChannelMessage, ChannelProvider, ChannelSendResult } from "./index.ts";
+
+export default class ConsoleProvider implements ChannelProvider {
+	readonly name: string;
+	private channel: string;
+
+	constructor(channel: string) {
+		this.channel = channel;
+		this.name = `console:${channel}`;
+	}
+
+	async send(message: ChannelMessage): Promise<ChannelSendResult> {
+		const messageId = randomUUID();
+
+		console.log(`[${this.channel.toUpperCase()}] (console) To ${message.to}: ${message.body}`);
+
+		const outboxFile = process.env.CHANNEL_OUTBOX_FILE;
+		if (outboxFile) {
+			const entry = {
+				id: messageId,
+				channel: this.channel,
+				to: message.to,
+				body: message.body,
+				template: message.template || null,
+				sentAt: new Date().toISOString(),
+			};
+			await appendFile(outboxFile, JSON.stringify(entry) + "\n");
+		}
+
+		return { provider: this.name, messageId };
+	}
+}
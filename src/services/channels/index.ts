@@ -0,0 +1,83 @@
+/**
+ * Phone Channel Providers
+ * SMS and WhatsApp delivery behind a small provider interface.
+ * Providers are picked from env (SMS_PROVIDER / WHATSAPP_PROVIDER); anything
+ * unconfigured falls back to the console provider, which only logs/writes to a file.
+ */
+
+import ConsoleProvider from "./consoleProvider.ts";
+import TwilioSmsProvider from "./twilioSmsProvider.ts";
+import WhatsAppCloudProvider from "./whatsAppCloudProvider.ts";
+
+// ============================================
+// Types
+// ============================================
+
+export enum PhoneChannels {
+	SMS = "sms",
+	WHATSAPP = "whatsapp",
+}
+
+/**
+ * Pre-approved message template (WhatsApp requires one for business-initiated
+ * conversations). Providers without template support send `body` instead.
+ */
+export interface ChannelTemplate {
+	name: string;
+	language: string;
+	parameters: string[];
+}
+
+export interface ChannelMessage {
+	to: string; // E.164, e.g. +919926488445
+	body: string;
+	template?: ChannelTemplate;
+}
+
+export interface ChannelSendResult {
+	provider: string;
+	messageId: string | null;
+}
+
+export interface ChannelProvider {
+	readonly name: string;
+	send(message: ChannelMessage): Promise<ChannelSendResult>;
+}
+
+// ============================================
+// Provider Selection
+// ============================================
+
+const providers: Map<PhoneChannels, ChannelProvider> = new Map();
+
+function createProvider(channel: PhoneChannels): ChannelProvider {
+	if (channel === PhoneChannels.SMS && process.env.SMS_PROVIDER === "twilio") {
+		return new TwilioSmsProvider();
+	}
+	if (channel === PhoneChannels.WHATSAPP && process.env.WHATSAPP_PROVIDER === "cloud_api") {
+		return new WhatsAppCloudProvider();
+	}
+	return new ConsoleProvider(channel);
+}
+
+export function getChannelProvider(channel: PhoneChannels): ChannelProvider {
+	if (!providers.has(channel)) {
+		providers.set(channel, createProvider(channel));
+	}
+	return providers.get(channel)!;
+}
+
+/**
+ * Send directly (bypassing the queue) - used for OTPs
+ */
+export async function sendPhoneMessage(
+	channel: PhoneChannels,
+	message: ChannelMessage
+): Promise<ChannelSendResult> {
+	return getChannelProvider(channel).send(message);
+}
+
+export default {
+	getChannelProvider,
+	sendPhoneMessage,
+};
@@ -0,0 +1,42 @@
+/**
+ * Twilio SMS Provider
+ * https://www.twilio.com/docs/messaging/api/message-resource#create-a-message-resource
+ */
+
+import type { ChannelMessage, ChannelProvider, ChannelSendResult } from "./index.ts";
+
+export default class TwilioSmsProvider implements ChannelProvider {
+	readonly name = "twilio";
+	private accountSid = process.env.TWILIO_ACCOUNT_SID || "";
+	private authToken = process.env.TWILIO_AUTH_TOKEN || "";
+	private from = process.env.TWILIO_SMS_FROM || "";
+
+	async send(message: ChannelMessage): Promise<ChannelSendResult> {
+		if (!this.accountSid || !this.authToken || !this.from) {
+			throw new Error("Twilio SMS is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_FROM)");
+		}
+
+		const response = await fetch(
+			`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+			{
+				method: "POST",
+				headers: {
+					Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+					"Content-Type": "application/x-www-form-urlencoded",
+				},
+				body: new URLSearchParams({
+					To: message.to,
+					From: this.from,
+					Body: message.body,
+				}),
+			}
+		);
+
+		const result = (await response.json().catch(() => ({}))) as { sid?: string; message?: string };
+		if (!response.ok) {
+			throw new Error(`Twilio SMS failed (${response.status}): ${result.message || "Unknown error"}`);
+		}
+
+		return { provider: this.name, messageId: result.sid || null };
+	}
+}
@@ -0,0 +1,70 @@
+/**
+ * WhatsApp Business Cloud API Provider
+ * https://developers.facebook.com/docs/whatsapp/cloud-api/reference/messages
+ * Free-form text only reaches users inside the 24h customer-service window;
+ * pass an approved template for anything business-initiated (e.g. OTPs).
+ */
+
+import type { ChannelMessage, ChannelProvider, ChannelSendResult } from "./index.ts";
+
+const GRAPH_API_VERSION = process.env.WHATSAPP_API_VERSION || "v19.0";
+
+export default class WhatsAppCloudProvider implements ChannelProvider {
+	readonly name = "whatsapp_cloud_api";
+	private phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID || "";
+	private accessToken = process.env.WHATSAPP_ACCESS_TOKEN || "";
+
+	async send(message: ChannelMessage): Promise<ChannelSendResult> {
+		if (!this.phoneNumberId || !this.accessToken) {
+			throw new Error("WhatsApp Cloud API is not configured (WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN)");
+		}
+
+		const to = message.to.replace(/^\+/, "");
+		const payload = message.template
+			? {
+					messaging_product: "whatsapp",
+					to,
+					type: "template",
+					template: {
+						name: message.template.name,
+						language: { code: message.template.language },
+						components: [
+							{
+								type: "body",
+								parameters: message.template.parameters.map((text) => ({ type: "text", text })),
+							},
+						],
+					},
+				}
+			: {
+					messaging_product: "whatsapp",
+					to,
+					type: "text",
+					text: { body: message.body },
+				};
+
+		const response = await fetch(
+			`https://graph.facebook.com/${GRAPH_API_VERSION}/${this.phoneNumberId}/messages`,
+			{
+				method: "POST",
+				headers: {
+					Authorization: `Bearer ${this.accessToken}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify(payload),
+			}
+		);
+
+		const result = (await response.json().catch(() => ({}))) as {
+			messages?: { id: string }[];
+			error?: { message?: string };
+		};
+		if (!response.ok) {
+			throw new Error(
+				`WhatsApp send failed (${response.status}): ${result.error?.message || "Unknown error"}`
+			);
+		}
+
+		return { provider: this.name, messageId: result.messages?.[0]?.id || null };
+	}
+}
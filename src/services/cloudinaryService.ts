@@ -18,6 +18,7 @@ export const UploadTypes = {
 	KYC_DOCUMENT: "kyc_document",
 	PROFILE_PHOTO: "profile_photo",
 	COMPANY_LOGO: "company_logo",
+	MESSAGE_ATTACHMENT: "message_attachment",
 } as const;
 
 export type UploadType = (typeof UploadTypes)[keyof typeof UploadTypes];
@@ -64,6 +65,14 @@ const uploadConfigs: Record<UploadType, UploadConfig> = {
 		isPrivate: false,
 		tags: ["company-logo"],
 	},
+	[UploadTypes.MESSAGE_ATTACHMENT]: {
+		folder: "equalio/message-attachments",
+		resourceType: "auto",
+		allowedFormats: ["pdf", "doc", "docx", "jpg", "jpeg", "png"],
+		maxFileSizeBytes: 5 * 1024 * 1024,
+		isPrivate: true,
+		tags: ["message-attachment"],
+	},
 };
 
 // ============================================
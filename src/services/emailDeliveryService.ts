@@ -0,0 +1,362 @@
+/**
+ * Email Delivery Service
+ * Sends rendered templates over SMTP (with signed unsubscribe links), records
+ * every attempt in email_deliveries and maintains the suppression list
+ * (hard bounces, complaints, unsubscribes)
+ */
+
+import { and, eq, getTableColumns, ilike, sql } from "drizzle-orm";
+import nodemailer from "nodemailer";
+import { UnrecoverableError } from "bullmq";
+import { db } from "../config/database.ts";
+import {
+	emailDeliveries,
+	emailSuppressions,
+	EmailDelivery,
+	EmailDeliveryStatuses,
+	EmailSuppression,
+	EmailSuppressionReasons,
+	NotificationCategories,
+} from "../db/index.ts";
+import { addEmailJob, EmailJobData } from "./queueService.ts";
+import { renderEmailTemplate } from "./emailTemplateService.ts";
+import { emailTemplateDefinitions, FRONTEND_URL } from "./emailTemplates.ts";
+import { createUnsubscribeToken } from "../utils/jwt.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	PageRequest,
+	paginate,
+	Pagination,
+	sortKey,
+} from "../utils/pagination.ts";
+
+// ============================================
+// Email Configuration
+// ============================================
+
+const transporter = nodemailer.createTransport({
+	host: process.env.SMTP_HOST || "smtp.gmail.com",
+	port: parseInt(process.env.SMTP_PORT || "587"),
+	secure: process.env.SMTP_SECURE === "true",
+	auth: {
+		user: process.env.SMTP_USER,
+		pass: process.env.SMTP_PASS,
+	},
+});
+
+export const FROM_EMAIL = process.env.FROM_EMAIL || "noreply@equalio.com";
+const FROM_NAME = process.env.FROM_NAME || "Equalio";
+
+// Public base URL of this API (one-click unsubscribe POSTs come straight from mail providers)
+const API_URL = process.env.API_URL || "http://localhost:3001";
+
+// SMTP replies that mean the mailbox does not exist / will never accept mail
+const HARD_BOUNCE_CODES = [550, 551, 553];
+
+export function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase();
+}
+
+// ============================================
+// Suppression List
+// ============================================
+
+export async function getSuppression(email: string): Promise<EmailSuppression | null> {
+	const [suppression] = await db
+		.select()
+		.from(emailSuppressions)
+		.where(eq(emailSuppressions.email, normalizeEmail(email)))
+		.limit(1);
+
+	return suppression ?? null;
+}
+
+/**
+ * Unsubscribes only block non-essential templates; every other reason blocks all email
+ */
+export function isTemplateSuppressed(suppression: EmailSuppression, template: string): boolean {
+	if (suppression.reason === EmailSuppressionReasons.UNSUBSCRIBE) {
+		return !emailTemplateDefinitions[template]?.essential;
+	}
+	return true;
+}
+
+/**
+ * Add (or update) an address on the suppression list.
+ * An unsubscribe never downgrades an existing bounce/complaint/manual entry.
+ */
+export async function suppressEmail(
+	email: string,
+	reason: EmailSuppressionReasons,
+	options: { detail?: string; createdBy?: bigint } = {}
+): Promise<EmailSuppression> {
+	const existing = await getSuppression(email);
+	if (existing && reason === EmailSuppressionReasons.UNSUBSCRIBE) {
+		return existing;
+	}
+
+	const [suppression] = await db
+		.insert(emailSuppressions)
+		.values({
+			email: normalizeEmail(email),
+			reason: reason as any,
+			detail: options.detail || null,
+			createdBy: options.createdBy ?? null,
+		})
+		.onConflictDoUpdate({
+			target: emailSuppressions.email,
+			set: {
+				reason: reason as any,
+				detail: options.detail || null,
+				createdBy: options.createdBy ?? null,
+				updatedAt: new Date(),
+			},
+		})
+		.returning();
+
+	return suppression;
+}
+
+/**
+ * Remove an address from the suppression list (e.g. the user fixed their mailbox)
+ */
+export async function removeSuppression(email: string): Promise<EmailSuppression | null> {
+	const [removed] = await db
+		.delete(emailSuppressions)
+		.where(eq(emailSuppressions.email, normalizeEmail(email)))
+		.returning();
+
+	return removed ?? null;
+}
+
+const SUPPRESSION_ORDER = keyset("email-suppressions", [
+	sortKey(emailSuppressions.createdAt, "desc"),
+	sortKey(emailSuppressions.id, "desc"),
+]);
+
+export async function listSuppressions(filters: {
+	search?: string;
+	reason?: EmailSuppressionReasons;
+	page: PageRequest;
+}): Promise<{ suppressions: EmailSuppression[]; pagination: Pagination }> {
+	const conditions: any[] = [];
+	if (filters.search) {
+		conditions.push(ilike(emailSuppressions.email, `%${filters.search}%`));
+	}
+	if (filters.reason) {
+		conditions.push(eq(emailSuppressions.reason, filters.reason));
+	}
+	const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+	const rows = await db
+		.select({ ...getTableColumns(emailSuppressions), pageCursor: keysetCursorField(SUPPRESSION_ORDER) })
+		.from(emailSuppressions)
+		.where(and(where, keysetCondition(SUPPRESSION_ORDER, filters.page)))
+		.orderBy(...keysetOrderBy(SUPPRESSION_ORDER))
+		.limit(filters.page.limit + 1)
+		.offset(filters.page.offset);
+
+	const [countResult] = await db
+		.select({ count: sql<number>`count(*)::int` })
+		.from(emailSuppressions)
+		.where(where);
+
+	const { items: suppressions, pagination } = paginate(rows, filters.page, countResult?.count || 0);
+	return { suppressions, pagination };
+}
+
+// ============================================
+// Unsubscribe Links
+// ============================================
+
+export interface UnsubscribeLinks {
+	pageUrl: string; // Footer link: frontend confirmation page
+	oneClickUrl: string | null; // RFC 8058 List-Unsubscribe target; categorised emails only
+}
+
+/**
+ * Unsubscribe links for one email. Categorised, non-essential templates get a
+ * category link plus a one-click URL; everything else links to "all non-essential".
+ * `unsubscribeCategory` stands in for the category of templates that have none
+ * of their own (the digest).
+ */
+export async function getUnsubscribeLinks(
+	email: string,
+	template: string,
+	unsubscribeCategory?: string
+): Promise<UnsubscribeLinks> {
+	const definition = emailTemplateDefinitions[template];
+	const category =
+		definition && !definition.essential
+			? (definition.category ??
+				Object.values(NotificationCategories).find((value) => value === unsubscribeCategory))
+			: undefined;
+
+	const token = encodeURIComponent(await createUnsubscribeToken(normalizeEmail(email), category));
+
+	return {
+		pageUrl: `${FRONTEND_URL}/unsubscribe?token=${token}`,
+		oneClickUrl: category ? `${API_URL}/unsubscribe/${token}` : null,
+	};
+}
+
+// ============================================
+// Delivery Tracking
+// ============================================
+
+async function createDelivery(job: Omit<EmailJobData, "deliveryId">): Promise<EmailDelivery> {
+	const [delivery] = await db
+		.insert(emailDeliveries)
+		.values({
+			recipient: normalizeEmail(job.to),
+			template: job.template,
+			locale: job.locale || null,
+		})
+		.returning();
+
+	return delivery;
+}
+
+async function updateDelivery(
+	deliveryId: bigint,
+	values: Partial<Omit<EmailDelivery, "id" | "createdAt">>
+): Promise<void> {
+	await db
+		.update(emailDeliveries)
+		.set({ ...values, updatedAt: new Date() })
+		.where(eq(emailDeliveries.id, deliveryId));
+}
+
+function isHardBounce(error: any): boolean {
+	return (
+		(error?.code === "EENVELOPE" || error?.command === "RCPT TO") &&
+		HARD_BOUNCE_CODES.includes(error?.responseCode)
+	);
+}
+
+/**
+ * Record the email and queue it for the email worker
+ */
+export async function queueEmail(job: Omit<EmailJobData, "deliveryId">): Promise<EmailDelivery> {
+	const delivery = await createDelivery(job);
+	const queued = await addEmailJob({ ...job, deliveryId: delivery.id.toString() });
+
+	if (queued.id) {
+		await updateDelivery(delivery.id, { jobId: queued.id });
+	}
+	return { ...delivery, jobId: queued.id ?? null };
+}
+
+export interface DeliveryResult {
+	status: EmailDeliveryStatuses.SENT | EmailDeliveryStatuses.SUPPRESSED;
+	deliveryId: bigint;
+	source?: string;
+	version?: number | null;
+}
+
+/**
+ * Render and send one attempt of an email, updating its delivery record.
+ * Suppressed recipients are skipped (not an error). Hard bounces suppress the
+ * address and throw UnrecoverableError so the queue stops retrying; other
+ * failures are rethrown for the queue's backoff policy.
+ */
+export async function deliverEmail(
+	job: EmailJobData,
+	attempt: { number: number; maxAttempts: number } = { number: 1, maxAttempts: 1 }
+): Promise<DeliveryResult> {
+	// Immediate sends (and jobs queued before tracking existed) get their record here
+	const deliveryId = job.deliveryId ? BigInt(job.deliveryId) : (await createDelivery(job)).id;
+
+	const suppression = await getSuppression(job.to);
+	if (suppression && isTemplateSuppressed(suppression, job.template)) {
+		await updateDelivery(deliveryId, {
+			status: EmailDeliveryStatuses.SUPPRESSED,
+			lastError: `Recipient is on the suppression list (${suppression.reason})`,
+		});
+		return { status: EmailDeliveryStatuses.SUPPRESSED, deliveryId };
+	}
+
+	let subject: string | null = null;
+	let templateVersion: number | null = null;
+
+	try {
+		const unsubscribe = await getUnsubscribeLinks(job.to, job.template, job.unsubscribeCategory);
+		const rendered = await renderEmailTemplate(job.template, job.data, job.locale, {
+			unsubscribeUrl: unsubscribe.pageUrl,
+		});
+		subject = rendered.subject;
+		templateVersion = rendered.version;
+
+		const info = await transporter.sendMail({
+			from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
+			to: job.to,
+			subject: rendered.subject,
+			html: rendered.html,
+			attachments: job.attachments,
+			headers: unsubscribe.oneClickUrl
+				? {
+						"List-Unsubscribe": `<${unsubscribe.oneClickUrl}>`,
+						"List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+					}
+				: undefined,
+		});
+
+		await updateDelivery(deliveryId, {
+			status: EmailDeliveryStatuses.SENT,
+			subject,
+			templateVersion,
+			messageId: info.messageId || null,
+			attempts: attempt.number,
+			lastError: null,
+			sentAt: new Date(),
+		});
+
+		return {
+			status: EmailDeliveryStatuses.SENT,
+			deliveryId,
+			source: rendered.source,
+			version: rendered.version,
+		};
+	} catch (error: any) {
+		const message = error?.response || error?.message || String(error);
+
+		if (isHardBounce(error)) {
+			await suppressEmail(job.to, EmailSuppressionReasons.HARD_BOUNCE, { detail: message });
+			await updateDelivery(deliveryId, {
+				status: EmailDeliveryStatuses.BOUNCED,
+				subject,
+				templateVersion,
+				attempts: attempt.number,
+				lastError: message,
+			});
+			throw new UnrecoverableError(`Hard bounce for ${job.to}: ${message}`);
+		}
+
+		await updateDelivery(deliveryId, {
+			status:
+				attempt.number >= attempt.maxAttempts
+					? EmailDeliveryStatuses.FAILED
+					: EmailDeliveryStatuses.RETRYING,
+			subject,
+			templateVersion,
+			attempts: attempt.number,
+			lastError: message,
+		});
+		throw error;
+	}
+}
+
+export default {
+	normalizeEmail,
+	getSuppression,
+	isTemplateSuppressed,
+	suppressEmail,
+	removeSuppression,
+	listSuppressions,
+	getUnsubscribeLinks,
+	queueEmail,
+	deliverEmail,
+};
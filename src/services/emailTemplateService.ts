@@ -0,0 +1,428 @@
+/**
+ * Email Template Service
+ * Versioned template registry: published DB versions (per locale) override the
+ * built-in templates, and all data is validated against the template's zod variables.
+ */
+
+import { and, desc, eq, max, ne, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import { db } from "../config/database.ts";
+import { emailTemplates, EmailTemplate, EmailTemplateStatuses } from "../db/index.ts";
+import { HTTPError } from "../config/error.ts";
+import {
+	builtInEmailTemplates,
+	emailTemplateDefinitions,
+	EmailTemplateDefinition,
+	getBaseTemplate,
+	FRONTEND_URL,
+	SUPPORT_EMAIL,
+	RenderedEmail,
+	UNSUBSCRIBE_URL_PLACEHOLDER,
+} from "./emailTemplates.ts";
+import { DEFAULT_LOCALE, getLocalizedEmailTemplate } from "../utils/i18n.ts";
+
+// ============================================
+// Config
+// ============================================
+
+export const DEFAULT_EMAIL_LOCALE: string = DEFAULT_LOCALE;
+
+const CACHE_TTL_MS = 60 * 1000; // Workers pick up newly published versions within a minute
+
+// Available in every registry template without being declared
+const GLOBAL_VARIABLES: Record<string, string> = {
+	frontendUrl: FRONTEND_URL,
+	supportEmail: SUPPORT_EMAIL,
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+// Footer link when no recipient-specific unsubscribe link is given (previews, legacy callers)
+const DEFAULT_UNSUBSCRIBE_URL = `${FRONTEND_URL}/unsubscribe`;
+
+export interface RenderedEmailTemplate extends RenderedEmail {
+	source: "registry" | "built_in";
+	version: number | null;
+	locale: string;
+}
+
+// ============================================
+// Definitions & Validation
+// ============================================
+
+export function getTemplateDefinition(name: string): EmailTemplateDefinition {
+	const definition = emailTemplateDefinitions[name];
+	if (!definition) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.NOT_FOUND,
+			message: `Email template not found: ${name}`,
+		});
+	}
+	return definition;
+}
+
+/**
+ * Validate (and strip unknown keys from) template data
+ */
+export function validateTemplateData(
+	name: string,
+	data: Record<string, unknown>
+): Record<string, any> {
+	const result = getTemplateDefinition(name).variables.safeParse(data);
+	if (!result.success) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: `Invalid variables for email template: ${name}`,
+			reason: result.error.flatten().fieldErrors,
+		});
+	}
+	return result.data;
+}
+
+function getVariableNames(definition: EmailTemplateDefinition): string[] {
+	return Object.keys(definition.variables.shape);
+}
+
+function extractPlaceholders(text: string): string[] {
+	return [...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+function interpolate(text: string, variables: Record<string, unknown>, escape: boolean): string {
+	return text.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+		const value = variables[key];
+		if (value === undefined || value === null) return "";
+		return escape ? escapeHtml(String(value)) : String(value);
+	});
+}
+
+// ============================================
+// Published Version Lookup (cached)
+// ============================================
+
+const publishedCache: Map<string, { template: EmailTemplate | null; expiresAt: number }> =
+	new Map();
+
+async function getPublishedVersion(name: string, locale: string): Promise<EmailTemplate | null> {
+	const key = `${name}:${locale}`;
+	const cached = publishedCache.get(key);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.template;
+	}
+
+	const [template] = await db
+		.select()
+		.from(emailTemplates)
+		.where(
+			and(
+				eq(emailTemplates.name, name),
+				eq(emailTemplates.locale, locale),
+				eq(emailTemplates.status, EmailTemplateStatuses.PUBLISHED)
+			)
+		)
+		.limit(1);
+
+	publishedCache.set(key, { template: template ?? null, expiresAt: Date.now() + CACHE_TTL_MS });
+	return template ?? null;
+}
+
+/**
+ * Locale fallback chain: exact ("hi-IN") -> language ("hi") -> default ("en")
+ */
+function getLocaleChain(locale: string): string[] {
+	const chain = [locale, locale.split("-")[0], DEFAULT_EMAIL_LOCALE];
+	return [...new Set(chain)];
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+function renderVersion(
+	template: { subject: string; preheader: string | null; html: string; locale: string },
+	data: Record<string, unknown>
+): RenderedEmail {
+	const variables = { ...GLOBAL_VARIABLES, ...data };
+	return {
+		subject: interpolate(template.subject, variables, false),
+		html: getBaseTemplate(
+			interpolate(template.html, variables, true),
+			template.preheader ? interpolate(template.preheader, variables, true) : "",
+			template.locale
+		),
+	};
+}
+
+function withUnsubscribeUrl(
+	rendered: RenderedEmailTemplate,
+	unsubscribeUrl: string = DEFAULT_UNSUBSCRIBE_URL
+): RenderedEmailTemplate {
+	return { ...rendered, html: rendered.html.split(UNSUBSCRIBE_URL_PLACEHOLDER).join(unsubscribeUrl) };
+}
+
+async function renderForLocale(
+	name: string,
+	validated: Record<string, unknown>,
+	locale: string
+): Promise<RenderedEmailTemplate> {
+	for (const candidate of getLocaleChain(locale)) {
+		const published = await getPublishedVersion(name, candidate);
+		if (published) {
+			return {
+				...renderVersion(published, validated),
+				source: "registry",
+				version: published.version,
+				locale: candidate,
+			};
+		}
+
+		const translation = getLocalizedEmailTemplate(name, candidate);
+		if (translation) {
+			return {
+				...renderVersion({ ...translation, locale: candidate }, validated),
+				source: "built_in",
+				version: null,
+				locale: candidate,
+			};
+		}
+	}
+
+	return {
+		...builtInEmailTemplates[name](validated),
+		source: "built_in",
+		version: null,
+		locale: DEFAULT_EMAIL_LOCALE,
+	};
+}
+
+/**
+ * Render a template for sending: validates data, then for each locale in the
+ * fallback chain uses the published registry version, then the built-in
+ * translation; English falls back to the built-in template.
+ * The footer links to the recipient's unsubscribe URL when one is given.
+ */
+export async function renderEmailTemplate(
+	name: string,
+	data: Record<string, unknown>,
+	locale: string = DEFAULT_EMAIL_LOCALE,
+	options: { unsubscribeUrl?: string } = {}
+): Promise<RenderedEmailTemplate> {
+	const validated = validateTemplateData(name, data);
+	return withUnsubscribeUrl(await renderForLocale(name, validated, locale), options.unsubscribeUrl);
+}
+
+/**
+ * Render with the template's sample data (overridable) - a specific version
+ * (any status) when given, otherwise whatever would be sent right now
+ */
+export async function previewEmailTemplate(
+	name: string,
+	options: { version?: number; locale?: string; data?: Record<string, unknown> }
+): Promise<RenderedEmailTemplate> {
+	const definition = getTemplateDefinition(name);
+	const data = { ...definition.sampleData, ...options.data };
+
+	if (options.version === undefined) {
+		return renderEmailTemplate(name, data, options.locale);
+	}
+
+	const template = await getVersionOrThrow(name, options.version);
+	return withUnsubscribeUrl({
+		...renderVersion(template, validateTemplateData(name, data)),
+		source: "registry",
+		version: template.version,
+		locale: template.locale,
+	});
+}
+
+// ============================================
+// Registry Management
+// ============================================
+
+async function getVersionOrThrow(name: string, version: number): Promise<EmailTemplate> {
+	const [template] = await db
+		.select()
+		.from(emailTemplates)
+		.where(and(eq(emailTemplates.name, name), eq(emailTemplates.version, version)))
+		.limit(1);
+
+	if (!template) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.NOT_FOUND,
+			message: `Version ${version} of email template ${name} not found`,
+		});
+	}
+	return template;
+}
+
+/**
+ * All known templates with their variables and currently published versions
+ */
+export async function listEmailTemplates() {
+	const published = await db
+		.select({
+			name: emailTemplates.name,
+			locale: emailTemplates.locale,
+			version: emailTemplates.version,
+			publishedAt: emailTemplates.publishedAt,
+		})
+		.from(emailTemplates)
+		.where(eq(emailTemplates.status, EmailTemplateStatuses.PUBLISHED));
+
+	const latest = await db
+		.select({ name: emailTemplates.name, latestVersion: max(emailTemplates.version) })
+		.from(emailTemplates)
+		.groupBy(emailTemplates.name);
+
+	return Object.entries(emailTemplateDefinitions).map(([name, definition]) => ({
+		name,
+		description: definition.description,
+		variables: getVariableNames(definition),
+		latestVersion: latest.find((row) => row.name === name)?.latestVersion ?? null,
+		published: published
+			.filter((row) => row.name === name)
+			.map(({ name: _, ...row }) => row),
+	}));
+}
+
+/**
+ * Every stored version of a template (newest first)
+ */
+export async function getTemplateVersions(name: string) {
+	const definition = getTemplateDefinition(name);
+
+	const versions = await db
+		.select()
+		.from(emailTemplates)
+		.where(eq(emailTemplates.name, name))
+		.orderBy(desc(emailTemplates.version));
+
+	return {
+		name,
+		description: definition.description,
+		variables: getVariableNames(definition),
+		globalVariables: Object.keys(GLOBAL_VARIABLES),
+		sampleData: definition.sampleData,
+		versions,
+	};
+}
+
+/**
+ * Create a new draft version. Placeholders must reference declared variables.
+ */
+export async function createTemplateVersion(
+	name: string,
+	content: { locale?: string; subject: string; preheader?: string; html: string },
+	createdBy: bigint
+): Promise<EmailTemplate> {
+	const definition = getTemplateDefinition(name);
+
+	const allowed = new Set([...getVariableNames(definition), ...Object.keys(GLOBAL_VARIABLES)]);
+	const unknown = [
+		...new Set(
+			extractPlaceholders(`${content.subject} ${content.preheader ?? ""} ${content.html}`)
+		),
+	].filter((key) => !allowed.has(key));
+
+	if (unknown.length > 0) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "Template references unknown variables",
+			reason: { unknownVariables: unknown, allowedVariables: [...allowed] },
+		});
+	}
+
+	// Serialise version numbering per template name so concurrent drafts
+	// cannot both take max(version) + 1
+	return db.transaction(async (tx) => {
+		await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`email_template:${name}`}))`);
+
+		const [current] = await tx
+			.select({ latestVersion: max(emailTemplates.version) })
+			.from(emailTemplates)
+			.where(eq(emailTemplates.name, name));
+
+		const [template] = await tx
+			.insert(emailTemplates)
+			.values({
+				name,
+				version: (current?.latestVersion ?? 0) + 1,
+				locale: content.locale || DEFAULT_EMAIL_LOCALE,
+				subject: content.subject,
+				preheader: content.preheader || null,
+				html: content.html,
+				createdBy,
+			})
+			.returning();
+
+		return template;
+	});
+}
+
+/**
+ * Publish a version, archiving the previously published version for its locale
+ */
+export async function publishTemplateVersion(
+	name: string,
+	version: number,
+	publishedBy: bigint
+): Promise<{ template: EmailTemplate; previousVersion: number | null }> {
+	getTemplateDefinition(name);
+	const target = await getVersionOrThrow(name, version);
+
+	if (target.status === EmailTemplateStatuses.PUBLISHED) {
+		return { template: target, previousVersion: null };
+	}
+
+	const now = new Date();
+	const result = await db.transaction(async (tx) => {
+		const archived = await tx
+			.update(emailTemplates)
+			.set({ status: EmailTemplateStatuses.ARCHIVED, updatedAt: now })
+			.where(
+				and(
+					eq(emailTemplates.name, name),
+					eq(emailTemplates.locale, target.locale),
+					eq(emailTemplates.status, EmailTemplateStatuses.PUBLISHED),
+					ne(emailTemplates.id, target.id)
+				)
+			)
+			.returning({ version: emailTemplates.version });
+
+		const [template] = await tx
+			.update(emailTemplates)
+			.set({
+				status: EmailTemplateStatuses.PUBLISHED,
+				publishedAt: now,
+				publishedBy,
+				updatedAt: now,
+			})
+			.where(eq(emailTemplates.id, target.id))
+			.returning();
+
+		return { template, previousVersion: archived[0]?.version ?? null };
+	});
+
+	publishedCache.delete(`${name}:${target.locale}`);
+	return result;
+}
+
+export default {
+	DEFAULT_EMAIL_LOCALE,
+	getTemplateDefinition,
+	validateTemplateData,
+	renderEmailTemplate,
+	previewEmailTemplate,
+	listEmailTemplates,
+	getTemplateVersions,
+	createTemplateVersion,
+	publishTemplateVersion,
+};
@@ -0,0 +1,1426 @@
+/**
+ * Built-in Email Templates
+ * Code-defined layouts used when no published version exists in the template registry
+ * (see emailTemplateService), plus the shared base layout and variable schemas.
+ */
+
+import { z } from "zod";
+import { NotificationCategories } from "../db/index.ts";
+import { getEmailLayoutStrings, isRtlLocale } from "../utils/i18n.ts";
+
+export const SUPPORT_EMAIL = process.env.SUPPORT_EMAIL || "support@equalio.com";
+export const COMPANY_ADDRESS = process.env.COMPANY_ADDRESS || "Equalio Technologies Pvt. Ltd., India";
+export const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+
+// Replaced with the recipient's signed unsubscribe link at send time (see emailTemplateService)
+export const UNSUBSCRIBE_URL_PLACEHOLDER = "%%UNSUBSCRIBE_URL%%";
+
+// Free text written by other users (employer messages): escaped, line breaks kept
+function userTextToHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/\r?\n/g, "<br>");
+}
+
+// ============================================
+// Base Email Template (Professional Design)
+// ============================================
+
+export const getBaseTemplate = (content: string, preheader: string = "", locale: string = "en") => {
+	const layout = getEmailLayoutStrings(locale);
+	const rtl = isRtlLocale(locale);
+
+	return `
+<!DOCTYPE html>
+<html lang="${locale}" dir="${rtl ? "rtl" : "ltr"}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="X-UA-Compatible" content="IE=edge">
+  <title>Equalio</title>
+  <style>
+    /* Reset styles */
+    body, table, td, p, a, li { -webkit-text-size-adjust: 100%; -ms-text-size-adjust: 100%; }
+    table, td { mso-table-lspace: 0pt; mso-table-rspace: 0pt; }
+    img { -ms-interpolation-mode: bicubic; border: 0; outline: none; text-decoration: none; }
+    
+    /* Base styles */
+    body {
+      margin: 0;
+      padding: 0;
+      width: 100%;
+      background-color: #f4f6f9;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      color: #1a1a2e;
+    }
+    
+    .email-wrapper {
+      width: 100%;
+      max-width: 600px;
+      margin: 0 auto;
+      background-color: #ffffff;
+    }
+    
+    .email-header {
+      background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%);
+      padding: 32px 40px;
+      text-align: center;
+    }
+    
+    .logo {
+      font-size: 28px;
+      font-weight: 700;
+      color: #ffffff;
+      text-decoration: none;
+      letter-spacing: -0.5px;
+    }
+    
+    .logo span {
+      color: #4ade80;
+    }
+    
+    .email-body {
+      padding: 40px;
+      background-color: #ffffff;
+    }
+    
+    .email-content h1 {
+      font-size: 24px;
+      font-weight: 600;
+      color: #1a1a2e;
+      margin: 0 0 16px 0;
+      line-height: 1.3;
+    }
+    
+    .email-content p {
+      font-size: 16px;
+      color: #4a5568;
+      margin: 0 0 16px 0;
+      line-height: 1.7;
+    }
+    
+    .email-content .greeting {
+      font-size: 16px;
+      color: #1a1a2e;
+      margin-bottom: 24px;
+    }
+    
+    .btn {
+      display: inline-block;
+      padding: 14px 32px;
+      background: linear-gradient(135deg, #4ade80 0%, #22c55e 100%);
+      color: #ffffff !important;
+      text-decoration: none;
+      border-radius: 8px;
+      font-weight: 600;
+      font-size: 16px;
+      text-align: center;
+      margin: 24px 0;
+      box-shadow: 0 4px 14px rgba(74, 222, 128, 0.25);
+    }
+    
+    .btn:hover {
+      background: linear-gradient(135deg, #22c55e 0%, #16a34a 100%);
+    }
+    
+    .btn-secondary {
+      background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%);
+      box-shadow: 0 4px 14px rgba(26, 26, 46, 0.15);
+    }
+    
+    .info-box {
+      background-color: #f8fafc;
+      border-left: 4px solid #4ade80;
+      padding: 16px 20px;
+      margin: 24px 0;
+      border-radius: 0 8px 8px 0;
+    }
+    
+    .info-box p {
+      margin: 0;
+      font-size: 14px;
+    }
+    
+    .warning-box {
+      background-color: #fef3c7;
+      border-left: 4px solid #f59e0b;
+      padding: 16px 20px;
+      margin: 24px 0;
+      border-radius: 0 8px 8px 0;
+    }
+    
+    .warning-box p {
+      margin: 0;
+      font-size: 14px;
+      color: #92400e;
+    }
+    
+    .error-box {
+      background-color: #fee2e2;
+      border-left: 4px solid #ef4444;
+      padding: 16px 20px;
+      margin: 24px 0;
+      border-radius: 0 8px 8px 0;
+    }
+    
+    .error-box p {
+      margin: 0;
+      font-size: 14px;
+      color: #991b1b;
+    }
+    
+    .success-box {
+      background-color: #dcfce7;
+      border-left: 4px solid #22c55e;
+      padding: 16px 20px;
+      margin: 24px 0;
+      border-radius: 0 8px 8px 0;
+    }
+    
+    .success-box p {
+      margin: 0;
+      font-size: 14px;
+      color: #166534;
+    }
+    
+    .code-box {
+      background-color: #1a1a2e;
+      color: #ffffff;
+      font-size: 32px;
+      font-weight: 700;
+      letter-spacing: 8px;
+      text-align: center;
+      padding: 20px 32px;
+      border-radius: 8px;
+      margin: 24px 0;
+    }
+    
+    .details-table {
+      width: 100%;
+      margin: 24px 0;
+      border-collapse: collapse;
+    }
+    
+    .details-table td {
+      padding: 12px 0;
+      border-bottom: 1px solid #e2e8f0;
+      font-size: 14px;
+    }
+    
+    .details-table td:first-child {
+      color: #64748b;
+      width: 40%;
+    }
+    
+    .details-table td:last-child {
+      color: #1a1a2e;
+      font-weight: 500;
+    }
+    
+    .steps-list {
+      margin: 24px 0;
+      padding-left: 0;
+      list-style: none;
+    }
+    
+    .steps-list li {
+      position: relative;
+      padding: 12px 0 12px 40px;
+      font-size: 15px;
+      color: #4a5568;
+      border-bottom: 1px solid #f1f5f9;
+    }
+    
+    .steps-list li:before {
+      content: attr(data-step);
+      position: absolute;
+      left: 0;
+      width: 28px;
+      height: 28px;
+      background: linear-gradient(135deg, #4ade80 0%, #22c55e 100%);
+      color: #ffffff;
+      border-radius: 50%;
+      font-size: 14px;
+      font-weight: 600;
+      text-align: center;
+      line-height: 28px;
+    }
+    
+    .email-footer {
+      background-color: #f8fafc;
+      padding: 32px 40px;
+      text-align: center;
+      border-top: 1px solid #e2e8f0;
+    }
+    
+    .footer-links {
+      margin-bottom: 20px;
+    }
+    
+    .footer-links a {
+      color: #64748b;
+      text-decoration: none;
+      font-size: 13px;
+      margin: 0 12px;
+    }
+    
+    .footer-links a:hover {
+      color: #4ade80;
+    }
+    
+    .footer-text {
+      font-size: 12px;
+      color: #94a3b8;
+      margin: 8px 0;
+      line-height: 1.6;
+    }
+    
+    .footer-legal {
+      font-size: 11px;
+      color: #94a3b8;
+      margin-top: 20px;
+      padding-top: 20px;
+      border-top: 1px solid #e2e8f0;
+      line-height: 1.6;
+    }
+    
+    .security-notice {
+      font-size: 12px;
+      color: #64748b;
+      margin-top: 24px;
+      padding: 16px;
+      background-color: #f8fafc;
+      border-radius: 8px;
+      text-align: center;
+    }
+    
+    .security-notice a {
+      color: #ef4444;
+      text-decoration: underline;
+    }
+    
+    /* Mobile responsive */
+    @media only screen and (max-width: 600px) {
+      .email-wrapper {
+        width: 100% !important;
+      }
+      .email-header, .email-body, .email-footer {
+        padding: 24px 20px !important;
+      }
+      .email-content h1 {
+        font-size: 20px !important;
+      }
+      .btn {
+        display: block;
+        width: 100%;
+        box-sizing: border-box;
+      }
+      .code-box {
+        font-size: 24px;
+        letter-spacing: 4px;
+      }
+    }
+    ${rtl ? `
+    /* Right-to-left (Urdu) */
+    .email-body, .email-footer {
+      direction: rtl;
+      text-align: right;
+    }
+    .info-box, .warning-box, .error-box, .success-box {
+      border-left: none;
+      border-right: 4px solid;
+      border-radius: 8px 0 0 8px;
+    }
+    .info-box { border-right-color: #4ade80; }
+    .warning-box { border-right-color: #f59e0b; }
+    .error-box { border-right-color: #ef4444; }
+    .success-box { border-right-color: #22c55e; }
+    .email-content ul, .email-content ol {
+      padding-left: 0 !important;
+      padding-right: 20px;
+    }
+    .email-footer, .footer-links {
+      text-align: center;
+    }
+    ` : ""}
+  </style>
+</head>
+<body>
+  <!-- Preheader text (hidden preview text) -->
+  <div style="display: none; max-height: 0; overflow: hidden;">
+    ${preheader}
+  </div>
+  
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background-color: #f4f6f9;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" class="email-wrapper" cellpadding="0" cellspacing="0">
+          <!-- Header -->
+          <tr>
+            <td class="email-header">
+              <a href="${FRONTEND_URL}" class="logo">Equalio</a>
+            </td>
+          </tr>
+          
+          <!-- Body -->
+          <tr>
+            <td class="email-body">
+              <div class="email-content">
+                ${content}
+              </div>
+            </td>
+          </tr>
+          
+          <!-- Footer -->
+          <tr>
+            <td class="email-footer">
+              <div class="footer-links">
+                <a href="${FRONTEND_URL}/help">${layout.helpCenter}</a>
+                <a href="${FRONTEND_URL}/privacy">${layout.privacyPolicy}</a>
+                <a href="${FRONTEND_URL}/terms">${layout.termsOfService}</a>
+              </div>
+              <p class="footer-text">
+                ${layout.needHelp} <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a>
+              </p>
+              <div class="footer-legal">
+                <p style="margin: 0;">© ${new Date().getFullYear()} Equalio. ${layout.allRightsReserved}</p>
+                <p style="margin: 4px 0 0 0;">${COMPANY_ADDRESS}</p>
+                <p style="margin: 12px 0 0 0;">
+                  ${layout.accountNotice}
+                  <br>
+                  <a href="${UNSUBSCRIBE_URL_PLACEHOLDER}" style="color: #64748b;">${layout.unsubscribe}</a> ${layout.unsubscribeSuffix}
+                </p>
+              </div>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+};
+
+// ============================================
+// Built-in Templates
+// ============================================
+
+export interface RenderedEmail {
+	subject: string;
+	html: string;
+}
+
+export const builtInEmailTemplates: Record<string, (data: any) => RenderedEmail> = {
+	// ============================================
+	// Registration & Verification
+	// ============================================
+	
+	registration_success: (data) => ({
+		subject: "Welcome to Equalio - Let's Get Started",
+		html: getBaseTemplate(`
+			<h1>Welcome to Equalio!</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Thank you for joining Equalio - your trusted platform for connecting talent with opportunities.</p>
+			
+			<p>To get started, please verify your email address and complete your profile:</p>
+			
+			<a href="${FRONTEND_URL}/verify-email?token=${data.verificationToken}" class="btn">Verify Your Email</a>
+			
+			<ul class="steps-list">
+				<li data-step="1">Verify your email address</li>
+				<li data-step="2">Complete your profile information</li>
+				<li data-step="3">Submit verification documents (KYC)</li>
+			</ul>
+			
+			<div class="info-box">
+				<p><strong>Note:</strong> Verification typically takes 1-3 business days. You'll receive an email once approved.</p>
+			</div>
+			
+			<div class="security-notice">
+				🔒 This link expires in 24 hours for your security.<br>
+				If you didn't create this account, please <a href="mailto:${SUPPORT_EMAIL}">contact us immediately</a>.
+			</div>
+		`, "Welcome! Verify your email to get started."),
+	}),
+
+	email_verification: (data) => ({
+		subject: "Verify Your Email - Equalio",
+		html: getBaseTemplate(`
+			<h1>Verify Your Email Address</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Please click the button below to verify your email address and activate your account.</p>
+			
+			<a href="${FRONTEND_URL}/verify-email?token=${data.verificationToken}" class="btn">Verify Email Address</a>
+			
+			<div class="warning-box">
+				<p>⏰ This verification link expires in <strong>24 hours</strong>.</p>
+			</div>
+			
+			<div class="security-notice">
+				🔒 If you didn't request this verification, please ignore this email.<br>
+				Your account remains secure and no action is needed.
+			</div>
+		`, "Verify your email to activate your Equalio account."),
+	}),
+
+	// ============================================
+	// KYC / Verification Status
+	// ============================================
+
+	kyc_submitted: (data) => ({
+		subject: "Documents Received - We're Reviewing Your Application",
+		html: getBaseTemplate(`
+			<h1>We've Received Your Documents</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Thank you for submitting your verification documents. Your trust means everything to us.</p>
+			
+			<div class="success-box">
+				<p>✓ Your documents have been successfully uploaded and are in our review queue.</p>
+			</div>
+			
+			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">What happens next?</h3>
+			<ul class="steps-list">
+				<li data-step="1">Our team reviews your submitted documents</li>
+				<li data-step="2">We verify the authenticity of your information</li>
+				<li data-step="3">You'll receive an email with the verification result</li>
+			</ul>
+			
+			<div class="info-box">
+				<p>📅 <strong>Timeline:</strong> Verification typically takes 1-3 business days. We'll email you as soon as the review is complete.</p>
+			</div>
+			
+			<p>In the meantime, feel free to explore your dashboard and familiarize yourself with our platform.</p>
+			
+			<a href="${FRONTEND_URL}/dashboard" class="btn btn-secondary">Go to Dashboard</a>
+		`, "Your verification documents are being reviewed."),
+	}),
+
+	kyc_approved: (data) => ({
+		subject: "🎉 Congratulations! Your Verification is Approved",
+		html: getBaseTemplate(`
+			<h1>You're Verified!</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Great news! Your verification has been approved. You now have full access to all Equalio features.</p>
+			
+			<div class="success-box">
+				<p>✓ <strong>Account Status:</strong> Verified</p>
+			</div>
+			
+			<p>You can now:</p>
+			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
+				${data.userType === 'employer' 
+					? `<li>Post job listings and reach qualified candidates</li>
+					   <li>Access candidate profiles and contact information</li>
+					   <li>Manage applications and schedule interviews</li>`
+					: `<li>Apply to verified job opportunities</li>
+					   <li>Connect with trusted employers</li>
+					   <li>Showcase your skills and experience</li>`
+				}
+			</ul>
+			
+			<a href="${FRONTEND_URL}/dashboard" class="btn">Explore Your Dashboard</a>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">Thank you for trusting Equalio. We're committed to providing you with a safe and reliable platform.</p>
+		`, "Your Equalio account is now fully verified!"),
+	}),
+
+	kyc_rejected: (data) => ({
+		subject: "Action Required: Verification Update Needed",
+		html: getBaseTemplate(`
+			<h1>Verification Requires Your Attention</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>We reviewed your verification documents but were unable to complete the verification process.</p>
+			
+			<div class="error-box">
+				<p><strong>Reason:</strong> ${data.reason || "The submitted documents did not meet our verification requirements."}</p>
+			</div>
+			
+			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">How to resolve this:</h3>
+			<ol style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
+				<li>Review the reason mentioned above</li>
+				<li>Ensure your documents are clear and legible</li>
+				<li>Submit updated documents through your profile</li>
+			</ol>
+			
+			<a href="${FRONTEND_URL}/kyc" class="btn">Resubmit Documents</a>
+			
+			<div class="info-box">
+				<p>💡 <strong>Tips for successful verification:</strong><br>
+				• Use high-quality images with good lighting<br>
+				• Ensure all text is clearly readable<br>
+				• Make sure the document is not expired</p>
+			</div>
+			
+			<p style="margin-top: 24px;">Need help? Our support team is here to assist you at <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a></p>
+		`, "Please resubmit your verification documents."),
+	}),
+
+	kyc_resubmission_requested: (data) => ({
+		subject: "Document Resubmission Required - Equalio",
+		html: getBaseTemplate(`
+			<h1>Please Resubmit Your Documents</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>We need you to resubmit your verification documents to complete the verification process.</p>
+			
+			<div class="warning-box">
+				<p><strong>Reason:</strong> ${data.reason || "Additional verification is required."}</p>
+			</div>
+			
+			<p>Please log in to your account and upload the required documents again.</p>
+			
+			<a href="${FRONTEND_URL}/kyc" class="btn">Upload Documents</a>
+			
+			<div class="info-box">
+				<p>If you have any questions about what documents are needed, please contact our support team.</p>
+			</div>
+		`, "Please resubmit your verification documents."),
+	}),
+
+	// ============================================
+	// Account Status
+	// ============================================
+
+	account_suspended: (data) => ({
+		subject: "Important: Your Account Has Been Suspended",
+		html: getBaseTemplate(`
+			<h1>Account Suspension Notice</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>We regret to inform you that your Equalio account has been suspended.</p>
+			
+			<div class="error-box">
+				<p><strong>Reason:</strong> ${data.reason || "Policy violation detected."}</p>
+			</div>
+			
+			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">What this means:</h3>
+			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
+				<li>You cannot access your account at this time</li>
+				<li>Any active job postings or applications have been paused</li>
+			</ul>
+			
+			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">Appeal Process:</h3>
+			<p>If you believe this suspension was made in error, you may submit an appeal by contacting our support team with:</p>
+			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
+				<li>Your registered email address</li>
+				<li>A detailed explanation of the situation</li>
+				<li>Any supporting documentation</li>
+			</ul>
+			
+			<p>Contact us at: <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a></p>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">We take the integrity of our platform seriously to protect all our users.</p>
+		`, "Your account has been suspended. Please contact support."),
+	}),
+
+	account_deactivated: (data) => ({
+		subject: "Your Equalio Account Has Been Deactivated",
+		html: getBaseTemplate(`
+			<h1>Account Deactivation Notice</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Your Equalio account has been deactivated by our administration team.</p>
+			
+			<div class="warning-box">
+				<p><strong>Reason provided:</strong> ${data.reason || "No reason was specified."}</p>
+			</div>
+			
+			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">What this means:</h3>
+			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
+				<li>You will not be able to log in to your account</li>
+				<li>Your profile and data remain stored but are not accessible</li>
+			</ul>
+			
+			<p>If you believe this was done in error or wish to appeal, please contact our support team with your registered email and a brief explanation.</p>
+			
+			<p>Contact us at: <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a></p>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">We are committed to transparency in all account actions.</p>
+		`, "Your account has been deactivated. Reason provided."),
+	}),
+
+	// ============================================
+	// Job Applications
+	// ============================================
+
+	application_status: (data) => ({
+		subject: `Application Update: ${data.status} - ${data.jobTitle}`,
+		html: getBaseTemplate(`
+			<h1>Application Status Update</h1>
+			<p class="greeting">Dear ${data.userName || "Applicant"},</p>
+			<p>We have an update regarding your job application.</p>
+			
+			<table class="details-table">
+				<tr>
+					<td>Position</td>
+					<td><strong>${data.jobTitle}</strong></td>
+				</tr>
+				<tr>
+					<td>Company</td>
+					<td>${data.companyName}</td>
+				</tr>
+				<tr>
+					<td>New Status</td>
+					<td><strong style="color: ${data.status === 'Rejected' ? '#ef4444' : '#22c55e'}">${data.status}</strong></td>
+				</tr>
+			</table>
+			
+			${data.status === 'Shortlisted' ? `
+				<div class="success-box">
+					<p>🎉 Congratulations! The employer is interested in your profile. You may be contacted for the next steps.</p>
+				</div>
+			` : data.status === 'Rejected' ? `
+				<div class="info-box">
+					<p>Don't be discouraged! There are many more opportunities waiting for you on Equalio.</p>
+				</div>
+				<a href="${FRONTEND_URL}/jobs" class="btn">Browse More Jobs</a>
+			` : ''}
+			
+			<a href="${FRONTEND_URL}/applications" class="btn btn-secondary">View Application Details</a>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">Keep your profile updated to improve your chances with future applications.</p>
+		`, `Your application for ${data.jobTitle} has been updated.`),
+	}),
+
+	new_application_received: (data) => ({
+		subject: `New Application Received: ${data.jobTitle}`,
+		html: getBaseTemplate(`
+			<h1>New Application Received</h1>
+			<p class="greeting">Dear ${data.employerName || "Employer"},</p>
+			<p>A new candidate has applied for your job posting.</p>
+			
+			<table class="details-table">
+				<tr>
+					<td>Position</td>
+					<td><strong>${data.jobTitle}</strong></td>
+				</tr>
+				<tr>
+					<td>Applicant Name</td>
+					<td>${data.applicantName}</td>
+				</tr>
+				<tr>
+					<td>Applied On</td>
+					<td>${new Date().toLocaleDateString('en-IN', { dateStyle: 'medium' })}</td>
+				</tr>
+			</table>
+			
+			<a href="${FRONTEND_URL}/employer/applications" class="btn">Review Application</a>
+			
+			<div class="info-box">
+				<p>💡 <strong>Tip:</strong> Respond to applications promptly to secure top talent before they're hired elsewhere.</p>
+			</div>
+		`, `New application for ${data.jobTitle}`),
+	}),
+
+	// ============================================
+	// Interviews
+	// ============================================
+
+	interview_invitation: (data) => ({
+		subject: `${data.rescheduled ? "Interview Rescheduled" : "Interview Invitation"}: ${data.jobTitle} at ${data.companyName}`,
+		html: getBaseTemplate(`
+			<h1>${data.rescheduled ? "Your Interview Has Been Rescheduled" : "You're Invited to an Interview"}</h1>
+			<p class="greeting">Dear ${data.userName || "Applicant"},</p>
+			<p>${data.rescheduled ? `${data.companyName} has updated your interview for ${data.jobTitle}.` : `${data.companyName} would like to interview you for ${data.jobTitle}.`}</p>
+			
+			<table class="details-table">
+				<tr>
+					<td>When</td>
+					<td><strong>${data.when}</strong> (${data.durationMinutes} minutes)</td>
+				</tr>
+				<tr>
+					<td>Mode</td>
+					<td>${data.mode}</td>
+				</tr>
+				${data.location ? `<tr>
+					<td>${data.mode === "Phone" ? "Phone" : "Location"}</td>
+					<td>${data.location}</td>
+				</tr>` : ""}
+				${data.meetingUrl ? `<tr>
+					<td>Meeting Link</td>
+					<td><a href="${data.meetingUrl}">${data.meetingUrl}</a></td>
+				</tr>` : ""}
+				${data.interviewerName ? `<tr>
+					<td>Interviewer</td>
+					<td>${data.interviewerName}</td>
+				</tr>` : ""}
+			</table>
+			
+			${data.notes ? `<div class="info-box">
+				<p>${data.notes}</p>
+			</div>` : ""}
+			
+			<a href="${FRONTEND_URL}/applications" class="btn">Confirm or Reschedule</a>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">📅 The attached calendar invite adds this interview to your calendar.</p>
+		`, `Interview for ${data.jobTitle} on ${data.when}`),
+	}),
+
+	interview_cancelled: (data) => ({
+		subject: `Interview Cancelled: ${data.jobTitle} at ${data.companyName}`,
+		html: getBaseTemplate(`
+			<h1>Interview Cancelled</h1>
+			<p class="greeting">Dear ${data.userName || "Applicant"},</p>
+			<p>${data.companyName} has cancelled your interview for ${data.jobTitle} on <strong>${data.when}</strong>.</p>
+			
+			${data.reason ? `<div class="info-box">
+				<p><strong>Reason provided:</strong> ${data.reason}</p>
+			</div>` : ""}
+			
+			<a href="${FRONTEND_URL}/applications" class="btn btn-secondary">View Application</a>
+		`, `Your interview for ${data.jobTitle} has been cancelled.`),
+	}),
+
+	interview_reminder: (data) => ({
+		subject: `Reminder: Interview for ${data.jobTitle} on ${data.when}`,
+		html: getBaseTemplate(`
+			<h1>Interview Reminder</h1>
+			<p class="greeting">Dear ${data.userName || "Applicant"},</p>
+			<p>Your interview with ${data.companyName} for ${data.jobTitle} is coming up.</p>
+			
+			<table class="details-table">
+				<tr>
+					<td>When</td>
+					<td><strong>${data.when}</strong></td>
+				</tr>
+				<tr>
+					<td>Mode</td>
+					<td>${data.mode}</td>
+				</tr>
+				${data.location ? `<tr>
+					<td>${data.mode === "Phone" ? "Phone" : "Location"}</td>
+					<td>${data.location}</td>
+				</tr>` : ""}
+				${data.meetingUrl ? `<tr>
+					<td>Meeting Link</td>
+					<td><a href="${data.meetingUrl}">${data.meetingUrl}</a></td>
+				</tr>` : ""}
+			</table>
+			
+			<a href="${FRONTEND_URL}/applications" class="btn btn-secondary">View Interview Details</a>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">Can't make it? Ask to reschedule from your application so the employer knows.</p>
+		`, `Your interview for ${data.jobTitle} is on ${data.when}`),
+	}),
+
+	interview_response: (data) => ({
+		subject: `${data.candidateName} ${data.response === "confirmed" ? "confirmed" : data.response === "declined" ? "declined" : "asked to reschedule"} the interview for ${data.jobTitle}`,
+		html: getBaseTemplate(`
+			<h1>Interview ${data.response === "confirmed" ? "Confirmed" : data.response === "declined" ? "Declined" : "Reschedule Requested"}</h1>
+			<p class="greeting">Dear ${data.employerName || "Employer"},</p>
+			<p>${data.candidateName} ${data.response === "confirmed" ? "confirmed" : data.response === "declined" ? "declined" : "asked to reschedule"} the interview for <strong>${data.jobTitle}</strong> on ${data.when}.</p>
+			
+			${data.note ? `<div class="info-box">
+				<p><strong>Message from the candidate:</strong> ${data.note}</p>
+			</div>` : ""}
+			
+			<a href="${FRONTEND_URL}/employer/applications" class="btn">View Application</a>
+		`, `${data.candidateName} responded to the interview for ${data.jobTitle}`),
+	}),
+
+	employer_message: (data) => ({
+		subject: `${data.subject} - ${data.companyName}`,
+		html: getBaseTemplate(`
+			<h1>Message from ${data.companyName}</h1>
+			<p class="greeting">Dear ${data.userName || "Applicant"},</p>
+			<p>${data.companyName} sent you a message about your application for <strong>${data.jobTitle}</strong>.</p>
+			
+			<div class="info-box">
+				<p>${userTextToHtml(data.message)}</p>
+			</div>
+			
+			<a href="${FRONTEND_URL}/applications" class="btn">View Application</a>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">Replies to this email are not monitored. Contact the employer through your application.</p>
+		`, `${data.companyName} sent you a message about ${data.jobTitle}`),
+	}),
+
+	new_message: (data) => ({
+		subject: `New message from ${data.senderName} about ${data.jobTitle}`,
+		html: getBaseTemplate(`
+			<h1>You Have a New Message</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>${data.senderName} sent you a message about the application for <strong>${data.jobTitle}</strong>.</p>
+			
+			<div class="info-box">
+				<p>${userTextToHtml(data.preview)}</p>
+			</div>
+			
+			<a href="${FRONTEND_URL}${data.link}" class="btn">Read and Reply</a>
+			
+			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">Reply on Equalio so you don't have to share your phone number. Never send money or bank details to anyone you meet through a job listing.</p>
+		`, `${data.senderName}: ${data.preview}`),
+	}),
+
+	// ============================================
+	// Payments & Wallet
+	// ============================================
+
+	payment_success: (data) => ({
+		subject: "Payment Confirmed - Equalio",
+		html: getBaseTemplate(`
+			<h1>Payment Successful</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Your payment has been successfully processed and your wallet has been credited.</p>
+			
+			<div class="success-box">
+				<p>✓ Transaction completed successfully</p>
+			</div>
+			
+			<table class="details-table">
+				<tr>
+					<td>Amount</td>
+					<td><strong>₹${data.amount}</strong></td>
+				</tr>
+				<tr>
+					<td>Transaction ID</td>
+					<td><code style="font-family: monospace; background: #f1f5f9; padding: 2px 6px; border-radius: 4px;">${data.transactionId}</code></td>
+				</tr>
+				<tr>
+					<td>Date & Time</td>
+					<td>${new Date().toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}</td>
+				</tr>
+				<tr>
+					<td>New Balance</td>
+					<td><strong>₹${data.newBalance}</strong></td>
+				</tr>
+			</table>
+			
+			<a href="${FRONTEND_URL}/wallet" class="btn btn-secondary">View Wallet</a>
+			
+			<div class="info-box">
+				<p>📝 Keep this email as a receipt for your records.</p>
+			</div>
+			
+			<div class="security-notice">
+				🔒 Didn't make this payment? <a href="mailto:${SUPPORT_EMAIL}">Contact us immediately</a>.
+			</div>
+		`, `₹${data.amount} added to your wallet successfully.`),
+	}),
+
+	// ============================================
+	// Resume / Profile Views
+	// ============================================
+
+	resume_unlocked: (data) => ({
+		subject: "Good News! An Employer Viewed Your Profile",
+		html: getBaseTemplate(`
+			<h1>Your Profile Was Viewed</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Great news! An employer has shown interest in your profile and unlocked your contact details.</p>
+			
+			<div class="success-box">
+				<p>👀 An employer has viewed your full profile and contact information.</p>
+			</div>
+			
+			<p>This means your profile stood out among many candidates. You may receive a call or message soon regarding job opportunities.</p>
+			
+			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">Tips to increase your chances:</h3>
+			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
+				<li>Keep your phone available for calls</li>
+				<li>Update your profile regularly with new skills</li>
+				<li>Ensure your resume is current and accurate</li>
+			</ul>
+			
+			<a href="${FRONTEND_URL}/profile" class="btn">Update Your Profile</a>
+			
+			<div class="info-box">
+				<p>🔒 <strong>Your Privacy:</strong> We only share your contact details with verified employers who pay to access them.</p>
+			</div>
+		`, "An employer has shown interest in your profile!"),
+	}),
+
+	// ============================================
+	// Digest
+	// ============================================
+
+	notification_digest: (data) => ({
+		subject: `Your ${data.frequency === "weekly" ? "weekly" : "daily"} summary: ${data.summary}`,
+		html: getBaseTemplate(`
+			<h1>Your ${data.frequency === "weekly" ? "Weekly" : "Daily"} Summary</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Here is what happened on Equalio: <strong>${data.summary}</strong>.</p>
+			
+			<table class="details-table">
+				${data.items.map((item: { title: string; message: string; link?: string }) => `
+				<tr>
+					<td>${item.title}</td>
+					<td>${item.link ? `<a href="${FRONTEND_URL}${item.link}">${item.message}</a>` : item.message}</td>
+				</tr>`).join("")}
+			</table>
+			
+			${data.remainingCount ? `<p>...and ${data.remainingCount} more.</p>` : ""}
+			
+			<a href="${FRONTEND_URL}/notifications" class="btn">View All Notifications</a>
+			
+			<div class="info-box">
+				<p>📬 You receive a ${data.frequency === "weekly" ? "weekly" : "daily"} digest instead of one email per update. You can change this in your notification settings.</p>
+			</div>
+		`, data.summary),
+	}),
+
+	// ============================================
+	// Job Alerts
+	// ============================================
+
+	job_alert: (data) => ({
+		subject: `${data.totalCount} new ${data.totalCount === 1 ? "job matches" : "jobs match"} your saved ${data.searches.length === 1 ? `search "${data.searches[0].name}"` : "searches"}`,
+		html: getBaseTemplate(`
+			<h1>New Jobs For You</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>These jobs were posted since your last alert and match your saved ${data.searches.length === 1 ? "search" : "searches"}.</p>
+			
+			${data.searches.map((search: { name: string; link: string; totalCount: number; jobs: { title: string; company?: string; location?: string; salary?: string; link: string }[] }) => `
+			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">${search.name}</h3>
+			<table class="details-table">
+				${search.jobs.map((job) => `
+				<tr>
+					<td><a href="${FRONTEND_URL}${job.link}">${job.title}</a>${job.company ? `<br>${job.company}` : ""}</td>
+					<td>${[job.location, job.salary].filter(Boolean).join("<br>")}</td>
+				</tr>`).join("")}
+			</table>
+			${search.totalCount > search.jobs.length ? `<p><a href="${FRONTEND_URL}${search.link}">See all ${search.totalCount} new jobs</a></p>` : ""}`).join("")}
+			
+			<a href="${FRONTEND_URL}/jobs" class="btn">Browse Jobs</a>
+			
+			<div class="info-box">
+				<p>🔔 You receive these alerts for your saved searches. You can change how often, or delete a search, from your saved searches.</p>
+			</div>
+		`, `${data.totalCount} new jobs match your saved searches`),
+	}),
+
+	// ============================================
+	// Password & Security
+	// ============================================
+
+	reset_password: (data) => ({
+		subject: "Password Reset Request - Equalio",
+		html: getBaseTemplate(`
+			<h1>Reset Your Password</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>We received a request to reset your password. Use the link below to create a new password.</p>
+			
+			<a href="${FRONTEND_URL}/reset-password?code=${data.code}" class="btn">Reset Password</a>
+			
+			<p style="text-align: center; color: #64748b; margin: 16px 0;">Or use this code:</p>
+			
+			<div class="code-box">${data.code.substring(0, 6).toUpperCase()}</div>
+			
+			<div class="warning-box">
+				<p>⏰ This link expires in <strong>15 minutes</strong> for security reasons.</p>
+			</div>
+			
+			<div class="security-notice">
+				🔒 If you didn't request this password reset, please ignore this email or <a href="mailto:${SUPPORT_EMAIL}">contact support</a> if you're concerned about your account security.
+			</div>
+		`, "Reset your password - link expires in 15 minutes."),
+	}),
+
+	password_changed: (data) => ({
+		subject: "🔒 Password Changed Successfully - Equalio",
+		html: getBaseTemplate(`
+			<h1>Password Changed</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Your password has been successfully changed.</p>
+			
+			<div class="success-box">
+				<p>✓ Your password was updated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
+			</div>
+			
+			<p>You can now use your new password to log in to your account.</p>
+			
+			<div class="error-box">
+				<p><strong>Wasn't you?</strong> If you didn't change your password, your account may be compromised. Please:</p>
+				<ul style="margin: 8px 0 0 0; padding-left: 20px;">
+					<li>Reset your password immediately</li>
+					<li>Contact support at <a href="mailto:${SUPPORT_EMAIL}" style="color: #991b1b;">${SUPPORT_EMAIL}</a></li>
+				</ul>
+			</div>
+			
+			<a href="${FRONTEND_URL}/login" class="btn btn-secondary">Log In to Your Account</a>
+			
+			<div class="security-notice">
+				🔒 For your security, we recommend using a strong, unique password and never sharing it with anyone.
+			</div>
+		`, "Your password has been changed successfully."),
+	}),
+
+	// ============================================
+	// OTP Verification
+	// ============================================
+
+	otp_verification: (data) => ({
+		subject: "Your Verification Code - Equalio",
+		html: getBaseTemplate(`
+			<h1>Verification Code</h1>
+			<p class="greeting">Dear ${data.userName || "User"},</p>
+			<p>Use the following code to verify your ${data.purpose || "account"}:</p>
+			
+			<div class="code-box">${data.otp}</div>
+			
+			<div class="warning-box">
+				<p>⏰ This code expires in <strong>${data.expiryMinutes || 10} minutes</strong>.</p>
+			</div>
+			
+			<div class="security-notice">
+				🔒 Never share this code with anyone. Equalio will never ask for this code via phone or email.
+			</div>
+		`, `Your verification code is ${data.otp}`),
+	}),
+};
+
+// ============================================
+// Template Variables (zod)
+// ============================================
+
+export interface EmailTemplateDefinition {
+	description: string;
+	// Security/account email: still sent to addresses that unsubscribed
+	essential?: boolean;
+	// Preference category the unsubscribe link/List-Unsubscribe header opts out of
+	category?: NotificationCategories;
+	variables: z.AnyZodObject;
+	sampleData: Record<string, unknown>;
+}
+
+const userName = z.string().optional();
+const reason = z.string().optional();
+const money = z.union([z.number(), z.string()]);
+
+/**
+ * Every sendable template name with the variables it accepts.
+ * Data is validated against these before rendering (built-in or registry version),
+ * and registry versions may only reference variables declared here.
+ */
+export const emailTemplateDefinitions: Record<string, EmailTemplateDefinition> = {
+	registration_success: {
+		description: "Welcome email with email verification link",
+		essential: true,
+		variables: z.object({ userName, verificationToken: z.string().min(1) }),
+		sampleData: { userName: "Aisha Khan", verificationToken: "sample-token" },
+	},
+	email_verification: {
+		description: "Email verification link",
+		essential: true,
+		variables: z.object({ userName, verificationToken: z.string().min(1) }),
+		sampleData: { userName: "Aisha Khan", verificationToken: "sample-token" },
+	},
+	kyc_submitted: {
+		description: "KYC documents received",
+		variables: z.object({ userName }),
+		sampleData: { userName: "Aisha Khan" },
+	},
+	kyc_approved: {
+		description: "KYC verification approved",
+		variables: z.object({ userName, userType: z.string().optional() }),
+		sampleData: { userName: "Aisha Khan", userType: "jobseeker" },
+	},
+	kyc_rejected: {
+		description: "KYC verification rejected",
+		variables: z.object({ userName, reason }),
+		sampleData: { userName: "Aisha Khan", reason: "Document image is blurry" },
+	},
+	kyc_resubmission_requested: {
+		description: "KYC resubmission requested",
+		variables: z.object({ userName, reason }),
+		sampleData: { userName: "Aisha Khan", reason: "Address proof has expired" },
+	},
+	account_suspended: {
+		description: "Account suspended by admin",
+		essential: true,
+		variables: z.object({ userName, reason }),
+		sampleData: { userName: "Aisha Khan", reason: "Repeated policy violations" },
+	},
+	account_deactivated: {
+		description: "Account deactivated by admin",
+		essential: true,
+		variables: z.object({ userName, reason }),
+		sampleData: { userName: "Aisha Khan", reason: "Requested by user" },
+	},
+	application_status: {
+		description: "Application status changed (jobseeker)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			userName,
+			jobTitle: z.string(),
+			companyName: z.string(),
+			status: z.string(),
+		}),
+		sampleData: {
+			userName: "Aisha Khan",
+			jobTitle: "Delivery Associate",
+			companyName: "Acme Logistics",
+			status: "Shortlisted",
+		},
+	},
+	new_application_received: {
+		description: "New application on a job (employer)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			employerName: z.string().optional(),
+			jobTitle: z.string(),
+			applicantName: z.string(),
+		}),
+		sampleData: {
+			employerName: "Acme Logistics",
+			jobTitle: "Delivery Associate",
+			applicantName: "Aisha Khan",
+		},
+	},
+	interview_invitation: {
+		description: "Interview scheduled or rescheduled, with calendar invite (jobseeker)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			userName,
+			jobTitle: z.string(),
+			companyName: z.string(),
+			when: z.string(),
+			durationMinutes: z.number(),
+			mode: z.string(),
+			location: z.string().optional(),
+			meetingUrl: z.string().optional(),
+			interviewerName: z.string().optional(),
+			notes: z.string().optional(),
+			rescheduled: z.boolean().optional(),
+		}),
+		sampleData: {
+			userName: "Aisha Khan",
+			jobTitle: "Delivery Associate",
+			companyName: "Acme Logistics",
+			when: "Mon, 5 Jan 2026, 11:00 am IST",
+			durationMinutes: 30,
+			mode: "In person",
+			location: "Acme Logistics, Gomti Nagar, Lucknow",
+			interviewerName: "Rahul Verma",
+			notes: "Please bring your driving licence.",
+		},
+	},
+	interview_cancelled: {
+		description: "Interview cancelled by the employer (jobseeker)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			userName,
+			jobTitle: z.string(),
+			companyName: z.string(),
+			when: z.string(),
+			reason,
+		}),
+		sampleData: {
+			userName: "Aisha Khan",
+			jobTitle: "Delivery Associate",
+			companyName: "Acme Logistics",
+			when: "Mon, 5 Jan 2026, 11:00 am IST",
+			reason: "The position has been filled",
+		},
+	},
+	interview_reminder: {
+		description: "Upcoming interview reminder (jobseeker)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			userName,
+			jobTitle: z.string(),
+			companyName: z.string(),
+			when: z.string(),
+			mode: z.string(),
+			location: z.string().optional(),
+			meetingUrl: z.string().optional(),
+		}),
+		sampleData: {
+			userName: "Aisha Khan",
+			jobTitle: "Delivery Associate",
+			companyName: "Acme Logistics",
+			when: "Mon, 5 Jan 2026, 11:00 am IST",
+			mode: "Video",
+			meetingUrl: "https://meet.example.com/abc-defg-hij",
+		},
+	},
+	interview_response: {
+		description: "Candidate confirmed, declined or asked to reschedule an interview (employer)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			employerName: z.string().optional(),
+			candidateName: z.string(),
+			jobTitle: z.string(),
+			when: z.string(),
+			response: z.enum(["confirmed", "reschedule_requested", "declined"]),
+			note: z.string().optional(),
+		}),
+		sampleData: {
+			employerName: "Acme Logistics",
+			candidateName: "Aisha Khan",
+			jobTitle: "Delivery Associate",
+			when: "Mon, 5 Jan 2026, 11:00 am IST",
+			response: "reschedule_requested",
+			note: "I have an exam that morning. Could we do the afternoon?",
+		},
+	},
+	new_message: {
+		description: "New message in an application conversation (candidate or employer)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			userName,
+			senderName: z.string(),
+			jobTitle: z.string(),
+			preview: z.string(),
+			link: z.string(), // Path to the conversation in the frontend
+		}),
+		sampleData: {
+			userName: "Aisha Khan",
+			senderName: "Acme Logistics",
+			jobTitle: "Delivery Associate",
+			preview: "Thanks for applying! Are you available for a quick call on Thursday?",
+			link: "/applications",
+		},
+	},
+	employer_message: {
+		description: "Message from an employer to applicants (bulk applicant action)",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({
+			userName,
+			companyName: z.string(),
+			jobTitle: z.string(),
+			subject: z.string(),
+			message: z.string(),
+		}),
+		sampleData: {
+			userName: "Aisha Khan",
+			companyName: "Acme Logistics",
+			jobTitle: "Delivery Associate",
+			subject: "Documents for your application",
+			message: "Hi Aisha,\n\nPlease bring your driving licence and Aadhaar card to the walk-in on Monday.",
+		},
+	},
+	payment_success: {
+		description: "Wallet top-up confirmed",
+		variables: z.object({
+			userName,
+			amount: money,
+			transactionId: z.string(),
+			newBalance: money,
+		}),
+		sampleData: {
+			userName: "Acme Logistics",
+			amount: 500,
+			transactionId: "TXN-SAMPLE-0001",
+			newBalance: 1250,
+		},
+	},
+	resume_unlocked: {
+		description: "Employer unlocked the jobseeker's resume",
+		category: NotificationCategories.APPLICATIONS,
+		variables: z.object({ userName }),
+		sampleData: { userName: "Aisha Khan" },
+	},
+	notification_digest: {
+		// No category: a digest can batch several, the digest job passes the one it holds
+		description: "Daily/weekly summary of batched notifications",
+		variables: z.object({
+			userName,
+			frequency: z.enum(["daily", "weekly"]),
+			summary: z.string(),
+			totalCount: z.number(),
+			items: z.array(
+				z.object({
+					title: z.string(),
+					message: z.string(),
+					link: z.string().optional(),
+				})
+			),
+			remainingCount: z.number().optional(),
+		}),
+		sampleData: {
+			userName: "Acme Logistics",
+			frequency: "daily",
+			summary: "12 new applicants across 3 jobs today",
+			totalCount: 12,
+			items: [
+				{
+					title: "New Application",
+					message: "Aisha Khan applied for Delivery Associate",
+					link: "/employer/applications",
+				},
+				{
+					title: "New Application",
+					message: "Rahul Verma applied for Warehouse Supervisor",
+					link: "/employer/applications",
+				},
+			],
+			remainingCount: 10,
+		},
+	},
+	job_alert: {
+		description: "New jobs matching the user's saved searches",
+		category: NotificationCategories.JOB_ALERTS,
+		variables: z.object({
+			userName,
+			totalCount: z.number(),
+			searches: z.array(
+				z.object({
+					name: z.string(),
+					link: z.string(),
+					totalCount: z.number(),
+					jobs: z.array(
+						z.object({
+							title: z.string(),
+							company: z.string().optional(),
+							location: z.string().optional(),
+							salary: z.string().optional(),
+							link: z.string(),
+						})
+					),
+				})
+			),
+		}),
+		sampleData: {
+			userName: "Aisha Khan",
+			totalCount: 3,
+			searches: [
+				{
+					name: "Delivery jobs in Lucknow",
+					link: "/jobs?search=delivery&city=Lucknow",
+					totalCount: 3,
+					jobs: [
+						{
+							title: "Delivery Associate",
+							company: "Acme Logistics",
+							location: "Gomti Nagar, Lucknow",
+							salary: "₹15,000 - ₹20,000 per month",
+							link: "/jobs/delivery-associate-acme-logistics",
+						},
+						{
+							title: "Bike Delivery Partner",
+							company: "QuickMart",
+							location: "Lucknow",
+							link: "/jobs/bike-delivery-partner-quickmart",
+						},
+					],
+				},
+			],
+		},
+	},
+	reset_password: {
+		description: "Password reset code",
+		essential: true,
+		variables: z.object({ userName, code: z.string().min(6) }),
+		sampleData: { userName: "Aisha Khan", code: "a1b2c3d4" },
+	},
+	password_changed: {
+		description: "Password changed confirmation",
+		essential: true,
+		variables: z.object({ userName }),
+		sampleData: { userName: "Aisha Khan" },
+	},
+	otp_verification: {
+		description: "One-time verification code",
+		essential: true,
+		variables: z.object({
+			userName,
+			otp: z.string(),
+			purpose: z.string().optional(),
+			expiryMinutes: z.number().optional(),
+		}),
+		sampleData: { userName: "Aisha Khan", otp: "482913", purpose: "login", expiryMinutes: 10 },
+	},
+};
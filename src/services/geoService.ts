@@ -0,0 +1,117 @@
+/**
+ * Geo Service
+ * Pincode geocoding (via the pincodes table) and great-circle distance SQL
+ * for radius search over jobs and profiles
+ */
+
+import { and, between, eq, sql, SQL } from "drizzle-orm";
+import { AnyPgColumn } from "drizzle-orm/pg-core";
+import { db } from "../config/database.ts";
+import { pincodes } from "../db/index.ts";
+
+export interface GeoPoint {
+	latitude: number;
+	longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export const DEFAULT_RADIUS_KM = 25; // Explicit radius searches; also "same city"
+export const AREA_RADIUS_KM = 100; // "Same area" (roughly the district/nearby towns)
+export const MAX_RADIUS_KM = 200;
+
+const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+// ============================================
+// Pincode Geocoding
+// ============================================
+
+/**
+ * Coordinates for an Indian pincode, or null when it is malformed or not in the dataset
+ */
+export async function resolvePincode(pincode: string | null | undefined): Promise<GeoPoint | null> {
+	const normalized = pincode?.replace(/\s/g, "");
+	if (!normalized || !PINCODE_PATTERN.test(normalized)) return null;
+
+	const [row] = await db
+		.select({ latitude: pincodes.latitude, longitude: pincodes.longitude })
+		.from(pincodes)
+		.where(eq(pincodes.pincode, normalized))
+		.limit(1);
+
+	return row ?? null;
+}
+
+/**
+ * latitude/longitude column values for a (new) pincode; both null when it cannot be resolved
+ */
+export async function coordinatesForPincode(
+	pincode: string | null | undefined
+): Promise<{ latitude: number | null; longitude: number | null }> {
+	const point = await resolvePincode(pincode);
+	return { latitude: point?.latitude ?? null, longitude: point?.longitude ?? null };
+}
+
+// ============================================
+// Distance
+// ============================================
+
+/**
+ * Haversine distance in km between two points
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+	const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+	const dLat = toRadians(to.latitude - from.latitude);
+	const dLng = toRadians(to.longitude - from.longitude);
+	const a =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+	return EARTH_RADIUS_KM * 2 * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Haversine distance in km from `origin` to the row's coordinates (null when the row has none)
+ */
+export function distanceKmSql(
+	latitude: AnyPgColumn,
+	longitude: AnyPgColumn,
+	origin: GeoPoint
+): SQL<number | null> {
+	// least(1, ...) guards asin against rounding just above 1
+	return sql<number | null>`(${sql.raw(String(EARTH_RADIUS_KM))} * 2 * asin(least(1, sqrt(
+		power(sin(radians(${latitude} - ${origin.latitude}) / 2), 2)
+		+ cos(radians(${origin.latitude})) * cos(radians(${latitude}))
+		* power(sin(radians(${longitude} - ${origin.longitude}) / 2), 2)
+	))))`;
+}
+
+/**
+ * Rows within `radiusKm` of `origin`. A bounding box on the indexed
+ * coordinates narrows the candidates before the exact distance check.
+ */
+export function withinRadiusSql(
+	latitude: AnyPgColumn,
+	longitude: AnyPgColumn,
+	origin: GeoPoint,
+	radiusKm: number
+): SQL {
+	const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+	const lngDelta =
+		radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos((origin.latitude * Math.PI) / 180), 0.01));
+
+	return and(
+		between(latitude, origin.latitude - latDelta, origin.latitude + latDelta),
+		between(longitude, origin.longitude - lngDelta, origin.longitude + lngDelta),
+		sql`${distanceKmSql(latitude, longitude, origin)} <= ${radiusKm}`
+	)!;
+}
+
+export default {
+	resolvePincode,
+	coordinatesForPincode,
+	distanceKm,
+	distanceKmSql,
+	withinRadiusSql,
+};
@@ -0,0 +1,578 @@
+/**
+ * Interview Service
+ * Interviews an employer schedules on an application: scheduling (which moves
+ * the application to INTERVIEW), rescheduling and cancelling with calendar
+ * invites, the candidate's confirm / reschedule / decline responses, and the
+ * reminder jobs. Every change bumps the interview's sequence so calendar
+ * clients replace the earlier invite and stale reminders are skipped.
+ */
+
+import { and, desc, eq, gt, inArray, isNull, SQL } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import {
+	applications,
+	ApplicationStatuses,
+	employerProfiles,
+	Interview,
+	InterviewModes,
+	interviews,
+	InterviewStatuses,
+	jobs,
+	users,
+} from "../db/index.ts";
+import { buildCalendar, CalendarMethod, calendarContentType } from "../utils/icalendar.ts";
+import {
+	assertApplicationTransition,
+	changeApplicationStatus,
+	OPEN_INTERVIEW_STATUSES,
+} from "./applicationStatusService.ts";
+import { FROM_EMAIL } from "./emailDeliveryService.ts";
+import { FRONTEND_URL } from "./emailTemplates.ts";
+import {
+	formatInterviewTime,
+	InterviewNotice,
+	notifyInterviewCancelled,
+	notifyInterviewReminder,
+	notifyInterviewResponse,
+	notifyInterviewScheduled,
+} from "./notificationService.ts";
+import {
+	addInterviewReminderJob,
+	EmailAttachment,
+	publishRealtimeEvent,
+	RealtimeEventTypes,
+} from "./queueService.ts";
+
+// ============================================
+// Config
+// ============================================
+
+const REMINDER_HOURS_BEFORE = [24, 2];
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Statuses that still get reminders
+const REMINDED_STATUSES = [InterviewStatuses.SCHEDULED, InterviewStatuses.CONFIRMED];
+
+export type InterviewResponse = "confirm" | "reschedule" | "decline";
+
+const CANDIDATE_RESPONSES: Record<InterviewResponse, { to: InterviewStatuses; from: InterviewStatuses[] }> = {
+	confirm: {
+		to: InterviewStatuses.CONFIRMED,
+		from: [InterviewStatuses.SCHEDULED, InterviewStatuses.RESCHEDULE_REQUESTED],
+	},
+	reschedule: {
+		to: InterviewStatuses.RESCHEDULE_REQUESTED,
+		from: [InterviewStatuses.SCHEDULED, InterviewStatuses.CONFIRMED],
+	},
+	decline: { to: InterviewStatuses.DECLINED, from: OPEN_INTERVIEW_STATUSES },
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+export interface InterviewSlot {
+	scheduledAt: Date;
+	durationMinutes: number;
+	mode: InterviewModes;
+	location: string | null;
+	meetingUrl: string | null;
+	interviewerName: string | null;
+	notes: string | null;
+}
+
+/**
+ * Interview as returned by the API (uuid as id, no internal columns)
+ */
+export function interviewView(interview: Interview) {
+	return {
+		id: interview.uuid,
+		scheduledAt: interview.scheduledAt,
+		durationMinutes: interview.durationMinutes,
+		mode: interview.mode,
+		location: interview.location,
+		meetingUrl: interview.meetingUrl,
+		interviewerName: interview.interviewerName,
+		notes: interview.notes,
+		status: interview.status,
+		candidateNote: interview.candidateNote,
+		respondedAt: interview.respondedAt,
+		createdAt: interview.createdAt,
+		updatedAt: interview.updatedAt,
+	};
+}
+
+function validateSlot(slot: InterviewSlot): void {
+	const issue =
+		slot.scheduledAt.getTime() <= Date.now()
+			? "Interview time must be in the future"
+			: slot.mode === InterviewModes.IN_PERSON && !slot.location
+				? "Location is required for in-person interviews"
+				: slot.mode === InterviewModes.VIDEO && !slot.meetingUrl
+					? "Meeting link is required for video interviews"
+					: null;
+
+	if (issue) {
+		throw new HTTPError({ httpStatus: StatusCodes.BAD_REQUEST, message: issue });
+	}
+}
+
+function notFound(): HTTPError {
+	return new HTTPError({
+		httpStatus: StatusCodes.NOT_FOUND,
+		message: "Interview not found",
+	});
+}
+
+/**
+ * Application (with job, company and candidate) for scheduling, or for an
+ * existing interview's notifications
+ */
+async function loadApplicationContext(applicationId: bigint) {
+	const [context] = await db
+		.select({
+			applicationId: applications.id,
+			applicationStatus: applications.status,
+			jobseekerId: applications.jobseekerId,
+			jobId: jobs.id,
+			jobTitle: jobs.title,
+			employerId: jobs.employerId,
+			companyName: employerProfiles.companyName,
+			candidateName: users.name,
+			candidateEmail: users.email,
+		})
+		.from(applications)
+		.innerJoin(jobs, eq(jobs.id, applications.jobId))
+		.innerJoin(users, eq(users.id, applications.jobseekerId))
+		.leftJoin(employerProfiles, eq(employerProfiles.userId, jobs.employerId))
+		.where(and(eq(applications.id, applicationId), isNull(applications.deletedAt)))
+		.limit(1);
+
+	return context ?? null;
+}
+
+type ApplicationContext = NonNullable<Awaited<ReturnType<typeof loadApplicationContext>>>;
+
+async function loadInterview(condition: SQL) {
+	const [interview] = await db.select().from(interviews).where(condition).limit(1);
+	if (!interview) return null;
+
+	const context = await loadApplicationContext(interview.applicationId);
+	return context ? { interview, context } : null;
+}
+
+async function loadInterviewByUuid(interviewUuid: string) {
+	return UUID_REGEX.test(interviewUuid) ? loadInterview(eq(interviews.uuid, interviewUuid)) : null;
+}
+
+function interviewNotice(interview: Interview, context: ApplicationContext): InterviewNotice {
+	return {
+		jobTitle: context.jobTitle,
+		companyName: context.companyName || "The employer",
+		scheduledAt: interview.scheduledAt,
+		durationMinutes: interview.durationMinutes,
+		mode: interview.mode,
+		location: interview.location,
+		meetingUrl: interview.meetingUrl,
+		interviewerName: interview.interviewerName,
+		notes: interview.notes,
+	};
+}
+
+/**
+ * .ics attachment for the invitation (REQUEST) or cancellation (CANCEL)
+ */
+function interviewCalendar(
+	interview: Interview,
+	context: ApplicationContext,
+	method: CalendarMethod
+): EmailAttachment {
+	const companyName = context.companyName || "Equalio";
+	const description = [
+		interview.interviewerName && `Interviewer: ${interview.interviewerName}`,
+		interview.mode === InterviewModes.PHONE && interview.location && `Phone: ${interview.location}`,
+		interview.meetingUrl && `Join: ${interview.meetingUrl}`,
+		interview.notes,
+		`Confirm or reschedule: ${FRONTEND_URL}/applications`,
+	]
+		.filter(Boolean)
+		.join("\n\n");
+
+	const content = buildCalendar(
+		{
+			uid: `interview-${interview.uuid}@equalio`,
+			sequence: interview.sequence,
+			start: interview.scheduledAt,
+			durationMinutes: interview.durationMinutes,
+			summary: `Interview: ${context.jobTitle} at ${companyName}`,
+			description,
+			location:
+				interview.mode === InterviewModes.VIDEO
+					? interview.meetingUrl || undefined
+					: interview.mode === InterviewModes.IN_PERSON
+						? interview.location || undefined
+						: undefined,
+			url: interview.meetingUrl || undefined,
+			organizer: { name: companyName, email: FROM_EMAIL },
+			attendee: context.candidateEmail
+				? { name: context.candidateName || undefined, email: context.candidateEmail }
+				: undefined,
+		},
+		method
+	);
+
+	return {
+		filename: method === "CANCEL" ? "interview-cancelled.ics" : "interview.ics",
+		content,
+		contentType: calendarContentType(method),
+	};
+}
+
+async function queueReminders(interview: Interview): Promise<void> {
+	for (const hoursBefore of REMINDER_HOURS_BEFORE) {
+		const delay = interview.scheduledAt.getTime() - hoursBefore * 60 * 60 * 1000 - Date.now();
+		if (delay <= 0) continue;
+
+		await addInterviewReminderJob(
+			{ interviewId: interview.id.toString(), sequence: interview.sequence },
+			{ hoursBefore, delay }
+		);
+	}
+}
+
+async function sendInvitation(interview: Interview, context: ApplicationContext, rescheduled: boolean) {
+	await notifyInterviewScheduled(
+		context.jobseekerId,
+		context.candidateEmail,
+		interviewNotice(interview, context),
+		interviewCalendar(interview, context, "REQUEST"),
+		rescheduled,
+		context.candidateName || undefined
+	);
+	await queueReminders(interview);
+}
+
+async function sendCancellation(interview: Interview, context: ApplicationContext, reason?: string) {
+	await notifyInterviewCancelled(
+		context.jobseekerId,
+		context.candidateEmail,
+		interviewNotice(interview, context),
+		interviewCalendar(interview, context, "CANCEL"),
+		reason,
+		context.candidateName || undefined
+	);
+}
+
+// ============================================
+// Employer
+// ============================================
+
+/**
+ * Interviews on an application, latest slot first
+ */
+export async function listApplicationInterviews(applicationId: bigint): Promise<Interview[]> {
+	return db
+		.select()
+		.from(interviews)
+		.where(eq(interviews.applicationId, applicationId))
+		.orderBy(desc(interviews.scheduledAt));
+}
+
+/**
+ * Schedule an interview on one of the employer's applications and invite the
+ * candidate. Moves the application to INTERVIEW (so only applications that
+ * may go there qualify); one open upcoming interview per application.
+ */
+export async function scheduleInterview(
+	employerId: bigint,
+	applicationId: bigint,
+	slot: InterviewSlot
+): Promise<Interview> {
+	const context = await loadApplicationContext(applicationId);
+	if (!context || context.employerId !== employerId) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.NOT_FOUND,
+			message: "Application not found",
+		});
+	}
+
+	validateSlot(slot);
+
+	// The status change and the interview commit together, so the history
+	// never records an interview that was not created. The application row is
+	// locked first so concurrent requests cannot both pass the upcoming check.
+	const { interview, currentStatus, statusChangedAt } = await db.transaction(async (tx) => {
+		const [locked] = await tx
+			.select({ status: applications.status })
+			.from(applications)
+			.where(eq(applications.id, applicationId))
+			.for("update");
+
+		const currentStatus = locked.status as ApplicationStatuses;
+		if (currentStatus !== ApplicationStatuses.INTERVIEW) {
+			assertApplicationTransition(currentStatus, ApplicationStatuses.INTERVIEW);
+		}
+
+		const [upcoming] = await tx
+			.select({ id: interviews.id })
+			.from(interviews)
+			.where(
+				and(
+					eq(interviews.applicationId, applicationId),
+					inArray(interviews.status, OPEN_INTERVIEW_STATUSES),
+					gt(interviews.scheduledAt, new Date())
+				)
+			)
+			.limit(1);
+		if (upcoming) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.CONFLICT,
+				message: "This application already has an upcoming interview. Reschedule it instead.",
+			});
+		}
+
+		const changed =
+			currentStatus !== ApplicationStatuses.INTERVIEW
+				? await changeApplicationStatus(
+						{
+							applicationId,
+							from: currentStatus,
+							to: ApplicationStatuses.INTERVIEW,
+							changedBy: employerId,
+							note: `Interview scheduled for ${formatInterviewTime(slot.scheduledAt)}`,
+						},
+						tx
+					)
+				: null;
+
+		const [interview] = await tx
+			.insert(interviews)
+			.values({ ...slot, applicationId, createdBy: employerId })
+			.returning();
+
+		return { interview, currentStatus, statusChangedAt: changed?.application.statusChangedAt ?? null };
+	});
+
+	if (statusChangedAt) {
+		await publishRealtimeEvent(context.jobseekerId, RealtimeEventTypes.APPLICATION_STATUS, {
+			applicationId,
+			jobId: context.jobId,
+			jobTitle: context.jobTitle,
+			status: ApplicationStatuses.INTERVIEW,
+			previousStatus: currentStatus,
+			changedAt: statusChangedAt,
+		});
+	}
+
+	await sendInvitation(interview, context, false);
+	return interview;
+}
+
+async function loadEmployerInterview(employerId: bigint, interviewUuid: string) {
+	const loaded = await loadInterviewByUuid(interviewUuid);
+	if (!loaded || loaded.context.employerId !== employerId) throw notFound();
+
+	if (!OPEN_INTERVIEW_STATUSES.includes(loaded.interview.status as InterviewStatuses)) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: `This interview is ${loaded.interview.status} and can no longer be changed`,
+		});
+	}
+	return loaded;
+}
+
+/**
+ * Change an open interview's slot or details. The candidate gets an updated
+ * invite and has to confirm again.
+ */
+export async function updateInterview(
+	employerId: bigint,
+	interviewUuid: string,
+	changes: Partial<InterviewSlot>
+): Promise<Interview> {
+	const { interview: current, context } = await loadEmployerInterview(employerId, interviewUuid);
+	validateSlot({ ...current, ...changes } as InterviewSlot);
+
+	const [interview] = await db
+		.update(interviews)
+		.set({
+			...changes,
+			status: InterviewStatuses.SCHEDULED,
+			sequence: current.sequence + 1,
+			respondedAt: null,
+			updatedAt: new Date(),
+		})
+		.where(and(eq(interviews.id, current.id), eq(interviews.sequence, current.sequence)))
+		.returning();
+	if (!interview) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.CONFLICT,
+			message: "Interview has changed. Reload and try again.",
+		});
+	}
+
+	await sendInvitation(interview, context, true);
+	return interview;
+}
+
+/**
+ * Cancel an open interview; the candidate's calendar entry is removed
+ */
+export async function cancelInterview(
+	employerId: bigint,
+	interviewUuid: string,
+	reason?: string
+): Promise<Interview> {
+	const { interview: current, context } = await loadEmployerInterview(employerId, interviewUuid);
+
+	const [interview] = await db
+		.update(interviews)
+		.set({
+			status: InterviewStatuses.CANCELLED,
+			sequence: current.sequence + 1,
+			updatedAt: new Date(),
+		})
+		.where(and(eq(interviews.id, current.id), eq(interviews.sequence, current.sequence)))
+		.returning();
+	if (!interview) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.CONFLICT,
+			message: "Interview has changed. Reload and try again.",
+		});
+	}
+
+	await sendCancellation(interview, context, reason);
+	return interview;
+}
+
+/**
+ * Remove interviews cancelled along with their application's status change
+ * (cancelOpenInterviews) from the candidate's calendar, once it has committed
+ */
+export async function sendInterviewCancellations(cancelled: Interview[]): Promise<void> {
+	for (const interview of cancelled) {
+		const context = await loadApplicationContext(interview.applicationId);
+		if (context) await sendCancellation(interview, context);
+	}
+}
+
+// ============================================
+// Candidate
+// ============================================
+
+/**
+ * Candidate's answer to an upcoming interview; the employer is notified.
+ * A note is the reason for rescheduling or declining.
+ */
+export async function respondToInterview(
+	jobseekerId: bigint,
+	interviewUuid: string,
+	response: InterviewResponse,
+	note?: string
+): Promise<Interview> {
+	const loaded = await loadInterviewByUuid(interviewUuid);
+	if (!loaded || loaded.context.jobseekerId !== jobseekerId) throw notFound();
+
+	const { interview: current, context } = loaded;
+	const transition = CANDIDATE_RESPONSES[response];
+
+	if (context.applicationStatus !== ApplicationStatuses.INTERVIEW) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "This application is no longer at the interview stage",
+		});
+	}
+	if (current.scheduledAt.getTime() <= Date.now()) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "This interview has already started",
+		});
+	}
+	if (!transition.from.includes(current.status as InterviewStatuses)) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: `Cannot ${response} an interview that is ${current.status}`,
+		});
+	}
+
+	const now = new Date();
+	const [interview] = await db
+		.update(interviews)
+		.set({
+			status: transition.to,
+			candidateNote: note || null,
+			respondedAt: now,
+			updatedAt: now,
+		})
+		.where(and(eq(interviews.id, current.id), eq(interviews.sequence, current.sequence)))
+		.returning();
+	if (!interview) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.CONFLICT,
+			message: "The interview was just updated by the employer. Reload and try again.",
+		});
+	}
+
+	const [employer] = await db
+		.select({ email: users.email, name: users.name })
+		.from(users)
+		.where(eq(users.id, context.employerId))
+		.limit(1);
+	await notifyInterviewResponse(
+		context.employerId,
+		employer?.email || null,
+		interviewNotice(interview, context),
+		context.candidateName || "The candidate",
+		transition.to as "confirmed" | "reschedule_requested" | "declined",
+		note,
+		context.companyName || employer?.name || undefined
+	);
+
+	return interview;
+}
+
+// ============================================
+// Reminders (worker)
+// ============================================
+
+/**
+ * Send a queued reminder unless the interview has changed since (sequence),
+ * was cancelled or declined, has already started, or the application has left
+ * INTERVIEW. Returns whether it was sent.
+ */
+export async function sendInterviewReminder(interviewId: bigint, sequence: number): Promise<boolean> {
+	const loaded = await loadInterview(eq(interviews.id, interviewId));
+	if (!loaded) return false;
+
+	const { interview, context } = loaded;
+	if (
+		interview.sequence !== sequence ||
+		!REMINDED_STATUSES.includes(interview.status as InterviewStatuses) ||
+		interview.scheduledAt.getTime() <= Date.now() ||
+		context.applicationStatus !== ApplicationStatuses.INTERVIEW
+	) {
+		return false;
+	}
+
+	await notifyInterviewReminder(
+		context.jobseekerId,
+		context.candidateEmail,
+		interviewNotice(interview, context),
+		context.candidateName || undefined
+	);
+	return true;
+}
+
+export default {
+	interviewView,
+	listApplicationInterviews,
+	scheduleInterview,
+	updateInterview,
+	cancelInterview,
+	sendInterviewCancellations,
+	respondToInterview,
+	sendInterviewReminder,
+};
@@ -0,0 +1,291 @@
+/**
+ * Job Alert Service
+ * Saved GET /jobs searches: turning their stored query back into listing
+ * filters and, on the scheduled alert run, notifying users of newly published
+ * matching jobs. A job is alerted at most once per user.
+ */
+
+import { and, asc, desc, eq, gt, inArray, isNull, notInArray, sql } from "drizzle-orm";
+import { db } from "../config/database.ts";
+import {
+	applications,
+	employerProfiles,
+	jobAlertDeliveries,
+	JobAlertFrequencies,
+	jobs,
+	JobStatuses,
+	LocationTypes,
+	NewJobAlertDelivery,
+	SavedSearch,
+	savedSearches,
+	SavedSearchQuery,
+	users,
+} from "../db/index.ts";
+import { DEFAULT_RADIUS_KM, GeoPoint, resolvePincode } from "./geoService.ts";
+import { JobFilters, jobFilterConditions } from "./jobSearchService.ts";
+import { JobAlertSearch, notifyJobAlert } from "./notificationService.ts";
+
+// ============================================
+// Config
+// ============================================
+
+const MAX_JOBS_PER_SEARCH = 10; // Listed in the alert; the rest are counted and linked
+const MAX_NAME_LENGTH = 100;
+
+const SALARY_PERIOD_LABELS: Record<string, string> = {
+	daily: "per day",
+	weekly: "per week",
+	monthly: "per month",
+	quarterly: "per quarter",
+	yearly: "per year",
+};
+
+// ============================================
+// Saved Search Helpers
+// ============================================
+
+/**
+ * Listing filters for a stored query. Null when its pincode no longer
+ * resolves (alerting without the radius would widen the search).
+ */
+export async function savedSearchFilters(
+	query: SavedSearchQuery
+): Promise<{ filters: JobFilters; radius: { origin: GeoPoint; radiusKm: number } | null } | null> {
+	const { lat, lng, pincode, radiusKm, ...filters } = query;
+
+	let origin: GeoPoint | null = null;
+	if (lat !== undefined && lng !== undefined) {
+		origin = { latitude: lat, longitude: lng };
+	} else if (pincode) {
+		origin = await resolvePincode(pincode);
+		if (!origin) return null;
+	}
+
+	return {
+		filters,
+		radius: origin ? { origin, radiusKm: radiusKm ?? DEFAULT_RADIUS_KM } : null,
+	};
+}
+
+/**
+ * Default name from the filters, e.g. "welder jobs in Lucknow"
+ */
+export function describeSavedSearch(query: SavedSearchQuery): string {
+	const what = query.search || query.category || query.jobType;
+	const where = query.city
+		? ` in ${query.city}`
+		: query.pincode
+			? ` near ${query.pincode}`
+			: query.lat !== undefined
+				? " near you"
+				: query.locationType === LocationTypes.REMOTE
+					? " (remote)"
+					: "";
+
+	return `${what ? `${what} jobs` : "Jobs"}${where}`.slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * Frontend jobs page with the saved filters applied
+ */
+export function savedSearchLink(query: SavedSearchQuery): string {
+	const params = new URLSearchParams(
+		Object.entries(query)
+			.filter(([, value]) => value !== undefined && value !== null && value !== "")
+			.map(([key, value]) => [key, String(value)])
+	);
+	return `/jobs?${params.toString()}`;
+}
+
+function formatSalary(job: {
+	salaryMin: string | null;
+	salaryMax: string | null;
+	salaryType: string | null;
+	hideSalary: boolean | null;
+}): string | undefined {
+	if (job.hideSalary) return undefined;
+
+	const amounts = [
+		...new Set(
+			[job.salaryMin, job.salaryMax]
+				.filter((amount): amount is string => !!amount && parseFloat(amount) > 0)
+				.map((amount) => `₹${Math.round(parseFloat(amount)).toLocaleString("en-IN")}`)
+		),
+	];
+	if (amounts.length === 0) return undefined;
+
+	return `${amounts.join(" - ")} ${SALARY_PERIOD_LABELS[job.salaryType ?? "yearly"] ?? ""}`.trim();
+}
+
+// ============================================
+// Alert Run
+// ============================================
+
+type DueSearch = Pick<SavedSearch, "id" | "userId" | "name" | "query" | "lastAlertedAt" | "createdAt">;
+
+/**
+ * New matches for one search: published since its last alert, not alerted to
+ * or applied for by this user, and not already picked by another of their searches
+ */
+async function findNewJobs(userId: bigint, search: DueSearch, excludeJobIds: bigint[]) {
+	const resolved = await savedSearchFilters(search.query);
+	if (!resolved) return null;
+
+	const { conditions, facetConditions } = jobFilterConditions(resolved.filters, resolved.radius);
+	const where = and(
+		eq(jobs.status, JobStatuses.ACTIVE),
+		isNull(jobs.deletedAt),
+		gt(jobs.publishedAt, search.lastAlertedAt ?? search.createdAt),
+		...conditions,
+		...Object.values(facetConditions),
+		sql`not exists (select 1 from ${jobAlertDeliveries} where ${jobAlertDeliveries.userId} = ${userId} and ${jobAlertDeliveries.jobId} = ${jobs.id})`,
+		sql`not exists (select 1 from ${applications} where ${applications.jobseekerId} = ${userId} and ${applications.jobId} = ${jobs.id})`,
+		excludeJobIds.length > 0 ? notInArray(jobs.id, excludeJobIds) : undefined
+	);
+
+	const [rows, [countResult]] = await Promise.all([
+		db
+			.select({
+				id: jobs.id,
+				uuid: jobs.uuid,
+				slug: jobs.slug,
+				title: jobs.title,
+				city: jobs.city,
+				area: jobs.area,
+				state: jobs.state,
+				locationType: jobs.locationType,
+				salaryMin: jobs.salaryMin,
+				salaryMax: jobs.salaryMax,
+				salaryType: jobs.salaryType,
+				hideSalary: jobs.hideSalary,
+				companyName: employerProfiles.companyName,
+				brandName: employerProfiles.brandName,
+			})
+			.from(jobs)
+			.leftJoin(employerProfiles, eq(employerProfiles.userId, jobs.employerId))
+			.where(where)
+			.orderBy(desc(jobs.publishedAt))
+			.limit(MAX_JOBS_PER_SEARCH),
+		db
+			.select({ count: sql<number>`count(*)::int` })
+			.from(jobs)
+			.where(where),
+	]);
+
+	return { rows, totalCount: countResult?.count || 0 };
+}
+
+async function sendUserJobAlerts(
+	user: { id: bigint; email: string | null; name: string | null },
+	searches: DueSearch[],
+	runStartedAt: Date
+): Promise<boolean> {
+	const alerts: JobAlertSearch[] = [];
+	const deliveries: NewJobAlertDelivery[] = [];
+
+	for (const search of searches) {
+		const result = await findNewJobs(
+			user.id,
+			search,
+			deliveries.map((d) => d.jobId)
+		);
+		if (!result || result.rows.length === 0) continue;
+
+		alerts.push({
+			name: search.name,
+			link: savedSearchLink(search.query),
+			totalCount: result.totalCount,
+			jobs: result.rows.map((job) => ({
+				title: job.title,
+				company: job.brandName || job.companyName || undefined,
+				location:
+					job.locationType === LocationTypes.REMOTE
+						? "Remote"
+						: [job.area, job.city].filter(Boolean).join(", ") || job.state || undefined,
+				salary: formatSalary(job),
+				link: `/jobs/${job.slug || job.uuid}`,
+			})),
+		});
+		deliveries.push(...result.rows.map((job) => ({ userId: user.id, jobId: job.id, savedSearchId: search.id })));
+	}
+
+	if (alerts.length > 0) {
+		await notifyJobAlert(user.id, user.email, alerts, user.name || undefined);
+		await db.insert(jobAlertDeliveries).values(deliveries).onConflictDoNothing();
+	}
+
+	// Jobs published during this run are picked up next time (deliveries prevent repeats)
+	await db
+		.update(savedSearches)
+		.set({ lastAlertedAt: runStartedAt, updatedAt: new Date() })
+		.where(
+			inArray(
+				savedSearches.id,
+				searches.map((s) => s.id)
+			)
+		);
+
+	return alerts.length > 0;
+}
+
+/**
+ * Alert every user with saved searches on this schedule. Preferences are
+ * applied by notifyJobAlert (JOB_ALERTS category, digest); searches still
+ * advance when nothing is sent, so re-enabling alerts does not replay old jobs.
+ */
+export async function sendJobAlerts(
+	frequency: JobAlertFrequencies.DAILY | JobAlertFrequencies.WEEKLY
+): Promise<{ users: number; sent: number }> {
+	const runStartedAt = new Date();
+
+	const due = await db
+		.select({
+			id: savedSearches.id,
+			userId: savedSearches.userId,
+			name: savedSearches.name,
+			query: savedSearches.query,
+			lastAlertedAt: savedSearches.lastAlertedAt,
+			createdAt: savedSearches.createdAt,
+			email: users.email,
+			userName: users.name,
+		})
+		.from(savedSearches)
+		.innerJoin(users, eq(users.id, savedSearches.userId))
+		.where(
+			and(
+				eq(savedSearches.alertFrequency, frequency),
+				eq(users.isActive, true),
+				isNull(users.deletedAt)
+			)
+		)
+		.orderBy(asc(savedSearches.userId), asc(savedSearches.createdAt));
+
+	const byUser = new Map<bigint, { user: { id: bigint; email: string | null; name: string | null }; searches: DueSearch[] }>();
+	for (const row of due) {
+		const entry = byUser.get(row.userId) ?? {
+			user: { id: row.userId, email: row.email, name: row.userName },
+			searches: [],
+		};
+		entry.searches.push(row);
+		byUser.set(row.userId, entry);
+	}
+
+	let sent = 0;
+	for (const { user, searches } of byUser.values()) {
+		try {
+			if (await sendUserJobAlerts(user, searches, runStartedAt)) sent++;
+		} catch (error) {
+			// One bad search must not block everyone else's alerts
+			console.error(`[JobAlerts] Failed to send ${frequency} alerts to user ${user.id}:`, error);
+		}
+	}
+
+	return { users: byUser.size, sent };
+}
+
+export default {
+	savedSearchFilters,
+	describeSavedSearch,
+	savedSearchLink,
+	sendJobAlerts,
+};
@@ -0,0 +1,264 @@
+/**
+ * Job Posting Service
+ * Public (unauthenticated) views of active jobs for search engines: a safe
+ * projection of the listing, schema.org JobPosting JSON-LD for Google for
+ * Jobs, and the jobs sitemap
+ */
+
+import { jobs, LocationTypes } from "../db/index.ts";
+import { FRONTEND_URL } from "./emailTemplates.ts";
+
+// ============================================
+// Config
+// ============================================
+
+// Sitemap protocol limit per file
+export const MAX_SITEMAP_URLS = 50000;
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+	"full-time": "FULL_TIME",
+	"part-time": "PART_TIME",
+	contract: "CONTRACTOR",
+	internship: "INTERN",
+	freelance: "CONTRACTOR",
+};
+
+// schema.org unitText per salaryType (quarterly pay has no unit, so no baseSalary)
+const SALARY_UNITS: Record<string, string> = {
+	daily: "DAY",
+	weekly: "WEEK",
+	monthly: "MONTH",
+	yearly: "YEAR",
+};
+
+// ============================================
+// Public Projection
+// ============================================
+
+/**
+ * Listing columns safe to show logged-out visitors: no employer contact,
+ * street address, demographic preferences or internal stats
+ */
+export const publicJobSelectFields = {
+	uuid: jobs.uuid,
+	slug: jobs.slug,
+	title: jobs.title,
+	description: jobs.description,
+	roleSummary: jobs.roleSummary,
+	requirements: jobs.requirements,
+	responsibilities: jobs.responsibilities,
+	jobType: jobs.jobType,
+	experienceLevel: jobs.experienceLevel,
+	category: jobs.category,
+	skillsRequired: jobs.skillsRequired,
+	locationType: jobs.locationType,
+	area: jobs.area,
+	city: jobs.city,
+	district: jobs.district,
+	state: jobs.state,
+	pincode: jobs.pincode,
+	salaryMin: jobs.salaryMin,
+	salaryMax: jobs.salaryMax,
+	salaryType: jobs.salaryType,
+	salaryCurrency: jobs.salaryCurrency,
+	hideSalary: jobs.hideSalary,
+	isSalaryNegotiable: jobs.isSalaryNegotiable,
+	benefits: jobs.benefits,
+	minExperienceYears: jobs.minExperienceYears,
+	maxExperienceYears: jobs.maxExperienceYears,
+	educationRequired: jobs.educationRequired,
+	preferredLanguage: jobs.preferredLanguage,
+	freshersAllowed: jobs.freshersAllowed,
+	howToApply: jobs.howToApply,
+	applicationDeadline: jobs.applicationDeadline,
+	status: jobs.status,
+	publishedAt: jobs.publishedAt,
+	expiresAt: jobs.expiresAt,
+	updatedAt: jobs.updatedAt,
+};
+
+export interface PublicJobRow {
+	uuid: string;
+	slug: string;
+	title: string;
+	description: string;
+	roleSummary: string | null;
+	jobType: string;
+	category: string | null;
+	skillsRequired: string[] | null;
+	locationType: string | null;
+	area: string | null;
+	city: string | null;
+	state: string | null;
+	pincode: string | null;
+	salaryMin: string | null;
+	salaryMax: string | null;
+	salaryType: string | null;
+	salaryCurrency: string | null;
+	hideSalary: boolean;
+	minExperienceYears: number;
+	educationRequired: string | null;
+	howToApply: string;
+	applicationDeadline: Date | null;
+	publishedAt: Date | null;
+	expiresAt: Date | null;
+}
+
+export interface PublicCompany {
+	companyName: string;
+	brandName: string | null;
+	logoUrl: string | null;
+	website: string | null;
+}
+
+export function publicJobUrl(slug: string): string {
+	return `${FRONTEND_URL}/jobs/${encodeURIComponent(slug)}`;
+}
+
+/** Salary fields with hidden salaries blanked out */
+export function publicSalary<T extends PublicJobRow>(job: T): T {
+	return job.hideSalary ? { ...job, salaryMin: null, salaryMax: null, salaryType: null } : job;
+}
+
+// ============================================
+// JSON-LD
+// ============================================
+
+function earliest(...dates: (Date | null)[]): Date | null {
+	const valid = dates.filter((d): d is Date => d instanceof Date);
+	return valid.length > 0 ? new Date(Math.min(...valid.map((d) => d.getTime()))) : null;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.split("&").join("&amp;")
+		.split("<").join("&lt;")
+		.split(">").join("&gt;");
+}
+
+/** Plain-text description as the simple HTML Google expects (paragraphs and line breaks) */
+function descriptionHtml(text: string): string {
+	return text
+		.trim()
+		.split(/\n\s*\n/)
+		.map((paragraph) => `<p>${escapeHtml(paragraph.trim()).split("\n").join("<br>")}</p>`)
+		.join("");
+}
+
+function baseSalary(job: PublicJobRow) {
+	const unitText = SALARY_UNITS[job.salaryType ?? "yearly"];
+	const min = job.salaryMin ? parseFloat(job.salaryMin) : 0;
+	const max = job.salaryMax ? parseFloat(job.salaryMax) : 0;
+	if (job.hideSalary || !unitText || (min <= 0 && max <= 0)) return undefined;
+
+	return {
+		"@type": "MonetaryAmount",
+		currency: job.salaryCurrency || "INR",
+		value: {
+			"@type": "QuantitativeValue",
+			...(min > 0 && max > 0 && min !== max
+				? { minValue: min, maxValue: max }
+				: { value: Math.max(min, max) }),
+			unitText,
+		},
+	};
+}
+
+/**
+ * schema.org JobPosting for Google for Jobs
+ * (https://developers.google.com/search/docs/appearance/structured-data/job-posting)
+ */
+export function jobPostingJsonLd(job: PublicJobRow, company: PublicCompany | null) {
+	const isRemote = job.locationType === LocationTypes.REMOTE;
+	const validThrough = earliest(job.expiresAt, job.applicationDeadline);
+	const organizationName = company?.brandName || company?.companyName;
+	const salary = baseSalary(job);
+
+	return {
+		"@context": "https://schema.org/",
+		"@type": "JobPosting",
+		title: job.title,
+		description: descriptionHtml(job.description),
+		url: publicJobUrl(job.slug),
+		identifier: {
+			"@type": "PropertyValue",
+			name: organizationName || "Equalio",
+			value: job.uuid,
+		},
+		...(job.publishedAt && { datePosted: job.publishedAt.toISOString() }),
+		...(validThrough && { validThrough: validThrough.toISOString() }),
+		employmentType: EMPLOYMENT_TYPES[job.jobType] ?? "OTHER",
+		...(organizationName && {
+			hiringOrganization: {
+				"@type": "Organization",
+				name: organizationName,
+				...(company?.website && { sameAs: company.website }),
+				...(company?.logoUrl && { logo: company.logoUrl }),
+			},
+		}),
+		...(isRemote
+			? {
+					jobLocationType: "TELECOMMUTE",
+					applicantLocationRequirements: { "@type": "Country", name: "India" },
+				}
+			: {
+					jobLocation: {
+						"@type": "Place",
+						address: {
+							"@type": "PostalAddress",
+							...(job.area && { streetAddress: job.area }),
+							...(job.city && { addressLocality: job.city }),
+							...(job.state && { addressRegion: job.state }),
+							...(job.pincode && { postalCode: job.pincode }),
+							addressCountry: "IN",
+						},
+					},
+				}),
+		...(salary && { baseSalary: salary }),
+		...(job.minExperienceYears > 0
+			? {
+					experienceRequirements: {
+						"@type": "OccupationalExperienceRequirements",
+						monthsOfExperience: job.minExperienceYears * 12,
+					},
+				}
+			: { experienceRequirements: "no requirements" }),
+		...(job.educationRequired && { educationRequirements: job.educationRequired }),
+		...(job.skillsRequired && job.skillsRequired.length > 0 && { skills: job.skillsRequired.join(", ") }),
+		...(job.category && { occupationalCategory: job.category }),
+		directApply: job.howToApply === "platform" || job.howToApply === "both",
+	};
+}
+
+// ============================================
+// Sitemap
+// ============================================
+
+function escapeXml(value: string): string {
+	return escapeHtml(value).split('"').join("&quot;").split("'").join("&apos;");
+}
+
+/**
+ * sitemaps.org urlset with one <url> per job page
+ */
+export function jobSitemapXml(entries: { slug: string; lastModified: Date }[]): string {
+	const urls = entries.map(
+		(entry) =>
+			`  <url><loc>${escapeXml(publicJobUrl(entry.slug))}</loc><lastmod>${entry.lastModified.toISOString()}</lastmod></url>`
+	);
+
+	return [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+		...urls,
+		`</urlset>`,
+		"",
+	].join("\n");
+}
+
+export default {
+	publicJobUrl,
+	publicSalary,
+	jobPostingJsonLd,
+	jobSitemapXml,
+};
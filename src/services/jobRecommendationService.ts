@@ -0,0 +1,688 @@
+/**
+ * Job Recommendation Service
+ * Scores active jobs against a job seeker's skills (with proficiency and
+ * years), work history, education, expected salary and locations, and explains
+ * each score with short "why this job" reasons. Also ranks listings similar
+ * to a given job.
+ */
+
+import { and, desc, eq, isNull, ne, or, sql, SQL } from "drizzle-orm";
+import { db } from "../config/database.ts";
+import {
+	educationRecords,
+	EducationLevels,
+	experienceRecords,
+	jobs,
+	jobseekerProfiles,
+	JobStatuses,
+	LocationTypes,
+	ProficiencyLevels,
+	skills,
+	userProfiles,
+} from "../db/index.ts";
+import { AREA_RADIUS_KM, DEFAULT_RADIUS_KM, distanceKm, GeoPoint, resolvePincode, withinRadiusSql } from "./geoService.ts";
+import { jobSearchCondition, parseJobSearch } from "./jobSearchService.ts";
+
+export interface SeekerSkill {
+	name: string;
+	normalizedName: string;
+	proficiency: ProficiencyLevels | null;
+	years: number | null;
+}
+
+export interface SeekerProfile {
+	skills: SeekerSkill[];
+	experienceYears: number | null;
+	pastTitles: string[];
+	educationLevel: EducationLevels | null;
+	expectedMonthlySalary: number | null;
+	city: string | null;
+	state: string | null;
+	preferredLocations: string[];
+	point: GeoPoint | null;
+}
+
+/** Job fields the scorer reads */
+export interface RecommendableJob {
+	title: string;
+	skillsRequired: string[] | null;
+	minExperienceYears: number | null;
+	maxExperienceYears: number | null;
+	educationRequired: string | null;
+	salaryMin: string | null;
+	salaryMax: string | null;
+	salaryType: string | null;
+	hideSalary: boolean | null;
+	locationType: string | null;
+	city: string | null;
+	state: string | null;
+	latitude: number | null;
+	longitude: number | null;
+}
+
+/** The listing similar jobs are found for */
+export interface SimilarJobSource {
+	id: bigint;
+	employerId: bigint;
+	jobType: string;
+	category: string | null;
+	skillsRequired: string[] | null;
+	locationType: string | null;
+	city: string | null;
+	latitude: number | null;
+	longitude: number | null;
+}
+
+export interface JobMatch {
+	matchScore: number; // 0-100
+	reasons: string[];
+}
+
+// Points per signal (sum to 100)
+const WEIGHTS = {
+	skills: 40,
+	experience: 20,
+	education: 10,
+	salary: 15,
+	location: 15,
+};
+
+// Share of the experience points that comes from a matching past job title
+const TITLE_SHARE = 0.25;
+
+// How much a matched skill counts, by proficiency (unknown counts as intermediate)
+const PROFICIENCY_STRENGTH: Record<ProficiencyLevels, number> = {
+	[ProficiencyLevels.BEGINNER]: 0.6,
+	[ProficiencyLevels.INTERMEDIATE]: 0.8,
+	[ProficiencyLevels.ADVANCED]: 0.9,
+	[ProficiencyLevels.EXPERT]: 1,
+};
+const YEARS_BONUS_PER_YEAR = 0.05;
+
+// Education levels in order; "other" is not comparable
+const EDUCATION_RANK: Partial<Record<EducationLevels, number>> = {
+	[EducationLevels.NO_EDUCATION]: 0,
+	[EducationLevels.TENTH]: 1,
+	[EducationLevels.TWELFTH]: 2,
+	[EducationLevels.DIPLOMA]: 2,
+	[EducationLevels.UG]: 3,
+	[EducationLevels.PG]: 4,
+};
+
+const EDUCATION_LABELS: Partial<Record<EducationLevels, string>> = {
+	[EducationLevels.NO_EDUCATION]: "no formal education",
+	[EducationLevels.TENTH]: "10th pass",
+	[EducationLevels.TWELFTH]: "12th pass",
+	[EducationLevels.DIPLOMA]: "diploma",
+	[EducationLevels.UG]: "graduate",
+	[EducationLevels.PG]: "post-graduate",
+};
+
+// educationRequired is free text; first pattern that matches wins
+const EDUCATION_PATTERNS: [RegExp, EducationLevels][] = [
+	[/post[\s-]?grad|\bpg\b|master|\bm\.?\s?(a|sc|com|tech|ba|ca)\b/i, EducationLevels.PG],
+	[/grad|\bug\b|bachelor|degree|\bb\.?\s?(a|sc|com|tech|e|ba|ca)\b/i, EducationLevels.UG],
+	[/diploma|\biti\b|polytechnic/i, EducationLevels.DIPLOMA],
+	[/12|twelfth|higher secondary|intermediate|\bhsc\b|\bpuc\b/i, EducationLevels.TWELFTH],
+	[/10|tenth|matric|\bssc\b|high school/i, EducationLevels.TENTH],
+	[/not required|no formal|\bnone\b|\bany\b|illiterate/i, EducationLevels.NO_EDUCATION],
+];
+
+// Pay periods per month, to compare any salaryType with the expected salary
+const MONTHLY_FACTOR: Record<string, number> = {
+	daily: 26,
+	weekly: 52 / 12,
+	monthly: 1,
+	quarterly: 1 / 3,
+	yearly: 1 / 12,
+};
+
+// expectedSalary has no unit: the profile forms ask per month, older data is
+// per year. Anything at or above this is treated as annual.
+const ANNUAL_SALARY_THRESHOLD = 100000;
+
+// Pay within this share of the expected salary still earns partial credit
+const NEAR_SALARY_RATIO = 0.8;
+
+// Jobs scored per request; candidates are the most recent jobs matching any signal
+export const RECOMMENDATION_POOL_SIZE = 300;
+export const MIN_MATCH_SCORE = 30;
+
+// Similarity points per signal (sum to 100)
+const SIMILARITY_WEIGHTS = {
+	skills: 45,
+	category: 25,
+	jobType: 10,
+	location: 20,
+};
+
+const MAX_PAST_TITLES = 5;
+const TITLE_STOPWORDS = new Set(["and", "for", "the", "with", "senior", "junior", "assistant", "trainee", "helper"]);
+
+// ============================================
+// Seeker Profile
+// ============================================
+
+function normalizeSkill(value: string): string {
+	return value.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function monthsBetween(start: Date, end: Date): number {
+	return Math.max(0, (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth());
+}
+
+/**
+ * Everything the scorer uses about a job seeker. Structured rows (skills,
+ * experience and education records, userProfiles) win over the legacy
+ * jobseekerProfiles columns, which fill the gaps.
+ */
+export async function loadSeekerProfile(userId: bigint): Promise<SeekerProfile> {
+	const [skillRows, experienceRows, educationRows, [profile], [legacy]] = await Promise.all([
+		db
+			.select({
+				skillName: skills.skillName,
+				proficiencyLevel: skills.proficiencyLevel,
+				yearsOfExperience: skills.yearsOfExperience,
+			})
+			.from(skills)
+			.where(eq(skills.userId, userId)),
+		db
+			.select({
+				jobTitle: experienceRecords.jobTitle,
+				startDate: experienceRecords.startDate,
+				endDate: experienceRecords.endDate,
+				isCurrent: experienceRecords.isCurrent,
+			})
+			.from(experienceRecords)
+			.where(eq(experienceRecords.userId, userId))
+			.orderBy(desc(experienceRecords.startDate)),
+		db
+			.select({ level: educationRecords.level })
+			.from(educationRecords)
+			.where(eq(educationRecords.userId, userId)),
+		db
+			.select({
+				currentCity: userProfiles.currentCity,
+				state: userProfiles.state,
+				pincode: userProfiles.pincode,
+				latitude: userProfiles.latitude,
+				longitude: userProfiles.longitude,
+				hasNoFormalEducation: userProfiles.hasNoFormalEducation,
+			})
+			.from(userProfiles)
+			.where(and(eq(userProfiles.userId, userId), isNull(userProfiles.deletedAt)))
+			.limit(1),
+		db
+			.select({
+				skills: jobseekerProfiles.skills,
+				experienceYears: jobseekerProfiles.experienceYears,
+				expectedSalary: jobseekerProfiles.expectedSalary,
+				preferredLocations: jobseekerProfiles.preferredLocations,
+				city: jobseekerProfiles.city,
+				state: jobseekerProfiles.state,
+				pincode: jobseekerProfiles.pincode,
+			})
+			.from(jobseekerProfiles)
+			.where(and(eq(jobseekerProfiles.userId, userId), isNull(jobseekerProfiles.deletedAt)))
+			.limit(1),
+	]);
+
+	// ── Skills: structured rows, plus legacy names not already listed ──
+	const seekerSkills: SeekerSkill[] = skillRows.map((s) => ({
+		name: s.skillName,
+		normalizedName: normalizeSkill(s.skillName),
+		proficiency: (s.proficiencyLevel as ProficiencyLevels | null) ?? null,
+		years: s.yearsOfExperience ?? null,
+	}));
+	for (const name of legacy?.skills ?? []) {
+		const normalizedName = normalizeSkill(name);
+		if (normalizedName && !seekerSkills.some((s) => s.normalizedName === normalizedName)) {
+			seekerSkills.push({ name, normalizedName, proficiency: null, years: null });
+		}
+	}
+
+	// ── Experience: months across records (overlaps are not merged) ──
+	const now = new Date();
+	let months = 0;
+	for (const record of experienceRows) {
+		if (!record.startDate) continue;
+		const end = record.isCurrent || !record.endDate ? now : record.endDate;
+		months += monthsBetween(record.startDate, end);
+	}
+	const experienceYears =
+		experienceRows.length > 0 && months > 0
+			? Math.floor(months / 12)
+			: legacy?.experienceYears ?? (experienceRows.length === 0 ? null : 0);
+
+	const pastTitles = [
+		...new Set(experienceRows.map((r) => r.jobTitle?.trim()).filter((t): t is string => !!t)),
+	].slice(0, MAX_PAST_TITLES);
+
+	// ── Education ──
+	let educationLevel = highestEducationLevel(educationRows.map((r) => r.level as EducationLevels));
+	if (educationLevel === null && profile?.hasNoFormalEducation) {
+		educationLevel = EducationLevels.NO_EDUCATION;
+	}
+
+	// ── Salary ──
+	const expected = legacy?.expectedSalary ? parseFloat(legacy.expectedSalary) : NaN;
+	const expectedMonthlySalary =
+		expected > 0 ? (expected >= ANNUAL_SALARY_THRESHOLD ? expected / 12 : expected) : null;
+
+	// ── Location ──
+	let point: GeoPoint | null = null;
+	if (profile?.latitude != null && profile.longitude != null) {
+		point = { latitude: profile.latitude, longitude: profile.longitude };
+	} else {
+		point = await resolvePincode(profile?.pincode ?? legacy?.pincode);
+	}
+
+	return {
+		skills: seekerSkills,
+		experienceYears,
+		pastTitles,
+		educationLevel,
+		expectedMonthlySalary,
+		city: profile?.currentCity || legacy?.city || null,
+		state: profile?.state || legacy?.state || null,
+		preferredLocations: (legacy?.preferredLocations ?? []).filter((l) => l.trim()),
+		point,
+	};
+}
+
+// ============================================
+// Candidate Jobs
+// ============================================
+
+/**
+ * Jobs worth scoring: any required skill in common, a past job title in the
+ * title, or in one of the seeker's locations (or remote). Undefined when the
+ * profile has none of these, i.e. score the most recent jobs.
+ */
+export function recommendationCandidateCondition(profile: SeekerProfile): SQL | undefined {
+	const options: (SQL | undefined)[] = [];
+
+	if (profile.skills.length > 0) {
+		const names = profile.skills.map((s) => s.normalizedName);
+		options.push(
+			sql`exists (select 1 from unnest(${jobs.skillsRequired}) as skill where lower(trim(skill)) in ${names})`
+		);
+	}
+
+	for (const title of profile.pastTitles) {
+		const query = parseJobSearch(titleWords(title).join(" "));
+		if (query) options.push(jobSearchCondition(query));
+	}
+
+	const places = [profile.city, ...profile.preferredLocations]
+		.filter((p): p is string => !!p)
+		.map((p) => p.trim().toLowerCase());
+	if (places.length > 0) {
+		options.push(sql`lower(${jobs.city}) in ${places}`);
+	}
+	if (profile.point) {
+		options.push(withinRadiusSql(jobs.latitude, jobs.longitude, profile.point, AREA_RADIUS_KM));
+	}
+
+	if (options.length === 0) return undefined;
+	options.push(eq(jobs.locationType, LocationTypes.REMOTE));
+	return or(...options);
+}
+
+/** Extra columns the scorer needs beyond the listing fields */
+export const recommendationSelectFields = {
+	educationRequired: jobs.educationRequired,
+	latitude: jobs.latitude,
+	longitude: jobs.longitude,
+};
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Minimum education for free-text requirements such as "12th pass" or
+ * "Graduate (B.Com preferred)"; null when it cannot be read
+ */
+export function parseEducationRequirement(text: string | null): EducationLevels | null {
+	if (!text) return null;
+	const match = EDUCATION_PATTERNS.find(([pattern]) => pattern.test(text));
+	return match ? match[1] : null;
+}
+
+/**
+ * Highest comparable level among education records ("other" is ignored)
+ */
+export function highestEducationLevel(levels: EducationLevels[]): EducationLevels | null {
+	let highest: EducationLevels | null = null;
+	for (const level of levels) {
+		const rank = EDUCATION_RANK[level];
+		if (rank === undefined) continue;
+		if (highest === null || rank > EDUCATION_RANK[highest]!) highest = level;
+	}
+	return highest;
+}
+
+/**
+ * Comparable levels at or above `level` (for "at least 12th pass" filters)
+ */
+export function educationLevelsAtLeast(level: EducationLevels): EducationLevels[] {
+	const rank = EDUCATION_RANK[level];
+	if (rank === undefined) return [level];
+	return (Object.keys(EDUCATION_RANK) as EducationLevels[]).filter((l) => EDUCATION_RANK[l]! >= rank);
+}
+
+/**
+ * jobseekerProfiles.expectedSalary per month, with the same annual/monthly
+ * heuristic as loadSeekerProfile
+ */
+export function expectedMonthlySalarySql(): SQL<number | null> {
+	return sql<number | null>`(case when ${jobseekerProfiles.expectedSalary} >= ${ANNUAL_SALARY_THRESHOLD} then ${jobseekerProfiles.expectedSalary} / 12 else ${jobseekerProfiles.expectedSalary} end)::float8`;
+}
+
+function monthlySalary(amount: string | null, salaryType: string | null): number | null {
+	const value = amount ? parseFloat(amount) : NaN;
+	if (!(value > 0)) return null;
+	return value * (MONTHLY_FACTOR[salaryType ?? "yearly"] ?? MONTHLY_FACTOR.yearly);
+}
+
+function formatRupees(amount: number): string {
+	return `₹${Math.round(amount).toLocaleString("en-IN")}`;
+}
+
+function titleWords(title: string): string[] {
+	return normalizeSkill(title)
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((w) => w.length >= 3 && !TITLE_STOPWORDS.has(w));
+}
+
+function skillsMatch(required: string, seeker: string): boolean {
+	if (required === seeker) return true;
+	// "driving" vs "car driving"; short names ("c", "go") must match exactly
+	return (
+		Math.min(required.length, seeker.length) >= 4 &&
+		(` ${required} `.includes(` ${seeker} `) || ` ${seeker} `.includes(` ${required} `))
+	);
+}
+
+function scoreSkills(profile: SeekerProfile, job: RecommendableJob, reasons: string[]): number {
+	const required = [...new Set((job.skillsRequired ?? []).map(normalizeSkill).filter(Boolean))];
+	// Nothing listed: neither a match nor a mismatch
+	if (required.length === 0) return WEIGHTS.skills * 0.5;
+
+	let strength = 0;
+	let matched = 0;
+	let strongest: { skill: SeekerSkill; strength: number } | null = null;
+
+	for (const name of required) {
+		const skill = profile.skills.find((s) => skillsMatch(name, s.normalizedName));
+		if (!skill) continue;
+
+		const skillStrength = Math.min(
+			1,
+			PROFICIENCY_STRENGTH[skill.proficiency ?? ProficiencyLevels.INTERMEDIATE] +
+				(skill.years ?? 0) * YEARS_BONUS_PER_YEAR
+		);
+		strength += skillStrength;
+		matched++;
+		if (!strongest || skillStrength > strongest.strength) strongest = { skill, strength: skillStrength };
+	}
+
+	if (matched === 0) return 0;
+
+	reasons.push(`Matches ${matched} of ${required.length} required skills`);
+	if (strongest && strongest.skill.years && strongest.skill.years >= 2) {
+		reasons.push(`${strongest.skill.years} years of ${strongest.skill.name}`);
+	} else if (
+		strongest &&
+		(strongest.skill.proficiency === ProficiencyLevels.EXPERT ||
+			strongest.skill.proficiency === ProficiencyLevels.ADVANCED)
+	) {
+		reasons.push(`${strongest.skill.proficiency === ProficiencyLevels.EXPERT ? "Expert" : "Advanced"} in ${strongest.skill.name}`);
+	}
+
+	return (strength / required.length) * WEIGHTS.skills;
+}
+
+function scoreExperience(profile: SeekerProfile, job: RecommendableJob, reasons: string[]): number {
+	const yearsWeight = WEIGHTS.experience * (1 - TITLE_SHARE);
+	const titleWeight = WEIGHTS.experience * TITLE_SHARE;
+	const min = job.minExperienceYears ?? 0;
+	const max = job.maxExperienceYears;
+	let score = 0;
+
+	if (profile.experienceYears === null) {
+		score += min === 0 ? yearsWeight : yearsWeight * 0.5;
+	} else if (profile.experienceYears < min) {
+		score += yearsWeight * 0.5 * (profile.experienceYears / min);
+	} else if (max !== null && profile.experienceYears > max + 2) {
+		// Overqualified: still a fit, less likely to be shortlisted
+		score += yearsWeight * 0.6;
+	} else {
+		score += yearsWeight;
+		if (min === 0 && profile.experienceYears === 0) {
+			reasons.push("Open to freshers");
+		} else if (min > 0) {
+			const range = max !== null && max > min ? `${min}-${max}` : `${min}+`;
+			reasons.push(`Needs ${range} years of experience; you have ${profile.experienceYears}`);
+		}
+	}
+
+	const jobWords = new Set(titleWords(job.title));
+	const pastTitle = profile.pastTitles.find((t) => titleWords(t).some((w) => jobWords.has(w)));
+	if (pastTitle) {
+		score += titleWeight;
+		reasons.push(`You have worked as ${pastTitle}`);
+	}
+
+	return score;
+}
+
+function scoreEducation(profile: SeekerProfile, job: RecommendableJob, reasons: string[]): number {
+	const required = parseEducationRequirement(job.educationRequired);
+	if (!required || required === EducationLevels.NO_EDUCATION) return WEIGHTS.education;
+	if (!profile.educationLevel) return WEIGHTS.education * 0.5;
+
+	if (EDUCATION_RANK[profile.educationLevel]! >= EDUCATION_RANK[required]!) {
+		reasons.push(`Meets the ${EDUCATION_LABELS[required]} requirement`);
+		return WEIGHTS.education;
+	}
+	return 0;
+}
+
+function scoreSalary(profile: SeekerProfile, job: RecommendableJob, reasons: string[]): number {
+	const offered = monthlySalary(job.salaryMax ?? job.salaryMin, job.salaryType);
+	if (job.hideSalary || offered === null || profile.expectedMonthlySalary === null) {
+		return WEIGHTS.salary * 0.5;
+	}
+
+	if (offered >= profile.expectedMonthlySalary) {
+		reasons.push(`Pays up to ${formatRupees(offered)}/month, within your expected salary`);
+		return WEIGHTS.salary;
+	}
+	if (offered >= profile.expectedMonthlySalary * NEAR_SALARY_RATIO) {
+		return WEIGHTS.salary * 0.5;
+	}
+	return 0;
+}
+
+function scoreLocation(profile: SeekerProfile, job: RecommendableJob, reasons: string[]): number {
+	if (job.locationType === LocationTypes.REMOTE) {
+		reasons.push("Remote job");
+		return WEIGHTS.location;
+	}
+
+	if (profile.point && job.latitude !== null && job.longitude !== null) {
+		const km = distanceKm(profile.point, { latitude: job.latitude, longitude: job.longitude });
+		if (km <= DEFAULT_RADIUS_KM) {
+			reasons.push(`${Math.round(km)} km from you`);
+			return WEIGHTS.location;
+		}
+		if (km <= AREA_RADIUS_KM) {
+			reasons.push(`${Math.round(km)} km from you`);
+			return WEIGHTS.location * 0.5;
+		}
+	}
+
+	const city = job.city?.trim().toLowerCase();
+	if (city) {
+		const preferred = profile.preferredLocations.find((l) => l.trim().toLowerCase() === city);
+		if (preferred) {
+			reasons.push(`In ${job.city}, one of your preferred locations`);
+			return WEIGHTS.location;
+		}
+		if (profile.city?.trim().toLowerCase() === city) {
+			reasons.push(`In your city, ${job.city}`);
+			return WEIGHTS.location;
+		}
+	}
+	if (job.state && profile.state && job.state.trim().toLowerCase() === profile.state.trim().toLowerCase()) {
+		return WEIGHTS.location * 0.3;
+	}
+
+	return 0;
+}
+
+/**
+ * 0-100 match score for one job, with the reasons behind it (strongest signals first)
+ */
+export function scoreJob(profile: SeekerProfile, job: RecommendableJob): JobMatch {
+	const reasons: string[] = [];
+	const score =
+		scoreSkills(profile, job, reasons) +
+		scoreExperience(profile, job, reasons) +
+		scoreEducation(profile, job, reasons) +
+		scoreSalary(profile, job, reasons) +
+		scoreLocation(profile, job, reasons);
+
+	return { matchScore: Math.round(Math.min(score, 100)), reasons };
+}
+
+/**
+ * Score candidates and keep those at or above MIN_MATCH_SCORE, best first
+ */
+export function rankJobs<T extends RecommendableJob>(profile: SeekerProfile, candidates: T[]): (T & JobMatch)[] {
+	return candidates
+		.map((job) => ({ ...job, ...scoreJob(profile, job) }))
+		.filter((job) => job.matchScore >= MIN_MATCH_SCORE)
+		.sort((a, b) => b.matchScore - a.matchScore);
+}
+
+/**
+ * What the recommendations were based on, and which profile sections would improve them
+ */
+export function summarizeSeekerProfile(profile: SeekerProfile) {
+	const missing = [
+		profile.skills.length === 0 && "skills",
+		profile.experienceYears === null && "experience",
+		profile.educationLevel === null && "education",
+		profile.expectedMonthlySalary === null && "expectedSalary",
+		!profile.point && !profile.city && profile.preferredLocations.length === 0 && "location",
+	].filter((s): s is string => !!s);
+
+	return {
+		skills: profile.skills.map((s) => s.name),
+		experienceYears: profile.experienceYears,
+		educationLevel: profile.educationLevel,
+		expectedMonthlySalary: profile.expectedMonthlySalary,
+		locations: [profile.city, ...profile.preferredLocations].filter(Boolean),
+		missing,
+	};
+}
+
+// ============================================
+// Similar Jobs
+// ============================================
+
+function similarSkillNames(source: SimilarJobSource): string[] {
+	return [...new Set((source.skillsRequired ?? []).map(normalizeSkill).filter(Boolean))];
+}
+
+function sourcePoint(source: SimilarJobSource): GeoPoint | null {
+	return source.latitude !== null && source.longitude !== null
+		? { latitude: source.latitude, longitude: source.longitude }
+		: null;
+}
+
+/**
+ * Active jobs from other employers sharing a required skill or the category,
+ * near the source listing (same city or area) or remote. Remote listings match
+ * anywhere.
+ */
+export function similarJobCondition(source: SimilarJobSource): SQL {
+	const names = similarSkillNames(source);
+	const point = sourcePoint(source);
+
+	const overlap = [
+		names.length > 0
+			? sql`exists (select 1 from unnest(${jobs.skillsRequired}) as skill where lower(trim(skill)) in ${names})`
+			: undefined,
+		source.category ? sql`lower(${jobs.category}) = ${source.category.trim().toLowerCase()}` : undefined,
+	].filter((c): c is SQL => !!c);
+
+	const nearby =
+		source.locationType === LocationTypes.REMOTE
+			? []
+			: [
+					source.city ? sql`lower(${jobs.city}) = ${source.city.trim().toLowerCase()}` : undefined,
+					point ? withinRadiusSql(jobs.latitude, jobs.longitude, point, AREA_RADIUS_KM) : undefined,
+				].filter((c): c is SQL => !!c);
+
+	return and(
+		eq(jobs.status, JobStatuses.ACTIVE),
+		isNull(jobs.deletedAt),
+		ne(jobs.id, source.id),
+		ne(jobs.employerId, source.employerId),
+		overlap.length > 0 ? or(...overlap) : sql`false`,
+		nearby.length > 0 ? or(...nearby, eq(jobs.locationType, LocationTypes.REMOTE)) : undefined
+	)!;
+}
+
+/**
+ * 0-100 similarity to the source listing: share of its required skills,
+ * same category, same job type and closeness
+ */
+export function similarityScoreSql(source: SimilarJobSource): SQL<number> {
+	const names = similarSkillNames(source);
+	const point = sourcePoint(source);
+
+	const skillScore =
+		names.length > 0
+			? sql`(select count(distinct lower(trim(skill))) from unnest(${jobs.skillsRequired}) as skill where lower(trim(skill)) in ${names})::float8 / ${names.length} * ${SIMILARITY_WEIGHTS.skills}`
+			: sql`0`;
+	const categoryScore = source.category
+		? sql`case when lower(${jobs.category}) = ${source.category.trim().toLowerCase()} then ${SIMILARITY_WEIGHTS.category} else 0 end`
+		: sql`0`;
+	const jobTypeScore = sql`case when ${jobs.jobType} = ${source.jobType} then ${SIMILARITY_WEIGHTS.jobType} else 0 end`;
+
+	// Full points within city range, half within the wider area
+	let locationScore: SQL;
+	if (source.locationType === LocationTypes.REMOTE) {
+		locationScore = sql`case when ${jobs.locationType} = ${LocationTypes.REMOTE} then ${SIMILARITY_WEIGHTS.location} else 0 end`;
+	} else if (point) {
+		locationScore = sql`case
+			when ${withinRadiusSql(jobs.latitude, jobs.longitude, point, DEFAULT_RADIUS_KM)} then ${SIMILARITY_WEIGHTS.location}
+			when ${withinRadiusSql(jobs.latitude, jobs.longitude, point, AREA_RADIUS_KM)} then ${SIMILARITY_WEIGHTS.location / 2}
+			else 0 end`;
+	} else if (source.city) {
+		locationScore = sql`case when lower(${jobs.city}) = ${source.city.trim().toLowerCase()} then ${SIMILARITY_WEIGHTS.location} else 0 end`;
+	} else {
+		locationScore = sql`0`;
+	}
+
+	return sql<number>`round((${skillScore}) + (${categoryScore}) + (${jobTypeScore}) + (${locationScore}))::int`;
+}
+
+export default {
+	loadSeekerProfile,
+	recommendationCandidateCondition,
+	parseEducationRequirement,
+	highestEducationLevel,
+	educationLevelsAtLeast,
+	expectedMonthlySalarySql,
+	scoreJob,
+	rankJobs,
+	summarizeSeekerProfile,
+	similarJobCondition,
+	similarityScoreSql,
+};
@@ -0,0 +1,304 @@
+/**
+ * Job Search Service
+ * PostgreSQL full-text search over jobs.search_vector (title and skills weighted
+ * highest, then category, role summary and description), with prefix matching,
+ * relevance ranking boosted for featured/urgent jobs, highlighted snippets, and
+ * facet counts for the listing filters
+ */
+
+import { and, desc, eq, gte, isNotNull, isNull, like, lte, or, sql, SQL } from "drizzle-orm";
+import { db } from "../config/database.ts";
+import { jobs } from "../db/index.ts";
+import { SortKey, sortKey } from "../utils/pagination.ts";
+import { GeoPoint, withinRadiusSql } from "./geoService.ts";
+
+// Must match the text search config used by the jobs_search_vector_update() trigger
+const SEARCH_CONFIG = sql.raw("'english'");
+
+const MAX_SEARCH_TERMS = 8;
+
+// Relevance multipliers for promoted jobs (a strong match still beats a weak featured one)
+const FEATURED_BOOST = 0.3;
+const URGENT_BOOST = 0.15;
+
+// ts_headline markers (private-use characters), swapped for <mark> once the
+// surrounding text has been HTML-escaped
+const HIGHLIGHT_START = "\uE000";
+const HIGHLIGHT_STOP = "\uE001";
+
+// Unmapped in the Drizzle schema, see db/schema/jobs.ts
+const searchVector = sql`${jobs}."search_vector"`;
+
+export interface JobSearchQuery {
+	terms: string[];
+	tsquery: SQL;
+}
+
+/**
+ * Parse free text into a prefix tsquery ("deliv boy" -> deliv:* & boy:*).
+ * Returns null when the input has no searchable words.
+ */
+export function parseJobSearch(input: string): JobSearchQuery | null {
+	const terms = input
+		.toLowerCase()
+		.split(/[^\p{L}\p{M}\p{N}]+/u)
+		.filter(Boolean)
+		.slice(0, MAX_SEARCH_TERMS);
+
+	if (terms.length === 0) return null;
+
+	const text = terms.map((term) => `${term}:*`).join(" & ");
+	return { terms, tsquery: sql`to_tsquery(${SEARCH_CONFIG}, ${text})` };
+}
+
+export function jobSearchCondition(query: JobSearchQuery): SQL {
+	return sql`${searchVector} @@ ${query.tsquery}`;
+}
+
+/**
+ * Weighted relevance (cover density, length-normalised) with the featured/urgent boost
+ */
+export function jobSearchRank(query: JobSearchQuery): SQL<number> {
+	return sql<number>`ts_rank_cd(${searchVector}, ${query.tsquery}, 32)
+		* (1 + CASE WHEN ${jobs.isFeatured} THEN ${sql.raw(String(FEATURED_BOOST))} ELSE 0 END
+			+ CASE WHEN ${jobs.isUrgentHighlight} THEN ${sql.raw(String(URGENT_BOOST))} ELSE 0 END)`;
+}
+
+/**
+ * Listing order as keyset sort keys: distance (radius searches) and relevance
+ * (text searches) first, then featured, urgent and recency, with id breaking
+ * ties. Unpromoted and unpublished jobs sort as before (nulls first).
+ */
+export function jobListSortKeys(query: JobSearchQuery | null, distance: SQL<number | null> | null): SortKey[] {
+	return [
+		...(distance ? [sortKey(sql`coalesce(${distance}, 'Infinity'::float8)`, "asc")] : []),
+		...(query ? [sortKey(jobSearchRank(query), "desc")] : []),
+		sortKey(jobs.isFeatured, "desc"),
+		sortKey(jobs.isUrgentHighlight, "desc"),
+		sortKey(sql`coalesce(${jobs.promotedAt}, 'infinity'::timestamp)`, "desc"),
+		sortKey(sql`coalesce(${jobs.publishedAt}, 'infinity'::timestamp)`, "desc"),
+		sortKey(jobs.id, "desc"),
+	];
+}
+
+/**
+ * Extra select fields for search results (rank and raw highlights; see formatSearchHighlight)
+ */
+export function jobSearchSelectFields(query: JobSearchQuery) {
+	const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`;
+
+	return {
+		searchRank: jobSearchRank(query),
+		titleHighlight: sql<string>`ts_headline(${SEARCH_CONFIG}, ${jobs.title}, ${query.tsquery}, ${`${options}, HighlightAll=true`})`,
+		snippetHighlight: sql<string>`ts_headline(${SEARCH_CONFIG}, concat_ws(' ', ${jobs.roleSummary}, ${jobs.description}), ${query.tsquery}, ${`${options}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`})`,
+	};
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.split("&").join("&amp;")
+		.split("<").join("&lt;")
+		.split(">").join("&gt;")
+		.split('"').join("&quot;")
+		.split("'").join("&#39;");
+}
+
+/**
+ * HTML-escape a ts_headline result and wrap matches in <mark> (safe to render as HTML)
+ */
+export function formatSearchHighlight(value: string | null | undefined): string | null {
+	if (!value) return null;
+
+	return escapeHtml(value)
+		.split(HIGHLIGHT_START).join("<mark>")
+		.split(HIGHLIGHT_STOP).join("</mark>");
+}
+
+// ============================================
+// Filters
+// ============================================
+
+/**
+ * GET /jobs filter parameters (saved searches store the same shape)
+ */
+export interface JobFilters {
+	search?: string;
+	city?: string;
+	jobType?: string;
+	category?: string;
+	locationType?: string;
+	minSalary?: number;
+	maxSalary?: number;
+	minExperience?: number;
+	maxExperience?: number;
+}
+
+/**
+ * Conditions for the listing filters (status/deletedAt not included). Filters
+ * that have a facet are kept apart so each facet can be counted without its
+ * own filter.
+ */
+export function jobFilterConditions(
+	filters: JobFilters,
+	radius: { origin: GeoPoint; radiusKm: number } | null = null
+): {
+	searchQuery: JobSearchQuery | null;
+	conditions: SQL[];
+	facetConditions: Partial<Record<JobFacetName, SQL>>;
+} {
+	const conditions: SQL[] = [];
+	const facetConditions: Partial<Record<JobFacetName, SQL>> = {};
+
+	// Full-text search (ranked by relevance, see jobListSortKeys)
+	const searchQuery = filters.search ? parseJobSearch(filters.search) : null;
+	if (searchQuery) {
+		conditions.push(jobSearchCondition(searchQuery));
+	}
+	if (radius) {
+		conditions.push(withinRadiusSql(jobs.latitude, jobs.longitude, radius.origin, radius.radiusKm));
+	}
+	if (filters.city) {
+		facetConditions.city = like(sql`lower(${jobs.city})`, `%${filters.city.toLowerCase()}%`);
+	}
+	if (filters.jobType) {
+		facetConditions.jobType = eq(jobs.jobType, filters.jobType as any);
+	}
+	if (filters.category) {
+		facetConditions.category = eq(jobs.category, filters.category);
+	}
+	if (filters.locationType) {
+		facetConditions.locationType = eq(jobs.locationType, filters.locationType as any);
+	}
+	if (filters.minSalary !== undefined) {
+		facetConditions.minSalary = gte(jobs.salaryMin, filters.minSalary.toString());
+	}
+	if (filters.maxSalary !== undefined) {
+		conditions.push(lte(jobs.salaryMax, filters.maxSalary.toString()));
+	}
+	if (filters.minExperience !== undefined) {
+		conditions.push(gte(jobs.minExperienceYears, filters.minExperience));
+	}
+	if (filters.maxExperience !== undefined) {
+		facetConditions.maxExperience = or(
+			lte(jobs.maxExperienceYears, filters.maxExperience),
+			isNull(jobs.maxExperienceYears)
+		)!;
+	}
+
+	return { searchQuery, conditions, facetConditions };
+}
+
+// ============================================
+// Facets
+// ============================================
+
+/**
+ * Facets are keyed by the GET /jobs query param they drive, so a bucket's
+ * value can be sent back as-is
+ */
+export type JobFacetName =
+	| "city"
+	| "jobType"
+	| "category"
+	| "locationType"
+	| "minSalary"
+	| "maxExperience";
+
+export interface JobFacetBucket {
+	value: string | number;
+	count: number;
+}
+
+export type JobFacets = Record<JobFacetName, JobFacetBucket[]>;
+
+const MAX_FACET_BUCKETS = 20;
+
+// Salary filters ignore salaryType, so thresholds cover monthly and yearly figures
+const SALARY_THRESHOLDS = [5000, 10000, 15000, 20000, 30000, 50000, 100000, 300000, 500000, 1000000];
+const EXPERIENCE_THRESHOLDS = [0, 1, 2, 3, 5, 10];
+
+async function countByColumn(
+	column: typeof jobs.city | typeof jobs.category | typeof jobs.jobType | typeof jobs.locationType,
+	where: SQL | undefined
+): Promise<JobFacetBucket[]> {
+	const rows = await db
+		.select({ value: column, count: sql<number>`count(*)::int` })
+		.from(jobs)
+		.where(and(where, isNotNull(column)))
+		.groupBy(column)
+		.orderBy(desc(sql`count(*)`))
+		.limit(MAX_FACET_BUCKETS);
+
+	return rows.map((row) => ({ value: row.value as string, count: row.count }));
+}
+
+/**
+ * Cumulative buckets: each counts what the filter would return for that threshold
+ */
+async function countByThreshold(
+	thresholds: number[],
+	matches: (threshold: number) => SQL,
+	where: SQL | undefined
+): Promise<JobFacetBucket[]> {
+	const fields: Record<string, SQL<number>> = {};
+	thresholds.forEach((threshold, i) => {
+		fields[`t${i}`] = sql<number>`(count(*) filter (where ${matches(threshold)}))::int`;
+	});
+
+	const [row] = await db.select(fields).from(jobs).where(where);
+
+	return thresholds
+		.map((threshold, i) => ({ value: threshold, count: row?.[`t${i}`] ?? 0 }))
+		.filter((bucket) => bucket.count > 0);
+}
+
+/**
+ * Facet counts for the job listing. Each facet applies every active filter
+ * except its own (so selecting "Lucknow" still shows the other cities' counts).
+ *
+ * @param conditions - Conditions that are not facets (status, search, ...)
+ * @param facetConditions - The active facet filters, keyed by facet
+ */
+export async function getJobFacets(
+	conditions: SQL[],
+	facetConditions: Partial<Record<JobFacetName, SQL>>
+): Promise<JobFacets> {
+	const whereExcept = (facet: JobFacetName) =>
+		and(
+			...conditions,
+			...Object.entries(facetConditions)
+				.filter(([name]) => name !== facet)
+				.map(([, condition]) => condition)
+		);
+
+	const [city, jobType, category, locationType, minSalary, maxExperience] = await Promise.all([
+		countByColumn(jobs.city, whereExcept("city")),
+		countByColumn(jobs.jobType, whereExcept("jobType")),
+		countByColumn(jobs.category, whereExcept("category")),
+		countByColumn(jobs.locationType, whereExcept("locationType")),
+		countByThreshold(
+			SALARY_THRESHOLDS,
+			(threshold) => sql`${jobs.salaryMin} >= ${threshold}`,
+			whereExcept("minSalary")
+		),
+		countByThreshold(
+			EXPERIENCE_THRESHOLDS,
+			(threshold) =>
+				sql`(${jobs.maxExperienceYears} <= ${threshold} or ${jobs.maxExperienceYears} is null)`,
+			whereExcept("maxExperience")
+		),
+	]);
+
+	return { city, jobType, category, locationType, minSalary, maxExperience };
+}
+
+export default {
+	parseJobSearch,
+	jobSearchCondition,
+	jobSearchRank,
+	jobListSortKeys,
+	jobSearchSelectFields,
+	formatSearchHighlight,
+	jobFilterConditions,
+	getJobFacets,
+};
@@ -0,0 +1,299 @@
+/**
+ * Location Service
+ * Canonical location taxonomy (state → district → city → area): name
+ * normalisation, autocomplete, and matching free-text location fields to a
+ * locationId
+ */
+
+import { and, asc, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import { locations, Location, LocationLevels } from "../db/index.ts";
+
+export interface LocationNames {
+	state?: string | null;
+	district?: string | null;
+	city?: string | null;
+	area?: string | null;
+}
+
+export interface LocationSuggestion {
+	id: bigint;
+	parentId: bigint | null;
+	level: LocationLevels;
+	name: string;
+	displayName: string;
+}
+
+// Autocomplete ranks cities first - that is what people type
+const LEVEL_RANK: Record<LocationLevels, number> = {
+	[LocationLevels.CITY]: 0,
+	[LocationLevels.DISTRICT]: 1,
+	[LocationLevels.AREA]: 2,
+	[LocationLevels.STATE]: 3,
+};
+
+const MAX_PARENT_DEPTH = 4;
+
+/**
+ * "  Jammu & Kashmir." -> "jammu and kashmir"
+ */
+export function normalizeLocationName(value: string): string {
+	return value
+		.toLowerCase()
+		.split("&").join(" and ")
+		.replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+		.trim()
+		.replace(/\s+/g, " ");
+}
+
+// ============================================
+// Autocomplete
+// ============================================
+
+/**
+ * Prefix match on names (any word) and aliases. Exact matches come first, then
+ * cities, districts, areas and states, then shorter names.
+ */
+export async function suggestLocations(
+	query: string,
+	options: { level?: LocationLevels; parentId?: bigint; limit: number }
+): Promise<LocationSuggestion[]> {
+	const normalized = normalizeLocationName(query);
+	if (!normalized) return [];
+
+	const escaped = normalized.replace(/[\\%_]/g, (c) => `\\${c}`);
+	const conditions = [
+		or(
+			sql`${locations.normalizedName} like ${`${escaped}%`}`,
+			sql`${locations.normalizedName} like ${`% ${escaped}%`}`,
+			sql`exists (select 1 from unnest(${locations.aliases}) as alias where alias like ${`${escaped}%`})`
+		),
+	];
+	if (options.level) conditions.push(eq(locations.level, options.level));
+	if (options.parentId) conditions.push(eq(locations.parentId, options.parentId));
+
+	const levelRank = sql`case ${locations.level}
+		${sql.join(
+			Object.entries(LEVEL_RANK).map(([level, rank]) => sql`when ${level} then ${sql.raw(String(rank))}`),
+			sql` `
+		)} end`;
+
+	return db
+		.select({
+			id: locations.id,
+			parentId: locations.parentId,
+			level: locations.level,
+			name: locations.name,
+			displayName: locations.displayName,
+		})
+		.from(locations)
+		.where(and(...conditions))
+		.orderBy(
+			sql`(${locations.normalizedName} = ${normalized} or ${normalized} = any(${locations.aliases})) desc`,
+			asc(levelRank),
+			asc(sql`length(${locations.name})`),
+			asc(locations.name)
+		)
+		.limit(options.limit) as Promise<LocationSuggestion[]>;
+}
+
+// ============================================
+// Lookup / Matching
+// ============================================
+
+export async function getLocation(id: bigint): Promise<Location | null> {
+	const [location] = await db.select().from(locations).where(eq(locations.id, id)).limit(1);
+	return location ?? null;
+}
+
+/**
+ * The location and its ancestors as level -> name
+ */
+export async function getLocationNames(location: Location): Promise<LocationNames> {
+	const names: LocationNames = { [location.level]: location.name };
+
+	let parentId = location.parentId;
+	for (let depth = 0; parentId && depth < MAX_PARENT_DEPTH; depth++) {
+		const parent = await getLocation(parentId);
+		if (!parent) break;
+		names[parent.level] = parent.name;
+		parentId = parent.parentId;
+	}
+
+	return names;
+}
+
+/**
+ * Entries at `level` whose name or alias matches, optionally under one of `parentIds`
+ */
+async function findByName(
+	level: LocationLevels,
+	name: string | null | undefined,
+	parentIds?: bigint[]
+): Promise<Location[]> {
+	const normalized = name ? normalizeLocationName(name) : "";
+	if (!normalized) return [];
+	if (parentIds && parentIds.length === 0) return [];
+
+	return db
+		.select()
+		.from(locations)
+		.where(
+			and(
+				eq(locations.level, level),
+				or(
+					eq(locations.normalizedName, normalized),
+					sql`${normalized} = any(${locations.aliases})`
+				),
+				parentIds ? inArray(locations.parentId, parentIds) : undefined
+			)
+		);
+}
+
+/**
+ * Most specific canonical location for free-text fields (area > city > district > state),
+ * or null when nothing matches. A state narrows the match; ambiguous names
+ * without a state are not guessed.
+ */
+export async function matchLocation(names: LocationNames): Promise<Location | null> {
+	const states = await findByName(LocationLevels.STATE, names.state);
+	const state = states.length === 1 ? states[0] : null;
+
+	const districts = await findByName(
+		LocationLevels.DISTRICT,
+		names.district,
+		state ? [state.id] : undefined
+	);
+	const district = districts.length === 1 ? districts[0] : null;
+
+	// Cities sit under their district, or directly under the state
+	let cityParents: bigint[] | undefined;
+	if (district) {
+		cityParents = [district.id, ...(state ? [state.id] : [])];
+	} else if (state) {
+		const stateDistricts = await db
+			.select({ id: locations.id })
+			.from(locations)
+			.where(and(eq(locations.parentId, state.id), eq(locations.level, LocationLevels.DISTRICT)));
+		cityParents = [state.id, ...stateDistricts.map((d) => d.id)];
+	}
+	let cities = await findByName(LocationLevels.CITY, names.city, cityParents);
+	if (cities.length > 1 && district) {
+		cities = cities.filter((c) => c.parentId === district.id);
+	}
+	const city = cities.length === 1 ? cities[0] : null;
+
+	if (city) {
+		const [area] = await findByName(LocationLevels.AREA, names.area, [city.id]);
+		return area ?? city;
+	}
+
+	return district ?? state;
+}
+
+/**
+ * locationId to store with an entity's location fields. An explicit locationId
+ * (picked from /locations/suggest) must exist and also yields the canonical
+ * names to store; otherwise the free text is matched (null when it cannot be).
+ */
+export async function resolveLocation(
+	input: LocationNames & { locationId?: string | number | bigint | null }
+): Promise<{ locationId: bigint | null; names: LocationNames | null }> {
+	if (input.locationId !== undefined && input.locationId !== null) {
+		const location = await getLocation(BigInt(input.locationId));
+		if (!location) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.BAD_REQUEST,
+				message: "Unknown location",
+			});
+		}
+		return { locationId: location.id, names: await getLocationNames(location) };
+	}
+
+	const location = await matchLocation(input);
+	return { locationId: location?.id ?? null, names: null };
+}
+
+/**
+ * Overlay the canonical names from resolveLocation (when a locationId was picked)
+ * on the submitted fields - only levels the entity stores and the location covers
+ */
+export function withCanonicalNames<T extends LocationNames>(fields: T, names: LocationNames | null): T {
+	if (!names) return fields;
+	const canonical = Object.fromEntries(
+		Object.entries(names).filter(([level, name]) => !!name && level in fields)
+	);
+	return { ...fields, ...canonical };
+}
+
+// ============================================
+// Taxonomy Maintenance
+// ============================================
+
+/**
+ * Find or create an entry under `parent`, merging any new aliases
+ */
+export async function upsertLocation(
+	level: LocationLevels,
+	name: string,
+	parent: Location | null,
+	aliases: string[] = []
+): Promise<Location> {
+	const normalizedName = normalizeLocationName(name);
+	const normalizedAliases = aliases.map(normalizeLocationName).filter((a) => a && a !== normalizedName);
+
+	const [existing] = await db
+		.select()
+		.from(locations)
+		.where(
+			and(
+				eq(locations.level, level),
+				eq(locations.normalizedName, normalizedName),
+				parent ? eq(locations.parentId, parent.id) : isNull(locations.parentId)
+			)
+		)
+		.limit(1);
+
+	if (existing) {
+		const merged = [...new Set([...(existing.aliases ?? []), ...normalizedAliases])];
+		if (merged.length === (existing.aliases ?? []).length) return existing;
+
+		const [updated] = await db
+			.update(locations)
+			.set({ aliases: merged, updatedAt: new Date() })
+			.where(eq(locations.id, existing.id))
+			.returning();
+		return updated;
+	}
+
+	const [created] = await db
+		.insert(locations)
+		.values({
+			parentId: parent?.id ?? null,
+			level,
+			name: name.trim(),
+			normalizedName,
+			aliases: normalizedAliases.length > 0 ? normalizedAliases : null,
+			// "Lucknow, Uttar Pradesh" rather than "Lucknow, Lucknow, Uttar Pradesh" for district HQs
+			displayName: !parent
+				? name.trim()
+				: parent.normalizedName === normalizedName
+					? parent.displayName
+					: `${name.trim()}, ${parent.displayName}`,
+		})
+		.returning();
+	return created;
+}
+
+export default {
+	normalizeLocationName,
+	suggestLocations,
+	getLocation,
+	getLocationNames,
+	matchLocation,
+	resolveLocation,
+	withCanonicalNames,
+	upsertLocation,
+};
@@ -0,0 +1,283 @@
+/**
+ * Notification Digest Service
+ * Holds back email notifications for users on a daily/weekly digest and sends
+ * them as one summary email from the scheduled digest job
+ */
+
+import { and, asc, eq, inArray, isNull, ne, or } from "drizzle-orm";
+import { db } from "../config/database.ts";
+import {
+	notificationDigestItems,
+	notificationDigestSettings,
+	NotificationDigestItem,
+	DigestFrequencies,
+	NotificationCategories,
+	users,
+} from "../db/index.ts";
+import { queueEmail } from "./emailDeliveryService.ts";
+import { DEFAULT_EMAIL_LOCALE, validateTemplateData } from "./emailTemplateService.ts";
+import { normalizeLocale } from "../utils/i18n.ts";
+
+// ============================================
+// Config
+// ============================================
+
+/**
+ * Categories that may be batched. KYC and payments (and security/account
+ * emails, which have no category) always go out immediately.
+ */
+export const DIGESTIBLE_CATEGORIES: NotificationCategories[] = [
+	NotificationCategories.APPLICATIONS,
+	NotificationCategories.JOB_ALERTS,
+	NotificationCategories.MARKETING,
+];
+
+const MAX_DIGEST_ITEMS = 20; // Listed individually in the email; the rest are only counted
+
+// Item types with their own wording in the summary line; anything else counts as "other updates"
+const SUMMARY_TYPES = ["new_application", "application_status", "profile_viewed", "resume_unlocked", "job_alert"];
+
+export interface DigestItemData {
+	type: string;
+	title: string;
+	message: string;
+	link?: string;
+	metadata?: Record<string, any>;
+}
+
+// ============================================
+// Settings
+// ============================================
+
+export async function getDigestFrequency(userId: bigint): Promise<DigestFrequencies> {
+	const [settings] = await db
+		.select({ frequency: notificationDigestSettings.frequency })
+		.from(notificationDigestSettings)
+		.where(eq(notificationDigestSettings.userId, userId))
+		.limit(1);
+
+	return (settings?.frequency as DigestFrequencies) ?? DigestFrequencies.IMMEDIATE;
+}
+
+/**
+ * Switching back to immediate leaves pending items in place;
+ * they go out with the next daily digest run.
+ */
+export async function setDigestFrequency(
+	userId: bigint,
+	frequency: DigestFrequencies
+): Promise<DigestFrequencies> {
+	await db
+		.insert(notificationDigestSettings)
+		.values({ userId, frequency: frequency as any })
+		.onConflictDoUpdate({
+			target: notificationDigestSettings.userId,
+			set: { frequency: frequency as any, updatedAt: new Date() },
+		});
+
+	return frequency;
+}
+
+// ============================================
+// Queueing
+// ============================================
+
+/**
+ * Hold an email notification for the user's digest.
+ * Returns false when it should be emailed now (non-digestible category or
+ * the user receives emails immediately).
+ */
+export async function queueDigestItem(
+	userId: bigint,
+	category: NotificationCategories,
+	item: DigestItemData
+): Promise<boolean> {
+	if (!DIGESTIBLE_CATEGORIES.includes(category)) return false;
+	if ((await getDigestFrequency(userId)) === DigestFrequencies.IMMEDIATE) return false;
+
+	await db.insert(notificationDigestItems).values({
+		userId,
+		category: category as any,
+		type: item.type,
+		title: item.title,
+		message: item.message,
+		link: item.link || null,
+		metadata: item.metadata || null,
+	});
+
+	return true;
+}
+
+// ============================================
+// Summary
+// ============================================
+
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function describeGroup(type: string, items: NotificationDigestItem[]): string {
+	switch (type) {
+		case "new_application": {
+			const jobs = new Set(
+				items.map((item) => (item.metadata as Record<string, any> | null)?.jobTitle).filter(Boolean)
+			);
+			return jobs.size > 1
+				? `${pluralize(items.length, "new applicant")} across ${pluralize(jobs.size, "job")}`
+				: pluralize(items.length, "new applicant");
+		}
+		case "application_status":
+			return pluralize(items.length, "application update");
+		case "profile_viewed":
+			return pluralize(items.length, "profile view");
+		case "resume_unlocked":
+			return pluralize(items.length, "resume unlock");
+		case "job_alert": {
+			// One item per saved search, each carrying its number of new jobs
+			const jobCount = items.reduce(
+				(sum, item) => sum + ((item.metadata as Record<string, any> | null)?.jobCount ?? 1),
+				0
+			);
+			return pluralize(jobCount, "new matching job");
+		}
+		default:
+			return pluralize(items.length, "other update");
+	}
+}
+
+/**
+ * One-line summary, e.g. "12 new applicants across 3 jobs today"
+ */
+export function buildDigestSummary(
+	items: NotificationDigestItem[],
+	frequency: DigestFrequencies.DAILY | DigestFrequencies.WEEKLY
+): string {
+	const groups = new Map<string, NotificationDigestItem[]>();
+	for (const item of items) {
+		const key = SUMMARY_TYPES.includes(item.type) ? item.type : "other";
+		groups.set(key, [...(groups.get(key) ?? []), item]);
+	}
+
+	const parts = [...groups.entries()].map(([type, group]) => describeGroup(type, group));
+	return `${parts.join(", ")} ${frequency === DigestFrequencies.WEEKLY ? "this week" : "today"}`;
+}
+
+// ============================================
+// Sending (digest job)
+// ============================================
+
+async function sendUserDigest(
+	userId: bigint,
+	frequency: DigestFrequencies.DAILY | DigestFrequencies.WEEKLY
+): Promise<boolean> {
+	const items = await db
+		.select()
+		.from(notificationDigestItems)
+		.where(and(eq(notificationDigestItems.userId, userId), isNull(notificationDigestItems.sentAt)))
+		.orderBy(asc(notificationDigestItems.createdAt));
+
+	if (items.length === 0) return false;
+
+	const [user] = await db
+		.select({ email: users.email, name: users.name, locale: users.locale })
+		.from(users)
+		.where(and(eq(users.id, userId), isNull(users.deletedAt)))
+		.limit(1);
+
+	const now = new Date();
+	let sent = false;
+
+	// Users without an email address still have their items cleared
+	if (user?.email) {
+		const data = validateTemplateData("notification_digest", {
+			userName: user.name || undefined,
+			frequency,
+			summary: buildDigestSummary(items, frequency),
+			totalCount: items.length,
+			items: items.slice(0, MAX_DIGEST_ITEMS).map((item) => ({
+				title: item.title,
+				message: item.message,
+				link: item.link || undefined,
+			})),
+			remainingCount: Math.max(items.length - MAX_DIGEST_ITEMS, 0),
+		});
+
+		// One-click unsubscribe only when every item is from one category; a mixed
+		// digest links to the unsubscribe page instead of guessing
+		const categories = new Set(items.map((item) => item.category));
+
+		await queueEmail({
+			to: user.email,
+			template: "notification_digest",
+			data,
+			locale: normalizeLocale(user.locale) ?? DEFAULT_EMAIL_LOCALE,
+			unsubscribeCategory: categories.size === 1 ? [...categories][0] : undefined,
+		});
+		sent = true;
+	}
+
+	await db
+		.update(notificationDigestItems)
+		.set({ sentAt: now })
+		.where(
+			inArray(
+				notificationDigestItems.id,
+				items.map((item) => item.id)
+			)
+		);
+
+	await db
+		.update(notificationDigestSettings)
+		.set({ lastSentAt: now, updatedAt: now })
+		.where(eq(notificationDigestSettings.userId, userId));
+
+	return sent;
+}
+
+/**
+ * Send the digest to every user with pending items on this schedule.
+ * The daily run also flushes items left over by users who switched back to immediate.
+ */
+export async function sendDueDigests(
+	frequency: DigestFrequencies.DAILY | DigestFrequencies.WEEKLY
+): Promise<{ users: number; sent: number }> {
+	const due = await db
+		.selectDistinct({ userId: notificationDigestItems.userId })
+		.from(notificationDigestItems)
+		.leftJoin(
+			notificationDigestSettings,
+			eq(notificationDigestSettings.userId, notificationDigestItems.userId)
+		)
+		.where(
+			and(
+				isNull(notificationDigestItems.sentAt),
+				frequency === DigestFrequencies.WEEKLY
+					? eq(notificationDigestSettings.frequency, DigestFrequencies.WEEKLY)
+					: or(
+							isNull(notificationDigestSettings.frequency),
+							ne(notificationDigestSettings.frequency, DigestFrequencies.WEEKLY)
+						)
+			)
+		);
+
+	let sent = 0;
+	for (const { userId } of due) {
+		try {
+			if (await sendUserDigest(userId, frequency)) sent++;
+		} catch (error) {
+			// One bad user must not block everyone else's digest
+			console.error(`[Digest] Failed to send ${frequency} digest to user ${userId}:`, error);
+		}
+	}
+
+	return { users: due.length, sent };
+}
+
+export default {
+	DIGESTIBLE_CATEGORIES,
+	getDigestFrequency,
+	setDigestFrequency,
+	queueDigestItem,
+	buildDigestSummary,
+	sendDueDigests,
+};
@@ -0,0 +1,212 @@
+/**
+ * Notification Preference Service
+ * Resolves which channels a user wants per notification category,
+ * gated by MARKETING consent for marketing messages
+ */
+
+import { and, desc, eq, isNotNull, isNull } from "drizzle-orm";
+import { db } from "../config/database.ts";
+import {
+	notificationPreferences,
+	NotificationCategories,
+	NotificationChannels,
+	userConsents,
+	ConsentTypes,
+} from "../db/index.ts";
+import { HTTPError } from "../config/error.ts";
+import { StatusCodes } from "http-status-codes";
+
+// ============================================
+// Types & Defaults
+// ============================================
+
+export type ChannelPreferences = Record<NotificationChannels, boolean>;
+export type NotificationPreferenceMap = Record<NotificationCategories, ChannelPreferences>;
+
+const CONSENT_VERSION = "v1.0";
+
+/**
+ * Defaults used when the user has no row for a category.
+ * Marketing is opt-in; SMS/WhatsApp are opt-in everywhere.
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferenceMap = {
+	[NotificationCategories.APPLICATIONS]: { email: true, inApp: true, sms: false, whatsapp: false },
+	[NotificationCategories.KYC]: { email: true, inApp: true, sms: false, whatsapp: false },
+	[NotificationCategories.PAYMENTS]: { email: true, inApp: true, sms: false, whatsapp: false },
+	[NotificationCategories.MARKETING]: { email: false, inApp: false, sms: false, whatsapp: false },
+	[NotificationCategories.JOB_ALERTS]: { email: true, inApp: true, sms: false, whatsapp: false },
+};
+
+const NO_CHANNELS: ChannelPreferences = { email: false, inApp: false, sms: false, whatsapp: false };
+
+// ============================================
+// Marketing Consent
+// ============================================
+
+/**
+ * Whether the user currently has an active (given, not revoked) MARKETING consent
+ */
+export async function hasMarketingConsent(userId: bigint): Promise<boolean> {
+	const [consent] = await db
+		.select({ id: userConsents.id })
+		.from(userConsents)
+		.where(
+			and(
+				eq(userConsents.userId, userId),
+				eq(userConsents.consentType, ConsentTypes.MARKETING),
+				isNotNull(userConsents.consentGivenAt),
+				isNull(userConsents.consentRevokedAt)
+			)
+		)
+		.orderBy(desc(userConsents.createdAt))
+		.limit(1);
+
+	return !!consent;
+}
+
+/**
+ * Grant or revoke MARKETING consent (keeps history: grants insert, revokes stamp revokedAt)
+ */
+export async function setMarketingConsent(userId: bigint, granted: boolean): Promise<void> {
+	const now = new Date();
+
+	if (granted) {
+		if (await hasMarketingConsent(userId)) return;
+		await db.insert(userConsents).values({
+			userId,
+			consentType: ConsentTypes.MARKETING as any,
+			consentVersion: CONSENT_VERSION,
+			consentGivenAt: now,
+		});
+		return;
+	}
+
+	await db
+		.update(userConsents)
+		.set({ consentRevokedAt: now, updatedAt: now })
+		.where(
+			and(
+				eq(userConsents.userId, userId),
+				eq(userConsents.consentType, ConsentTypes.MARKETING),
+				isNull(userConsents.consentRevokedAt)
+			)
+		);
+}
+
+// ============================================
+// Preferences
+// ============================================
+
+/**
+ * Stored preferences merged over defaults (consent NOT applied - use getEnabledChannels for delivery)
+ */
+export async function getNotificationPreferences(
+	userId: bigint
+): Promise<NotificationPreferenceMap> {
+	const rows = await db
+		.select()
+		.from(notificationPreferences)
+		.where(eq(notificationPreferences.userId, userId));
+
+	const result = structuredClone(DEFAULT_NOTIFICATION_PREFERENCES);
+	for (const row of rows) {
+		result[row.category as NotificationCategories] = {
+			email: row.emailEnabled,
+			inApp: row.inAppEnabled,
+			sms: row.smsEnabled,
+			whatsapp: row.whatsappEnabled,
+		};
+	}
+	return result;
+}
+
+/**
+ * Channels a notification of this category may be delivered on right now.
+ * Triggers call this before enqueueing anything.
+ */
+export async function getEnabledChannels(
+	userId: bigint,
+	category: NotificationCategories
+): Promise<ChannelPreferences> {
+	if (category === NotificationCategories.MARKETING && !(await hasMarketingConsent(userId))) {
+		return { ...NO_CHANNELS };
+	}
+
+	const [row] = await db
+		.select()
+		.from(notificationPreferences)
+		.where(
+			and(
+				eq(notificationPreferences.userId, userId),
+				eq(notificationPreferences.category, category)
+			)
+		)
+		.limit(1);
+
+	if (!row) {
+		return { ...DEFAULT_NOTIFICATION_PREFERENCES[category] };
+	}
+
+	return {
+		email: row.emailEnabled,
+		inApp: row.inAppEnabled,
+		sms: row.smsEnabled,
+		whatsapp: row.whatsappEnabled,
+	};
+}
+
+/**
+ * Upsert channel settings for the given categories.
+ * Enabling any marketing channel requires an active MARKETING consent.
+ */
+export async function updateNotificationPreferences(
+	userId: bigint,
+	updates: Partial<Record<NotificationCategories, Partial<ChannelPreferences>>>
+): Promise<NotificationPreferenceMap> {
+	const current = await getNotificationPreferences(userId);
+
+	const marketingUpdate = updates[NotificationCategories.MARKETING];
+	if (marketingUpdate && Object.values(marketingUpdate).some(Boolean)) {
+		if (!(await hasMarketingConsent(userId))) {
+			throw new HTTPError({
+				httpStatus: StatusCodes.BAD_REQUEST,
+				message: "Marketing consent is required to enable marketing notifications",
+			});
+		}
+	}
+
+	for (const [category, channels] of Object.entries(updates) as [
+		NotificationCategories,
+		Partial<ChannelPreferences>,
+	][]) {
+		if (!channels) continue;
+		const merged = { ...current[category], ...channels };
+		const values = {
+			emailEnabled: merged.email,
+			inAppEnabled: merged.inApp,
+			smsEnabled: merged.sms,
+			whatsappEnabled: merged.whatsapp,
+		};
+
+		await db
+			.insert(notificationPreferences)
+			.values({ userId, category: category as any, ...values })
+			.onConflictDoUpdate({
+				target: [notificationPreferences.userId, notificationPreferences.category],
+				set: { ...values, updatedAt: new Date() },
+			});
+
+		current[category] = merged;
+	}
+
+	return current;
+}
+
+export default {
+	DEFAULT_NOTIFICATION_PREFERENCES,
+	hasMarketingConsent,
+	setMarketingConsent,
+	getNotificationPreferences,
+	getEnabledChannels,
+	updateNotificationPreferences,
+};
@@ -4,878 +4,79 @@
  */
 
 import { eq, and, isNull, desc, sql } from "drizzle-orm";
-import nodemailer from "nodemailer";
+import { StatusCodes } from "http-status-codes";
 import { db } from "../config/database.ts";
-import { addEmailJob, addInAppNotification } from "./queueService.ts";
+import { HTTPError } from "../config/error.ts";
+import {
+	notifications,
+	NotificationCategories,
+	NotificationChannels,
+	EmailDeliveryStatuses,
+	users,
+	employerProfiles,
+} from "../db/index.ts";
+import {
+	addInAppNotification,
+	addSmsJob,
+	addWhatsAppJob,
+	EmailAttachment,
+	publishRealtimeEvent,
+	RealtimeEventTypes,
+} from "./queueService.ts";
+import { ChannelPreferences, getEnabledChannels } from "./notificationPreferenceService.ts";
+import { queueDigestItem } from "./notificationDigestService.ts";
+import { DEFAULT_EMAIL_LOCALE, validateTemplateData } from "./emailTemplateService.ts";
+import { deliverEmail, queueEmail } from "./emailDeliveryService.ts";
+import { FRONTEND_URL } from "./emailTemplates.ts";
+import { PhoneChannels, sendPhoneMessage } from "./channels/index.ts";
+import { normalizeLocale } from "../utils/i18n.ts";
 
 // ============================================
-// Email Configuration
-// ============================================
-
-const transporter = nodemailer.createTransport({
-	host: process.env.SMTP_HOST || "smtp.gmail.com",
-	port: parseInt(process.env.SMTP_PORT || "587"),
-	secure: process.env.SMTP_SECURE === "true",
-	auth: {
-		user: process.env.SMTP_USER,
-		pass: process.env.SMTP_PASS,
-	},
-});
-
-const FROM_EMAIL = process.env.FROM_EMAIL || "noreply@equalio.com";
-const FROM_NAME = process.env.FROM_NAME || "Equalio";
-const SUPPORT_EMAIL = process.env.SUPPORT_EMAIL || "support@equalio.com";
-const COMPANY_ADDRESS = process.env.COMPANY_ADDRESS || "Equalio Technologies Pvt. Ltd., India";
-const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
-
-// ============================================
-// Base Email Template (Professional Design)
-// ============================================
-
-const getBaseTemplate = (content: string, preheader: string = "") => `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta http-equiv="X-UA-Compatible" content="IE=edge">
-  <title>Equalio</title>
-  <style>
-    /* Reset styles */
-    body, table, td, p, a, li { -webkit-text-size-adjust: 100%; -ms-text-size-adjust: 100%; }
-    table, td { mso-table-lspace: 0pt; mso-table-rspace: 0pt; }
-    img { -ms-interpolation-mode: bicubic; border: 0; outline: none; text-decoration: none; }
-    
-    /* Base styles */
-    body {
-      margin: 0;
-      padding: 0;
-      width: 100%;
-      background-color: #f4f6f9;
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
-      line-height: 1.6;
-      color: #1a1a2e;
-    }
-    
-    .email-wrapper {
-      width: 100%;
-      max-width: 600px;
-      margin: 0 auto;
-      background-color: #ffffff;
-    }
-    
-    .email-header {
-      background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%);
-      padding: 32px 40px;
-      text-align: center;
-    }
-    
-    .logo {
-      font-size: 28px;
-      font-weight: 700;
-      color: #ffffff;
-      text-decoration: none;
-      letter-spacing: -0.5px;
-    }
-    
-    .logo span {
-      color: #4ade80;
-    }
-    
-    .email-body {
-      padding: 40px;
-      background-color: #ffffff;
-    }
-    
-    .email-content h1 {
-      font-size: 24px;
-      font-weight: 600;
-      color: #1a1a2e;
-      margin: 0 0 16px 0;
-      line-height: 1.3;
-    }
-    
-    .email-content p {
-      font-size: 16px;
-      color: #4a5568;
-      margin: 0 0 16px 0;
-      line-height: 1.7;
-    }
-    
-    .email-content .greeting {
-      font-size: 16px;
-      color: #1a1a2e;
-      margin-bottom: 24px;
-    }
-    
-    .btn {
-      display: inline-block;
-      padding: 14px 32px;
-      background: linear-gradient(135deg, #4ade80 0%, #22c55e 100%);
-      color: #ffffff !important;
-      text-decoration: none;
-      border-radius: 8px;
-      font-weight: 600;
-      font-size: 16px;
-      text-align: center;
-      margin: 24px 0;
-      box-shadow: 0 4px 14px rgba(74, 222, 128, 0.25);
-    }
-    
-    .btn:hover {
-      background: linear-gradient(135deg, #22c55e 0%, #16a34a 100%);
-    }
-    
-    .btn-secondary {
-      background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%);
-      box-shadow: 0 4px 14px rgba(26, 26, 46, 0.15);
-    }
-    
-    .info-box {
-      background-color: #f8fafc;
-      border-left: 4px solid #4ade80;
-      padding: 16px 20px;
-      margin: 24px 0;
-      border-radius: 0 8px 8px 0;
-    }
-    
-    .info-box p {
-      margin: 0;
-      font-size: 14px;
-    }
-    
-    .warning-box {
-      background-color: #fef3c7;
-      border-left: 4px solid #f59e0b;
-      padding: 16px 20px;
-      margin: 24px 0;
-      border-radius: 0 8px 8px 0;
-    }
-    
-    .warning-box p {
-      margin: 0;
-      font-size: 14px;
-      color: #92400e;
-    }
-    
-    .error-box {
-      background-color: #fee2e2;
-      border-left: 4px solid #ef4444;
-      padding: 16px 20px;
-      margin: 24px 0;
-      border-radius: 0 8px 8px 0;
-    }
-    
-    .error-box p {
-      margin: 0;
-      font-size: 14px;
-      color: #991b1b;
-    }
-    
-    .success-box {
-      background-color: #dcfce7;
-      border-left: 4px solid #22c55e;
-      padding: 16px 20px;
-      margin: 24px 0;
-      border-radius: 0 8px 8px 0;
-    }
-    
-    .success-box p {
-      margin: 0;
-      font-size: 14px;
-      color: #166534;
-    }
-    
-    .code-box {
-      background-color: #1a1a2e;
-      color: #ffffff;
-      font-size: 32px;
-      font-weight: 700;
-      letter-spacing: 8px;
-      text-align: center;
-      padding: 20px 32px;
-      border-radius: 8px;
-      margin: 24px 0;
-    }
-    
-    .details-table {
-      width: 100%;
-      margin: 24px 0;
-      border-collapse: collapse;
-    }
-    
-    .details-table td {
-      padding: 12px 0;
-      border-bottom: 1px solid #e2e8f0;
-      font-size: 14px;
-    }
-    
-    .details-table td:first-child {
-      color: #64748b;
-      width: 40%;
-    }
-    
-    .details-table td:last-child {
-      color: #1a1a2e;
-      font-weight: 500;
-    }
-    
-    .steps-list {
-      margin: 24px 0;
-      padding-left: 0;
-      list-style: none;
-    }
-    
-    .steps-list li {
-      position: relative;
-      padding: 12px 0 12px 40px;
-      font-size: 15px;
-      color: #4a5568;
-      border-bottom: 1px solid #f1f5f9;
-    }
-    
-    .steps-list li:before {
-      content: attr(data-step);
-      position: absolute;
-      left: 0;
-      width: 28px;
-      height: 28px;
-      background: linear-gradient(135deg, #4ade80 0%, #22c55e 100%);
-      color: #ffffff;
-      border-radius: 50%;
-      font-size: 14px;
-      font-weight: 600;
-      text-align: center;
-      line-height: 28px;
-    }
-    
-    .email-footer {
-      background-color: #f8fafc;
-      padding: 32px 40px;
-      text-align: center;
-      border-top: 1px solid #e2e8f0;
-    }
-    
-    .footer-links {
-      margin-bottom: 20px;
-    }
-    
-    .footer-links a {
-      color: #64748b;
-      text-decoration: none;
-      font-size: 13px;
-      margin: 0 12px;
-    }
-    
-    .footer-links a:hover {
-      color: #4ade80;
-    }
-    
-    .footer-text {
-      font-size: 12px;
-      color: #94a3b8;
-      margin: 8px 0;
-      line-height: 1.6;
-    }
-    
-    .footer-legal {
-      font-size: 11px;
-      color: #94a3b8;
-      margin-top: 20px;
-      padding-top: 20px;
-      border-top: 1px solid #e2e8f0;
-      line-height: 1.6;
-    }
-    
-    .security-notice {
-      font-size: 12px;
-      color: #64748b;
-      margin-top: 24px;
-      padding: 16px;
-      background-color: #f8fafc;
-      border-radius: 8px;
-      text-align: center;
-    }
-    
-    .security-notice a {
-      color: #ef4444;
-      text-decoration: underline;
-    }
-    
-    /* Mobile responsive */
-    @media only screen and (max-width: 600px) {
-      .email-wrapper {
-        width: 100% !important;
-      }
-      .email-header, .email-body, .email-footer {
-        padding: 24px 20px !important;
-      }
-      .email-content h1 {
-        font-size: 20px !important;
-      }
-      .btn {
-        display: block;
-        width: 100%;
-        box-sizing: border-box;
-      }
-      .code-box {
-        font-size: 24px;
-        letter-spacing: 4px;
-      }
-    }
-  </style>
-</head>
-<body>
-  <!-- Preheader text (hidden preview text) -->
-  <div style="display: none; max-height: 0; overflow: hidden;">
-    ${preheader}
-  </div>
-  
-  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background-color: #f4f6f9;">
-    <tr>
-      <td align="center" style="padding: 40px 20px;">
-        <table role="presentation" class="email-wrapper" cellpadding="0" cellspacing="0">
-          <!-- Header -->
-          <tr>
-            <td class="email-header">
-              <a href="${FRONTEND_URL}" class="logo">Equalio</a>
-            </td>
-          </tr>
-          
-          <!-- Body -->
-          <tr>
-            <td class="email-body">
-              <div class="email-content">
-                ${content}
-              </div>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td class="email-footer">
-              <div class="footer-links">
-                <a href="${FRONTEND_URL}/help">Help Center</a>
-                <a href="${FRONTEND_URL}/privacy">Privacy Policy</a>
-                <a href="${FRONTEND_URL}/terms">Terms of Service</a>
-              </div>
-              <p class="footer-text">
-                Need help? Contact us at <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a>
-              </p>
-              <div class="footer-legal">
-                <p style="margin: 0;">© ${new Date().getFullYear()} Equalio. All rights reserved.</p>
-                <p style="margin: 4px 0 0 0;">${COMPANY_ADDRESS}</p>
-                <p style="margin: 12px 0 0 0;">
-                  You received this email because you have an account with Equalio.
-                  <br>
-                  <a href="${FRONTEND_URL}/unsubscribe" style="color: #64748b;">Unsubscribe</a> from non-essential emails.
-                </p>
-              </div>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-`;
-
-// ============================================
-// Email Templates
+// Send Email
 // ============================================
 
-const emailTemplates: Record<string, (data: any) => { subject: string; html: string }> = {
-	// ============================================
-	// Registration & Verification
-	// ============================================
-	
-	registration_success: (data) => ({
-		subject: "Welcome to Equalio - Let's Get Started",
-		html: getBaseTemplate(`
-			<h1>Welcome to Equalio!</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Thank you for joining Equalio - your trusted platform for connecting talent with opportunities.</p>
-			
-			<p>To get started, please verify your email address and complete your profile:</p>
-			
-			<a href="${FRONTEND_URL}/verify-email?token=${data.verificationToken}" class="btn">Verify Your Email</a>
-			
-			<ul class="steps-list">
-				<li data-step="1">Verify your email address</li>
-				<li data-step="2">Complete your profile information</li>
-				<li data-step="3">Submit verification documents (KYC)</li>
-			</ul>
-			
-			<div class="info-box">
-				<p><strong>Note:</strong> Verification typically takes 1-3 business days. You'll receive an email once approved.</p>
-			</div>
-			
-			<div class="security-notice">
-				🔒 This link expires in 24 hours for your security.<br>
-				If you didn't create this account, please <a href="mailto:${SUPPORT_EMAIL}">contact us immediately</a>.
-			</div>
-		`, "Welcome! Verify your email to get started."),
-	}),
-
-	email_verification: (data) => ({
-		subject: "Verify Your Email - Equalio",
-		html: getBaseTemplate(`
-			<h1>Verify Your Email Address</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Please click the button below to verify your email address and activate your account.</p>
-			
-			<a href="${FRONTEND_URL}/verify-email?token=${data.verificationToken}" class="btn">Verify Email Address</a>
-			
-			<div class="warning-box">
-				<p>⏰ This verification link expires in <strong>24 hours</strong>.</p>
-			</div>
-			
-			<div class="security-notice">
-				🔒 If you didn't request this verification, please ignore this email.<br>
-				Your account remains secure and no action is needed.
-			</div>
-		`, "Verify your email to activate your Equalio account."),
-	}),
-
-	// ============================================
-	// KYC / Verification Status
-	// ============================================
-
-	kyc_submitted: (data) => ({
-		subject: "Documents Received - We're Reviewing Your Application",
-		html: getBaseTemplate(`
-			<h1>We've Received Your Documents</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Thank you for submitting your verification documents. Your trust means everything to us.</p>
-			
-			<div class="success-box">
-				<p>✓ Your documents have been successfully uploaded and are in our review queue.</p>
-			</div>
-			
-			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">What happens next?</h3>
-			<ul class="steps-list">
-				<li data-step="1">Our team reviews your submitted documents</li>
-				<li data-step="2">We verify the authenticity of your information</li>
-				<li data-step="3">You'll receive an email with the verification result</li>
-			</ul>
-			
-			<div class="info-box">
-				<p>📅 <strong>Timeline:</strong> Verification typically takes 1-3 business days. We'll email you as soon as the review is complete.</p>
-			</div>
-			
-			<p>In the meantime, feel free to explore your dashboard and familiarize yourself with our platform.</p>
-			
-			<a href="${FRONTEND_URL}/dashboard" class="btn btn-secondary">Go to Dashboard</a>
-		`, "Your verification documents are being reviewed."),
-	}),
-
-	kyc_approved: (data) => ({
-		subject: "🎉 Congratulations! Your Verification is Approved",
-		html: getBaseTemplate(`
-			<h1>You're Verified!</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Great news! Your verification has been approved. You now have full access to all Equalio features.</p>
-			
-			<div class="success-box">
-				<p>✓ <strong>Account Status:</strong> Verified</p>
-			</div>
-			
-			<p>You can now:</p>
-			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
-				${data.userType === 'employer' 
-					? `<li>Post job listings and reach qualified candidates</li>
-					   <li>Access candidate profiles and contact information</li>
-					   <li>Manage applications and schedule interviews</li>`
-					: `<li>Apply to verified job opportunities</li>
-					   <li>Connect with trusted employers</li>
-					   <li>Showcase your skills and experience</li>`
-				}
-			</ul>
-			
-			<a href="${FRONTEND_URL}/dashboard" class="btn">Explore Your Dashboard</a>
-			
-			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">Thank you for trusting Equalio. We're committed to providing you with a safe and reliable platform.</p>
-		`, "Your Equalio account is now fully verified!"),
-	}),
-
-	kyc_rejected: (data) => ({
-		subject: "Action Required: Verification Update Needed",
-		html: getBaseTemplate(`
-			<h1>Verification Requires Your Attention</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>We reviewed your verification documents but were unable to complete the verification process.</p>
-			
-			<div class="error-box">
-				<p><strong>Reason:</strong> ${data.reason || "The submitted documents did not meet our verification requirements."}</p>
-			</div>
-			
-			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">How to resolve this:</h3>
-			<ol style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
-				<li>Review the reason mentioned above</li>
-				<li>Ensure your documents are clear and legible</li>
-				<li>Submit updated documents through your profile</li>
-			</ol>
-			
-			<a href="${FRONTEND_URL}/kyc" class="btn">Resubmit Documents</a>
-			
-			<div class="info-box">
-				<p>💡 <strong>Tips for successful verification:</strong><br>
-				• Use high-quality images with good lighting<br>
-				• Ensure all text is clearly readable<br>
-				• Make sure the document is not expired</p>
-			</div>
-			
-			<p style="margin-top: 24px;">Need help? Our support team is here to assist you at <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a></p>
-		`, "Please resubmit your verification documents."),
-	}),
-
-	kyc_resubmission_requested: (data) => ({
-		subject: "Document Resubmission Required - Equalio",
-		html: getBaseTemplate(`
-			<h1>Please Resubmit Your Documents</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>We need you to resubmit your verification documents to complete the verification process.</p>
-			
-			<div class="warning-box">
-				<p><strong>Reason:</strong> ${data.reason || "Additional verification is required."}</p>
-			</div>
-			
-			<p>Please log in to your account and upload the required documents again.</p>
-			
-			<a href="${FRONTEND_URL}/kyc" class="btn">Upload Documents</a>
-			
-			<div class="info-box">
-				<p>If you have any questions about what documents are needed, please contact our support team.</p>
-			</div>
-		`, "Please resubmit your verification documents."),
-	}),
-
-	// ============================================
-	// Account Status
-	// ============================================
-
-	account_suspended: (data) => ({
-		subject: "Important: Your Account Has Been Suspended",
-		html: getBaseTemplate(`
-			<h1>Account Suspension Notice</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>We regret to inform you that your Equalio account has been suspended.</p>
-			
-			<div class="error-box">
-				<p><strong>Reason:</strong> ${data.reason || "Policy violation detected."}</p>
-			</div>
-			
-			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">What this means:</h3>
-			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
-				<li>You cannot access your account at this time</li>
-				<li>Any active job postings or applications have been paused</li>
-			</ul>
-			
-			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">Appeal Process:</h3>
-			<p>If you believe this suspension was made in error, you may submit an appeal by contacting our support team with:</p>
-			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
-				<li>Your registered email address</li>
-				<li>A detailed explanation of the situation</li>
-				<li>Any supporting documentation</li>
-			</ul>
-			
-			<p>Contact us at: <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a></p>
-			
-			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">We take the integrity of our platform seriously to protect all our users.</p>
-		`, "Your account has been suspended. Please contact support."),
-	}),
-
-	account_deactivated: (data) => ({
-		subject: "Your Equalio Account Has Been Deactivated",
-		html: getBaseTemplate(`
-			<h1>Account Deactivation Notice</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Your Equalio account has been deactivated by our administration team.</p>
-			
-			<div class="warning-box">
-				<p><strong>Reason provided:</strong> ${data.reason || "No reason was specified."}</p>
-			</div>
-			
-			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">What this means:</h3>
-			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
-				<li>You will not be able to log in to your account</li>
-				<li>Your profile and data remain stored but are not accessible</li>
-			</ul>
-			
-			<p>If you believe this was done in error or wish to appeal, please contact our support team with your registered email and a brief explanation.</p>
-			
-			<p>Contact us at: <a href="mailto:${SUPPORT_EMAIL}" style="color: #4ade80;">${SUPPORT_EMAIL}</a></p>
-			
-			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">We are committed to transparency in all account actions.</p>
-		`, "Your account has been deactivated. Reason provided."),
-	}),
-
-	// ============================================
-	// Job Applications
-	// ============================================
-
-	application_status: (data) => ({
-		subject: `Application Update: ${data.status} - ${data.jobTitle}`,
-		html: getBaseTemplate(`
-			<h1>Application Status Update</h1>
-			<p class="greeting">Dear ${data.userName || "Applicant"},</p>
-			<p>We have an update regarding your job application.</p>
-			
-			<table class="details-table">
-				<tr>
-					<td>Position</td>
-					<td><strong>${data.jobTitle}</strong></td>
-				</tr>
-				<tr>
-					<td>Company</td>
-					<td>${data.companyName}</td>
-				</tr>
-				<tr>
-					<td>New Status</td>
-					<td><strong style="color: ${data.status === 'Rejected' ? '#ef4444' : '#22c55e'}">${data.status}</strong></td>
-				</tr>
-			</table>
-			
-			${data.status === 'Shortlisted' ? `
-				<div class="success-box">
-					<p>🎉 Congratulations! The employer is interested in your profile. You may be contacted for the next steps.</p>
-				</div>
-			` : data.status === 'Rejected' ? `
-				<div class="info-box">
-					<p>Don't be discouraged! There are many more opportunities waiting for you on Equalio.</p>
-				</div>
-				<a href="${FRONTEND_URL}/jobs" class="btn">Browse More Jobs</a>
-			` : ''}
-			
-			<a href="${FRONTEND_URL}/applications" class="btn btn-secondary">View Application Details</a>
-			
-			<p style="margin-top: 24px; color: #64748b; font-size: 14px;">Keep your profile updated to improve your chances with future applications.</p>
-		`, `Your application for ${data.jobTitle} has been updated.`),
-	}),
-
-	new_application_received: (data) => ({
-		subject: `New Application Received: ${data.jobTitle}`,
-		html: getBaseTemplate(`
-			<h1>New Application Received</h1>
-			<p class="greeting">Dear ${data.employerName || "Employer"},</p>
-			<p>A new candidate has applied for your job posting.</p>
-			
-			<table class="details-table">
-				<tr>
-					<td>Position</td>
-					<td><strong>${data.jobTitle}</strong></td>
-				</tr>
-				<tr>
-					<td>Applicant Name</td>
-					<td>${data.applicantName}</td>
-				</tr>
-				<tr>
-					<td>Applied On</td>
-					<td>${new Date().toLocaleDateString('en-IN', { dateStyle: 'medium' })}</td>
-				</tr>
-			</table>
-			
-			<a href="${FRONTEND_URL}/employer/applications" class="btn">Review Application</a>
-			
-			<div class="info-box">
-				<p>💡 <strong>Tip:</strong> Respond to applications promptly to secure top talent before they're hired elsewhere.</p>
-			</div>
-		`, `New application for ${data.jobTitle}`),
-	}),
-
-	// ============================================
-	// Payments & Wallet
-	// ============================================
-
-	payment_success: (data) => ({
-		subject: "Payment Confirmed - Equalio",
-		html: getBaseTemplate(`
-			<h1>Payment Successful</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Your payment has been successfully processed and your wallet has been credited.</p>
-			
-			<div class="success-box">
-				<p>✓ Transaction completed successfully</p>
-			</div>
-			
-			<table class="details-table">
-				<tr>
-					<td>Amount</td>
-					<td><strong>₹${data.amount}</strong></td>
-				</tr>
-				<tr>
-					<td>Transaction ID</td>
-					<td><code style="font-family: monospace; background: #f1f5f9; padding: 2px 6px; border-radius: 4px;">${data.transactionId}</code></td>
-				</tr>
-				<tr>
-					<td>Date & Time</td>
-					<td>${new Date().toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}</td>
-				</tr>
-				<tr>
-					<td>New Balance</td>
-					<td><strong>₹${data.newBalance}</strong></td>
-				</tr>
-			</table>
-			
-			<a href="${FRONTEND_URL}/wallet" class="btn btn-secondary">View Wallet</a>
-			
-			<div class="info-box">
-				<p>📝 Keep this email as a receipt for your records.</p>
-			</div>
-			
-			<div class="security-notice">
-				🔒 Didn't make this payment? <a href="mailto:${SUPPORT_EMAIL}">Contact us immediately</a>.
-			</div>
-		`, `₹${data.amount} added to your wallet successfully.`),
-	}),
-
-	// ============================================
-	// Resume / Profile Views
-	// ============================================
-
-	resume_unlocked: (data) => ({
-		subject: "Good News! An Employer Viewed Your Profile",
-		html: getBaseTemplate(`
-			<h1>Your Profile Was Viewed</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Great news! An employer has shown interest in your profile and unlocked your contact details.</p>
-			
-			<div class="success-box">
-				<p>👀 An employer has viewed your full profile and contact information.</p>
-			</div>
-			
-			<p>This means your profile stood out among many candidates. You may receive a call or message soon regarding job opportunities.</p>
-			
-			<h3 style="margin-top: 32px; margin-bottom: 16px; color: #1a1a2e;">Tips to increase your chances:</h3>
-			<ul style="color: #4a5568; padding-left: 20px; margin: 16px 0;">
-				<li>Keep your phone available for calls</li>
-				<li>Update your profile regularly with new skills</li>
-				<li>Ensure your resume is current and accurate</li>
-			</ul>
-			
-			<a href="${FRONTEND_URL}/profile" class="btn">Update Your Profile</a>
-			
-			<div class="info-box">
-				<p>🔒 <strong>Your Privacy:</strong> We only share your contact details with verified employers who pay to access them.</p>
-			</div>
-		`, "An employer has shown interest in your profile!"),
-	}),
-
-	// ============================================
-	// Password & Security
-	// ============================================
-
-	reset_password: (data) => ({
-		subject: "Password Reset Request - Equalio",
-		html: getBaseTemplate(`
-			<h1>Reset Your Password</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>We received a request to reset your password. Use the link below to create a new password.</p>
-			
-			<a href="${FRONTEND_URL}/reset-password?code=${data.code}" class="btn">Reset Password</a>
-			
-			<p style="text-align: center; color: #64748b; margin: 16px 0;">Or use this code:</p>
-			
-			<div class="code-box">${data.code.substring(0, 6).toUpperCase()}</div>
-			
-			<div class="warning-box">
-				<p>⏰ This link expires in <strong>15 minutes</strong> for security reasons.</p>
-			</div>
-			
-			<div class="security-notice">
-				🔒 If you didn't request this password reset, please ignore this email or <a href="mailto:${SUPPORT_EMAIL}">contact support</a> if you're concerned about your account security.
-			</div>
-		`, "Reset your password - link expires in 15 minutes."),
-	}),
-
-	password_changed: (data) => ({
-		subject: "🔒 Password Changed Successfully - Equalio",
-		html: getBaseTemplate(`
-			<h1>Password Changed</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Your password has been successfully changed.</p>
-			
-			<div class="success-box">
-				<p>✓ Your password was updated on ${new Date().toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}</p>
-			</div>
-			
-			<p>You can now use your new password to log in to your account.</p>
-			
-			<div class="error-box">
-				<p><strong>Wasn't you?</strong> If you didn't change your password, your account may be compromised. Please:</p>
-				<ul style="margin: 8px 0 0 0; padding-left: 20px;">
-					<li>Reset your password immediately</li>
-					<li>Contact support at <a href="mailto:${SUPPORT_EMAIL}" style="color: #991b1b;">${SUPPORT_EMAIL}</a></li>
-				</ul>
-			</div>
-			
-			<a href="${FRONTEND_URL}/login" class="btn btn-secondary">Log In to Your Account</a>
-			
-			<div class="security-notice">
-				🔒 For your security, we recommend using a strong, unique password and never sharing it with anyone.
-			</div>
-		`, "Your password has been changed successfully."),
-	}),
-
-	// ============================================
-	// OTP Verification
-	// ============================================
-
-	otp_verification: (data) => ({
-		subject: "Your Verification Code - Equalio",
-		html: getBaseTemplate(`
-			<h1>Verification Code</h1>
-			<p class="greeting">Dear ${data.userName || "User"},</p>
-			<p>Use the following code to verify your ${data.purpose || "account"}:</p>
-			
-			<div class="code-box">${data.otp}</div>
-			
-			<div class="warning-box">
-				<p>⏰ This code expires in <strong>${data.expiryMinutes || 10} minutes</strong>.</p>
-			</div>
-			
-			<div class="security-notice">
-				🔒 Never share this code with anyone. Equalio will never ask for this code via phone or email.
-			</div>
-		`, `Your verification code is ${data.otp}`),
-	}),
-};
+async function getStoredLocale(email: string): Promise<string> {
+	const [user] = await db
+		.select({ locale: users.locale })
+		.from(users)
+		.where(and(eq(users.email, email), isNull(users.deletedAt)))
+		.limit(1);
 
-// ============================================
-// Send Email
-// ============================================
+	return normalizeLocale(user?.locale) ?? DEFAULT_EMAIL_LOCALE;
+}
 
 export async function sendEmail(
 	to: string,
 	template: string,
 	data: Record<string, any>,
-	immediate: boolean = false
+	immediate: boolean = false,
+	locale?: string,
+	attachments?: EmailAttachment[]
 ): Promise<void> {
-	const templateFn = emailTemplates[template];
-	if (!templateFn) {
-		console.error(`Email template not found: ${template}`);
+	// Validate up front so bad data fails at the call site, not in the worker
+	try {
+		validateTemplateData(template, data);
+	} catch (error) {
+		console.error(`[Email] Cannot send ${template}:`, error);
 		return;
 	}
 
-	const { subject, html } = templateFn(data);
+	// Recipient's stored language unless the caller chose one
+	locale = locale ?? (await getStoredLocale(to));
 
 	if (immediate) {
-		// Send immediately
+		// Send immediately (single attempt, still tracked in email_deliveries)
 		try {
-			await transporter.sendMail({
-				from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
-				to,
-				subject,
-				html,
-			});
-			console.log(`[Email] Sent ${template} to ${to}`);
+			const result = await deliverEmail({ to, template, data, locale, attachments });
+			console.log(
+				`[Email] ${result.status === EmailDeliveryStatuses.SENT ? "Sent" : "Skipped (suppressed)"} ${template} to ${to}`
+			);
 		} catch (error) {
 			console.error(`[Email] Failed to send ${template} to ${to}:`, error);
 		}
 	} else {
-		// Queue for background sending - pass the rendered HTML to the worker
-		await addEmailJob({ to, subject, template, data: { ...data, html } });
+		// Queue for background sending - the worker renders from the template name
+		await queueEmail({ to, template, data, locale, attachments });
 	}
 }
 
@@ -892,13 +93,47 @@ export interface NotificationData {
 	metadata?: Record<string, any>;
 }
 
+/**
+ * Persist a notification to the user's inbox.
+ * Used by the in-app worker and by createInAppNotification(immediate = true).
+ */
+export async function storeInAppNotification(data: NotificationData) {
+	const [notification] = await db
+		.insert(notifications)
+		.values({
+			userId: data.userId,
+			type: data.type,
+			title: data.title,
+			message: data.message,
+			link: data.link || null,
+			metadata: data.metadata || null,
+		})
+		.returning();
+
+	// Push to the user's open SSE streams
+	await publishRealtimeEvent(data.userId, RealtimeEventTypes.NOTIFICATION, {
+		id: notification.id,
+		uuid: notification.uuid,
+		type: notification.type,
+		title: notification.title,
+		message: notification.message,
+		link: notification.link,
+		metadata: notification.metadata,
+		readAt: notification.readAt,
+		createdAt: notification.createdAt,
+		isRead: false,
+	});
+
+	return notification;
+}
+
 export async function createInAppNotification(
 	data: NotificationData,
 	immediate: boolean = false
 ): Promise<void> {
 	if (immediate) {
 		// Store directly
-		console.log("Creating in-app notification:", data);
+		await storeInAppNotification(data);
 	} else {
 		// Queue for background processing
 		await addInAppNotification({
@@ -912,10 +147,66 @@ export async function createInAppNotification(
 	}
 }
 
+// ============================================
+// SMS / WhatsApp
+// ============================================
+
+/**
+ * SMS goes to users.phone; WhatsApp prefers users.whatsappNumber, then the
+ * employer profile's WhatsApp number, then users.phone
+ */
+async function getUserPhoneNumbers(
+	userId: bigint
+): Promise<{ sms: string | null; whatsapp: string | null }> {
+	const [user] = await db
+		.select({
+			phone: users.phone,
+			whatsappNumber: users.whatsappNumber,
+			employerWhatsappNumber: employerProfiles.whatsappNumber,
+		})
+		.from(users)
+		.leftJoin(employerProfiles, eq(employerProfiles.userId, users.id))
+		.where(and(eq(users.id, userId), isNull(users.deletedAt)))
+		.limit(1);
+
+	if (!user) return { sms: null, whatsapp: null };
+
+	return {
+		sms: user.phone,
+		whatsapp: user.whatsappNumber || user.employerWhatsappNumber || user.phone,
+	};
+}
+
+/**
+ * Queue the short text version of a notification on the enabled phone channels
+ */
+export async function sendPhoneNotification(
+	userId: bigint,
+	channels: Pick<ChannelPreferences, NotificationChannels.SMS | NotificationChannels.WHATSAPP>,
+	notification: { type: string; message: string; link?: string }
+): Promise<void> {
+	if (!channels.sms && !channels.whatsapp) return;
+
+	const phones = await getUserPhoneNumbers(userId);
+	const body = `Equalio: ${notification.message}${notification.link ? ` ${FRONTEND_URL}${notification.link}` : ""}`;
+
+	if (channels.sms && phones.sms) {
+		await addSmsJob({ to: phones.sms, body, type: notification.type });
+	}
+	if (channels.whatsapp && phones.whatsapp) {
+		await addWhatsAppJob({ to: phones.whatsapp, body, type: notification.type });
+	}
+}
+
 // ============================================
 // Notification Triggers
 // ============================================
 
+// Security/account triggers always send; categorised triggers
+// (applications, KYC, payments, job alerts) consult the user's notification preferences
+// and also go out by SMS/WhatsApp when the user opted in.
+// Application and job alert emails are held for users on a daily/weekly digest.
+
 export async function notifyEmailVerification(
 	userId: bigint,
 	email: string,
@@ -963,17 +254,29 @@ export async function notifyPasswordChanged(
 
 export async function notifyKycSubmitted(
 	userId: bigint,
-	email: string,
+	email: string | null,
 	userName: string = "User"
 ): Promise<void> {
-	await sendEmail(email, "kyc_submitted", {
-		userName,
-	});
+	const channels = await getEnabledChannels(userId, NotificationCategories.KYC);
+
+	if (email && channels.email) {
+		await sendEmail(email, "kyc_submitted", {
+			userName,
+		});
+	}
 
-	await createInAppNotification({
-		userId,
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: "kyc_submitted",
+			title: "Documents Submitted",
+			message: "Your verification documents have been submitted for review.",
+			link: "/kyc",
+		});
+	}
+
+	await sendPhoneNotification(userId, channels, {
 		type: "kyc_submitted",
-		title: "Documents Submitted",
 		message: "Your verification documents have been submitted for review.",
 		link: "/kyc",
 	});
@@ -981,7 +284,7 @@ export async function notifyKycSubmitted(
 
 export async function notifyKycStatusChange(
 	userId: bigint,
-	email: string,
+	email: string | null,
 	status: "approved" | "rejected",
 	documentType: string,
 	reason?: string,
@@ -990,49 +293,82 @@ export async function notifyKycStatusChange(
 ): Promise<void> {
 	const template = status === "approved" ? "kyc_approved" : "kyc_rejected";
 	const title = status === "approved" ? "KYC Approved" : "KYC Requires Attention";
-
-	// Send email
-	await sendEmail(email, template, { 
-		documentType, 
-		reason, 
-		userName: userName || "User",
-		userType 
-	});
+	const message =
+		status === "approved"
+			? "Your KYC verification has been approved"
+			: `Your KYC verification was not approved: ${reason}`;
+	const channels = await getEnabledChannels(userId, NotificationCategories.KYC);
+
+	// Send email (phone-only accounts still get the in-app notification)
+	if (email && channels.email) {
+		await sendEmail(email, template, { 
+			documentType, 
+			reason, 
+			userName: userName || "User",
+			userType 
+		});
+	}
 
 	// Create in-app notification
-	await createInAppNotification({
-		userId,
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: `kyc_${status}`,
+			title,
+			message,
+			link: "/kyc",
+		});
+	}
+
+	await sendPhoneNotification(userId, channels, {
 		type: `kyc_${status}`,
-		title,
-		message:
-			status === "approved"
-				? "Your KYC verification has been approved"
-				: `Your KYC verification was not approved: ${reason}`,
+		message,
 		link: "/kyc",
 	});
 }
 
 export async function notifyApplicationStatusChange(
 	userId: bigint,
-	email: string,
+	email: string | null,
 	jobTitle: string,
 	companyName: string,
 	status: string,
 	userName?: string
 ): Promise<void> {
-	// Send email
-	await sendEmail(email, "application_status", { 
-		jobTitle, 
-		companyName, 
-		status,
-		userName: userName || "Applicant"
-	});
+	const channels = await getEnabledChannels(userId, NotificationCategories.APPLICATIONS);
+
+	// Send email (phone-only accounts still get the in-app notification)
+	if (email && channels.email) {
+		const digested = await queueDigestItem(userId, NotificationCategories.APPLICATIONS, {
+			type: "application_status",
+			title: "Application Update",
+			message: `Your application for ${jobTitle} at ${companyName} is now: ${status}`,
+			link: "/applications",
+			metadata: { jobTitle, companyName, status },
+		});
+		if (!digested) {
+			await sendEmail(email, "application_status", { 
+				jobTitle, 
+				companyName, 
+				status,
+				userName: userName || "Applicant"
+			});
+		}
+	}
 
 	// Create in-app notification
-	await createInAppNotification({
-		userId,
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: "application_status",
+			title: "Application Update",
+			message: `Your application for ${jobTitle} is now: ${status}`,
+			link: "/applications",
+		});
+	}
+
+	await sendPhoneNotification(userId, channels, {
 		type: "application_status",
-		title: "Application Update",
 		message: `Your application for ${jobTitle} is now: ${status}`,
 		link: "/applications",
 	});
@@ -1040,21 +376,42 @@ export async function notifyApplicationStatusChange(
 
 export async function notifyNewApplicationReceived(
 	employerId: bigint,
-	employerEmail: string,
+	employerEmail: string | null,
 	jobTitle: string,
 	applicantName: string,
 	employerName?: string
 ): Promise<void> {
-	await sendEmail(employerEmail, "new_application_received", {
-		jobTitle,
-		applicantName,
-		employerName: employerName || "Employer",
-	});
+	const channels = await getEnabledChannels(employerId, NotificationCategories.APPLICATIONS);
+
+	if (employerEmail && channels.email) {
+		const digested = await queueDigestItem(employerId, NotificationCategories.APPLICATIONS, {
+			type: "new_application",
+			title: "New Application",
+			message: `${applicantName} applied for ${jobTitle}`,
+			link: "/employer/applications",
+			metadata: { jobTitle, applicantName },
+		});
+		if (!digested) {
+			await sendEmail(employerEmail, "new_application_received", {
+				jobTitle,
+				applicantName,
+				employerName: employerName || "Employer",
+			});
+		}
+	}
 
-	await createInAppNotification({
-		userId: employerId,
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId: employerId,
+			type: "new_application",
+			title: "New Application",
+			message: `${applicantName} applied for ${jobTitle}`,
+			link: "/employer/applications",
+		});
+	}
+
+	await sendPhoneNotification(employerId, channels, {
 		type: "new_application",
-		title: "New Application",
 		message: `${applicantName} applied for ${jobTitle}`,
 		link: "/employer/applications",
 	});
@@ -1062,23 +419,35 @@ export async function notifyNewApplicationReceived(
 
 export async function notifyPaymentSuccess(
 	userId: bigint,
-	email: string,
+	email: string | null,
 	amount: number,
 	transactionId: string,
 	newBalance: number,
 	userName?: string
 ): Promise<void> {
-	await sendEmail(email, "payment_success", { 
-		amount, 
-		transactionId, 
-		newBalance,
-		userName: userName || "User"
-	});
+	const channels = await getEnabledChannels(userId, NotificationCategories.PAYMENTS);
+
+	if (email && channels.email) {
+		await sendEmail(email, "payment_success", { 
+			amount, 
+			transactionId, 
+			newBalance,
+			userName: userName || "User"
+		});
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: "payment_success",
+			title: "Payment Successful",
+			message: `₹${amount} added to your wallet`,
+			link: "/wallet",
+		});
+	}
 
-	await createInAppNotification({
-		userId,
+	await sendPhoneNotification(userId, channels, {
 		type: "payment_success",
-		title: "Payment Successful",
 		message: `₹${amount} added to your wallet`,
 		link: "/wallet",
 	});
@@ -1086,17 +455,37 @@ export async function notifyPaymentSuccess(
 
 export async function notifyResumeUnlocked(
 	jobseekerId: bigint,
-	email: string,
+	email: string | null,
 	userName?: string
 ): Promise<void> {
-	await sendEmail(email, "resume_unlocked", {
-		userName: userName || "User"
-	});
+	const channels = await getEnabledChannels(jobseekerId, NotificationCategories.APPLICATIONS);
+
+	if (email && channels.email) {
+		const digested = await queueDigestItem(jobseekerId, NotificationCategories.APPLICATIONS, {
+			type: "resume_unlocked",
+			title: "Profile Viewed",
+			message: "An employer unlocked your contact details",
+			link: "/profile",
+		});
+		if (!digested) {
+			await sendEmail(email, "resume_unlocked", {
+				userName: userName || "User"
+			});
+		}
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId: jobseekerId,
+			type: "resume_unlocked",
+			title: "Profile Viewed",
+			message: "An employer has viewed your profile",
+			link: "/profile",
+		});
+	}
 
-	await createInAppNotification({
-		userId: jobseekerId,
+	await sendPhoneNotification(jobseekerId, channels, {
 		type: "resume_unlocked",
-		title: "Profile Viewed",
 		message: "An employer has viewed your profile",
 		link: "/profile",
 	});
@@ -1104,27 +493,412 @@ export async function notifyResumeUnlocked(
 
 export async function notifyProfileViewedByEmployer(
 	jobseekerId: bigint,
-	email: string,
+	email: string | null,
 	companyName: string,
 	jobTitle: string,
 	userName?: string
 ): Promise<void> {
-	await sendEmail(email, "application_status", {
-		jobTitle,
-		companyName,
-		status: "Viewed",
-		userName: userName || "Applicant",
-	});
+	const channels = await getEnabledChannels(jobseekerId, NotificationCategories.APPLICATIONS);
+
+	if (email && channels.email) {
+		const digested = await queueDigestItem(jobseekerId, NotificationCategories.APPLICATIONS, {
+			type: "profile_viewed",
+			title: "Profile Viewed",
+			message: `Your profile was viewed by ${companyName} for ${jobTitle}`,
+			link: "/applications",
+			metadata: { jobTitle, companyName },
+		});
+		if (!digested) {
+			await sendEmail(email, "application_status", {
+				jobTitle,
+				companyName,
+				status: "Viewed",
+				userName: userName || "Applicant",
+			});
+		}
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId: jobseekerId,
+			type: "application_status",
+			title: "Profile Viewed",
+			message: `Your profile was viewed by ${companyName} for ${jobTitle}`,
+			link: "/applications",
+		});
+	}
 
-	await createInAppNotification({
-		userId: jobseekerId,
+	await sendPhoneNotification(jobseekerId, channels, {
 		type: "application_status",
-		title: "Profile Viewed",
 		message: `Your profile was viewed by ${companyName} for ${jobTitle}`,
 		link: "/applications",
 	});
 }
 
+/**
+ * Message an employer sent to an applicant (bulk applicant action). Sent
+ * straight away, not held for the digest.
+ */
+export async function notifyEmployerMessage(
+	jobseekerId: bigint,
+	email: string | null,
+	message: { companyName: string; jobTitle: string; subject: string; body: string },
+	userName?: string
+): Promise<void> {
+	const channels = await getEnabledChannels(jobseekerId, NotificationCategories.APPLICATIONS);
+
+	if (email && channels.email) {
+		await sendEmail(email, "employer_message", {
+			userName: userName || "Applicant",
+			companyName: message.companyName,
+			jobTitle: message.jobTitle,
+			subject: message.subject,
+			message: message.body,
+		});
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId: jobseekerId,
+			type: "employer_message",
+			title: message.subject,
+			message: message.body,
+			link: "/applications",
+			metadata: { companyName: message.companyName, jobTitle: message.jobTitle },
+		});
+	}
+
+	await sendPhoneNotification(jobseekerId, channels, {
+		type: "employer_message",
+		message: `New message from ${message.companyName} about ${message.jobTitle}`,
+		link: "/applications",
+	});
+}
+
+/**
+ * New message in an application conversation. Not held for the digest; the
+ * caller only notifies for the first unread message so a busy thread does
+ * not send an email per message.
+ */
+export async function notifyNewMessage(
+	recipientId: bigint,
+	email: string | null,
+	message: { senderName: string; jobTitle: string; preview: string; link: string },
+	userName?: string
+): Promise<void> {
+	const channels = await getEnabledChannels(recipientId, NotificationCategories.APPLICATIONS);
+
+	if (email && channels.email) {
+		await sendEmail(email, "new_message", {
+			userName: userName || "User",
+			senderName: message.senderName,
+			jobTitle: message.jobTitle,
+			preview: message.preview,
+			link: message.link,
+		});
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId: recipientId,
+			type: "new_message",
+			title: `Message from ${message.senderName}`,
+			message: message.preview,
+			link: message.link,
+			metadata: { jobTitle: message.jobTitle },
+		});
+	}
+
+	await sendPhoneNotification(recipientId, channels, {
+		type: "new_message",
+		message: `New message from ${message.senderName} about ${message.jobTitle}`,
+		link: message.link,
+	});
+}
+
+// Interviews are time-sensitive (and the invitation carries the calendar
+// invite), so none of these are held for the digest
+
+const INTERVIEW_TIMEZONE = process.env.INTERVIEW_TIMEZONE || "Asia/Kolkata";
+
+const INTERVIEW_MODE_LABELS: Record<string, string> = {
+	in_person: "In person",
+	phone: "Phone",
+	video: "Video",
+};
+
+export interface InterviewNotice {
+	jobTitle: string;
+	companyName: string;
+	scheduledAt: Date;
+	durationMinutes: number;
+	mode: string;
+	location: string | null;
+	meetingUrl: string | null;
+	interviewerName: string | null;
+	notes: string | null;
+}
+
+/** e.g. "Mon, 5 Jan 2026, 11:00 am IST" */
+export function formatInterviewTime(date: Date): string {
+	return date.toLocaleString("en-IN", {
+		weekday: "short",
+		day: "numeric",
+		month: "short",
+		year: "numeric",
+		hour: "numeric",
+		minute: "2-digit",
+		timeZone: INTERVIEW_TIMEZONE,
+		timeZoneName: "short",
+	});
+}
+
+export async function notifyInterviewScheduled(
+	userId: bigint,
+	email: string | null,
+	interview: InterviewNotice,
+	calendar: EmailAttachment,
+	rescheduled: boolean,
+	userName?: string
+): Promise<void> {
+	const channels = await getEnabledChannels(userId, NotificationCategories.APPLICATIONS);
+	const when = formatInterviewTime(interview.scheduledAt);
+	const message = rescheduled
+		? `Your interview for ${interview.jobTitle} at ${interview.companyName} has moved to ${when}`
+		: `${interview.companyName} invited you to an interview for ${interview.jobTitle} on ${when}`;
+
+	if (email && channels.email) {
+		await sendEmail(
+			email,
+			"interview_invitation",
+			{
+				userName: userName || "Applicant",
+				jobTitle: interview.jobTitle,
+				companyName: interview.companyName,
+				when,
+				durationMinutes: interview.durationMinutes,
+				mode: INTERVIEW_MODE_LABELS[interview.mode] ?? interview.mode,
+				location: interview.location || undefined,
+				meetingUrl: interview.meetingUrl || undefined,
+				interviewerName: interview.interviewerName || undefined,
+				notes: interview.notes || undefined,
+				rescheduled,
+			},
+			false,
+			undefined,
+			[calendar]
+		);
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: "interview_scheduled",
+			title: rescheduled ? "Interview Rescheduled" : "Interview Invitation",
+			message,
+			link: "/applications",
+		});
+	}
+
+	await sendPhoneNotification(userId, channels, {
+		type: "interview_scheduled",
+		message,
+		link: "/applications",
+	});
+}
+
+export async function notifyInterviewCancelled(
+	userId: bigint,
+	email: string | null,
+	interview: InterviewNotice,
+	calendar: EmailAttachment,
+	reason?: string,
+	userName?: string
+): Promise<void> {
+	const channels = await getEnabledChannels(userId, NotificationCategories.APPLICATIONS);
+	const when = formatInterviewTime(interview.scheduledAt);
+	const message = `${interview.companyName} cancelled your interview for ${interview.jobTitle} on ${when}`;
+
+	if (email && channels.email) {
+		await sendEmail(
+			email,
+			"interview_cancelled",
+			{
+				userName: userName || "Applicant",
+				jobTitle: interview.jobTitle,
+				companyName: interview.companyName,
+				when,
+				reason,
+			},
+			false,
+			undefined,
+			[calendar]
+		);
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: "interview_cancelled",
+			title: "Interview Cancelled",
+			message,
+			link: "/applications",
+		});
+	}
+
+	await sendPhoneNotification(userId, channels, {
+		type: "interview_cancelled",
+		message,
+		link: "/applications",
+	});
+}
+
+export async function notifyInterviewReminder(
+	userId: bigint,
+	email: string | null,
+	interview: InterviewNotice,
+	userName?: string
+): Promise<void> {
+	const channels = await getEnabledChannels(userId, NotificationCategories.APPLICATIONS);
+	const when = formatInterviewTime(interview.scheduledAt);
+	const message = `Reminder: your interview for ${interview.jobTitle} at ${interview.companyName} is on ${when}`;
+
+	if (email && channels.email) {
+		await sendEmail(email, "interview_reminder", {
+			userName: userName || "Applicant",
+			jobTitle: interview.jobTitle,
+			companyName: interview.companyName,
+			when,
+			mode: INTERVIEW_MODE_LABELS[interview.mode] ?? interview.mode,
+			location: interview.location || undefined,
+			meetingUrl: interview.meetingUrl || undefined,
+		});
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: "interview_reminder",
+			title: "Interview Reminder",
+			message,
+			link: "/applications",
+		});
+	}
+
+	await sendPhoneNotification(userId, channels, {
+		type: "interview_reminder",
+		message,
+		link: "/applications",
+	});
+}
+
+export async function notifyInterviewResponse(
+	employerId: bigint,
+	employerEmail: string | null,
+	interview: Pick<InterviewNotice, "jobTitle" | "scheduledAt">,
+	candidateName: string,
+	response: "confirmed" | "reschedule_requested" | "declined",
+	note?: string,
+	employerName?: string
+): Promise<void> {
+	const channels = await getEnabledChannels(employerId, NotificationCategories.APPLICATIONS);
+	const when = formatInterviewTime(interview.scheduledAt);
+	const action =
+		response === "confirmed" ? "confirmed" : response === "declined" ? "declined" : "asked to reschedule";
+	const message = `${candidateName} ${action} the interview for ${interview.jobTitle} on ${when}`;
+
+	if (employerEmail && channels.email) {
+		await sendEmail(employerEmail, "interview_response", {
+			employerName: employerName || "Employer",
+			candidateName,
+			jobTitle: interview.jobTitle,
+			when,
+			response,
+			note,
+		});
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId: employerId,
+			type: "interview_response",
+			title: "Interview Update",
+			message,
+			link: "/employer/applications",
+		});
+	}
+
+	await sendPhoneNotification(employerId, channels, {
+		type: "interview_response",
+		message,
+		link: "/employer/applications",
+	});
+}
+
+export interface JobAlertSearch {
+	name: string;
+	link: string; // GET /jobs page with the saved filters
+	totalCount: number; // New matches; only the first few are listed in `jobs`
+	jobs: { title: string; company?: string; location?: string; salary?: string; link: string }[];
+}
+
+/**
+ * New jobs for the user's saved searches (job alert worker). Digest users get
+ * one digest item per search instead of the email.
+ */
+export async function notifyJobAlert(
+	userId: bigint,
+	email: string | null,
+	searches: JobAlertSearch[],
+	userName?: string
+): Promise<void> {
+	if (searches.length === 0) return;
+
+	const channels = await getEnabledChannels(userId, NotificationCategories.JOB_ALERTS);
+	const totalCount = searches.reduce((sum, search) => sum + search.totalCount, 0);
+	const message =
+		searches.length === 1
+			? `${totalCount} new ${totalCount === 1 ? "job matches" : "jobs match"} "${searches[0].name}"`
+			: `${totalCount} new jobs match your saved searches`;
+
+	if (email && channels.email) {
+		let digested = false;
+		for (const search of searches) {
+			digested = await queueDigestItem(userId, NotificationCategories.JOB_ALERTS, {
+				type: "job_alert",
+				title: "Job Alert",
+				message: `${search.totalCount} new ${search.totalCount === 1 ? "job matches" : "jobs match"} "${search.name}"`,
+				link: search.link,
+				metadata: { searchName: search.name, jobCount: search.totalCount },
+			});
+			if (!digested) break;
+		}
+		if (!digested) {
+			await sendEmail(email, "job_alert", {
+				userName: userName || "User",
+				totalCount,
+				searches,
+			});
+		}
+	}
+
+	if (channels.inApp) {
+		await createInAppNotification({
+			userId,
+			type: "job_alert",
+			title: "Job Alert",
+			message,
+			link: searches.length === 1 ? searches[0].link : "/saved-searches",
+		});
+	}
+
+	await sendPhoneNotification(userId, channels, {
+		type: "job_alert",
+		message,
+		link: searches.length === 1 ? searches[0].link : "/saved-searches",
+	});
+}
+
 export async function notifyAccountSuspended(
 	userId: bigint,
 	email: string,
@@ -1164,8 +938,40 @@ export async function notifyOtpVerification(
 	}, true); // Send immediately
 }
 
+/**
+ * Send an OTP by SMS or WhatsApp right away (not queued - the user is waiting).
+ * WhatsApp uses the approved WHATSAPP_OTP_TEMPLATE when configured.
+ */
+export async function notifyOtpPhone(
+	phone: string,
+	otp: string,
+	channel: PhoneChannels = PhoneChannels.SMS,
+	expiryMinutes: number = 10
+): Promise<void> {
+	const body = `${otp} is your Equalio verification code. It expires in ${expiryMinutes} minutes. Never share this code with anyone.`;
+	const templateName = process.env.WHATSAPP_OTP_TEMPLATE;
+
+	try {
+		await sendPhoneMessage(channel, {
+			to: phone,
+			body,
+			template:
+				channel === PhoneChannels.WHATSAPP && templateName
+					? { name: templateName, language: "en", parameters: [otp] }
+					: undefined,
+		});
+	} catch (error) {
+		console.error(`[OTP] Failed to send ${channel} OTP to ${phone}:`, error);
+		throw new HTTPError({
+			httpStatus: StatusCodes.SERVICE_UNAVAILABLE,
+			message: "Could not send the OTP right now. Please try again.",
+		});
+	}
+}
+
 export default {
 	sendEmail,
+	storeInAppNotification,
 	createInAppNotification,
 	notifyEmailVerification,
 	notifyRegistrationSuccess,
@@ -1177,7 +983,17 @@ export default {
 	notifyNewApplicationReceived,
 	notifyPaymentSuccess,
 	notifyResumeUnlocked,
+	notifyProfileViewedByEmployer,
+	notifyEmployerMessage,
+	notifyNewMessage,
+	notifyInterviewScheduled,
+	notifyInterviewCancelled,
+	notifyInterviewReminder,
+	notifyInterviewResponse,
+	notifyJobAlert,
 	notifyAccountSuspended,
 	notifyAccountDeactivated,
 	notifyOtpVerification,
+	notifyOtpPhone,
+	sendPhoneNotification,
 };
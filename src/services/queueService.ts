@@ -3,7 +3,16 @@
  * BullMQ queue setup for background jobs
  */
 
-import { Queue, Worker, Job, QueueEvents } from "bullmq";
+import {
+	Queue,
+	Worker,
+	Job,
+	JobType,
+	QueueEvents,
+	RedisClient,
+	DefaultJobOptions,
+	UnrecoverableError,
+} from "bullmq";
 
 // ============================================
 // Redis Connection
@@ -22,8 +31,14 @@ const redisConnection = {
 export const QueueNames = {
 	NOTIFICATION_EMAIL: "notification-email",
 	NOTIFICATION_INAPP: "notification-inapp",
+	NOTIFICATION_SMS: "notification-sms",
+	NOTIFICATION_WHATSAPP: "notification-whatsapp",
+	NOTIFICATION_DIGEST: "notification-digest",
+	JOB_ALERTS: "job-alerts",
+	INTERVIEW_REMINDERS: "interview-reminders",
 	KYC_PROCESS: "kyc-process",
 	CLEANUP_RETENTION: "cleanup-retention",
+	DEAD_LETTER: "dead-letter", // Parking lot for exhausted jobs - no worker consumes it
 } as const;
 
 export type QueueName = (typeof QueueNames)[keyof typeof QueueNames];
@@ -34,16 +49,30 @@ export type QueueName = (typeof QueueNames)[keyof typeof QueueNames];
 
 const queues: Map<QueueName, Queue> = new Map();
 
+/**
+ * Retry/backoff policy per queue.
+ * Email rides out SMTP outages and greylisting (30s, 1m, 2m, 4m);
+ * scheduled jobs don't retry - the next run picks up the work.
+ */
+const QUEUE_RETRY_POLICIES: Record<QueueName, Pick<DefaultJobOptions, "attempts" | "backoff">> = {
+	[QueueNames.NOTIFICATION_EMAIL]: { attempts: 5, backoff: { type: "exponential", delay: 30000 } },
+	[QueueNames.NOTIFICATION_INAPP]: { attempts: 3, backoff: { type: "exponential", delay: 1000 } },
+	[QueueNames.NOTIFICATION_SMS]: { attempts: 3, backoff: { type: "exponential", delay: 10000 } },
+	[QueueNames.NOTIFICATION_WHATSAPP]: { attempts: 3, backoff: { type: "exponential", delay: 10000 } },
+	[QueueNames.NOTIFICATION_DIGEST]: { attempts: 1 },
+	[QueueNames.JOB_ALERTS]: { attempts: 1 },
+	[QueueNames.INTERVIEW_REMINDERS]: { attempts: 3, backoff: { type: "exponential", delay: 10000 } },
+	[QueueNames.KYC_PROCESS]: { attempts: 3, backoff: { type: "exponential", delay: 5000 } },
+	[QueueNames.CLEANUP_RETENTION]: { attempts: 1 },
+	[QueueNames.DEAD_LETTER]: { attempts: 1 },
+};
+
 export function getQueue(name: QueueName): Queue {
 	if (!queues.has(name)) {
 		const queue = new Queue(name, {
 			connection: redisConnection,
 			defaultJobOptions: {
-				attempts: 3,
-				backoff: {
-					type: "exponential",
-					delay: 1000,
-				},
+				...QUEUE_RETRY_POLICIES[name],
 				removeOnComplete: 100,
 				removeOnFail: 500,
 			},
@@ -57,11 +86,20 @@ export function getQueue(name: QueueName): Queue {
 // Job Types
 // ============================================
 
+export interface EmailAttachment {
+	filename: string;
+	content: string;
+	contentType: string;
+}
+
 export interface EmailJobData {
 	to: string;
-	subject: string;
-	template: string;
+	template: string; // Rendered by the worker via the template registry
 	data: Record<string, any>;
+	locale?: string;
+	deliveryId?: string; // email_deliveries row updated on every attempt
+	attachments?: EmailAttachment[]; // Small text attachments only (e.g. .ics), they ride in the job
+	unsubscribeCategory?: string; // NotificationCategories value, for templates whose category depends on the content (digests)
 }
 
 export interface InAppNotificationJobData {
@@ -73,6 +111,30 @@ export interface InAppNotificationJobData {
 	metadata?: Record<string, any>;
 }
 
+export interface PhoneMessageJobData {
+	to: string; // E.164
+	body: string;
+	type?: string; // Notification type, for logging
+	template?: {
+		name: string;
+		language: string;
+		parameters: string[];
+	};
+}
+
+export interface DigestJobData {
+	frequency: "daily" | "weekly";
+}
+
+export interface JobAlertJobData {
+	frequency: "daily" | "weekly";
+}
+
+export interface InterviewReminderJobData {
+	interviewId: string;
+	sequence: number; // Interview sequence when queued; stale reminders are skipped
+}
+
 export interface KycProcessJobData {
 	kycId: bigint | string;
 	userId: bigint | string;
@@ -85,6 +147,17 @@ export interface CleanupJobData {
 	olderThanDays: number;
 }
 
+export interface DeadLetterJobData {
+	queue: QueueName; // Source queue
+	jobId: string | null; // Source job id
+	name: string;
+	data: Record<string, any>;
+	failedReason: string;
+	attemptsMade: number;
+	stacktrace: string[];
+	failedAt: string; // ISO timestamp
+}
+
 // ============================================
 // Add Job Helpers
 // ============================================
@@ -108,6 +181,38 @@ export async function addInAppNotification(
 	});
 }
 
+export async function addSmsJob(data: PhoneMessageJobData, delay?: number) {
+	const queue = getQueue(QueueNames.NOTIFICATION_SMS);
+	return queue.add("send-sms", data, {
+		delay,
+		priority: 1,
+	});
+}
+
+export async function addWhatsAppJob(data: PhoneMessageJobData, delay?: number) {
+	const queue = getQueue(QueueNames.NOTIFICATION_WHATSAPP);
+	return queue.add("send-whatsapp", data, {
+		delay,
+		priority: 1,
+	});
+}
+
+/**
+ * Delayed reminder for an interview. The job id makes re-queueing the same
+ * reminder a no-op.
+ */
+export async function addInterviewReminderJob(
+	data: InterviewReminderJobData,
+	reminder: { hoursBefore: number; delay: number }
+) {
+	const queue = getQueue(QueueNames.INTERVIEW_REMINDERS);
+	return queue.add("send-interview-reminder", data, {
+		delay: reminder.delay,
+		jobId: `interview-${data.interviewId}-${data.sequence}-${reminder.hoursBefore}h`,
+		priority: 1,
+	});
+}
+
 export async function addKycProcessJob(data: KycProcessJobData) {
 	const queue = getQueue(QueueNames.KYC_PROCESS);
 	return queue.add("process-kyc", data, {
@@ -122,11 +227,209 @@ export async function addCleanupJob(data: CleanupJobData) {
 	});
 }
 
+// ============================================
+// Dead Letter Queue
+// ============================================
+
+/**
+ * Whether a failed job will not be retried again (out of attempts or unrecoverable)
+ */
+export function isJobExhausted(job: Job, error: Error): boolean {
+	return error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts ?? 1);
+}
+
+/**
+ * Park an exhausted job in the dead-letter queue and drop it from the source
+ * queue's failed set, so it can be retried or discarded from the admin console
+ */
+export async function moveToDeadLetter(
+	queueName: QueueName,
+	job: Job,
+	error: Error
+): Promise<void> {
+	const deadLetter: DeadLetterJobData = {
+		queue: queueName,
+		jobId: job.id ?? null,
+		name: job.name,
+		data: job.data,
+		failedReason: job.failedReason || error.message,
+		attemptsMade: job.attemptsMade,
+		stacktrace: job.stacktrace ?? [],
+		failedAt: new Date(job.finishedOn ?? Date.now()).toISOString(),
+	};
+
+	await getQueue(QueueNames.DEAD_LETTER).add(`${queueName}:${job.name}`, deadLetter, {
+		removeOnComplete: false,
+		removeOnFail: false,
+	});
+
+	try {
+		await job.remove();
+	} catch {
+		// Already trimmed by removeOnFail - the dead-letter copy is what matters
+	}
+}
+
+export async function getDeadLetterJobs(
+	filters: { queue?: QueueName; start: number; limit: number }
+): Promise<{ jobs: Job<DeadLetterJobData>[]; total: number }> {
+	const queue = getQueue(QueueNames.DEAD_LETTER);
+
+	if (!filters.queue) {
+		const [jobs, total] = await Promise.all([
+			queue.getWaiting(filters.start, filters.start + filters.limit - 1),
+			queue.getWaitingCount(),
+		]);
+		return { jobs, total };
+	}
+
+	// Filter by source queue (dead-letter volume is small enough to scan)
+	const all = (await queue.getWaiting()) as Job<DeadLetterJobData>[];
+	const matching = all.filter((job) => job.data.queue === filters.queue);
+	return {
+		jobs: matching.slice(filters.start, filters.start + filters.limit),
+		total: matching.length,
+	};
+}
+
+/**
+ * Re-enqueue a dead-lettered job on its source queue (fresh attempts) and remove it from the DLQ
+ */
+export async function retryDeadLetterJob(jobId: string): Promise<Job | null> {
+	const job = (await getQueue(QueueNames.DEAD_LETTER).getJob(jobId)) as
+		| Job<DeadLetterJobData>
+		| undefined;
+	if (!job) return null;
+
+	const retried = await getQueue(job.data.queue).add(job.data.name, job.data.data);
+	await job.remove();
+	return retried;
+}
+
+export async function discardDeadLetterJob(jobId: string): Promise<boolean> {
+	const job = await getQueue(QueueNames.DEAD_LETTER).getJob(jobId);
+	if (!job) return false;
+
+	await job.remove();
+	return true;
+}
+
+// ============================================
+// Queue Management
+// ============================================
+
+const COUNTED_JOB_STATES: JobType[] = [
+	"waiting",
+	"active",
+	"delayed",
+	"prioritized",
+	"paused",
+	"failed",
+	"completed",
+];
+
+/**
+ * Depth of every queue by job state
+ */
+export async function getQueueOverview() {
+	return Promise.all(
+		Object.values(QueueNames).map(async (name) => {
+			const queue = getQueue(name);
+			const [counts, isPaused] = await Promise.all([
+				queue.getJobCounts(...COUNTED_JOB_STATES),
+				queue.isPaused(),
+			]);
+			return { name, isPaused, counts };
+		})
+	);
+}
+
+export async function pauseQueue(name: QueueName): Promise<void> {
+	await getQueue(name).pause();
+}
+
+export async function resumeQueue(name: QueueName): Promise<void> {
+	await getQueue(name).resume();
+}
+
+// ============================================
+// Real-time Pub/Sub
+// ============================================
+
+/**
+ * Redis pub/sub channel used to fan out real-time events (SSE) to every API instance.
+ * Publishing reuses the BullMQ queue connection; subscribing needs a dedicated
+ * connection because a subscribed Redis client cannot issue other commands.
+ */
+export const REALTIME_CHANNEL = "realtime:user-events";
+
+export const RealtimeEventTypes = {
+	NOTIFICATION: "notification",
+	APPLICATION_STATUS: "application_status",
+	WALLET_BALANCE: "wallet_balance",
+	APPLICATION_MESSAGE: "application_message",
+	MESSAGES_READ: "messages_read", // Read receipts for the sender
+} as const;
+
+export type RealtimeEventType =
+	(typeof RealtimeEventTypes)[keyof typeof RealtimeEventTypes];
+
+export interface RealtimeEvent {
+	userId: string;
+	type: RealtimeEventType;
+	data: Record<string, any>;
+}
+
+let realtimeSubscriber: RedisClient | null = null;
+
+export async function publishRealtimeEvent(
+	userId: bigint | string,
+	type: RealtimeEventType,
+	data: Record<string, any>
+): Promise<void> {
+	try {
+		const client = await getQueue(QueueNames.NOTIFICATION_INAPP).client;
+		const event: RealtimeEvent = { userId: userId.toString(), type, data };
+		// Workers don't load the BigInt JSON polyfill, so stringify bigints explicitly
+		await client.publish(
+			REALTIME_CHANNEL,
+			JSON.stringify(event, (_key, value) =>
+				typeof value === "bigint" ? value.toString() : value
+			)
+		);
+	} catch (error) {
+		// Real-time delivery is best-effort - never break the main flow
+		console.error("[Realtime] Failed to publish event:", error);
+	}
+}
+
+export async function subscribeRealtimeEvents(
+	handler: (event: RealtimeEvent) => void
+): Promise<void> {
+	if (realtimeSubscriber) return;
+
+	const client = await getQueue(QueueNames.NOTIFICATION_INAPP).client;
+	realtimeSubscriber = client.duplicate();
+	realtimeSubscriber.on("message", (channel: string, message: string) => {
+		if (channel !== REALTIME_CHANNEL) return;
+		try {
+			handler(JSON.parse(message) as RealtimeEvent);
+		} catch (error) {
+			console.error("[Realtime] Invalid event payload:", error);
+		}
+	});
+	await realtimeSubscriber.subscribe(REALTIME_CHANNEL);
+}
+
 // ============================================
 // Graceful Shutdown
 // ============================================
 
 export async function closeAllQueues() {
+	if (realtimeSubscriber) {
+		await realtimeSubscriber.quit();
+		realtimeSubscriber = null;
+	}
 	for (const [name, queue] of queues) {
 		await queue.close();
 		console.log(`Closed queue: ${name}`);
@@ -137,8 +440,21 @@ export default {
 	getQueue,
 	addEmailJob,
 	addInAppNotification,
+	addSmsJob,
+	addWhatsAppJob,
+	addInterviewReminderJob,
 	addKycProcessJob,
 	addCleanupJob,
+	isJobExhausted,
+	moveToDeadLetter,
+	getDeadLetterJobs,
+	retryDeadLetterJob,
+	discardDeadLetterJob,
+	getQueueOverview,
+	pauseQueue,
+	resumeQueue,
+	publishRealtimeEvent,
+	subscribeRealtimeEvents,
 	closeAllQueues,
 	QueueNames,
 };
@@ -0,0 +1,123 @@
+/**
+ * Realtime Service
+ * Server-Sent Events (SSE) delivery to clients connected to this API instance.
+ * Events arrive through Redis pub/sub (see queueService), so any instance or worker
+ * can publish and every instance delivers to its own connected clients.
+ */
+
+import { Response } from "express";
+import {
+	RealtimeEvent,
+	subscribeRealtimeEvents,
+} from "./queueService.ts";
+
+// ============================================
+// Config
+// ============================================
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Keep proxies from closing idle streams
+const CLIENT_RETRY_MS = 5 * 1000; // EventSource reconnect delay
+const MAX_STREAMS_PER_USER = parseInt(process.env.SSE_MAX_STREAMS_PER_USER || "5", 10);
+
+// ============================================
+// Connected Clients (this instance only)
+// ============================================
+
+const clients: Map<string, Set<Response>> = new Map();
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let subscribed = false;
+
+function writeEvent(res: Response, type: string, data: unknown) {
+	res.write(`event: ${type}\n`);
+	res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function dispatch(event: RealtimeEvent) {
+	const userClients = clients.get(event.userId);
+	if (!userClients) return;
+
+	for (const res of userClients) {
+		writeEvent(res, event.type, event.data);
+	}
+}
+
+function startHeartbeat() {
+	if (heartbeatTimer) return;
+	heartbeatTimer = setInterval(() => {
+		for (const userClients of clients.values()) {
+			for (const res of userClients) {
+				res.write(": ping\n\n");
+			}
+		}
+	}, HEARTBEAT_INTERVAL_MS);
+	heartbeatTimer.unref();
+}
+
+/**
+ * Subscribe this instance to the Redis channel (idempotent).
+ * Failures are logged, not thrown - the API keeps working without real-time delivery.
+ */
+export async function initRealtime(): Promise<void> {
+	if (subscribed) return;
+	subscribed = true;
+	try {
+		await subscribeRealtimeEvents(dispatch);
+		startHeartbeat();
+		console.log("[Realtime] Subscribed to Redis pub/sub");
+	} catch (error) {
+		subscribed = false;
+		console.error("[Realtime] Failed to subscribe to Redis pub/sub:", error);
+	}
+}
+
+/**
+ * Open an SSE stream for a user and keep it registered until the client disconnects.
+ * Returns false when the user already has too many open streams.
+ */
+export function openStream(userId: bigint, res: Response): boolean {
+	const key = userId.toString();
+	const userClients = clients.get(key) ?? new Set<Response>();
+
+	if (userClients.size >= MAX_STREAMS_PER_USER) {
+		return false;
+	}
+
+	res.status(200);
+	res.setHeader("Content-Type", "text/event-stream");
+	res.setHeader("Cache-Control", "no-cache, no-transform");
+	res.setHeader("Connection", "keep-alive");
+	res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+	res.flushHeaders();
+
+	res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+	writeEvent(res, "connected", { connectedAt: new Date().toISOString() });
+
+	userClients.add(res);
+	clients.set(key, userClients);
+
+	res.on("close", () => {
+		userClients.delete(res);
+		if (userClients.size === 0) {
+			clients.delete(key);
+		}
+	});
+
+	return true;
+}
+
+/**
+ * Number of open streams on this instance (for monitoring)
+ */
+export function getConnectedClientCount(): number {
+	let count = 0;
+	for (const userClients of clients.values()) {
+		count += userClients.size;
+	}
+	return count;
+}
+
+export default {
+	initRealtime,
+	openStream,
+	getConnectedClientCount,
+};
@@ -0,0 +1,286 @@
+/**
+ * Screening Service
+ * Employer-defined screening questions on jobs: validating the question set,
+ * checking an applicant's answers against it, and scoring them. Missing a
+ * knockout question's expected answer auto-rejects the application.
+ */
+
+import { randomUUID } from "crypto";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { HTTPError } from "../config/error.ts";
+import { ScreeningAnswers, ScreeningQuestion, ScreeningQuestionTypes } from "../db/index.ts";
+
+// ============================================
+// Config
+// ============================================
+
+export const MAX_SCREENING_QUESTIONS = 10;
+const MAX_OPTIONS = 10;
+const MAX_TEXT_ANSWER_LENGTH = 500;
+
+const CHOICE_TYPES = [ScreeningQuestionTypes.SINGLE_CHOICE, ScreeningQuestionTypes.MULTI_CHOICE];
+
+// ============================================
+// Question Schema
+// ============================================
+
+function expectedAnswerIssue(question: {
+	type: ScreeningQuestionTypes;
+	options?: string[];
+	expectedAnswer?: unknown;
+}): string | null {
+	const expected = question.expectedAnswer;
+	const options = question.options ?? [];
+
+	switch (question.type) {
+		case ScreeningQuestionTypes.YES_NO:
+			return typeof expected === "boolean" ? null : "expected answer must be true or false";
+		case ScreeningQuestionTypes.NUMERIC:
+			return typeof expected === "number" ? null : "expected answer must be a number (the minimum accepted)";
+		case ScreeningQuestionTypes.SINGLE_CHOICE:
+			return typeof expected === "string" && options.includes(expected)
+				? null
+				: "expected answer must be one of the options";
+		case ScreeningQuestionTypes.MULTI_CHOICE:
+			return Array.isArray(expected) && expected.length > 0 && expected.every((o) => options.includes(o))
+				? null
+				: "expected answer must list options from the question";
+		case ScreeningQuestionTypes.SHORT_TEXT:
+			return typeof expected === "string" ? null : "expected answer must be text";
+	}
+}
+
+const screeningQuestionSchema = z.object({
+	id: z.string().trim().min(1).max(50).optional(), // Kept on edit; generated for new questions
+	type: z.nativeEnum(ScreeningQuestionTypes),
+	question: z.string().trim().min(1).max(300),
+	required: z.boolean().optional(), // Default: true
+	options: z.array(z.string().trim().min(1).max(100)).max(MAX_OPTIONS).optional(),
+	knockout: z.boolean().optional(),
+	expectedAnswer: z
+		.union([
+			z.boolean(),
+			z.number().finite(),
+			z.string().trim().min(1).max(MAX_TEXT_ANSWER_LENGTH),
+			z.array(z.string().trim().min(1)),
+		])
+		.optional(),
+});
+
+/**
+ * A job's screening questions as sent in POST/PATCH /employer/jobs (stored
+ * through normalizeScreeningQuestions)
+ */
+export const screeningQuestionsSchema = z
+	.array(screeningQuestionSchema)
+	.max(MAX_SCREENING_QUESTIONS)
+	.superRefine((questions, ctx) => {
+		const ids = new Set<string>();
+
+		questions.forEach((question, i) => {
+			const issue = (message: string) =>
+				ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i], message: `Question ${i + 1}: ${message}` });
+			const isChoice = CHOICE_TYPES.includes(question.type);
+
+			if (question.id) {
+				if (ids.has(question.id)) issue("duplicate id");
+				ids.add(question.id);
+			}
+			if (isChoice && (!question.options || question.options.length < 2)) {
+				issue("choice questions need at least 2 options");
+			} else if (isChoice && new Set(question.options).size !== question.options!.length) {
+				issue("options must be unique");
+			} else if (!isChoice && question.options !== undefined) {
+				issue("only choice questions have options");
+			}
+			if (question.knockout && question.expectedAnswer === undefined) {
+				issue("knockout questions need an expected answer");
+			}
+			if (question.expectedAnswer !== undefined) {
+				const message = expectedAnswerIssue(question);
+				if (message) issue(message);
+			}
+		});
+	});
+
+export type ScreeningQuestionInput = z.infer<typeof screeningQuestionsSchema>[number];
+
+/**
+ * Validated questions ready to store: ids assigned to new questions, defaults
+ * filled in, and knockout questions always required
+ */
+export function normalizeScreeningQuestions(questions: ScreeningQuestionInput[]): ScreeningQuestion[] {
+	return questions.map((question) => {
+		const knockout = question.knockout ?? false;
+
+		return {
+			id: question.id ?? randomUUID(),
+			type: question.type,
+			question: question.question,
+			required: (question.required ?? true) || knockout,
+			...(question.options && { options: question.options }),
+			knockout,
+			...(question.expectedAnswer !== undefined && { expectedAnswer: question.expectedAnswer }),
+		};
+	});
+}
+
+/**
+ * Whether two stored question sets are the same (key order aside, as jsonb
+ * does not keep it). Used to let a job be re-saved unchanged once it has
+ * applications, whose answers and scores are tied to the current questions.
+ */
+export function sameScreeningQuestions(
+	current: ScreeningQuestion[] | null,
+	next: ScreeningQuestion[] | null
+): boolean {
+	const canonical = (questions: ScreeningQuestion[] | null) =>
+		(questions ?? []).map((question) => JSON.stringify(question, Object.keys(question).sort()));
+
+	const [a, b] = [canonical(current), canonical(next)];
+	return a.length === b.length && a.every((question, i) => question === b[i]);
+}
+
+/**
+ * Questions as shown to applicants: no expected answers or knockout flags
+ */
+export function publicScreeningQuestions(questions: ScreeningQuestion[] | null) {
+	return (questions ?? []).map(({ id, type, question, required, options }) => ({
+		id,
+		type,
+		question,
+		required,
+		...(options && { options }),
+	}));
+}
+
+// ============================================
+// Answers
+// ============================================
+
+function answerIssue(question: ScreeningQuestion, answer: unknown): string | null {
+	const options = question.options ?? [];
+
+	switch (question.type) {
+		case ScreeningQuestionTypes.YES_NO:
+			return typeof answer === "boolean" ? null : "Answer yes or no";
+		case ScreeningQuestionTypes.NUMERIC:
+			return typeof answer === "number" && Number.isFinite(answer) ? null : "Enter a number";
+		case ScreeningQuestionTypes.SINGLE_CHOICE:
+			return typeof answer === "string" && options.includes(answer) ? null : "Choose one of the options";
+		case ScreeningQuestionTypes.MULTI_CHOICE:
+			return Array.isArray(answer) &&
+				answer.every((o) => typeof o === "string" && options.includes(o)) &&
+				new Set(answer).size === answer.length
+				? null
+				: "Choose from the options";
+		case ScreeningQuestionTypes.SHORT_TEXT:
+			return typeof answer === "string" && answer.trim().length <= MAX_TEXT_ANSWER_LENGTH
+				? null
+				: `Answer in up to ${MAX_TEXT_ANSWER_LENGTH} characters`;
+	}
+}
+
+function isBlank(answer: unknown): boolean {
+	return (
+		answer === undefined ||
+		answer === null ||
+		(typeof answer === "string" && answer.trim() === "") ||
+		(Array.isArray(answer) && answer.length === 0)
+	);
+}
+
+/**
+ * The applicant's answers checked against the job's questions, with text
+ * trimmed and blank optional answers dropped. Throws 400 listing every
+ * problem (by question id) when an answer is missing, unknown or malformed.
+ */
+export function validateScreeningAnswers(
+	questions: ScreeningQuestion[],
+	answers: Record<string, unknown> | undefined
+): ScreeningAnswers {
+	const issues: { questionId: string; message: string }[] = [];
+	const valid: ScreeningAnswers = {};
+	const byId = new Map(questions.map((question) => [question.id, question]));
+
+	for (const id of Object.keys(answers ?? {})) {
+		if (!byId.has(id)) issues.push({ questionId: id, message: "Unknown question" });
+	}
+
+	for (const question of questions) {
+		const answer = answers?.[question.id];
+
+		if (isBlank(answer)) {
+			if (question.required) issues.push({ questionId: question.id, message: "Answer is required" });
+			continue;
+		}
+
+		const message = answerIssue(question, answer);
+		if (message) {
+			issues.push({ questionId: question.id, message });
+			continue;
+		}
+		valid[question.id] = typeof answer === "string" ? answer.trim() : (answer as ScreeningAnswers[string]);
+	}
+
+	if (issues.length > 0) {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "Invalid screening answers",
+			reason: { issues },
+		});
+	}
+	return valid;
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+export interface ScreeningResult {
+	score: number | null; // 0-100, null when no question has an expected answer
+	knockout: boolean;
+}
+
+function normalizeText(value: string): string {
+	return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function meetsExpectation(question: ScreeningQuestion, answer: ScreeningAnswers[string] | undefined): boolean {
+	const expected = question.expectedAnswer;
+	if (answer === undefined || expected === undefined) return false;
+
+	switch (question.type) {
+		case ScreeningQuestionTypes.NUMERIC:
+			return typeof answer === "number" && answer >= (expected as number);
+		case ScreeningQuestionTypes.MULTI_CHOICE:
+			return Array.isArray(answer) && (expected as string[]).every((option) => answer.includes(option));
+		case ScreeningQuestionTypes.SHORT_TEXT:
+			return typeof answer === "string" && normalizeText(answer) === normalizeText(expected as string);
+		default:
+			return answer === expected;
+	}
+}
+
+/**
+ * Share of questions with an expected answer that the applicant met, and
+ * whether any knockout question was missed. Expects validated answers.
+ */
+export function scoreScreeningAnswers(questions: ScreeningQuestion[], answers: ScreeningAnswers): ScreeningResult {
+	const scored = questions.filter((question) => question.expectedAnswer !== undefined);
+	const met = scored.filter((question) => meetsExpectation(question, answers[question.id]));
+
+	return {
+		score: scored.length > 0 ? Math.round((met.length / scored.length) * 100) : null,
+		knockout: scored.some((question) => question.knockout && !met.includes(question)),
+	};
+}
+
+export default {
+	normalizeScreeningQuestions,
+	sameScreeningQuestions,
+	publicScreeningQuestions,
+	validateScreeningAnswers,
+	scoreScreeningAnswers,
+};
@@ -0,0 +1,84 @@
+/**
+ * Unsubscribe Service
+ * Applies the signed, login-free unsubscribe links added to emails by
+ * emailDeliveryService. Category links turn off that category's email
+ * (MARKETING revokes the consent); links without a category suppress all
+ * non-essential email to the address.
+ */
+
+import { and, isNull, sql } from "drizzle-orm";
+import { StatusCodes } from "http-status-codes";
+import { db } from "../config/database.ts";
+import { HTTPError } from "../config/error.ts";
+import { users, NotificationCategories, EmailSuppressionReasons } from "../db/index.ts";
+import { verifyUnsubscribeToken } from "../utils/jwt.ts";
+import { suppressEmail } from "./emailDeliveryService.ts";
+import {
+	setMarketingConsent,
+	updateNotificationPreferences,
+} from "./notificationPreferenceService.ts";
+
+export interface UnsubscribeScope {
+	email: string;
+	category: NotificationCategories | null; // null = all non-essential email
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+export async function getUnsubscribeScope(token: string): Promise<UnsubscribeScope> {
+	try {
+		const payload = await verifyUnsubscribeToken(token);
+		const category = Object.values(NotificationCategories).includes(
+			payload.category as NotificationCategories
+		)
+			? (payload.category as NotificationCategories)
+			: null;
+
+		return { email: payload.email, category };
+	} catch {
+		throw new HTTPError({
+			httpStatus: StatusCodes.BAD_REQUEST,
+			message: "Invalid or expired unsubscribe link",
+		});
+	}
+}
+
+/**
+ * Apply an unsubscribe link. Idempotent - repeating it changes nothing.
+ */
+export async function unsubscribeByToken(token: string): Promise<UnsubscribeScope> {
+	const scope = await getUnsubscribeScope(token);
+
+	const [user] = scope.category
+		? await db
+				.select({ id: users.id })
+				.from(users)
+				.where(and(sql`lower(${users.email}) = ${scope.email}`, isNull(users.deletedAt)))
+				.limit(1)
+		: [];
+
+	if (!user) {
+		// No category, or no account to hold preferences: stop non-essential email to the address
+		await suppressEmail(scope.email, EmailSuppressionReasons.UNSUBSCRIBE, {
+			detail: scope.category ? `Unsubscribed from ${scope.category}` : "Unsubscribed from all",
+		});
+		return scope;
+	}
+
+	if (scope.category === NotificationCategories.MARKETING) {
+		await setMarketingConsent(user.id, false);
+	} else {
+		await updateNotificationPreferences(user.id, {
+			[scope.category!]: { email: false },
+		});
+	}
+
+	return scope;
+}
+
+export default {
+	getUnsubscribeScope,
+	unsubscribeByToken,
+};
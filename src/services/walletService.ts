@@ -16,6 +16,17 @@ import {
 import { HTTPError } from "../config/error.ts";
 import { StatusCodes } from "http-status-codes";
 import { auditCreate } from "./auditService.ts";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	PageRequest,
+	paginate,
+	Pagination,
+	sortKey,
+} from "../utils/pagination.ts";
+import { publishRealtimeEvent, RealtimeEventTypes } from "./queueService.ts";
 
 // ============================================
 // Types
@@ -97,6 +108,22 @@ export async function getBalance(userId: bigint): Promise<{
 	};
 }
 
+/**
+ * Push the new balance to the user's open SSE streams
+ */
+async function publishBalanceUpdate(
+	userId: bigint,
+	currency: string,
+	result: TransactionResult
+): Promise<void> {
+	await publishRealtimeEvent(userId, RealtimeEventTypes.WALLET_BALANCE, {
+		balance: Number(result.balanceAfter) / 100,
+		previousBalance: Number(result.balanceBefore) / 100,
+		currency,
+		transactionId: result.transactionUuid,
+	});
+}
+
 /**
  * Top-up wallet (simulated payment)
  * Uses idempotency key to prevent duplicates
@@ -212,6 +239,8 @@ export async function topUp(
 		`Wallet top-up: ₹${Number(amountInPaise) / 100}`
 	);
 
+	await publishBalanceUpdate(userId, wallet.currency, result);
+
 	return result;
 }
 
@@ -349,19 +378,25 @@ export async function deduct(
 		options.description
 	);
 
+	await publishBalanceUpdate(userId, wallet.currency, result);
+
 	return result;
 }
 
 /**
  * Get transaction history for user
  */
+const TRANSACTION_HISTORY_ORDER = keyset("transactions", [
+	sortKey(transactions.createdAt, "desc"),
+	sortKey(transactions.id, "desc"),
+]);
+
 export async function getTransactionHistory(
 	userId: bigint,
-	limit: number = 50,
-	offset: number = 0
+	page: PageRequest
 ): Promise<{
 	transactions: any[];
-	total: number;
+	pagination: Pagination;
 }> {
 	const wallet = await getOrCreateWallet(userId);
 
@@ -377,12 +412,13 @@ export async function getTransactionHistory(
 			status: transactions.status,
 			description: transactions.description,
 			createdAt: transactions.createdAt,
+			pageCursor: keysetCursorField(TRANSACTION_HISTORY_ORDER),
 		})
 		.from(transactions)
-		.where(eq(transactions.walletId, wallet.id))
-		.orderBy(sql`${transactions.createdAt} DESC`)
-		.limit(limit)
-		.offset(offset);
+		.where(and(eq(transactions.walletId, wallet.id), keysetCondition(TRANSACTION_HISTORY_ORDER, page)))
+		.orderBy(...keysetOrderBy(TRANSACTION_HISTORY_ORDER))
+		.limit(page.limit + 1)
+		.offset(page.offset);
 
 	// Get total count
 	const [countResult] = await db
@@ -390,14 +426,16 @@ export async function getTransactionHistory(
 		.from(transactions)
 		.where(eq(transactions.walletId, wallet.id));
 
+	const { items, pagination } = paginate(results, page, countResult?.count || 0);
+
 	return {
-		transactions: results.map((t) => ({
+		transactions: items.map((t) => ({
 			...t,
 			amountInRupees: Number(t.amount) / 100,
 			balanceBeforeInRupees: Number(t.balanceBefore) / 100,
 			balanceAfterInRupees: Number(t.balanceAfter) / 100,
 		})),
-		total: countResult?.count || 0,
+		pagination,
 	};
 }
 
@@ -2,6 +2,7 @@ import { NextFunction, Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z, ZodSchema } from "zod";
 import { HTTPError } from "../config/error.ts";
+import { getZodErrorMap, translateFieldErrors } from "./i18n.ts";
 
 interface ValidationOptions<T> {
 	validationSchema: ZodSchema<T>;
@@ -40,13 +41,18 @@ function expressAsyncHandler<T>(
 		const executeHandler = async () => {
 			if (options) {
 				const rawValue = options.getValue(req);
-				const parseResult = options.validationSchema.safeParse(rawValue);
+				const parseResult = options.validationSchema.safeParse(rawValue, {
+					errorMap: getZodErrorMap(req.locale),
+				});
 
 				if (!parseResult.success) {
 					throw new HTTPError({
 						httpStatus: StatusCodes.BAD_REQUEST,
 						message: "Validation failed",
-						reason: parseResult.error.flatten().fieldErrors,
+						reason: translateFieldErrors(
+							parseResult.error.flatten().fieldErrors,
+							req.locale
+						),
 					});
 				}
 
@@ -0,0 +1,183 @@
+/**
+ * i18n helpers
+ * Locale resolution (Accept-Language / stored user locale), message translation
+ * and localised zod error messages
+ */
+
+import { z } from "zod";
+import {
+	catalogs,
+	englishEmailLayout,
+	EmailLayoutStrings,
+	LocaleCatalog,
+	LocalizedEmailTemplate,
+	SupportedLocale,
+	SupportedLocales,
+} from "../config/locales/index.ts";
+
+export { SupportedLocales };
+export type { SupportedLocale };
+
+export const DEFAULT_LOCALE: SupportedLocale = SupportedLocales.EN;
+
+const RTL_LOCALES: SupportedLocale[] = [SupportedLocales.UR];
+
+function getCatalog(locale?: string): LocaleCatalog | null {
+	const normalized = normalizeLocale(locale);
+	if (!normalized || normalized === SupportedLocales.EN) return null;
+	return catalogs[normalized];
+}
+
+function format(template: string, params: Record<string, unknown>): string {
+	return template.replace(/\{(\w+)\}/g, (_, key: string) => String(params[key] ?? ""));
+}
+
+// ============================================
+// Locale Resolution
+// ============================================
+
+/**
+ * Map "hi", "hi-IN", "UR_pk" etc. to a supported locale
+ */
+export function normalizeLocale(value?: string | null): SupportedLocale | undefined {
+	if (!value) return undefined;
+	const language = value.trim().toLowerCase().split(/[-_]/)[0];
+	return (Object.values(SupportedLocales) as string[]).includes(language)
+		? (language as SupportedLocale)
+		: undefined;
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header (respects q-values)
+ */
+export function parseAcceptLanguage(header?: string): SupportedLocale | undefined {
+	if (!header) return undefined;
+
+	const ranked = header
+		.split(",")
+		.map((part) => {
+			const [tag, ...params] = part.trim().split(";");
+			const q = params.find((p) => p.trim().startsWith("q="));
+			return { tag, quality: q ? parseFloat(q.trim().slice(2)) || 0 : 1 };
+		})
+		.filter((entry) => entry.tag && entry.quality > 0)
+		.sort((a, b) => b.quality - a.quality);
+
+	for (const { tag } of ranked) {
+		const locale = normalizeLocale(tag);
+		if (locale) return locale;
+	}
+	return undefined;
+}
+
+export function isRtlLocale(locale?: string): boolean {
+	const normalized = normalizeLocale(locale);
+	return !!normalized && RTL_LOCALES.includes(normalized);
+}
+
+// ============================================
+// Translation
+// ============================================
+
+/**
+ * Translate an English source message. Unknown messages (e.g. ones with
+ * interpolated values) are returned unchanged.
+ */
+export function translate(message: string, locale?: string): string {
+	return getCatalog(locale)?.messages[message] ?? message;
+}
+
+/**
+ * Translate zod fieldErrors ({ field: [messages] }) in place of custom schema messages
+ */
+export function translateFieldErrors(
+	fieldErrors: Record<string, string[] | undefined>,
+	locale?: string
+): Record<string, string[] | undefined> {
+	if (!getCatalog(locale)) return fieldErrors;
+
+	return Object.fromEntries(
+		Object.entries(fieldErrors).map(([field, messages]) => [
+			field,
+			messages?.map((message) => translate(message, locale)),
+		])
+	);
+}
+
+/**
+ * Contextual zod error map for a locale (undefined for English = zod defaults)
+ */
+export function getZodErrorMap(locale?: string): z.ZodErrorMap | undefined {
+	const catalog = getCatalog(locale);
+	if (!catalog) return undefined;
+	const messages = catalog.zod;
+
+	return (issue, ctx) => {
+		switch (issue.code) {
+			case z.ZodIssueCode.invalid_type:
+				if (issue.received === z.ZodParsedType.undefined) {
+					return { message: messages.required };
+				}
+				return { message: format(messages.invalidType, { expected: issue.expected }) };
+			case z.ZodIssueCode.too_small:
+				if (issue.type === "string") {
+					return { message: format(messages.stringMin, { minimum: issue.minimum }) };
+				}
+				if (issue.type === "array") {
+					return { message: format(messages.arrayMin, { minimum: issue.minimum }) };
+				}
+				return { message: format(messages.numberMin, { minimum: issue.minimum }) };
+			case z.ZodIssueCode.too_big:
+				if (issue.type === "string") {
+					return { message: format(messages.stringMax, { maximum: issue.maximum }) };
+				}
+				if (issue.type === "array") {
+					return { message: format(messages.arrayMax, { maximum: issue.maximum }) };
+				}
+				return { message: format(messages.numberMax, { maximum: issue.maximum }) };
+			case z.ZodIssueCode.invalid_string:
+				if (issue.validation === "email") return { message: messages.email };
+				if (issue.validation === "url") return { message: messages.url };
+				if (issue.validation === "uuid") return { message: messages.uuid };
+				return { message: messages.invalidFormat };
+			case z.ZodIssueCode.invalid_enum_value:
+				return { message: format(messages.invalidEnum, { options: issue.options.join(", ") }) };
+			case z.ZodIssueCode.invalid_date:
+				return { message: messages.invalidDate };
+			case z.ZodIssueCode.unrecognized_keys:
+				return { message: format(messages.unrecognizedKeys, { keys: issue.keys.join(", ") }) };
+			default:
+				return { message: ctx.defaultError === "Invalid input" ? messages.invalid : ctx.defaultError };
+		}
+	};
+}
+
+// ============================================
+// Email Strings
+// ============================================
+
+export function getEmailLayoutStrings(locale?: string): EmailLayoutStrings {
+	return getCatalog(locale)?.emailLayout ?? englishEmailLayout;
+}
+
+/**
+ * Built-in translation of an email template (English uses the code templates)
+ */
+export function getLocalizedEmailTemplate(
+	name: string,
+	locale?: string
+): LocalizedEmailTemplate | undefined {
+	return getCatalog(locale)?.emailTemplates[name];
+}
+
+export default {
+	DEFAULT_LOCALE,
+	normalizeLocale,
+	parseAcceptLanguage,
+	isRtlLocale,
+	translate,
+	translateFieldErrors,
+	getZodErrorMap,
+	getEmailLayoutStrings,
+	getLocalizedEmailTemplate,
+};
@@ -0,0 +1,97 @@
+/**
+ * iCalendar
+ * Single-event VCALENDAR documents (RFC 5545) for email invitations. REQUEST
+ * adds or updates the event in the recipient's calendar, CANCEL removes it;
+ * both match on `uid` and the highest `sequence` wins.
+ */
+
+export type CalendarMethod = "REQUEST" | "CANCEL";
+
+export interface CalendarEvent {
+	uid: string;
+	sequence: number;
+	start: Date;
+	durationMinutes: number;
+	summary: string;
+	description?: string;
+	location?: string;
+	url?: string;
+	organizer: { name: string; email: string };
+	attendee?: { name?: string; email: string };
+}
+
+const PRODUCT_ID = "-//Equalio//Interviews//EN";
+const MAX_LINE_OCTETS = 75;
+
+/** 20260105T093000Z */
+function formatUtc(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r?\n/g, "\\n");
+}
+
+function escapeParam(value: string): string {
+	return `"${value.replace(/"/g, "'")}"`;
+}
+
+/** Long content lines wrapped at 75 octets, continuation lines starting with a space */
+function foldLine(line: string): string {
+	const parts: string[] = [];
+	let current = "";
+
+	for (const char of line) {
+		const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (Buffer.byteLength(current + char, "utf8") > limit) {
+			parts.push(current);
+			current = "";
+		}
+		current += char;
+	}
+	parts.push(current);
+
+	return parts.join("\r\n ");
+}
+
+export function buildCalendar(event: CalendarEvent, method: CalendarMethod): string {
+	const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		`PRODID:${PRODUCT_ID}`,
+		"CALSCALE:GREGORIAN",
+		`METHOD:${method}`,
+		"BEGIN:VEVENT",
+		`UID:${event.uid}`,
+		`SEQUENCE:${event.sequence}`,
+		`DTSTAMP:${formatUtc(new Date())}`,
+		`DTSTART:${formatUtc(event.start)}`,
+		`DTEND:${formatUtc(end)}`,
+		`SUMMARY:${escapeText(event.summary)}`,
+		...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+		...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+		...(event.url ? [`URL:${event.url}`] : []),
+		`ORGANIZER;CN=${escapeParam(event.organizer.name)}:mailto:${event.organizer.email}`,
+		...(event.attendee
+			? [
+					`ATTENDEE;${event.attendee.name ? `CN=${escapeParam(event.attendee.name)};` : ""}ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${event.attendee.email}`,
+				]
+			: []),
+		`STATUS:${method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+		"TRANSP:OPAQUE",
+		"END:VEVENT",
+		"END:VCALENDAR",
+	];
+
+	return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** MIME type for the .ics attachment (method must match the body) */
+export function calendarContentType(method: CalendarMethod): string {
+	return `text/calendar; charset=utf-8; method=${method}`;
+}
@@ -6,6 +6,7 @@ const { sign: jwtSign, verify: jwtVerify } = jwt;
 export enum TokenType {
 	ACCESS = "access",
 	REFRESH = "refresh",
+	UNSUBSCRIBE = "unsubscribe",
 }
 
 // Token configuration
@@ -13,6 +14,7 @@ export const TOKEN_CONFIG = {
 	ACCESS_TOKEN_EXPIRY: 15 * 60, // 15 minutes
 	REFRESH_TOKEN_EXPIRY: 7 * 24 * 60 * 60, // 7 days
 	REFRESH_TOKEN_COOKIE_EXPIRY: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
+	UNSUBSCRIBE_TOKEN_EXPIRY: 365 * 24 * 60 * 60, // 1 year - links in old emails must keep working
 };
 
 /**
@@ -27,6 +29,15 @@ export interface TokenPayload extends JwtPayload {
 	tokenId?: string; // For refresh tokens
 }
 
+/**
+ * Unsubscribe link payload (no login required to use it)
+ */
+export interface UnsubscribeTokenPayload extends JwtPayload {
+	type: TokenType.UNSUBSCRIBE;
+	email: string;
+	category?: string; // Notification category; absent = all non-essential email
+}
+
 /**
  * Data needed to create tokens
  */
@@ -121,6 +132,31 @@ export const verifyRefreshToken = async (
 	return payload;
 };
 
+/**
+ * Create a signed unsubscribe token for an email address (optionally one category)
+ */
+export const createUnsubscribeToken = (email: string, category?: string): Promise<string> => {
+	const payload: Partial<UnsubscribeTokenPayload> = {
+		type: TokenType.UNSUBSCRIBE,
+		email,
+		category,
+	};
+	return createJWT(payload, TOKEN_CONFIG.UNSUBSCRIBE_TOKEN_EXPIRY);
+};
+
+/**
+ * Verify an unsubscribe token
+ */
+export const verifyUnsubscribeToken = async (
+	token: string
+): Promise<UnsubscribeTokenPayload> => {
+	const payload = (await verifyJWT(token)) as JwtPayload;
+	if (payload.type !== TokenType.UNSUBSCRIBE || typeof payload.email !== "string") {
+		throw new Error("Invalid token type");
+	}
+	return payload as UnsubscribeTokenPayload;
+};
+
 /**
  * Decode token without verification (for debugging)
  */
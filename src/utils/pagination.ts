@@ -0,0 +1,184 @@
+/**
+ * Pagination
+ * Keyset (cursor) paging shared by the list endpoints. Each list declares its
+ * sort keys, ending in a unique column (usually id); `nextCursor` is an opaque
+ * token holding the last row's key values, so rows inserted mid-scroll are
+ * neither skipped nor repeated. `offset` is still honoured for clients that
+ * have not moved to cursors.
+ */
+
+import { asc, desc, sql, SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { StatusCodes } from "http-status-codes";
+import { HTTPError } from "../config/error.ts";
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * One ORDER BY term. The expression must never be null (coalesce nullable
+ * columns), or rows after the null would be unreachable.
+ */
+export interface SortKey {
+	expression: SQL | AnyPgColumn;
+	direction: SortDirection;
+}
+
+/**
+ * A list's sort order. `name` is embedded in its cursors so a cursor from one
+ * list (or ordering) is rejected by another.
+ */
+export interface Keyset {
+	name: string;
+	keys: SortKey[];
+}
+
+export interface PageRequest {
+	limit: number;
+	offset: number;
+	cursor: string | null;
+}
+
+export interface Pagination {
+	total?: number;
+	limit: number;
+	offset: number;
+	hasMore: boolean;
+	nextCursor: string | null;
+}
+
+const MAX_CURSOR_LENGTH = 2000;
+
+export function sortKey(expression: SQL | AnyPgColumn, direction: SortDirection): SortKey {
+	return { expression, direction };
+}
+
+export function keyset(name: string, keys: SortKey[]): Keyset {
+	return { name, keys };
+}
+
+/**
+ * limit, offset and cursor from the query string. A cursor takes precedence
+ * over offset.
+ */
+export function parsePageRequest(
+	query: Record<string, unknown>,
+	options: { defaultLimit: number; maxLimit: number }
+): PageRequest {
+	const limit = Math.min(Math.max(parseInt(query.limit as string) || options.defaultLimit, 1), options.maxLimit);
+	const cursor = typeof query.cursor === "string" && query.cursor !== "" ? query.cursor : null;
+
+	return {
+		limit,
+		offset: cursor ? 0 : Math.max(parseInt(query.offset as string) || 0, 0),
+		cursor,
+	};
+}
+
+// ============================================
+// Query Building
+// ============================================
+
+function invalidCursor(): HTTPError {
+	return new HTTPError({
+		httpStatus: StatusCodes.BAD_REQUEST,
+		message: "Invalid cursor",
+	});
+}
+
+function decodeCursor(set: Keyset, cursor: string): string[] {
+	if (cursor.length > MAX_CURSOR_LENGTH) throw invalidCursor();
+
+	let decoded: unknown;
+	try {
+		decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+	} catch {
+		throw invalidCursor();
+	}
+
+	if (
+		!Array.isArray(decoded) ||
+		decoded[0] !== set.name ||
+		decoded.length !== set.keys.length + 1 ||
+		!decoded.slice(1).every((value) => typeof value === "string")
+	) {
+		throw invalidCursor();
+	}
+	return decoded.slice(1);
+}
+
+export function keysetOrderBy(set: Keyset): SQL[] {
+	return set.keys.map((key) => (key.direction === "asc" ? asc(key.expression) : desc(key.expression)));
+}
+
+/**
+ * Rows after the cursor, or undefined on the first page. Values travel as
+ * text and are cast by Postgres against each key, so timestamps keep their
+ * microseconds.
+ */
+export function keysetCondition(set: Keyset, page: PageRequest): SQL | undefined {
+	if (!page.cursor) return undefined;
+	const values = decodeCursor(set, page.cursor);
+	const operator = (key: SortKey) => sql.raw(key.direction === "asc" ? ">" : "<");
+
+	// Same direction throughout: a row comparison, which can use a composite index
+	if (set.keys.every((key) => key.direction === set.keys[0].direction)) {
+		return sql`(${sql.join(
+			set.keys.map((key) => sql`${key.expression}`),
+			sql`, `
+		)}) ${operator(set.keys[0])} (${sql.join(
+			values.map((value) => sql`${value}`),
+			sql`, `
+		)})`;
+	}
+
+	// Mixed directions: (a > x) or (a = x and b < y) or ...
+	const branches = set.keys.map((key, i) =>
+		sql.join(
+			[
+				...set.keys.slice(0, i).map((prior, j) => sql`${prior.expression} = ${values[j]}`),
+				sql`${key.expression} ${operator(key)} ${values[i]}`,
+			],
+			sql` and `
+		)
+	);
+	return sql`(${sql.join(
+		branches.map((branch) => sql`(${branch})`),
+		sql` or `
+	)})`;
+}
+
+/**
+ * Select field carrying each row's cursor (read by paginate)
+ */
+export function keysetCursorField(set: Keyset): SQL<string> {
+	return sql<string>`json_build_array(${set.name}::text, ${sql.join(
+		set.keys.map((key) => sql`(${key.expression})::text`),
+		sql`, `
+	)})::text`;
+}
+
+/**
+ * The page and its pagination block, from rows fetched with `limit + 1` (the
+ * extra row only signals that there is more) and a `pageCursor` field from
+ * keysetCursorField
+ */
+export function paginate<T extends { pageCursor: string }>(
+	rows: T[],
+	page: PageRequest,
+	total?: number
+): { items: Omit<T, "pageCursor">[]; pagination: Pagination } {
+	const hasMore = rows.length > page.limit;
+	const pageRows = rows.slice(0, page.limit);
+	const last = pageRows[pageRows.length - 1];
+
+	return {
+		items: pageRows.map(({ pageCursor, ...row }) => row),
+		pagination: {
+			...(total !== undefined && { total }),
+			limit: page.limit,
+			offset: page.offset,
+			hasMore,
+			nextCursor: hasMore && last ? Buffer.from(last.pageCursor, "utf8").toString("base64url") : null,
+		},
+	};
+}
@@ -5,17 +5,36 @@
 
 import "../config/loadEnv.ts";
 import { Worker, Job } from "bullmq";
-import nodemailer from "nodemailer";
 import { db } from "../config/database.ts";
 import { eq } from "drizzle-orm";
-import { kycRecords, KycStatuses } from "../db/index.ts";
 import {
+	kycRecords,
+	KycStatuses,
+	DigestFrequencies,
+	EmailDeliveryStatuses,
+	JobAlertFrequencies,
+} from "../db/index.ts";
+import {
+	getQueue,
+	isJobExhausted,
+	moveToDeadLetter,
+	QueueName,
 	QueueNames,
 	EmailJobData,
 	InAppNotificationJobData,
+	PhoneMessageJobData,
+	DigestJobData,
+	JobAlertJobData,
+	InterviewReminderJobData,
 	KycProcessJobData,
 	CleanupJobData,
 } from "../services/queueService.ts";
+import { storeInAppNotification } from "../services/notificationService.ts";
+import { deliverEmail } from "../services/emailDeliveryService.ts";
+import { PhoneChannels, sendPhoneMessage } from "../services/channels/index.ts";
+import { sendDueDigests } from "../services/notificationDigestService.ts";
+import { sendJobAlerts } from "../services/jobAlertService.ts";
+import { sendInterviewReminder } from "../services/interviewService.ts";
 
 // ============================================
 // Redis Connection
@@ -27,23 +46,6 @@ const redisConnection = {
 	password: process.env.REDIS_PASSWORD || undefined,
 };
 
-// ============================================
-// Email Transporter
-// ============================================
-
-const transporter = nodemailer.createTransport({
-	host: process.env.SMTP_HOST || "smtp.gmail.com",
-	port: parseInt(process.env.SMTP_PORT || "587"),
-	secure: process.env.SMTP_SECURE === "true",
-	auth: {
-		user: process.env.SMTP_USER,
-		pass: process.env.SMTP_PASS,
-	},
-});
-
-const FROM_EMAIL = process.env.FROM_EMAIL || "noreply@equalio.com";
-const FROM_NAME = process.env.FROM_NAME || "Equalio";
-
 // ============================================
 // Email Worker
 // ============================================
@@ -51,18 +53,22 @@ const FROM_NAME = process.env.FROM_NAME || "Equalio";
 const emailWorker = new Worker<EmailJobData>(
 	QueueNames.NOTIFICATION_EMAIL,
 	async (job: Job<EmailJobData>) => {
-		const { to, subject, template, data } = job.data;
-
-		console.log(`[Email] Sending to ${to}: ${subject}`);
+		const { to, template } = job.data;
 
-		await transporter.sendMail({
-			from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
-			to,
-			subject,
-			html: data.html || `Template: ${template}`,
+		// Tracks the attempt in email_deliveries; hard bounces throw UnrecoverableError (no retry)
+		const result = await deliverEmail(job.data, {
+			number: job.attemptsMade + 1,
+			maxAttempts: job.opts.attempts ?? 1,
 		});
 
-		console.log(`[Email] Sent to ${to}`);
+		if (result.status === EmailDeliveryStatuses.SUPPRESSED) {
+			console.log(`[Email] Skipped ${template} to ${to}: recipient is suppressed`);
+			return;
+		}
+
+		console.log(
+			`[Email] Sent ${template} to ${to} (${result.source}${result.version ? ` v${result.version}` : ""})`
+		);
 	},
 	{ connection: redisConnection, concurrency: 5 }
 );
@@ -74,17 +80,149 @@ const emailWorker = new Worker<EmailJobData>(
 const inAppWorker = new Worker<InAppNotificationJobData>(
 	QueueNames.NOTIFICATION_INAPP,
 	async (job: Job<InAppNotificationJobData>) => {
-		const { userId, type, title, message, link } = job.data;
+		const { userId, type, title, message, link, metadata } = job.data;
 
 		console.log(`[InApp] Creating notification for user ${userId}: ${title}`);
 
-		// In production, insert into notifications table
-		// For now, log it
-		console.log(`[InApp] Notification created: ${type} - ${message}`);
+		const notification = await storeInAppNotification({
+			userId: BigInt(userId),
+			type,
+			title,
+			message,
+			link,
+			metadata,
+		});
+
+		console.log(`[InApp] Notification ${notification.id} created: ${type}`);
 	},
 	{ connection: redisConnection, concurrency: 10 }
 );
 
+// ============================================
+// SMS / WhatsApp Workers
+// ============================================
+
+const smsWorker = new Worker<PhoneMessageJobData>(
+	QueueNames.NOTIFICATION_SMS,
+	async (job: Job<PhoneMessageJobData>) => {
+		const { to, body, type, template } = job.data;
+
+		const result = await sendPhoneMessage(PhoneChannels.SMS, { to, body, template });
+
+		console.log(`[SMS] Sent ${type || "message"} to ${to} via ${result.provider}`);
+	},
+	{ connection: redisConnection, concurrency: 5 }
+);
+
+const whatsappWorker = new Worker<PhoneMessageJobData>(
+	QueueNames.NOTIFICATION_WHATSAPP,
+	async (job: Job<PhoneMessageJobData>) => {
+		const { to, body, type, template } = job.data;
+
+		const result = await sendPhoneMessage(PhoneChannels.WHATSAPP, { to, body, template });
+
+		console.log(`[WhatsApp] Sent ${type || "message"} to ${to} via ${result.provider}`);
+	},
+	{ connection: redisConnection, concurrency: 5 }
+);
+
+// ============================================
+// Notification Digest Worker
+// ============================================
+
+const digestWorker = new Worker<DigestJobData>(
+	QueueNames.NOTIFICATION_DIGEST,
+	async (job: Job<DigestJobData>) => {
+		const frequency =
+			job.data.frequency === "weekly" ? DigestFrequencies.WEEKLY : DigestFrequencies.DAILY;
+
+		console.log(`[Digest] Sending ${frequency} digests`);
+
+		const { users, sent } = await sendDueDigests(frequency);
+
+		console.log(`[Digest] Sent ${sent} ${frequency} digests (${users} users with pending items)`);
+	},
+	{ connection: redisConnection, concurrency: 1 }
+);
+
+// Repeatable schedules (upserted on every start, so cron changes apply on deploy)
+const DIGEST_TIMEZONE = process.env.DIGEST_TIMEZONE || "Asia/Kolkata";
+
+async function scheduleDigestJobs() {
+	const queue = getQueue(QueueNames.NOTIFICATION_DIGEST);
+
+	await queue.upsertJobScheduler(
+		"digest-daily",
+		{ pattern: process.env.DIGEST_DAILY_CRON || "0 9 * * *", tz: DIGEST_TIMEZONE },
+		{ name: "send-digests", data: { frequency: "daily" } }
+	);
+	await queue.upsertJobScheduler(
+		"digest-weekly",
+		{ pattern: process.env.DIGEST_WEEKLY_CRON || "0 9 * * 1", tz: DIGEST_TIMEZONE },
+		{ name: "send-digests", data: { frequency: "weekly" } }
+	);
+}
+
+scheduleDigestJobs().catch((error) => {
+	console.error("[Digest] Failed to schedule digest jobs:", error);
+});
+
+// ============================================
+// Job Alert Worker (saved searches)
+// ============================================
+
+const jobAlertWorker = new Worker<JobAlertJobData>(
+	QueueNames.JOB_ALERTS,
+	async (job: Job<JobAlertJobData>) => {
+		const frequency =
+			job.data.frequency === "weekly" ? JobAlertFrequencies.WEEKLY : JobAlertFrequencies.DAILY;
+
+		console.log(`[JobAlerts] Sending ${frequency} job alerts`);
+
+		const { users, sent } = await sendJobAlerts(frequency);
+
+		console.log(`[JobAlerts] Sent ${sent} ${frequency} job alerts (${users} users with saved searches)`);
+	},
+	{ connection: redisConnection, concurrency: 1 }
+);
+
+async function scheduleJobAlerts() {
+	const queue = getQueue(QueueNames.JOB_ALERTS);
+
+	// Before the digest run, so digest users get the same day's matches in their summary
+	await queue.upsertJobScheduler(
+		"job-alerts-daily",
+		{ pattern: process.env.JOB_ALERTS_DAILY_CRON || "0 8 * * *", tz: DIGEST_TIMEZONE },
+		{ name: "send-job-alerts", data: { frequency: "daily" } }
+	);
+	await queue.upsertJobScheduler(
+		"job-alerts-weekly",
+		{ pattern: process.env.JOB_ALERTS_WEEKLY_CRON || "0 8 * * 1", tz: DIGEST_TIMEZONE },
+		{ name: "send-job-alerts", data: { frequency: "weekly" } }
+	);
+}
+
+scheduleJobAlerts().catch((error) => {
+	console.error("[JobAlerts] Failed to schedule job alerts:", error);
+});
+
+// ============================================
+// Interview Reminder Worker
+// ============================================
+
+const interviewReminderWorker = new Worker<InterviewReminderJobData>(
+	QueueNames.INTERVIEW_REMINDERS,
+	async (job: Job<InterviewReminderJobData>) => {
+		const { interviewId, sequence } = job.data;
+
+		// Queued when the interview was (re)scheduled; skipped if it has changed since
+		const sent = await sendInterviewReminder(BigInt(interviewId), sequence);
+
+		console.log(`[Interviews] ${sent ? "Sent" : "Skipped"} reminder for interview ${interviewId}`);
+	},
+	{ connection: redisConnection, concurrency: 5 }
+);
+
 // ============================================
 // KYC Process Worker (OCR placeholder)
 // ============================================
@@ -139,13 +277,33 @@ const cleanupWorker = new Worker<CleanupJobData>(
 // Event Handlers
 // ============================================
 
-[emailWorker, inAppWorker, kycWorker, cleanupWorker].forEach((worker) => {
+[
+	emailWorker,
+	inAppWorker,
+	smsWorker,
+	whatsappWorker,
+	digestWorker,
+	jobAlertWorker,
+	interviewReminderWorker,
+	kycWorker,
+	cleanupWorker,
+].forEach((worker) => {
 	worker.on("completed", (job) => {
 		console.log(`[${worker.name}] Job ${job.id} completed`);
 	});
 
-	worker.on("failed", (job, err) => {
+	worker.on("failed", async (job, err) => {
 		console.error(`[${worker.name}] Job ${job?.id} failed:`, err.message);
+
+		// Out of retries: park it in the dead-letter queue for the admin console
+		if (job && isJobExhausted(job, err)) {
+			try {
+				await moveToDeadLetter(worker.name as QueueName, job, err);
+				console.error(`[${worker.name}] Job ${job.id} moved to ${QueueNames.DEAD_LETTER}`);
+			} catch (error) {
+				console.error(`[${worker.name}] Failed to dead-letter job ${job.id}:`, error);
+			}
+		}
 	});
 });
 
@@ -158,6 +316,11 @@ async function shutdown() {
 	await Promise.all([
 		emailWorker.close(),
 		inAppWorker.close(),
+		smsWorker.close(),
+		whatsappWorker.close(),
+		digestWorker.close(),
+		jobAlertWorker.close(),
+		interviewReminderWorker.close(),
 		kycWorker.close(),
 		cleanupWorker.close(),
 	]);
@@ -171,5 +334,10 @@ process.on("SIGINT", shutdown);
 console.log("Workers started:");
 console.log(`  - ${QueueNames.NOTIFICATION_EMAIL}`);
 console.log(`  - ${QueueNames.NOTIFICATION_INAPP}`);
+console.log(`  - ${QueueNames.NOTIFICATION_SMS}`);
+console.log(`  - ${QueueNames.NOTIFICATION_WHATSAPP}`);
+console.log(`  - ${QueueNames.NOTIFICATION_DIGEST}`);
+console.log(`  - ${QueueNames.JOB_ALERTS}`);
+console.log(`  - ${QueueNames.INTERVIEW_REMINDERS}`);
 console.log(`  - ${QueueNames.KYC_PROCESS}`);
 console.log(`  - ${QueueNames.CLEANUP_RETENTION}`);
@@ -0,0 +1,251 @@
+/**
+ * Unit Test: Application Status State Machine
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ApplicationStatuses, InterviewStatuses } from "../../src/db/index.ts";
+import { HTTPError } from "../../src/config/error.ts";
+import {
+	APPLICATION_STATUS_TRANSITIONS,
+	assertApplicationTransition,
+	canTransitionApplication,
+	changeApplicationStatus,
+	getApplicationTimeline,
+	submissionStatusHistory,
+} from "../../src/services/applicationStatusService.ts";
+
+// Stand-in for the drizzle client: records writes, returns the rows set per
+// test (vi.mock is hoisted above the imports)
+const fakeDb = vi.hoisted(() => {
+	const state = {
+		updatedRows: [] as unknown[],
+		selectedRows: [] as unknown[],
+		updates: [] as { set: Record<string, unknown> }[],
+		inserts: [] as unknown[],
+	};
+	const tx = {
+		update: () => ({
+			set: (set: Record<string, unknown>) => ({
+				where: () => ({
+					returning: async () => {
+						state.updates.push({ set });
+						return state.updatedRows;
+					},
+				}),
+			}),
+		}),
+		insert: () => ({
+			values: async (values: unknown) => {
+				state.inserts.push(values);
+			},
+		}),
+	};
+	const db = {
+		...tx,
+		transaction: async <T>(run: (transaction: typeof tx) => Promise<T>) => run(tx),
+		select: () => ({
+			from: () => ({ where: () => ({ orderBy: async () => state.selectedRows }) }),
+		}),
+	};
+	return { state, db };
+});
+
+vi.mock("../../src/config/database.ts", () => ({ db: fakeDb.db, default: fakeDb.db }));
+
+const ALL_STATUSES = Object.values(ApplicationStatuses);
+
+async function expectHTTPError(run: () => unknown, httpStatus: number) {
+	try {
+		await run();
+	} catch (error) {
+		expect(error).toBeInstanceOf(HTTPError);
+		expect((error as HTTPError).httpStatus).toBe(httpStatus);
+		return error as HTTPError;
+	}
+	throw new Error(`Expected HTTP ${httpStatus}`);
+}
+
+describe("Application Status", () => {
+	beforeEach(() => {
+		fakeDb.state.updatedRows = [];
+		fakeDb.state.selectedRows = [];
+		fakeDb.state.updates = [];
+		fakeDb.state.inserts = [];
+	});
+
+	describe("Transitions", () => {
+		it("should define the next statuses of every status", () => {
+			expect(Object.keys(APPLICATION_STATUS_TRANSITIONS).sort()).toEqual([...ALL_STATUSES].sort());
+		});
+
+		it("should treat hired and withdrawn as terminal", () => {
+			for (const to of ALL_STATUSES) {
+				expect(canTransitionApplication(ApplicationStatuses.HIRED, to)).toBe(false);
+				expect(canTransitionApplication(ApplicationStatuses.WITHDRAWN, to)).toBe(false);
+			}
+		});
+
+		it("should refuse to move a hired application back to pending", () => {
+			expect(() => assertApplicationTransition(ApplicationStatuses.HIRED, ApplicationStatuses.PENDING)).toThrow(
+				"Cannot change application status from hired to pending"
+			);
+		});
+
+		it("should never lead back to pending", () => {
+			for (const from of ALL_STATUSES) {
+				expect(canTransitionApplication(from, ApplicationStatuses.PENDING)).toBe(false);
+			}
+		});
+
+		it("should let a rejected application be reconsidered", () => {
+			expect(canTransitionApplication(ApplicationStatuses.REJECTED, ApplicationStatuses.SHORTLISTED)).toBe(true);
+			expect(canTransitionApplication(ApplicationStatuses.REJECTED, ApplicationStatuses.HIRED)).toBe(false);
+		});
+
+		it("should only hire from an offer", () => {
+			const from = ALL_STATUSES.filter((status) => canTransitionApplication(status, ApplicationStatuses.HIRED));
+			expect(from).toEqual([ApplicationStatuses.OFFERED]);
+		});
+
+		it("should let candidates withdraw until shortlisted", () => {
+			const from = ALL_STATUSES.filter((status) => canTransitionApplication(status, ApplicationStatuses.WITHDRAWN));
+			expect(from).toEqual([
+				ApplicationStatuses.PENDING,
+				ApplicationStatuses.REVIEWED,
+				ApplicationStatuses.SHORTLISTED,
+			]);
+		});
+
+		it("should list the allowed statuses when a move is refused", async () => {
+			const error = await expectHTTPError(
+				() => assertApplicationTransition(ApplicationStatuses.OFFERED, ApplicationStatuses.INTERVIEW),
+				400
+			);
+			expect(error.reason).toEqual({
+				from: ApplicationStatuses.OFFERED,
+				to: ApplicationStatuses.INTERVIEW,
+				allowed: [ApplicationStatuses.HIRED, ApplicationStatuses.REJECTED],
+			});
+		});
+	});
+
+	describe("changeApplicationStatus", () => {
+		const change = {
+			applicationId: 10n,
+			from: ApplicationStatuses.PENDING,
+			to: ApplicationStatuses.SHORTLISTED,
+			changedBy: 2n,
+			note: "Strong profile",
+		};
+
+		it("should update the status and record the move in the history", async () => {
+			fakeDb.state.updatedRows = [{ id: 10n, status: ApplicationStatuses.SHORTLISTED }];
+
+			const { application, cancelledInterviews } = await changeApplicationStatus(change);
+
+			expect(application).toEqual({ id: 10n, status: ApplicationStatuses.SHORTLISTED });
+			expect(cancelledInterviews).toEqual([]);
+			expect(fakeDb.state.updates).toHaveLength(1);
+			expect(fakeDb.state.updates[0].set).toMatchObject({
+				status: ApplicationStatuses.SHORTLISTED,
+				statusChangedBy: 2n,
+				shortlistedAt: expect.any(Date),
+			});
+			expect(fakeDb.state.inserts).toEqual([
+				{
+					applicationId: 10n,
+					fromStatus: ApplicationStatuses.PENDING,
+					toStatus: ApplicationStatuses.SHORTLISTED,
+					changedBy: 2n,
+					note: "Strong profile",
+					createdAt: expect.any(Date),
+				},
+			]);
+		});
+
+		it("should cancel the open interviews of an application leaving interview", async () => {
+			fakeDb.state.updatedRows = [{ id: 10n, status: ApplicationStatuses.REJECTED }];
+
+			await changeApplicationStatus({ ...change, from: ApplicationStatuses.INTERVIEW, to: ApplicationStatuses.REJECTED });
+
+			expect(fakeDb.state.updates).toHaveLength(2);
+			expect(fakeDb.state.updates[1].set).toMatchObject({
+				status: InterviewStatuses.CANCELLED,
+				updatedAt: expect.any(Date),
+			});
+			expect(fakeDb.state.updates[1].set).toHaveProperty("sequence");
+		});
+
+		it("should write through the caller's transaction when given one", async () => {
+			const tx = {
+				update: vi.fn(fakeDb.db.update),
+				insert: vi.fn(fakeDb.db.insert),
+			};
+			const transaction = vi.spyOn(fakeDb.db, "transaction");
+			fakeDb.state.updatedRows = [{ id: 10n, status: ApplicationStatuses.SHORTLISTED }];
+
+			await changeApplicationStatus(change, tx as never);
+
+			expect(transaction).not.toHaveBeenCalled();
+			expect(tx.update).toHaveBeenCalledTimes(1);
+			expect(tx.insert).toHaveBeenCalledTimes(1);
+			transaction.mockRestore();
+		});
+
+		it("should return 409 when the status changed concurrently", async () => {
+			fakeDb.state.updatedRows = [];
+
+			await expectHTTPError(() => changeApplicationStatus(change), 409);
+			expect(fakeDb.state.inserts).toEqual([]);
+		});
+
+		it("should refuse a move the graph does not allow before writing", async () => {
+			await expectHTTPError(
+				() => changeApplicationStatus({ ...change, from: ApplicationStatuses.WITHDRAWN }),
+				400
+			);
+			expect(fakeDb.state.updates).toEqual([]);
+		});
+	});
+
+	describe("History and timeline", () => {
+		const appliedAt = new Date("2024-05-01T09:00:00Z");
+
+		it("should record a submission as one entry by the candidate", () => {
+			expect(
+				submissionStatusHistory({ id: 10n, jobseekerId: 5n, status: ApplicationStatuses.PENDING, appliedAt })
+			).toEqual([
+				{ applicationId: 10n, fromStatus: null, toStatus: ApplicationStatuses.PENDING, changedBy: 5n, createdAt: appliedAt },
+			]);
+		});
+
+		it("should add a system rejection for a knocked-out submission", () => {
+			const entries = submissionStatusHistory(
+				{ id: 10n, jobseekerId: 5n, status: ApplicationStatuses.REJECTED, appliedAt },
+				"Did not meet the job's screening requirements"
+			);
+			expect(entries[1]).toEqual({
+				applicationId: 10n,
+				fromStatus: ApplicationStatuses.PENDING,
+				toStatus: ApplicationStatuses.REJECTED,
+				changedBy: null,
+				note: "Did not meet the job's screening requirements",
+				createdAt: appliedAt,
+			});
+		});
+
+		it("should reduce actors to candidate, employer and system", async () => {
+			const entry = { note: null, changedAt: appliedAt };
+			fakeDb.state.selectedRows = [
+				{ ...entry, fromStatus: null, toStatus: ApplicationStatuses.PENDING, changedBy: 5n },
+				{ ...entry, fromStatus: ApplicationStatuses.PENDING, toStatus: ApplicationStatuses.REVIEWED, changedBy: 2n },
+				{ ...entry, fromStatus: ApplicationStatuses.REVIEWED, toStatus: ApplicationStatuses.REJECTED, changedBy: null },
+			];
+
+			const timeline = await getApplicationTimeline({ id: 10n, jobseekerId: 5n });
+
+			expect(timeline.map((item) => item.actor)).toEqual(["candidate", "employer", "system"]);
+			expect(timeline.every((item) => !("changedBy" in item))).toBe(true);
+		});
+	});
+});
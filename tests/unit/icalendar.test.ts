@@ -0,0 +1,142 @@
+/**
+ * Unit Test: iCalendar Invitations
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildCalendar, CalendarEvent, calendarContentType } from "../../src/utils/icalendar.ts";
+
+const event: CalendarEvent = {
+	uid: "interview-1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed@equalio",
+	sequence: 2,
+	start: new Date("2026-01-05T09:30:00.000Z"),
+	durationMinutes: 45,
+	summary: "Interview: Delivery Associate at Acme Logistics",
+	organizer: { name: "Acme Logistics", email: "noreply@equalio.com" },
+	attendee: { name: "Aisha Khan", email: "aisha@example.com" },
+};
+
+/** Content lines with folding undone (RFC 5545 3.1) */
+function unfold(calendar: string): string[] {
+	return calendar.replace(/\r\n /g, "").split("\r\n").filter(Boolean);
+}
+
+function property(calendar: string, name: string): string | undefined {
+	return unfold(calendar).find((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+}
+
+describe("iCalendar", () => {
+	describe("Methods", () => {
+		it("should build a confirmed event for a REQUEST", () => {
+			const calendar = buildCalendar(event, "REQUEST");
+
+			expect(property(calendar, "METHOD")).toBe("METHOD:REQUEST");
+			expect(property(calendar, "STATUS")).toBe("STATUS:CONFIRMED");
+			expect(calendarContentType("REQUEST")).toBe("text/calendar; charset=utf-8; method=REQUEST");
+		});
+
+		it("should build a cancelled event with the same uid for a CANCEL", () => {
+			const calendar = buildCalendar({ ...event, sequence: 3 }, "CANCEL");
+
+			expect(property(calendar, "METHOD")).toBe("METHOD:CANCEL");
+			expect(property(calendar, "STATUS")).toBe("STATUS:CANCELLED");
+			expect(property(calendar, "UID")).toBe(`UID:${event.uid}`);
+			expect(property(calendar, "SEQUENCE")).toBe("SEQUENCE:3");
+			expect(calendarContentType("CANCEL")).toBe("text/calendar; charset=utf-8; method=CANCEL");
+		});
+	});
+
+	describe("Event", () => {
+		it("should use UTC start and end times from the duration", () => {
+			const calendar = buildCalendar(event, "REQUEST");
+
+			expect(property(calendar, "DTSTART")).toBe("DTSTART:20260105T093000Z");
+			expect(property(calendar, "DTEND")).toBe("DTEND:20260105T101500Z");
+			expect(property(calendar, "DTSTAMP")).toMatch(/^DTSTAMP:\d{8}T\d{6}Z$/);
+		});
+
+		it("should leave out optional properties that are not set", () => {
+			const calendar = buildCalendar({ ...event, attendee: undefined }, "REQUEST");
+
+			for (const name of ["DESCRIPTION", "LOCATION", "URL", "ATTENDEE"]) {
+				expect(property(calendar, name)).toBeUndefined();
+			}
+		});
+
+		it("should wrap the document in CRLF lines", () => {
+			const calendar = buildCalendar(event, "REQUEST");
+
+			expect(calendar.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+			expect(calendar.endsWith("END:VEVENT\r\nEND:VCALENDAR\r\n")).toBe(true);
+			expect(calendar.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+		});
+	});
+
+	describe("Escaping", () => {
+		it("should escape backslashes, semicolons, commas and newlines in text", () => {
+			const calendar = buildCalendar(
+				{
+					...event,
+					description: "Bring: ID, resume; PAN\\Aadhaar\nAsk for Ravi",
+					location: "Plot 4, Sector 18; Gurugram",
+				},
+				"REQUEST"
+			);
+
+			expect(property(calendar, "DESCRIPTION")).toBe(
+				"DESCRIPTION:Bring: ID\\, resume\\; PAN\\\\Aadhaar\\nAsk for Ravi"
+			);
+			expect(property(calendar, "LOCATION")).toBe("LOCATION:Plot 4\\, Sector 18\\; Gurugram");
+		});
+
+		it("should quote names in parameters", () => {
+			const calendar = buildCalendar(
+				{ ...event, organizer: { name: 'Acme "Fast" Logistics; Pvt', email: "noreply@equalio.com" } },
+				"REQUEST"
+			);
+
+			expect(property(calendar, "ORGANIZER")).toBe(
+				"ORGANIZER;CN=\"Acme 'Fast' Logistics; Pvt\":mailto:noreply@equalio.com"
+			);
+			expect(property(calendar, "ATTENDEE")).toBe(
+				'ATTENDEE;CN="Aisha Khan";ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:aisha@example.com'
+			);
+		});
+	});
+
+	describe("Folding", () => {
+		const description = "Interviewer: Priya Sharma. ".repeat(10) + "नमस्ते, कृपया समय पर पहुँचें। ".repeat(5);
+
+		it("should keep every physical line within 75 octets", () => {
+			const calendar = buildCalendar({ ...event, description }, "REQUEST");
+			const lines = calendar.split("\r\n");
+
+			expect(lines.length).toBeGreaterThan(unfold(calendar).length);
+			for (const line of lines) {
+				expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+			}
+		});
+
+		it("should fold between characters so multi-byte text unfolds unchanged", () => {
+			const calendar = buildCalendar({ ...event, description }, "REQUEST");
+
+			expect(property(calendar, "DESCRIPTION")).toBe(`DESCRIPTION:${description.replace(/,/g, "\\,")}`);
+		});
+
+		it("should continue a folded line on lines starting with a space", () => {
+			const calendar = buildCalendar({ ...event, description }, "REQUEST");
+			const lines = calendar.split("\r\n");
+			const start = lines.findIndex((line) => line.startsWith("DESCRIPTION:"));
+
+			expect(Buffer.byteLength(lines[start], "utf8")).toBe(75);
+			expect(lines[start + 1]).toMatch(/^ /);
+			expect(lines[start + 2]).toMatch(/^ /);
+		});
+
+		it("should leave lines of exactly 75 octets unfolded", () => {
+			const summary = "x".repeat(75 - "SUMMARY:".length);
+			const calendar = buildCalendar({ ...event, summary }, "REQUEST");
+
+			expect(calendar.split("\r\n")).toContain(`SUMMARY:${summary}`);
+		});
+	});
+});
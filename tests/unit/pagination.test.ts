@@ -0,0 +1,172 @@
+/**
+ * Unit Test: Keyset Pagination
+ */
+
+import { describe, it, expect } from "vitest";
+import { sql, SQL } from "drizzle-orm";
+import { bigserial, doublePrecision, PgDialect, pgTable, timestamp } from "drizzle-orm/pg-core";
+import {
+	keyset,
+	keysetCondition,
+	keysetCursorField,
+	keysetOrderBy,
+	paginate,
+	parsePageRequest,
+	sortKey,
+} from "../../src/utils/pagination.ts";
+import { HTTPError } from "../../src/config/error.ts";
+
+const items = pgTable("items", {
+	id: bigserial("id", { mode: "bigint" }),
+	createdAt: timestamp("created_at", { mode: "date" }),
+	score: doublePrecision("score"),
+});
+
+const dialect = new PgDialect();
+const render = (query: SQL) => dialect.sqlToQuery(query);
+
+const NEWEST = keyset("items-newest", [sortKey(items.createdAt, "desc"), sortKey(items.id, "desc")]);
+const BEST = keyset("items-best", [sortKey(items.score, "desc"), sortKey(items.id, "asc")]);
+
+/** Cursor as paginate encodes it from the row's pageCursor field */
+function cursorFor(name: string, ...values: unknown[]): string {
+	return Buffer.from(JSON.stringify([name, ...values]), "utf8").toString("base64url");
+}
+
+function expectInvalidCursor(run: () => unknown) {
+	try {
+		run();
+	} catch (error) {
+		expect(error).toBeInstanceOf(HTTPError);
+		expect((error as HTTPError).httpStatus).toBe(400);
+		expect((error as HTTPError).message).toBe("Invalid cursor");
+		return;
+	}
+	throw new Error("Expected an invalid cursor error");
+}
+
+describe("Keyset Pagination", () => {
+	describe("parsePageRequest", () => {
+		it("should clamp the limit and default the offset", () => {
+			expect(parsePageRequest({}, { defaultLimit: 20, maxLimit: 50 })).toEqual({
+				limit: 20,
+				offset: 0,
+				cursor: null,
+			});
+			expect(parsePageRequest({ limit: "500", offset: "-3" }, { defaultLimit: 20, maxLimit: 50 })).toEqual({
+				limit: 50,
+				offset: 0,
+				cursor: null,
+			});
+		});
+
+		it("should ignore offset when a cursor is given", () => {
+			const page = parsePageRequest({ offset: "40", cursor: "abc" }, { defaultLimit: 20, maxLimit: 50 });
+			expect(page).toEqual({ limit: 20, offset: 0, cursor: "abc" });
+		});
+	});
+
+	describe("keysetCondition", () => {
+		it("should add no condition on the first page", () => {
+			expect(keysetCondition(NEWEST, { limit: 20, offset: 0, cursor: null })).toBeUndefined();
+		});
+
+		it("should use a row comparison when every key has the same direction", () => {
+			const cursor = cursorFor(NEWEST.name, "2024-03-01 10:15:30.123456", "42");
+			const query = render(keysetCondition(NEWEST, { limit: 20, offset: 0, cursor })!);
+
+			expect(query.sql).toBe('("items"."created_at", "items"."id") < ($1, $2)');
+			expect(query.params).toEqual(["2024-03-01 10:15:30.123456", "42"]);
+		});
+
+		it("should expand mixed directions into one branch per key", () => {
+			const cursor = cursorFor(BEST.name, "0.30000000000000004", "7");
+			const query = render(keysetCondition(BEST, { limit: 20, offset: 0, cursor })!);
+
+			expect(query.sql).toBe(
+				'(("items"."score" < $1) or ("items"."score" = $2 and "items"."id" > $3))'
+			);
+			expect(query.params).toEqual(["0.30000000000000004", "0.30000000000000004", "7"]);
+		});
+
+		it("should order by every key in its direction", () => {
+			const query = render(sql.join(keysetOrderBy(BEST), sql`, `));
+			expect(query.sql).toBe('"items"."score" desc, "items"."id" asc');
+		});
+	});
+
+	describe("Cursor round-trip", () => {
+		it("should select each key as text so no precision is lost", () => {
+			const query = render(keysetCursorField(NEWEST));
+			expect(query.sql).toBe(
+				'json_build_array($1::text, ("items"."created_at")::text, ("items"."id")::text)::text'
+			);
+			expect(query.params).toEqual([NEWEST.name]);
+		});
+
+		it("should carry timestamp and float keys back unchanged", () => {
+			// pageCursor as Postgres returns it from keysetCursorField
+			const rows = [
+				{ id: 1, pageCursor: '["items-best", "1.5", "1"]' },
+				{ id: 2, pageCursor: '["items-best", "0.30000000000000004", "2"]' },
+				{ id: 3, pageCursor: '["items-best", "0.1", "3"]' },
+			];
+			const page = { limit: 2, offset: 0, cursor: null };
+
+			const { items: pageItems, pagination } = paginate(rows, page, 3);
+			expect(pageItems).toEqual([{ id: 1 }, { id: 2 }]);
+			expect(pagination).toEqual({
+				total: 3,
+				limit: 2,
+				offset: 0,
+				hasMore: true,
+				nextCursor: expect.any(String),
+			});
+
+			const query = render(keysetCondition(BEST, { ...page, cursor: pagination.nextCursor })!);
+			expect(query.params).toEqual(["0.30000000000000004", "0.30000000000000004", "2"]);
+
+			const timestamps = [{ pageCursor: '["items-newest", "2024-03-01 10:15:30.123456", "9"]' }];
+			const { pagination: last } = paginate([...timestamps, ...timestamps], { limit: 1, offset: 0, cursor: null });
+			const next = render(keysetCondition(NEWEST, { limit: 1, offset: 0, cursor: last.nextCursor })!);
+			expect(next.params).toEqual(["2024-03-01 10:15:30.123456", "9"]);
+		});
+
+		it("should return no cursor on the last page", () => {
+			const { pagination } = paginate([{ pageCursor: '["items-best", "1", "1"]' }], {
+				limit: 20,
+				offset: 0,
+				cursor: null,
+			});
+			expect(pagination.hasMore).toBe(false);
+			expect(pagination.nextCursor).toBeNull();
+			expect(pagination).not.toHaveProperty("total");
+		});
+	});
+
+	describe("Invalid cursors", () => {
+		const page = (cursor: string) => ({ limit: 20, offset: 0, cursor });
+
+		it("should reject a cursor from another list", () => {
+			expectInvalidCursor(() => keysetCondition(NEWEST, page(cursorFor(BEST.name, "1", "1"))));
+		});
+
+		it("should reject a cursor with the wrong number of keys", () => {
+			expectInvalidCursor(() => keysetCondition(NEWEST, page(cursorFor(NEWEST.name, "42"))));
+			expectInvalidCursor(() => keysetCondition(NEWEST, page(cursorFor(NEWEST.name, "a", "b", "c"))));
+		});
+
+		it("should reject tampered cursors", () => {
+			expectInvalidCursor(() => keysetCondition(NEWEST, page("not base64 json")));
+			expectInvalidCursor(() => keysetCondition(NEWEST, page(cursorFor(NEWEST.name, 42, "1"))));
+			expectInvalidCursor(() => keysetCondition(NEWEST, page(cursorFor(NEWEST.name, null, "1"))));
+			expectInvalidCursor(() =>
+				keysetCondition(NEWEST, page(Buffer.from('{"0":"items-newest"}').toString("base64url")))
+			);
+		});
+
+		it("should reject oversized cursors", () => {
+			expectInvalidCursor(() => keysetCondition(NEWEST, page(cursorFor(NEWEST.name, "x".repeat(2000), "1"))));
+		});
+	});
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit Test: Screening Questions
+ */
+
+import { describe, it, expect } from "vitest";
+import { ScreeningQuestion, ScreeningQuestionTypes } from "../../src/db/index.ts";
+import { HTTPError } from "../../src/config/error.ts";
+import {
+	normalizeScreeningQuestions,
+	sameScreeningQuestions,
+	scoreScreeningAnswers,
+	screeningQuestionsSchema,
+	validateScreeningAnswers,
+} from "../../src/services/screeningService.ts";
+
+const questions: ScreeningQuestion[] = [
+	{
+		id: "licence",
+		type: ScreeningQuestionTypes.YES_NO,
+		question: "Do you have a two-wheeler licence?",
+		required: true,
+		knockout: true,
+		expectedAnswer: true,
+	},
+	{
+		id: "experience",
+		type: ScreeningQuestionTypes.NUMERIC,
+		question: "Years of delivery experience",
+		required: true,
+		knockout: false,
+		expectedAnswer: 2,
+	},
+	{
+		id: "languages",
+		type: ScreeningQuestionTypes.MULTI_CHOICE,
+		question: "Languages you speak",
+		required: false,
+		options: ["Hindi", "English", "Kannada"],
+		knockout: false,
+		expectedAnswer: ["Hindi", "Kannada"],
+	},
+	{
+		id: "area",
+		type: ScreeningQuestionTypes.SHORT_TEXT,
+		question: "Which area do you live in?",
+		required: false,
+		knockout: false,
+	},
+];
+
+function validationIssues(answers: Record<string, unknown>) {
+	try {
+		validateScreeningAnswers(questions, answers);
+	} catch (error) {
+		expect(error).toBeInstanceOf(HTTPError);
+		expect((error as HTTPError).httpStatus).toBe(400);
+		return ((error as HTTPError).reason as { issues: { questionId: string; message: string }[] }).issues;
+	}
+	throw new Error("Expected the answers to be rejected");
+}
+
+describe("Screening Questions", () => {
+	describe("Question set", () => {
+		it("should require an expected answer on knockout questions", () => {
+			const result = screeningQuestionsSchema.safeParse([
+				{ type: ScreeningQuestionTypes.YES_NO, question: "Can you start this week?", knockout: true },
+			]);
+			expect(result.success).toBe(false);
+		});
+
+		it("should require the expected answer to be one of the options", () => {
+			const result = screeningQuestionsSchema.safeParse([
+				{
+					type: ScreeningQuestionTypes.SINGLE_CHOICE,
+					question: "Preferred shift",
+					options: ["Morning", "Evening"],
+					expectedAnswer: "Night",
+				},
+			]);
+			expect(result.success).toBe(false);
+		});
+
+		it("should keep ids, assign new ones and make knockout questions required", () => {
+			const [kept, added] = normalizeScreeningQuestions([
+				{ id: "licence", type: ScreeningQuestionTypes.YES_NO, question: "Licence?", required: false, knockout: true, expectedAnswer: true },
+				{ type: ScreeningQuestionTypes.SHORT_TEXT, question: "Where do you live?" },
+			]);
+			expect(kept).toMatchObject({ id: "licence", required: true, knockout: true });
+			expect(added.id).toMatch(/^[0-9a-f-]{36}$/);
+			expect(added).toMatchObject({ required: true, knockout: false });
+		});
+
+		it("should treat a re-saved question set as unchanged regardless of key order", () => {
+			const stored = questions.map((question) =>
+				Object.fromEntries(Object.entries(question).reverse())
+			) as ScreeningQuestion[];
+
+			expect(sameScreeningQuestions(stored, normalizeScreeningQuestions(questions))).toBe(true);
+			expect(sameScreeningQuestions(null, null)).toBe(true);
+			expect(sameScreeningQuestions(questions, questions.slice(1))).toBe(false);
+			expect(
+				sameScreeningQuestions(questions, [{ ...questions[0], expectedAnswer: false }, ...questions.slice(1)])
+			).toBe(false);
+		});
+
+		it("should see questions re-sent without ids as changed", () => {
+			const resent = normalizeScreeningQuestions(questions.map(({ id, ...question }) => question));
+			expect(sameScreeningQuestions(questions, resent)).toBe(false);
+		});
+	});
+
+	describe("validateScreeningAnswers", () => {
+		it("should trim text and drop blank optional answers", () => {
+			expect(
+				validateScreeningAnswers(questions, { licence: true, experience: 3, languages: [], area: "  Indiranagar " })
+			).toEqual({ licence: true, experience: 3, area: "Indiranagar" });
+		});
+
+		it("should list every missing, unknown and malformed answer", () => {
+			expect(validationIssues({ experience: "three", languages: ["Tamil"], salary: 20000 })).toEqual([
+				{ questionId: "salary", message: "Unknown question" },
+				{ questionId: "licence", message: "Answer is required" },
+				{ questionId: "experience", message: "Enter a number" },
+				{ questionId: "languages", message: "Choose from the options" },
+			]);
+		});
+
+		it("should reject repeated options in a multi-choice answer", () => {
+			expect(validationIssues({ licence: true, experience: 1, languages: ["Hindi", "Hindi"] })).toEqual([
+				{ questionId: "languages", message: "Choose from the options" },
+			]);
+		});
+	});
+
+	describe("scoreScreeningAnswers", () => {
+		it("should score the share of expected answers met", () => {
+			expect(scoreScreeningAnswers(questions, { licence: true, experience: 5, languages: ["Kannada", "Hindi", "English"] })).toEqual({
+				score: 100,
+				knockout: false,
+			});
+			expect(scoreScreeningAnswers(questions, { licence: true, experience: 1, languages: ["Hindi"] })).toEqual({
+				score: 33,
+				knockout: false,
+			});
+		});
+
+		it("should knock out an applicant who misses a knockout question", () => {
+			expect(scoreScreeningAnswers(questions, { licence: false, experience: 5, languages: ["Hindi", "Kannada"] })).toEqual({
+				score: 67,
+				knockout: true,
+			});
+		});
+
+		it("should count an unanswered optional question as not met without knocking out", () => {
+			expect(scoreScreeningAnswers(questions, { licence: true, experience: 2 })).toEqual({
+				score: 67,
+				knockout: false,
+			});
+		});
+
+		it("should compare text answers ignoring case and spacing", () => {
+			const text: ScreeningQuestion[] = [
+				{ id: "city", type: ScreeningQuestionTypes.SHORT_TEXT, question: "City", required: true, knockout: true, expectedAnswer: "New Delhi" },
+			];
+			expect(scoreScreeningAnswers(text, { city: "new   DELHI" })).toEqual({ score: 100, knockout: false });
+			expect(scoreScreeningAnswers(text, { city: "Mumbai" })).toEqual({ score: 0, knockout: true });
+		});
+
+		it("should not score a job without expected answers", () => {
+			expect(scoreScreeningAnswers([questions[3]], { area: "Indiranagar" })).toEqual({ score: null, knockout: false });
+		});
+	});
+});
@@ -13,6 +13,9 @@ declare global {
 			clientIp?: string;
 			clientUserAgent?: string;
 
+			// Localisation (Accept-Language, then stored user locale)
+			locale?: string;
+
 			// Raw body (for webhooks)
 			rawBody?: Buffer;
 		}